@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AnimatePresence } from "framer-motion";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { LocationProvider } from "@/contexts/LocationContext";
+import { SosEscalationWatcher } from "@/components/sos/SosEscalationWatcher";
 import Index from "./pages/Index";
 import Analytics from "./pages/Analytics";
 import Assistant from "./pages/Assistant";
@@ -17,6 +18,11 @@ import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import LocationHistory from "./pages/LocationHistory";
 import Settings from "./pages/Settings";
+import Labels from "./pages/Labels";
+import Geofences from "./pages/Geofences";
+import Simulator from "./pages/Simulator";
+import LiveTrack from "./pages/LiveTrack";
+import AcknowledgeSos from "./pages/AcknowledgeSos";
 
 const queryClient = new QueryClient();
 
@@ -62,6 +68,12 @@ function AppRoutes() {
         <Route path="/profile" element={<ProtectedRoute><ProfilePage /></ProtectedRoute>} />
         <Route path="/location-history" element={<ProtectedRoute><LocationHistory /></ProtectedRoute>} />
         <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
+        <Route path="/labels" element={<ProtectedRoute><Labels /></ProtectedRoute>} />
+        <Route path="/geofences" element={<ProtectedRoute><Geofences /></ProtectedRoute>} />
+        <Route path="/simulator" element={<ProtectedRoute><Simulator /></ProtectedRoute>} />
+        {/* Public: followed from an SOS alert, no account needed */}
+        <Route path="/live/:token" element={<LiveTrack />} />
+        <Route path="/ack/:token" element={<AcknowledgeSos />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </AnimatePresence>
@@ -77,6 +89,7 @@ const App = () => (
         <AuthProvider>
           <LocationProvider>
             <AppRoutes />
+            <SosEscalationWatcher />
           </LocationProvider>
         </AuthProvider>
       </BrowserRouter>
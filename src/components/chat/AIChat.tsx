@@ -3,7 +3,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Send, Bot, User, Sparkles, MapPin, RefreshCw, Shield } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/integrations/supabase/client";
+import { chat, type ChatMessage } from "@/lib/api";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLocationContext } from "@/contexts/LocationContext";
 import { toast } from "sonner";
@@ -65,29 +65,21 @@ export function AIChat() {
     }
 
     try {
-      const messageHistory = messages.slice(-10).map((m) => ({
+      const messageHistory: ChatMessage[] = messages.slice(-10).map((m) => ({
         role: m.role,
         content: m.content,
       }));
       messageHistory.push({ role: "user", content: messageText });
 
-      const { data, error } = await supabase.functions.invoke("chat", {
-        body: {
-          messages: messageHistory,
-          stream: false,
-          userLocation: currentLocation
-            ? { latitude: currentLocation.latitude, longitude: currentLocation.longitude }
-            : null,
-        },
-      });
-
-      if (error) throw new Error(error.message || "Failed to get response");
-      if (data?.error) throw new Error(data.error);
+      const reply = await chat(
+        messageHistory,
+        currentLocation ? { latitude: currentLocation.latitude, longitude: currentLocation.longitude } : null,
+      );
 
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: "assistant",
-        content: data?.message || "I'm sorry, I couldn't generate a response.",
+        content: reply || "I'm sorry, I couldn't generate a response.",
         timestamp: new Date(),
       };
 
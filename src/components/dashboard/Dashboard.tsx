@@ -6,11 +6,16 @@ import {
   Target,
   Calendar,
   TrendingUp,
+  Footprints,
+  Bike,
+  Car,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { fetchPredictionAccuracy, METHOD_LABELS, type PredictionAccuracy, type PredictionMethodKey } from "@/lib/prediction-accuracy";
+import { fetchTrips, segmentTrips, summarizeTrips, TRIP_MODE_LABELS, type TripMode, type TripSummary } from "@/lib/trips";
 
 interface LocationLog {
   id: string;
@@ -38,17 +43,39 @@ const item = {
 
 const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
+const modeIcons: Record<TripMode, typeof Car> = {
+  walk: Footprints,
+  cycle: Bike,
+  vehicle: Car,
+};
+
 export function Dashboard() {
   const [locationLogs, setLocationLogs] = useState<LocationLog[]>([]);
   const [loading, setLoading] = useState(true);
+  const [accuracy, setAccuracy] = useState<PredictionAccuracy | null>(null);
+  const [weekTrips, setWeekTrips] = useState<TripSummary | null>(null);
   const { user } = useAuth();
 
   useEffect(() => {
     if (user) {
       fetchLocationLogs();
+      fetchPredictionAccuracy().then(setAccuracy);
+      fetchWeekTrips();
     }
   }, [user]);
 
+  // Segments anything tracked since the last visit first, so today's trips show
+  const fetchWeekTrips = async () => {
+    try {
+      await segmentTrips();
+      const weekAgo = new Date();
+      weekAgo.setDate(weekAgo.getDate() - 7);
+      setWeekTrips(summarizeTrips(await fetchTrips(user!.id, weekAgo)));
+    } catch (error) {
+      console.error("Error fetching trips:", error);
+    }
+  };
+
   const fetchLocationLogs = async () => {
     try {
       const { data, error } = await supabase
@@ -133,6 +160,10 @@ export function Dashboard() {
     },
   ];
 
+  const methodAccuracy = Object.entries(accuracy?.methodStats || {})
+    .map(([method, stats]) => ({ method: method as PredictionMethodKey, ...stats }))
+    .sort((a, b) => b.hitRate - a.hitRate);
+
   // Get recent activity from real logs
   const recentActivity = locationLogs.slice(0, 5).map(log => ({
     time: new Date(log.created_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
@@ -206,6 +237,42 @@ export function Dashboard() {
             ))}
           </motion.div>
 
+          {/* Trips this week */}
+          {weekTrips && weekTrips.trips > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.35 }}
+              className="px-4 mb-6"
+            >
+              <Card variant="glass">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">Trips This Week</CardTitle>
+                    <span className="text-sm font-semibold text-accent">
+                      {weekTrips.trips} · {weekTrips.distanceKm.toFixed(1)} km
+                    </span>
+                  </div>
+                </CardHeader>
+                <CardContent className="grid grid-cols-3 gap-3">
+                  {(Object.keys(modeIcons) as TripMode[]).map((mode) => {
+                    const Icon = modeIcons[mode];
+                    const stats = weekTrips.byMode[mode];
+                    return (
+                      <div key={mode} className="rounded-xl bg-secondary/50 p-3 text-center">
+                        <Icon className="w-5 h-5 mx-auto text-accent" />
+                        <p className="text-lg font-bold text-foreground mt-1">{stats.trips}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {TRIP_MODE_LABELS[mode]} · {stats.distanceKm.toFixed(1)} km
+                        </p>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
           {/* Frequent locations */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -255,6 +322,49 @@ export function Dashboard() {
             </Card>
           </motion.div>
 
+          {/* Prediction hit rate */}
+          {accuracy && accuracy.overall.hitRate != null && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.45 }}
+              className="px-4 mb-6"
+            >
+              <Card variant="glass">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">Prediction Hit Rate</CardTitle>
+                    <span className="text-sm font-semibold text-prediction">
+                      {Math.round(accuracy.overall.hitRate * 100)}%
+                    </span>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {methodAccuracy.map((row, index) => (
+                    <div key={row.method}>
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-sm font-medium text-foreground">
+                          {METHOD_LABELS[row.method] || row.method}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {row.hits}/{row.hits + row.misses} correct
+                        </span>
+                      </div>
+                      <div className="h-1.5 bg-secondary rounded-full overflow-hidden">
+                        <motion.div
+                          initial={{ width: 0 }}
+                          animate={{ width: `${row.hitRate * 100}%` }}
+                          transition={{ delay: 0.5 + index * 0.1, duration: 0.5 }}
+                          className="h-full bg-prediction rounded-full"
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
           {/* Recent activity */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,92 @@
+import { useEffect, useRef } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { cn } from "@/lib/utils";
+import { baseTileLayer } from "./cached-tiles";
+import type { TimelineSegment } from "@/lib/timeline";
+
+interface DayPathMapProps {
+  segments: TimelineSegment[];
+  // Highlighted visit or trip, by index into `segments`
+  selected?: number | null;
+  className?: string;
+}
+
+const visitIcon = (active: boolean) => L.divIcon({
+  className: "",
+  html: `<div style="width: 14px; height: 14px; background: ${active ? "#22c55e" : "#8b5cf6"}; border-radius: 50%; border: 2px solid white; box-shadow: 0 2px 6px rgba(0,0,0,0.3);"></div>`,
+  iconSize: [14, 14],
+  iconAnchor: [7, 7],
+});
+
+// One day's visits as dots and its trips as lines, fitted to the view
+export function DayPathMap({ segments, selected = null, className }: DayPathMapProps) {
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+
+  useEffect(() => {
+    if (!mapContainerRef.current || mapInstanceRef.current) return;
+
+    const map = L.map(mapContainerRef.current, {
+      center: [0, 0],
+      zoom: 2,
+      zoomControl: false,
+      attributionControl: false,
+    });
+    baseTileLayer().addTo(map);
+    L.control.attribution({ position: "bottomright", prefix: false })
+      .addAttribution('© <a href="https://www.openstreetmap.org/copyright">OSM</a>')
+      .addTo(map);
+
+    mapInstanceRef.current = map;
+    layerRef.current = L.layerGroup().addTo(map);
+    setTimeout(() => map.invalidateSize(), 100);
+
+    return () => {
+      map.remove();
+      mapInstanceRef.current = null;
+      layerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const layer = layerRef.current;
+    if (!map || !layer) return;
+    layer.clearLayers();
+
+    const bounds = L.latLngBounds([]);
+    segments.forEach((segment, i) => {
+      const active = i === selected;
+      if (segment.kind === "visit") {
+        const at: [number, number] = [segment.latitude, segment.longitude];
+        L.marker(at, { icon: visitIcon(active), zIndexOffset: active ? 1000 : 0 })
+          .bindTooltip(segment.label ?? "Unlabelled place")
+          .addTo(layer);
+        bounds.extend(at);
+      } else {
+        const line = segment.path.map((p) => [p.latitude, p.longitude] as [number, number]);
+        L.polyline(line, { color: active ? "#22c55e" : "#06b6d4", weight: active ? 5 : 3, opacity: 0.85 }).addTo(layer);
+        line.forEach((p) => bounds.extend(p));
+      }
+    });
+
+    const focus = selected != null ? segments[selected] : null;
+    if (focus?.kind === "visit") {
+      map.setView([focus.latitude, focus.longitude], 16, { animate: true });
+    } else if (focus?.kind === "trip") {
+      map.fitBounds(L.latLngBounds(focus.path.map((p) => [p.latitude, p.longitude] as [number, number])), { padding: [24, 24] });
+    } else if (bounds.isValid()) {
+      map.fitBounds(bounds, { padding: [24, 24], maxZoom: 16 });
+    }
+  }, [segments, selected]);
+
+  return (
+    <div
+      ref={mapContainerRef}
+      className={cn("w-full h-full", className)}
+      style={{ background: "hsl(260 35% 9%)" }}
+    />
+  );
+}
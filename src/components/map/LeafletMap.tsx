@@ -1,38 +1,116 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import markerIcon from "leaflet/dist/images/marker-icon.png";
+import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
+import markerShadow from "leaflet/dist/images/marker-shadow.png";
 import { cn } from "@/lib/utils";
+import { baseTileLayer } from "./cached-tiles";
+import type { Geofence } from "@/lib/geofences";
+import {
+  clusterPlaces,
+  DEFAULT_MAP_LAYERS,
+  heatCells,
+  heatColor,
+  hourColor,
+  labeledPlaces,
+  type MapHistory,
+  type MapLayerSettings,
+} from "@/lib/map-layers";
+import type { MapPrediction } from "@/lib/map-prediction";
 
-// Fix for default marker icons in Leaflet with bundlers
+// Fix for default marker icons in Leaflet with bundlers. Bundled rather than
+// loaded from a CDN so markers still draw offline.
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
-  iconRetinaUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png",
-  iconUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png",
-  shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
+  iconRetinaUrl: markerIcon2x,
+  iconUrl: markerIcon,
+  shadowUrl: markerShadow,
 });
 
 interface LeafletMapProps {
   latitude: number;
   longitude: number;
-  predictedLat?: number;
-  predictedLng?: number;
+  // Primary prediction first, then alternatives
+  predictions?: MapPrediction[];
+  onPredictionClick?: (prediction: MapPrediction) => void;
   isTracking?: boolean;
+  geofences?: Geofence[];
+  activeGeofenceId?: string | null;
+  history?: MapHistory | null;
+  layers?: MapLayerSettings;
   className?: string;
 }
 
+const HEAT_CELL_PX = 24;
+
+// Sized by confidence; alternatives are fainter than the primary
+const predictedLocationIcon = (confidence: number, primary: boolean) => {
+  const size = Math.round(16 + 16 * Math.min(1, Math.max(0, confidence)));
+  const opacity = primary ? 1 : 0.6;
+  return L.divIcon({
+    className: "",
+    html: `
+      <div style="position: relative; width: ${size}px; height: ${size}px; opacity: ${opacity};">
+        <div style="position: absolute; inset: -4px; background: rgba(6, 182, 212, 0.3); border-radius: 50%; ${primary ? "animation: glow 3s infinite;" : ""}"></div>
+        <div style="width: ${size}px; height: ${size}px; background: #06b6d4; border-radius: 50%; border: 3px solid white; box-shadow: 0 2px 8px rgba(0,0,0,0.3); display: flex; align-items: center; justify-content: center; box-sizing: border-box;">
+          <div style="width: ${Math.round(size / 3)}px; height: ${Math.round(size / 3)}px; background: white; border-radius: 50%;"></div>
+        </div>
+      </div>
+      <style>
+        @keyframes glow {
+          0%, 100% { box-shadow: 0 0 10px rgba(6, 182, 212, 0.5); }
+          50% { box-shadow: 0 0 20px rgba(6, 182, 212, 0.8); }
+        }
+      </style>
+    `,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+// Labels are user text and tooltips are HTML
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const clusterIcon = (visits: number, labels: string[]) => {
+  const size = Math.min(44, 26 + Math.round(Math.log2(visits + 1) * 3));
+  const text = labels.length > 1 ? `${labels.length}` : escapeHtml(labels[0].slice(0, 1).toUpperCase());
+  return L.divIcon({
+    className: "",
+    html: `
+      <div style="width: ${size}px; height: ${size}px; background: rgba(139, 92, 246, 0.85); border: 2px solid white; border-radius: 50%; box-shadow: 0 2px 6px rgba(0,0,0,0.3); display: flex; align-items: center; justify-content: center; color: white; font: 600 12px sans-serif;">
+        ${text}
+      </div>
+    `,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
 export function LeafletMap({
   latitude,
   longitude,
-  predictedLat,
-  predictedLng,
+  predictions = [],
+  onPredictionClick,
   isTracking = false,
+  geofences = [],
+  activeGeofenceId = null,
+  history = null,
+  layers = DEFAULT_MAP_LAYERS,
   className,
 }: LeafletMapProps) {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const currentMarkerRef = useRef<L.Marker | null>(null);
-  const predictedMarkerRef = useRef<L.Marker | null>(null);
+  const predictionLayerRef = useRef<L.LayerGroup | null>(null);
   const accuracyCircleRef = useRef<L.Circle | null>(null);
+  const geofenceLayerRef = useRef<L.LayerGroup | null>(null);
+  const heatLayerRef = useRef<L.LayerGroup | null>(null);
+  const trailLayerRef = useRef<L.LayerGroup | null>(null);
+  const placesLayerRef = useRef<L.LayerGroup | null>(null);
+  // Heat cells and clusters are sized on screen, so they're redrawn per zoom
+  const [zoom, setZoom] = useState(16);
 
   // Custom icons using inline styles (not Tailwind)
   const currentLocationIcon = L.divIcon({
@@ -53,26 +131,6 @@ export function LeafletMap({
     iconAnchor: [10, 10],
   });
 
-  const predictedLocationIcon = L.divIcon({
-    className: "",
-    html: `
-      <div style="position: relative; width: 24px; height: 24px;">
-        <div style="position: absolute; inset: -4px; background: rgba(6, 182, 212, 0.3); border-radius: 50%; animation: glow 3s infinite;"></div>
-        <div style="width: 24px; height: 24px; background: #06b6d4; border-radius: 50%; border: 3px solid white; box-shadow: 0 2px 8px rgba(0,0,0,0.3); display: flex; align-items: center; justify-content: center;">
-          <div style="width: 8px; height: 8px; background: white; border-radius: 50%;"></div>
-        </div>
-      </div>
-      <style>
-        @keyframes glow {
-          0%, 100% { box-shadow: 0 0 10px rgba(6, 182, 212, 0.5); }
-          50% { box-shadow: 0 0 20px rgba(6, 182, 212, 0.8); }
-        }
-      </style>
-    `,
-    iconSize: [24, 24],
-    iconAnchor: [12, 12],
-  });
-
   // Initialize map once
   useEffect(() => {
     if (!mapContainerRef.current) return;
@@ -88,10 +146,7 @@ export function LeafletMap({
     });
 
     // Dark-styled tile layer
-    L.tileLayer("https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png", {
-      maxZoom: 19,
-      subdomains: "abcd",
-    }).addTo(map);
+    baseTileLayer().addTo(map);
 
     // Add zoom control to bottom-left
     L.control.zoom({ position: "bottomleft" }).addTo(map);
@@ -102,6 +157,12 @@ export function LeafletMap({
       .addTo(map);
 
     mapInstanceRef.current = map;
+    // Added bottom-up: heat under the trail under the place clusters
+    heatLayerRef.current = L.layerGroup().addTo(map);
+    trailLayerRef.current = L.layerGroup().addTo(map);
+    placesLayerRef.current = L.layerGroup().addTo(map);
+    predictionLayerRef.current = L.layerGroup().addTo(map);
+    map.on("zoomend", () => setZoom(map.getZoom()));
 
     // Force resize after mount
     setTimeout(() => {
@@ -111,6 +172,11 @@ export function LeafletMap({
     return () => {
       map.remove();
       mapInstanceRef.current = null;
+      geofenceLayerRef.current = null;
+      heatLayerRef.current = null;
+      trailLayerRef.current = null;
+      placesLayerRef.current = null;
+      predictionLayerRef.current = null;
     };
   }, []);
 
@@ -134,26 +200,134 @@ export function LeafletMap({
     map.setView([latitude, longitude], map.getZoom(), { animate: true });
   }, [latitude, longitude]);
 
-  // Update predicted location marker
+  // Predicted destinations, with a dashed line to the likeliest one
+  useEffect(() => {
+    const layer = predictionLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+    if (predictions.length === 0) return;
+
+    const primary = predictions.find((p) => p.primary);
+    if (primary) {
+      L.polyline([[latitude, longitude], [primary.latitude, primary.longitude]], {
+        color: "#06b6d4",
+        weight: 2,
+        opacity: 0.8,
+        dashArray: "6 6",
+        interactive: false,
+      }).addTo(layer);
+    }
+    for (const prediction of predictions) {
+      const marker = L.marker([prediction.latitude, prediction.longitude], {
+        icon: predictedLocationIcon(prediction.confidence, prediction.primary),
+        zIndexOffset: prediction.primary ? 900 : 800,
+      })
+        .bindTooltip(
+          `<span style="text-transform: capitalize;">${escapeHtml(prediction.label)}</span> · ${Math.round(prediction.confidence * 100)}%` +
+            (prediction.primary ? "" : " (alternative)"),
+        )
+        .addTo(layer);
+      if (onPredictionClick) marker.on("click", () => onPredictionClick(prediction));
+    }
+  }, [predictions, latitude, longitude, onPredictionClick]);
+
+  // Draw geofences, highlighting the one the user is inside
   useEffect(() => {
     const map = mapInstanceRef.current;
     if (!map) return;
 
-    if (predictedLat != null && predictedLng != null) {
-      if (predictedMarkerRef.current) {
-        predictedMarkerRef.current.setLatLng([predictedLat, predictedLng]);
-      } else {
-        predictedMarkerRef.current = L.marker([predictedLat, predictedLng], {
-          icon: predictedLocationIcon,
-          zIndexOffset: 900,
-        }).addTo(map);
-        predictedMarkerRef.current.bindPopup("<b>Predicted destination</b>");
+    if (!geofenceLayerRef.current) geofenceLayerRef.current = L.layerGroup().addTo(map);
+    const layer = geofenceLayerRef.current;
+    layer.clearLayers();
+
+    for (const fence of geofences) {
+      if (fence.enabled === false) continue;
+      const active = fence.id === activeGeofenceId;
+      const style = {
+        color: active ? "#22c55e" : "#8b5cf6",
+        weight: active ? 2 : 1,
+        fillOpacity: active ? 0.15 : 0.05,
+        dashArray: active ? undefined : "4 4",
+      };
+      const shape = fence.shape === "polygon" && fence.polygon
+        ? L.polygon(fence.polygon.map((p) => [p.lat, p.lng] as [number, number]), style)
+        : fence.center_lat != null && fence.center_lng != null
+          ? L.circle([fence.center_lat, fence.center_lng], { ...style, radius: fence.radius_m ?? 100 })
+          : null;
+      shape?.bindTooltip(fence.name).addTo(layer);
+    }
+  }, [geofences, activeGeofenceId]);
+
+  // Density of everything tracked
+  useEffect(() => {
+    const layer = heatLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+    if (!layers.heatmap || !history) return;
+
+    for (const cell of heatCells(history.all, zoom, HEAT_CELL_PX)) {
+      L.circleMarker([cell.latitude, cell.longitude], {
+        radius: HEAT_CELL_PX * 0.6,
+        stroke: false,
+        fillColor: heatColor(cell.intensity),
+        fillOpacity: 0.15 + 0.45 * cell.intensity,
+        interactive: false,
+      }).addTo(layer);
+    }
+  }, [history, layers.heatmap, zoom]);
+
+  // Today's breadcrumb trail, optionally coloured by hour
+  useEffect(() => {
+    const layer = trailLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+    if (!layers.trail || !history || history.today.length === 0) return;
+
+    const points = history.today;
+    if (layers.hourColors) {
+      for (let i = 1; i < points.length; i++) {
+        L.polyline(
+          [[points[i - 1].latitude, points[i - 1].longitude], [points[i].latitude, points[i].longitude]],
+          { color: hourColor(points[i - 1].hour), weight: 4, opacity: 0.9 },
+        ).addTo(layer);
+      }
+    } else {
+      L.polyline(points.map((p) => [p.latitude, p.longitude] as [number, number]), {
+        color: "#8b5cf6",
+        weight: 3,
+        opacity: 0.8,
+      }).addTo(layer);
+    }
+    for (const p of points) {
+      const time = new Date(p.created_at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+      L.circleMarker([p.latitude, p.longitude], {
+        radius: 3,
+        weight: 1,
+        color: "white",
+        fillColor: layers.hourColors ? hourColor(p.hour) : "#8b5cf6",
+        fillOpacity: 1,
+      }).bindTooltip(p.label ? `${time} · ${escapeHtml(p.label)}` : time).addTo(layer);
+    }
+  }, [history, layers.trail, layers.hourColors]);
+
+  // Labeled places, merged into one marker when they'd overlap at this zoom
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const layer = placesLayerRef.current;
+    if (!map || !layer) return;
+    layer.clearLayers();
+    if (!layers.places || !history) return;
+
+    for (const cluster of clusterPlaces(labeledPlaces(history.all), zoom)) {
+      const names = escapeHtml(cluster.labels.join(", "));
+      const marker = L.marker([cluster.latitude, cluster.longitude], { icon: clusterIcon(cluster.visits, cluster.labels) })
+        .bindTooltip(`<span style="text-transform: capitalize;">${names}</span> · ${cluster.visits} visit${cluster.visits === 1 ? "" : "s"}`)
+        .addTo(layer);
+      if (cluster.labels.length > 1) {
+        marker.on("click", () => map.setView([cluster.latitude, cluster.longitude], Math.min(map.getZoom() + 2, 19)));
       }
-    } else if (predictedMarkerRef.current) {
-      predictedMarkerRef.current.remove();
-      predictedMarkerRef.current = null;
     }
-  }, [predictedLat, predictedLng]);
+  }, [history, layers.places, zoom]);
 
   // Handle window resize
   useEffect(() => {
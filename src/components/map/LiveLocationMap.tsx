@@ -0,0 +1,102 @@
+import { useEffect, useRef } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { cn } from "@/lib/utils";
+import { baseTileLayer } from "./cached-tiles";
+import type { SosLiveResponse } from "@/lib/api";
+
+interface LiveLocationMapProps {
+  position: SosLiveResponse["position"];
+  trail: SosLiveResponse["trail"];
+  // Stops pulsing once the incident is closed
+  live: boolean;
+  className?: string;
+}
+
+const positionIcon = (live: boolean) => L.divIcon({
+  className: "",
+  html: `<div style="position: relative; width: 20px; height: 20px;">
+    ${live ? `<div style="position: absolute; inset: -8px; background: rgba(239,68,68,0.3); border-radius: 50%; animation: pulse 2s infinite;"></div>` : ""}
+    <div style="width: 20px; height: 20px; background: ${live ? "#ef4444" : "#8b5cf6"}; border-radius: 50%; border: 3px solid white; box-shadow: 0 2px 8px rgba(0,0,0,0.4);"></div>
+  </div>
+  <style>
+    @keyframes pulse {
+      0%, 100% { transform: scale(1); opacity: 1; }
+      50% { transform: scale(1.5); opacity: 0.5; }
+    }
+  </style>`,
+  iconSize: [20, 20],
+  iconAnchor: [10, 10],
+});
+
+// The shared position with its accuracy and the path since the SOS. Follows
+// the position as it moves unless the viewer has panned away.
+export function LiveLocationMap({ position, trail, live, className }: LiveLocationMapProps) {
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+  const followRef = useRef(true);
+  const fittedRef = useRef(false);
+
+  useEffect(() => {
+    if (!mapContainerRef.current || mapInstanceRef.current) return;
+
+    const map = L.map(mapContainerRef.current, {
+      center: [0, 0],
+      zoom: 2,
+      zoomControl: false,
+      attributionControl: false,
+    });
+    baseTileLayer().addTo(map);
+    L.control.zoom({ position: "bottomright" }).addTo(map);
+    L.control.attribution({ position: "bottomleft", prefix: false })
+      .addAttribution('© <a href="https://www.openstreetmap.org/copyright">OSM</a>')
+      .addTo(map);
+    map.on("dragstart", () => { followRef.current = false; });
+
+    mapInstanceRef.current = map;
+    layerRef.current = L.layerGroup().addTo(map);
+    setTimeout(() => map.invalidateSize(), 100);
+
+    return () => {
+      map.remove();
+      mapInstanceRef.current = null;
+      layerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const layer = layerRef.current;
+    if (!map || !layer) return;
+    layer.clearLayers();
+
+    const line = trail.map((p) => [p.latitude, p.longitude] as [number, number]);
+    if (position) line.push([position.latitude, position.longitude]);
+    if (line.length > 1) {
+      L.polyline(line, { color: "#ef4444", weight: 3, opacity: 0.7 }).addTo(layer);
+    }
+    if (!position) return;
+
+    const at: [number, number] = [position.latitude, position.longitude];
+    if (position.accuracy) {
+      L.circle(at, { radius: position.accuracy, color: "#ef4444", fillColor: "#ef4444", fillOpacity: 0.1, weight: 1 }).addTo(layer);
+    }
+    L.marker(at, { icon: positionIcon(live), zIndexOffset: 1000 }).addTo(layer);
+
+    if (!fittedRef.current) {
+      fittedRef.current = true;
+      map.setView(at, 16);
+    } else if (followRef.current) {
+      map.panTo(at, { animate: true });
+    }
+  }, [position, trail, live]);
+
+  return (
+    <div
+      ref={mapContainerRef}
+      className={cn("w-full h-full", className)}
+      style={{ background: "hsl(260 35% 9%)" }}
+    />
+  );
+}
@@ -1,19 +1,101 @@
-import { useMemo, useState, useEffect } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
-import { Navigation, Crosshair, Play, Pause, Target, MapPin, Copy, ExternalLink } from "lucide-react";
+import { Navigation, Crosshair, Play, Pause, Target, MapPin, Copy, ExternalLink, CloudOff, CloudUpload, Layers } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { cn } from "@/lib/utils";
 import { useLocationContext } from "@/contexts/LocationContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { appendMapPoint, fetchMapHistory, loadMapLayers, saveMapLayers, type MapHistory, type MapLayerSettings } from "@/lib/map-layers";
+import { fetchMapPrediction, type MapPrediction } from "@/lib/map-prediction";
+import { localHourDay } from "@/lib/timezone";
 import { LeafletMap } from "./LeafletMap";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/contexts/AuthContext";
+
+const LAYER_OPTIONS: { key: keyof MapLayerSettings; label: string; description: string }[] = [
+  { key: "trail", label: "Today's trail", description: "Where you've been since midnight" },
+  { key: "hourColors", label: "Colour by hour", description: "Tint the trail by time of day" },
+  { key: "heatmap", label: "Heatmap", description: "Where you spend your time" },
+  { key: "places", label: "Labeled places", description: "Your places and how often you visit" },
+];
 
 export function MapView() {
-  const { currentLocation, placeName, isLoading, error, refreshLocation, startTracking, stopTracking, isTracking } = useLocationContext();
+  const {
+    currentLocation, placeName, isLoading, error, refreshLocation, startTracking, stopTracking, isTracking,
+    geofences, currentGeofence, syncStatus, syncNow, motion: motionState, positionSource, lastLogged,
+  } = useLocationContext();
   const [showPrediction, setShowPrediction] = useState(true);
-  const [currentLabel, setCurrentLabel] = useState<string | null>(null);
   const { user } = useAuth();
+  const [layers, setLayers] = useState<MapLayerSettings>(loadMapLayers);
+  const [history, setHistory] = useState<MapHistory | null>(null);
+  const [predictions, setPredictions] = useState<MapPrediction[]>([]);
+  const navigate = useNavigate();
+  const hasLocation = currentLocation != null;
+
+  const historyUserRef = useRef<string | null>(null);
+  // Where a new prediction starts from; later fixes don't replace it
+  const locationRef = useRef(currentLocation);
+
+  useEffect(() => {
+    locationRef.current = currentLocation;
+  }, [currentLocation]);
+
+  // Downloaded once, and again when the heatmap is switched on so it starts
+  // from everything stored; points tracked meanwhile are added below
+  useEffect(() => {
+    if (!user || (historyUserRef.current === user.id && !layers.heatmap)) return;
+    let cancelled = false;
+    fetchMapHistory(user.id)
+      .then((loaded) => {
+        if (cancelled) return;
+        historyUserRef.current = user.id;
+        setHistory(loaded);
+      })
+      .catch((err) => console.error("Error fetching map history:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [user, layers.heatmap]);
+
+  // Hours in the user's stored zone, like the rows fetchMapHistory loads
+  useEffect(() => {
+    if (!lastLogged || !user) return;
+    const at = new Date(lastLogged.recordedAt);
+    localHourDay(user.id, at)
+      .then(({ hour }) => setHistory((current) => current && appendMapPoint(current, {
+        latitude: lastLogged.latitude,
+        longitude: lastLogged.longitude,
+        label: lastLogged.label,
+        hour,
+        created_at: at.toISOString(),
+      })))
+      .catch((err) => console.error("Error adding tracked point to the map:", err));
+  }, [lastLogged, user]);
+
+  // Waits for a first fix so a new prediction can start from where the user
+  // is; later fixes don't need a new one
+  useEffect(() => {
+    if (!user || !hasLocation || !showPrediction) return;
+    let cancelled = false;
+    fetchMapPrediction(user.id, locationRef.current)
+      .then((markers) => !cancelled && setPredictions(markers ?? []))
+      .catch((err) => console.error("Error fetching prediction:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [user, hasLocation, showPrediction]);
+
+  const openPredictions = useCallback(() => navigate("/predictions"), [navigate]);
+  const primaryPrediction = showPrediction ? predictions.find((p) => p.primary) : undefined;
+
+  const toggleLayer = (key: keyof MapLayerSettings, on: boolean) => {
+    const next = { ...layers, [key]: on };
+    setLayers(next);
+    saveMapLayers(next);
+  };
 
   const coordsText = useMemo(() => {
     if (!currentLocation) return "";
@@ -23,24 +105,6 @@ export function MapView() {
   const accuracyM = currentLocation?.accuracy != null ? Math.round(currentLocation.accuracy) : null;
   const accuracyLabel = accuracyM == null ? null : accuracyM <= 30 ? "High" : accuracyM <= 100 ? "Medium" : "Low";
 
-  // Fetch the latest label for the current location from location_logs
-  useEffect(() => {
-    if (!user || !currentLocation) return;
-    const fetchLabel = async () => {
-      const { data } = await supabase
-        .from("location_logs")
-        .select("label")
-        .eq("user_id", user.id)
-        .not("label", "is", null)
-        .order("created_at", { ascending: false })
-        .limit(1);
-      if (data && data.length > 0) {
-        setCurrentLabel(data[0].label);
-      }
-    };
-    fetchLabel();
-  }, [user, currentLocation]);
-
   const handleCopy = () => {
     if (coordsText) {
       navigator.clipboard?.writeText(coordsText);
@@ -64,6 +128,12 @@ export function MapView() {
                 latitude={currentLocation.latitude}
                 longitude={currentLocation.longitude}
                 isTracking={isTracking}
+                geofences={geofences}
+                activeGeofenceId={currentGeofence?.id}
+                history={history}
+                layers={layers}
+                predictions={showPrediction ? predictions : []}
+                onPredictionClick={openPredictions}
                 className="w-full h-full"
               />
             </motion.div>
@@ -130,6 +200,30 @@ export function MapView() {
             >
               {isTracking ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
             </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="icon" className="h-10 w-10 rounded-full shadow-lg border-2 border-background">
+                  <Layers className="w-5 h-5" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent side="left" align="start" className="w-64 space-y-3 z-[1100]">
+                <p className="text-sm font-semibold text-foreground">Map layers</p>
+                {LAYER_OPTIONS.map((option) => (
+                  <div key={option.key} className="flex items-center justify-between gap-3">
+                    <Label htmlFor={`layer-${option.key}`} className="flex-1 cursor-pointer">
+                      <span className="block text-sm">{option.label}</span>
+                      <span className="block text-xs text-muted-foreground font-normal">{option.description}</span>
+                    </Label>
+                    <Switch
+                      id={`layer-${option.key}`}
+                      checked={layers[option.key]}
+                      disabled={option.key === "hourColors" && !layers.trail}
+                      onCheckedChange={(on) => toggleLayer(option.key, on)}
+                    />
+                  </div>
+                ))}
+              </PopoverContent>
+            </Popover>
           </div>
         )}
 
@@ -160,7 +254,7 @@ export function MapView() {
                 isTracking ? "bg-success animate-pulse" : "bg-muted-foreground"
               )} />
               <span className="text-xs font-medium text-muted-foreground">
-                {isTracking ? "Live Tracking" : "Paused"}
+                {isTracking ? (motionState ? `Live Tracking · ${motionState}` : "Live Tracking") : "Paused"}
               </span>
               {accuracyM != null && (
                 <span className={cn(
@@ -172,18 +266,48 @@ export function MapView() {
                   ±{accuracyM}m
                 </span>
               )}
+              {positionSource === "simulator" && (
+                <span className="text-xs px-1.5 py-0.5 rounded bg-accent/20 text-accent">Simulated</span>
+              )}
+              {syncStatus.pending > 0 ? (
+                <button
+                  type="button"
+                  onClick={syncNow}
+                  title={syncStatus.lastError ?? "Tap to sync now"}
+                  className="text-xs px-1.5 py-0.5 rounded bg-warning/20 text-warning flex items-center gap-1"
+                >
+                  {syncStatus.syncing ? <CloudUpload className="w-3 h-3 animate-pulse" /> : <CloudOff className="w-3 h-3" />}
+                  {syncStatus.pending} queued
+                </button>
+              ) : syncStatus.lastSyncAt && (
+                <span className="text-[10px] text-muted-foreground">
+                  Synced {new Date(syncStatus.lastSyncAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                </span>
+              )}
             </div>
             
             {currentLocation ? (
               <div>
-                {(currentLabel || placeName) && (
+                {(currentGeofence || placeName) && (
                   <p className="text-sm font-semibold text-foreground capitalize mb-0.5">
-                    📍 {currentLabel || placeName}
+                    📍 {currentGeofence?.name || placeName}
                   </p>
                 )}
                 <p className="text-xs font-mono text-muted-foreground truncate">
                   {coordsText}
                 </p>
+                {primaryPrediction && (
+                  <button
+                    type="button"
+                    onClick={openPredictions}
+                    className="mt-1 text-xs px-1.5 py-0.5 rounded bg-prediction/20 text-prediction flex items-center gap-1 max-w-full"
+                  >
+                    <Target className="w-3 h-3 shrink-0" />
+                    <span className="truncate capitalize">
+                      Heading to {primaryPrediction.label} · {Math.round(primaryPrediction.confidence * 100)}%
+                    </span>
+                  </button>
+                )}
               </div>
             ) : (
               <p className="text-sm text-muted-foreground">Location unavailable</p>
@@ -0,0 +1,32 @@
+import L from "leaflet";
+import { loadTile, MAX_TILE_ZOOM, TILE_SUBDOMAINS, TILE_URL, tileKey } from "@/lib/tile-cache";
+
+// The dark basemap, served from the on-device tile cache when it can be
+class CachedTileLayer extends L.TileLayer {
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement("img");
+    tile.alt = "";
+    tile.setAttribute("role", "presentation");
+
+    loadTile(tileKey(coords, L.Browser.retina), this.getTileUrl(coords))
+      .then((blob) => {
+        const url = URL.createObjectURL(blob);
+        tile.onload = () => {
+          URL.revokeObjectURL(url);
+          done(undefined, tile);
+        };
+        tile.onerror = () => {
+          URL.revokeObjectURL(url);
+          done(new Error("Cached tile could not be decoded"), tile);
+        };
+        tile.src = url;
+      })
+      .catch((err) => done(err, tile));
+
+    return tile;
+  }
+}
+
+export function baseTileLayer(): L.TileLayer {
+  return new CachedTileLayer(TILE_URL, { maxZoom: MAX_TILE_ZOOM, subdomains: TILE_SUBDOMAINS });
+}
@@ -12,6 +12,12 @@ import {
   Users,
   HelpCircle,
   Edit2,
+  AlertTriangle,
+  Tag,
+  Hexagon,
+  Route,
+  Download,
+  Map as MapIcon,
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -29,12 +35,14 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { getDeviceTimeZone, isValidTimeZone, setCachedTimeZone } from "@/lib/timezone";
 
 interface Profile {
   name: string | null;
   email: string | null;
   avatar_url: string | null;
   phone: string | null;
+  timezone: string | null;
 }
 
 export function Profile() {
@@ -51,6 +59,7 @@ export function Profile() {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState("");
   const [editPhone, setEditPhone] = useState("");
+  const [editTimeZone, setEditTimeZone] = useState("");
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
@@ -64,7 +73,7 @@ export function Profile() {
     if (!user) return;
     const { data } = await supabase
       .from("profiles")
-      .select("name, email, avatar_url, phone")
+      .select("name, email, avatar_url, phone, timezone")
       .eq("user_id", user.id)
       .single();
     
@@ -72,6 +81,7 @@ export function Profile() {
       setProfile(data);
       setEditName(data.name || "");
       setEditPhone(data.phone || "");
+      setEditTimeZone(data.timezone || getDeviceTimeZone());
     }
   };
 
@@ -104,6 +114,11 @@ export function Profile() {
 
   const handleSaveProfile = async () => {
     if (!user) return;
+    const timeZone = editTimeZone.trim();
+    if (!isValidTimeZone(timeZone)) {
+      toast.error("Unknown time zone. Use a name like Asia/Kolkata or Europe/London.");
+      return;
+    }
     setSaving(true);
 
     try {
@@ -112,13 +127,15 @@ export function Profile() {
         .update({
           name: editName,
           phone: editPhone,
+          timezone: timeZone,
           updated_at: new Date().toISOString(),
         })
         .eq("user_id", user.id);
 
       if (error) throw error;
 
-      setProfile((prev) => prev ? { ...prev, name: editName, phone: editPhone } : null);
+      setProfile((prev) => prev ? { ...prev, name: editName, phone: editPhone, timezone: timeZone } : null);
+      setCachedTimeZone(user.id, timeZone);
       setIsEditing(false);
       toast.success("Profile updated successfully");
     } catch (error) {
@@ -143,6 +160,14 @@ export function Profile() {
     navigate("/location-history");
   };
 
+  const handleExportData = () => {
+    navigate("/settings?section=export");
+  };
+
+  const handleOfflineMaps = () => {
+    navigate("/settings?section=offline");
+  };
+
   const handlePrivacySettings = () => {
     navigate("/settings?section=privacy");
   };
@@ -151,6 +176,22 @@ export function Profile() {
     navigate("/settings?section=device");
   };
 
+  const handleLabels = () => {
+    navigate("/labels");
+  };
+
+  const handleGeofences = () => {
+    navigate("/geofences");
+  };
+
+  const handleSimulator = () => {
+    navigate("/simulator");
+  };
+
+  const handleRoutineAlerts = () => {
+    navigate("/settings?section=alerts");
+  };
+
   const handleHelpSupport = () => {
     navigate("/settings?section=help");
   };
@@ -187,6 +228,30 @@ export function Profile() {
       description: "View all tracked locations",
       onClick: handleLocationHistory,
     },
+    {
+      icon: Download,
+      label: "Export Data",
+      description: "Download your history and predictions",
+      onClick: handleExportData,
+    },
+    {
+      icon: MapIcon,
+      label: "Offline Maps",
+      description: "Save map areas for use without signal",
+      onClick: handleOfflineMaps,
+    },
+    {
+      icon: Tag,
+      label: "Place Labels",
+      description: "Rename, merge and pin your places",
+      onClick: handleLabels,
+    },
+    {
+      icon: Hexagon,
+      label: "Geofences",
+      description: "Auto-label places when you arrive",
+      onClick: handleGeofences,
+    },
     {
       icon: Bell,
       label: "Notifications",
@@ -195,6 +260,12 @@ export function Profile() {
       enabled: notifications,
       onToggle: handleNotificationsToggle,
     },
+    {
+      icon: AlertTriangle,
+      label: "Routine Alerts",
+      description: "Unusual places, times and missed arrivals",
+      onClick: handleRoutineAlerts,
+    },
     {
       icon: Shield,
       label: "Privacy Settings",
@@ -215,6 +286,12 @@ export function Profile() {
       description: "GPS and battery options",
       onClick: handleDeviceSettings,
     },
+    {
+      icon: Route,
+      label: "GPS Simulator",
+      description: "Replay a track or a scripted day",
+      onClick: handleSimulator,
+    },
     {
       icon: HelpCircle,
       label: "Help & Support",
@@ -303,6 +380,19 @@ export function Profile() {
                         className="bg-secondary"
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="timezone">Time zone</Label>
+                      <Input
+                        id="timezone"
+                        value={editTimeZone}
+                        onChange={(e) => setEditTimeZone(e.target.value)}
+                        placeholder={getDeviceTimeZone()}
+                        className="bg-secondary"
+                      />
+                      <p className="text-[10px] text-muted-foreground">
+                        Used to read the time of day of your locations and predictions. This device: {getDeviceTimeZone()}
+                      </p>
+                    </div>
                     <Button
                       onClick={handleSaveProfile}
                       disabled={saving}
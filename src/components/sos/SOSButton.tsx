@@ -4,6 +4,10 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
+import { sendSos, type SendSosResponse } from "@/lib/api";
+import { startLiveSharing } from "@/lib/sos-live";
+import { fallbackAlert, openDeviceAlerts, sosMessage } from "@/lib/sos-messages";
+import { initialRecipients, missedByEmail, preferredChannel } from "@/lib/sos-incidents";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLocationContext } from "@/contexts/LocationContext";
 import { toast } from "sonner";
@@ -12,7 +16,7 @@ export function SOSButton() {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isActive, setIsActive] = useState(false);
   const { user } = useAuth();
-  const { currentLocation } = useLocationContext();
+  const { currentLocation, isTracking, startTracking } = useLocationContext();
 
   const handleActivate = async () => {
     if (!user) {
@@ -24,64 +28,68 @@ export function SOSButton() {
 
     try {
       // Fetch emergency contacts
-      const { data: contacts, error: contactsError } = await supabase
-        .from("emergency_contacts")
-        .select("*")
-        .eq("user_id", user.id);
+      const [{ data, error: contactsError }, { data: profile }] = await Promise.all([
+        supabase.from("emergency_contacts").select("*").eq("user_id", user.id),
+        supabase.from("profiles").select("sos_escalation_minutes").eq("user_id", user.id).maybeSingle(),
+      ]);
 
       if (contactsError) throw contactsError;
 
-      if (!contacts || contacts.length === 0) {
+      if (!data || data.length === 0) {
         toast.error("Please add emergency contacts in the SOS tab first");
         setIsActive(false);
         return;
       }
+      const contacts = initialRecipients(data, profile?.sos_escalation_minutes ?? 5);
 
       const locationText = currentLocation
         ? `https://www.google.com/maps?q=${currentLocation.latitude},${currentLocation.longitude}`
         : "Location unavailable";
 
-      const coordsText = currentLocation
-        ? `${currentLocation.latitude.toFixed(6)}, ${currentLocation.longitude.toFixed(6)}`
-        : "unavailable";
-
-      // Try sending email via edge function
-      const emailContacts = contacts.filter(c => c.email);
-      let emailSent = 0;
-      if (emailContacts.length > 0) {
-        try {
-          const { data, error } = await supabase.functions.invoke("send-sos", {
-            body: {
-              contacts: emailContacts.map(c => ({ name: c.name, email: c.email, phone: c.phone })),
-              location: locationText,
-              coordinates: currentLocation ? {
-                lat: currentLocation.latitude,
-                lng: currentLocation.longitude,
-              } : null,
-            },
-          });
-          if (!error) emailSent = emailContacts.length;
-        } catch (e) {
-          console.warn("Email SOS failed, falling back to SMS:", e);
-        }
+      // Emails go out from the edge function, which also records the
+      // incident along with the messages opened below. Each contact gets the
+      // one channel they asked for.
+      const emailContacts = contacts.filter(c => preferredChannel(c) === "email");
+      const deviceContacts = contacts.filter(c => preferredChannel(c) !== "email");
+      let result: SendSosResponse | null = null;
+      try {
+        result = await sendSos({
+          contacts: contacts.map(c => ({ id: c.id, name: c.name, email: c.email, phone: c.phone })),
+          location: locationText,
+          coordinates: currentLocation ? {
+            lat: currentLocation.latitude,
+            lng: currentLocation.longitude,
+          } : null,
+          accuracy: currentLocation?.accuracy ?? null,
+          channels: [...new Set(contacts.map(preferredChannel))],
+          source: "button",
+        });
+        // Keep positions coming so contacts can follow along
+        startLiveSharing(result.incidentId);
+        if (!isTracking) startTracking();
+      } catch (e) {
+        console.warn("SOS alert failed, falling back to the device:", e);
       }
 
-      // Also trigger SMS via native sms: URI for contacts with phone numbers
-      const phoneContacts = contacts.filter(c => c.phone);
-      if (phoneContacts.length > 0) {
-        const phones = phoneContacts.map(c => c.phone).join(",");
-        const smsBody = encodeURIComponent(
-          `🚨 EMERGENCY SOS ALERT! I need help immediately!\n\n📍 My location: ${locationText}\n📐 Coordinates: ${coordsText}\n\nPlease try to reach me or contact emergency services.`
-        );
-        // Open native SMS app with pre-filled message
-        window.open(`sms:${phones}?body=${smsBody}`, "_self");
-      }
+      // SMS and WhatsApp open on the device, one message per contact so each
+      // carries that contact's ack link. Anyone the server's email didn't
+      // reach, including everyone when the send failed, gets a message from
+      // the device instead.
+      const coordinates = currentLocation
+        ? { latitude: currentLocation.latitude, longitude: currentLocation.longitude }
+        : null;
+      const text = (id: string) => sosMessage({ coordinates, shareToken: result?.shareToken ?? null, ackToken: result?.ackTokens[id] });
+      const fallbacks = missedByEmail(emailContacts, result).flatMap(c => fallbackAlert(c, text(c.id)) ?? []);
+      openDeviceAlerts([
+        ...deviceContacts.map(c => ({ name: c.name, to: c.phone, channel: preferredChannel(c), text: text(c.id) })),
+        ...fallbacks,
+      ]);
 
-      const totalSent = emailSent + phoneContacts.length;
+      const totalSent = (result?.sent ?? 0) + deviceContacts.length + fallbacks.length;
       if (totalSent > 0) {
         toast.success(`SOS alert triggered for ${totalSent} contact(s)!`);
       } else {
-        toast.error("No contacts with email or phone. Add contacts in SOS tab.");
+        toast.error(`Failed to alert ${contacts.length} contact(s). Try the SOS tab.`);
       }
     } catch (error) {
       console.error("SOS error:", error);
@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from "react";
+import { Phone, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { escalateSos, type EscalateSosResponse } from "@/lib/api";
+import { localEmergencyNumbers } from "@/lib/emergency-numbers";
+import { fetchDeviceContacts, fetchFirstResponder, fetchOpenIncident } from "@/lib/sos-incidents";
+import { openDeviceAlerts, sosMessage } from "@/lib/sos-messages";
+import { toast } from "sonner";
+
+const POLL_INTERVAL_MS = 30_000;
+
+interface Seen {
+  status: string;
+  // Tier and whether it was re-sent, to notice steps the server took
+  step: string;
+  exhausted: boolean;
+}
+
+const stepKey = (tier: number, resent: boolean) => `${tier}:${resent}`;
+
+// Follows the user's open SOS while the app is open: tells them when a contact
+// responds, opens SMS and WhatsApp for contacts the server can't message when
+// the ladder moves on, and brings up local emergency numbers once every tier
+// has been tried. escalate-sos-sweep moves the ladder on the server; a step
+// found overdue here is taken too, in case the sweep is late.
+export function SosEscalationWatcher() {
+  const { user } = useAuth();
+  const [showEmergency, setShowEmergency] = useState(false);
+  const seenRef = useRef<Map<string, Seen>>(new Map());
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    let busy = false;
+
+    const check = async () => {
+      if (busy || !navigator.onLine) return;
+      busy = true;
+      try {
+        const incident = await fetchOpenIncident(user.id);
+        if (cancelled || !incident) return;
+
+        const previous = seenRef.current.get(incident.id);
+        if (previous?.status === "active" && incident.status === "acknowledged") {
+          const name = await fetchFirstResponder(incident.id);
+          toast.success(`${name ?? "A contact"} is responding to your SOS`, { duration: 15000 });
+        }
+
+        let action: EscalateSosResponse["action"] = "none";
+        let deviceContacts: EscalateSosResponse["deviceContacts"] = [];
+        let step = stepKey(incident.escalation_tier, incident.escalation_resent);
+        let exhausted = incident.escalation_exhausted;
+        const due = incident.status === "active" && incident.next_escalation_at
+          && new Date(incident.next_escalation_at).getTime() <= Date.now();
+        if (due) {
+          const result = await escalateSos(incident.id);
+          action = result.action;
+          deviceContacts = result.deviceContacts;
+          if (result.tier !== null) step = stepKey(result.tier, result.action === "resend");
+          exhausted ||= result.action === "emergency_services";
+        } else if (incident.status === "active" && previous && previous.step !== step) {
+          // The sweep moved it on since the last check
+          action = incident.escalation_resent ? "resend" : "next_tier";
+          deviceContacts = await fetchDeviceContacts(incident.id, incident.escalation_tier);
+        }
+        seenRef.current.set(incident.id, { status: incident.status, step, exhausted });
+        if (cancelled) return;
+
+        if (exhausted && !previous?.exhausted) setShowEmergency(true);
+        if (action !== "resend" && action !== "next_tier") return;
+
+        const shareToken = incident.share_expires_at && new Date(incident.share_expires_at).getTime() > Date.now()
+          ? incident.share_token
+          : null;
+        const latitude = incident.live_latitude ?? incident.latitude;
+        const longitude = incident.live_longitude ?? incident.longitude;
+        const coordinates = latitude != null && longitude != null ? { latitude, longitude } : null;
+        toast.warning(
+          action === "resend"
+            ? "No one has responded yet. Your contacts were alerted again."
+            : "No one has responded yet. Alerting your next contacts.",
+          { duration: 15000 },
+        );
+        // SMS and WhatsApp need a tap, so they're offered as toast actions
+        openDeviceAlerts(deviceContacts.map((contact) => ({
+          name: contact.name,
+          to: contact.phone,
+          channel: contact.channel,
+          text: sosMessage({ coordinates, shareToken, ackToken: contact.ackToken, reminder: true }),
+        })), { openFirst: false });
+      } catch (err) {
+        console.error("Error checking SOS escalation:", err);
+      } finally {
+        busy = false;
+      }
+    };
+
+    void check();
+    const timer = setInterval(check, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [user]);
+
+  const numbers = localEmergencyNumbers();
+
+  return (
+    <Dialog open={showEmergency} onOpenChange={setShowEmergency}>
+      <DialogContent className="max-w-xs">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-sos" />No one has responded
+          </DialogTitle>
+          <DialogDescription>
+            None of your emergency contacts has acknowledged your SOS. If you still need help, call emergency services.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {numbers.map((n) => (
+            <Button key={n.number + n.label} variant="sos" className="w-full justify-between" asChild>
+              <a href={`tel:${n.number}`}>
+                <span className="flex items-center gap-2"><Phone className="w-4 h-4" />{n.label}</span>
+                <span className="font-bold">{n.number}</span>
+              </a>
+            </Button>
+          ))}
+        </div>
+        <Button variant="ghost" size="sm" className="text-xs text-muted-foreground" onClick={() => setShowEmergency(false)}>
+          Close
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
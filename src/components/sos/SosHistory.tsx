@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { AlertTriangle, ArrowUpCircle, CheckCircle2, ChevronDown, Loader2, UserCheck, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  describeEvent,
+  fetchIncidentEvents,
+  summarizeDeliveries,
+  SOS_CHANNEL_LABELS,
+  SOS_STATUS_LABELS,
+  type SosChannel,
+  type SosIncident,
+  type SosIncidentEvent,
+  type SosStatus,
+} from "@/lib/sos-incidents";
+
+const statusStyles: Record<SosStatus, string> = {
+  active: "bg-sos/20 text-sos border-sos/30",
+  acknowledged: "bg-warning/20 text-warning border-warning/30",
+  resolved: "bg-success/20 text-success border-success/30",
+  false_alarm: "bg-secondary text-muted-foreground border-border",
+};
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+function EventIcon({ event }: { event: SosIncidentEvent }) {
+  if (event.kind === "triggered") return <AlertTriangle className="w-3 h-3 text-sos" />;
+  if (event.kind === "status") return <CheckCircle2 className="w-3 h-3 text-accent" />;
+  if (event.kind === "acknowledged") return <UserCheck className="w-3 h-3 text-success" />;
+  if (event.kind === "escalated") return <ArrowUpCircle className="w-3 h-3 text-warning" />;
+  if (event.success === false) return <XCircle className="w-3 h-3 text-sos" />;
+  return <CheckCircle2 className={cn("w-3 h-3", event.success ? "text-success" : "text-muted-foreground")} />;
+}
+
+function IncidentRow({ incident }: { incident: SosIncident }) {
+  const [open, setOpen] = useState(false);
+  const [events, setEvents] = useState<SosIncidentEvent[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const status = incident.status as SosStatus;
+
+  const toggle = async () => {
+    const next = !open;
+    setOpen(next);
+    if (!next || loading) return;
+    setLoading(true);
+    try {
+      setEvents(await fetchIncidentEvents(incident.id));
+    } catch (error) {
+      console.error("Error fetching SOS timeline:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const summary = events ? summarizeDeliveries(events) : null;
+
+  return (
+    <div className="bg-secondary rounded-lg">
+      <button onClick={toggle} className="w-full flex items-center gap-2 p-2 text-left">
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium text-foreground">{formatWhen(incident.created_at)}</p>
+          <p className="text-[10px] text-muted-foreground truncate">
+            {incident.channels.length > 0
+              ? incident.channels.map((c) => SOS_CHANNEL_LABELS[c as SosChannel] ?? c).join(", ")
+              : "No alerts sent"}
+            {" · "}{incident.contacts_notified} contact(s)
+          </p>
+        </div>
+        <Badge variant="outline" className={cn("text-[9px] px-1.5 py-0", statusStyles[status])}>
+          {SOS_STATUS_LABELS[status] ?? incident.status}
+        </Badge>
+        <ChevronDown className={cn("w-3.5 h-3.5 text-muted-foreground transition-transform", open && "rotate-180")} />
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: "auto" }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden">
+            <div className="px-2 pb-2 space-y-1.5 border-t border-border/50 pt-2">
+              {incident.latitude != null && incident.longitude != null && (
+                <a
+                  href={`https://www.google.com/maps?q=${incident.latitude},${incident.longitude}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block text-[10px] text-accent"
+                >
+                  📍 {incident.latitude.toFixed(5)}°, {incident.longitude.toFixed(5)}°
+                  {incident.accuracy_m != null && ` (±${Math.round(incident.accuracy_m)} m)`}
+                </a>
+              )}
+              {loading ? (
+                <div className="flex justify-center py-2">
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                </div>
+              ) : events && (
+                <>
+                  {summary && (
+                    <p className="text-[10px] text-muted-foreground">
+                      {summary.delivered} delivered · {summary.failed} failed · {summary.opened} opened on device
+                    </p>
+                  )}
+                  {events.map((event) => (
+                    <div key={event.id} className="flex items-start gap-1.5 text-[10px]">
+                      <EventIcon event={event} />
+                      <span className="flex-1 text-foreground">{describeEvent(event)}</span>
+                      <span className="text-muted-foreground shrink-0">
+                        {new Date(event.created_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                      </span>
+                    </div>
+                  ))}
+                  {incident.resolution_note && (
+                    <p className="text-[10px] text-muted-foreground italic">"{incident.resolution_note}"</p>
+                  )}
+                </>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// Past SOS alerts, each expanding to who was reached and how it ended
+export function SosHistory({ incidents }: { incidents: SosIncident[] }) {
+  if (incidents.length === 0) {
+    return <p className="text-xs text-muted-foreground text-center py-3">No SOS alerts yet</p>;
+  }
+  return (
+    <div className="space-y-2">
+      {incidents.map((incident) => <IncidentRow key={incident.id} incident={incident} />)}
+    </div>
+  );
+}
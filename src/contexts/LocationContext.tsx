@@ -1,19 +1,30 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from "react";
-import { Capacitor } from "@capacitor/core";
-import { Geolocation } from "@capacitor/geolocation";
-import { supabase } from "@/integrations/supabase/client";
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useSyncExternalStore } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { reverseGeocode } from "@/lib/geocoding";
-
-interface Location {
-  latitude: number;
-  longitude: number;
-  timestamp: Date;
-  accuracy?: number;
-}
+import { createLocationEngine, type TrackedLocation } from "@/lib/location-engine";
+import { devicePositionSource, type PositionSource } from "@/lib/position-sources";
+import { locationQueue, logLocation, startLocationSync, type SyncStatus } from "@/lib/location-sync";
+import {
+  SAMPLING_PRESETS,
+  loadSamplingPreset,
+  saveSamplingPreset,
+  type MotionState,
+  type SamplingPresetId,
+} from "@/lib/sampling";
+import { acknowledgeAlert, checkRoutine } from "@/lib/routine-alerts";
+import { resumeLiveSharing, shareLiveFix, stopLiveSharing } from "@/lib/sos-live";
+import {
+  evaluateGeofences,
+  fetchGeofences,
+  fetchLastGeofenceId,
+  geofenceAt,
+  recordGeofenceEvents,
+  type Geofence,
+} from "@/lib/geofences";
+import { toast } from "sonner";
 
 interface LocationContextType {
-  currentLocation: Location | null;
+  currentLocation: TrackedLocation | null;
   placeName: string | null;
   isLoading: boolean;
   error: string | null;
@@ -21,151 +32,181 @@ interface LocationContextType {
   startTracking: () => void;
   stopTracking: () => void;
   isTracking: boolean;
+  geofences: Geofence[];
+  currentGeofence: Geofence | null;
+  reloadGeofences: () => Promise<void>;
+  syncStatus: SyncStatus;
+  syncNow: () => void;
+  // The last point handed to the upload queue, for views drawing history
+  lastLogged: LoggedPoint | null;
+  motion: MotionState | null;
+  samplingPreset: SamplingPresetId;
+  setSamplingPreset: (id: SamplingPresetId) => void;
+  positionSource: string;
+  setPositionSource: (source: PositionSource | null) => void;
+}
+
+export interface LoggedPoint {
+  latitude: number;
+  longitude: number;
+  label: string | null;
+  recordedAt: number;
 }
 
 const LocationContext = createContext<LocationContextType | null>(null);
 
 export function LocationProvider({ children }: { children: React.ReactNode }) {
-  const [currentLocation, setCurrentLocation] = useState<Location | null>(null);
-  const [placeName, setPlaceName] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [isTracking, setIsTracking] = useState(false);
-  const watchIdRef = useRef<number | string | null>(null);
   const { user } = useAuth();
-  const isNative = Capacitor.isNativePlatform();
-  const initializedRef = useRef(false);
+  const [samplingPreset, setSamplingPresetState] = useState<SamplingPresetId>(loadSamplingPreset);
+  const [engine] = useState(() => createLocationEngine({
+    source: devicePositionSource(),
+    policy: SAMPLING_PRESETS[loadSamplingPreset()].policy,
+    reverseGeocode,
+  }));
+  const snapshot = useSyncExternalStore(engine.subscribe, engine.getSnapshot);
+  const { currentLocation, isTracking } = snapshot;
+
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [currentGeofence, setCurrentGeofence] = useState<Geofence | null>(null);
+  const geofencesRef = useRef<Geofence[]>([]);
+  const currentGeofenceIdRef = useRef<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(locationQueue.getStatus());
+  const [lastLogged, setLastLogged] = useState<LoggedPoint | null>(null);
+
+  useEffect(() => locationQueue.subscribe(setSyncStatus), []);
 
-  const saveLocationToDb = useCallback(async (latitude: number, longitude: number) => {
+  useEffect(() => {
     if (!user) return;
-    const now = new Date();
+    return startLocationSync(user.id);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    resumeLiveSharing(user.id).catch((err) => console.error("Error resuming SOS live sharing:", err));
+    return () => stopLiveSharing();
+  }, [user]);
+
+  const syncNow = useCallback(() => {
+    if (user) void locationQueue.flush(user.id);
+  }, [user]);
+
+  const reloadGeofences = useCallback(async () => {
+    if (!user) {
+      geofencesRef.current = [];
+      setGeofences([]);
+      return;
+    }
     try {
-      await supabase.from("location_logs").insert({
-        user_id: user.id, latitude, longitude, day: now.getDay(), hour: now.getHours(),
-      });
+      const fences = await fetchGeofences(user.id);
+      geofencesRef.current = fences;
+      setGeofences(fences);
+      setCurrentGeofence((current) => (current ? fences.find((f) => f.id === current.id && f.enabled !== false) ?? null : null));
     } catch (err) {
-      console.error("Error saving location:", err);
+      console.error("Error loading geofences:", err);
     }
   }, [user]);
 
-  const updateLocation = useCallback(async (latitude: number, longitude: number, accuracy?: number) => {
-    setCurrentLocation({ latitude, longitude, timestamp: new Date(), accuracy });
-    setIsLoading(false);
-    setError(null);
-    // Reverse geocode in background
-    try {
-      const name = await reverseGeocode(latitude, longitude);
-      setPlaceName(name);
-    } catch {
-      // ignore
+  useEffect(() => {
+    currentGeofenceIdRef.current = null;
+    setCurrentGeofence(null);
+    void reloadGeofences();
+    if (user) {
+      void fetchLastGeofenceId(user.id).then((id) => {
+        currentGeofenceIdRef.current = id;
+      });
     }
-  }, []);
-
-  const refreshLocation = useCallback(() => {
-    setIsLoading(true);
-    setError(null);
-
-    if (isNative) {
-      void (async () => {
-        try {
-          const perms = await Geolocation.checkPermissions();
-          if (perms.location !== "granted" && perms.coarseLocation !== "granted") {
-            await Geolocation.requestPermissions({ permissions: ["location", "coarseLocation"] });
-          }
-          const pos = await Geolocation.getCurrentPosition({ enableHighAccuracy: true, timeout: 15000 });
-          updateLocation(pos.coords.latitude, pos.coords.longitude, pos.coords.accuracy);
-        } catch (err: any) {
-          setError(err?.message || "Failed to get location.");
-          setIsLoading(false);
-        }
-      })();
-      return;
+  }, [user, reloadGeofences]);
+
+  // Steps the geofence state with a tracked position, records any crossings
+  // and returns the fence the position belongs to.
+  const trackGeofences = useCallback(async (latitude: number, longitude: number): Promise<Geofence | null> => {
+    if (!user) return null;
+    const { current, events } = evaluateGeofences(
+      geofencesRef.current.filter((f) => f.enabled !== false),
+      currentGeofenceIdRef.current,
+      latitude,
+      longitude,
+    );
+    currentGeofenceIdRef.current = current?.id ?? null;
+    setCurrentGeofence(current);
+
+    if (events.length > 0) {
+      try {
+        await recordGeofenceEvents(user.id, events, latitude, longitude);
+      } catch (err) {
+        console.error("Error recording geofence events:", err);
+      }
+      for (const e of events) {
+        toast(e.event === "enter" ? `Arrived at ${e.geofence.name}` : `Left ${e.geofence.name}`);
+      }
     }
+    return current;
+  }, [user]);
 
-    if ("geolocation" in navigator) {
-      navigator.geolocation.getCurrentPosition(
-        (pos) => updateLocation(pos.coords.latitude, pos.coords.longitude, pos.coords.accuracy),
-        (err) => { setError(err.message); setIsLoading(false); },
-        { enableHighAccuracy: true, timeout: 15000, maximumAge: 60000 }
-      );
-    } else {
-      setError("Geolocation is not supported");
-      setIsLoading(false);
-    }
-  }, [isNative, updateLocation]);
-
-  const startTracking = useCallback(() => {
-    if (isNative) {
-      void (async () => {
-        try {
-          const perms = await Geolocation.checkPermissions();
-          if (perms.location !== "granted" && perms.coarseLocation !== "granted") {
-            await Geolocation.requestPermissions({ permissions: ["location", "coarseLocation"] });
-          }
-          const id = await Geolocation.watchPosition({ enableHighAccuracy: true }, (position, err) => {
-            if (err || !position) return;
-            updateLocation(position.coords.latitude, position.coords.longitude, position.coords.accuracy);
-            saveLocationToDb(position.coords.latitude, position.coords.longitude);
-          });
-          watchIdRef.current = id;
-          setIsTracking(true);
-        } catch (err: any) {
-          setError(err?.message || "Failed to start tracking");
-        }
-      })();
-      return;
+  // Points go through the offline queue; they're uploaded when there's signal
+  const saveLocationToDb = useCallback(async (latitude: number, longitude: number, recordedAt: number) => {
+    if (!user) return;
+    try {
+      const fence = await trackGeofences(latitude, longitude);
+      await logLocation(user.id, latitude, longitude, recordedAt, fence?.name ?? null);
+      setLastLogged({ latitude, longitude, label: fence?.name ?? null, recordedAt });
+    } catch (err) {
+      console.error("Error saving location:", err);
     }
 
-    if (!("geolocation" in navigator)) return;
-    const id = navigator.geolocation.watchPosition(
-      (position) => {
-        updateLocation(position.coords.latitude, position.coords.longitude, position.coords.accuracy);
-        saveLocationToDb(position.coords.latitude, position.coords.longitude);
-      },
-      (err) => setError(err.message),
-      { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
-    );
-    watchIdRef.current = id;
-    setIsTracking(true);
-  }, [isNative, updateLocation, saveLocationToDb]);
-
-  const stopTracking = useCallback(() => {
-    if (watchIdRef.current !== null) {
-      if (isNative) {
-        void Geolocation.clearWatch({ id: String(watchIdRef.current) });
-      } else {
-        navigator.geolocation.clearWatch(watchIdRef.current as number);
-      }
-      watchIdRef.current = null;
+    if (!navigator.onLine) return;
+    const alerts = await checkRoutine(latitude, longitude);
+    for (const alert of alerts) {
+      toast.warning(alert.message, {
+        description: alert.contacts_notified > 0 ? `${alert.contacts_notified} emergency contact(s) notified` : undefined,
+        duration: 30000,
+        action: { label: "I'm OK", onClick: () => { void acknowledgeAlert(alert.id); } },
+      });
     }
-    setIsTracking(false);
-  }, [isNative]);
+  }, [user, trackGeofences]);
 
-  // Auto-request on mount — only once
-  useEffect(() => {
-    if (!initializedRef.current) {
-      initializedRef.current = true;
-      refreshLocation();
-    }
-  }, [refreshLocation]);
+  // Only fixes the sampling policy keeps are logged. An open SOS is shared
+  // from every fix; shareLiveFix does its own throttling.
+  useEffect(() => engine.onFix((fix, kept) => {
+    if (kept) void saveLocationToDb(fix.latitude, fix.longitude, fix.timestamp);
+    void shareLiveFix(fix);
+  }), [engine, saveLocationToDb]);
 
-  // Cleanup
+  // While tracking, the fence comes from trackGeofences (with exit hysteresis)
   useEffect(() => {
-    return () => {
-      if (watchIdRef.current !== null) {
-        if (isNative) {
-          void Geolocation.clearWatch({ id: String(watchIdRef.current) });
-        } else {
-          navigator.geolocation.clearWatch(watchIdRef.current as number);
-        }
-      }
-    };
-  }, [isNative]);
+    if (!currentLocation || isTracking) return;
+    setCurrentGeofence(geofenceAt(geofencesRef.current.filter((f) => f.enabled !== false), currentLocation.latitude, currentLocation.longitude));
+  }, [currentLocation, isTracking]);
+
+  const refreshLocation = useCallback(() => { void engine.refresh(); }, [engine]);
+  const startTracking = useCallback(() => { void engine.start(); }, [engine]);
+  const stopTracking = useCallback(() => engine.stop(), [engine]);
+
+  const setSamplingPreset = useCallback((id: SamplingPresetId) => {
+    saveSamplingPreset(id);
+    setSamplingPresetState(id);
+    engine.setPolicy(SAMPLING_PRESETS[id].policy);
+  }, [engine]);
+
+  // null goes back to the device's own geolocation
+  const setPositionSource = useCallback((source: PositionSource | null) => {
+    engine.setSource(source ?? devicePositionSource());
+  }, [engine]);
+
+  // Auto-request on mount, stop watching on unmount
+  useEffect(() => {
+    void engine.refresh();
+    return () => engine.stop();
+  }, [engine]);
 
   return (
     <LocationContext.Provider value={{
-      currentLocation, placeName, isLoading, error,
+      currentLocation, placeName: snapshot.placeName, isLoading: snapshot.isLoading, error: snapshot.error,
       refreshLocation, startTracking, stopTracking, isTracking,
+      geofences, currentGeofence, reloadGeofences,
+      syncStatus, syncNow, lastLogged,
+      motion: snapshot.motion, samplingPreset, setSamplingPreset,
+      positionSource: snapshot.source, setPositionSource,
     }}>
       {children}
     </LocationContext.Provider>
@@ -38,13 +38,66 @@ export type Database = {
         }
         Relationships: []
       }
+      discovered_places: {
+        Row: {
+          avg_dwell_minutes: number
+          created_at: string
+          dismissed: boolean
+          first_seen_at: string | null
+          id: string
+          label: string | null
+          last_seen_at: string | null
+          latitude: number
+          longitude: number
+          radius_m: number
+          total_dwell_minutes: number
+          updated_at: string
+          user_id: string
+          visit_count: number
+        }
+        Insert: {
+          avg_dwell_minutes?: number
+          created_at?: string
+          dismissed?: boolean
+          first_seen_at?: string | null
+          id?: string
+          label?: string | null
+          last_seen_at?: string | null
+          latitude: number
+          longitude: number
+          radius_m?: number
+          total_dwell_minutes?: number
+          updated_at?: string
+          user_id: string
+          visit_count?: number
+        }
+        Update: {
+          avg_dwell_minutes?: number
+          created_at?: string
+          dismissed?: boolean
+          first_seen_at?: string | null
+          id?: string
+          label?: string | null
+          last_seen_at?: string | null
+          latitude?: number
+          longitude?: number
+          radius_m?: number
+          total_dwell_minutes?: number
+          updated_at?: string
+          user_id?: string
+          visit_count?: number
+        }
+        Relationships: []
+      }
       emergency_contacts: {
         Row: {
           created_at: string
           email: string | null
           id: string
           name: string
+          notify_via: string
           phone: string
+          priority: number
           relationship: string | null
           user_id: string
         }
@@ -53,7 +106,9 @@ export type Database = {
           email?: string | null
           id?: string
           name: string
+          notify_via?: string
           phone: string
+          priority?: number
           relationship?: string | null
           user_id: string
         }
@@ -62,12 +117,115 @@ export type Database = {
           email?: string | null
           id?: string
           name?: string
+          notify_via?: string
           phone?: string
+          priority?: number
           relationship?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      function_rate_limits: {
+        Row: {
+          bucket: string
+          hits: number
+          key: string
+          window_start: string
+        }
+        Insert: {
+          bucket: string
+          hits?: number
+          key: string
+          window_start: string
+        }
+        Update: {
+          bucket?: string
+          hits?: number
+          key?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      geofence_events: {
+        Row: {
+          created_at: string
+          event: string
+          geofence_id: string
+          id: string
+          latitude: number
+          longitude: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event: string
+          geofence_id: string
+          id?: string
+          latitude: number
+          longitude: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event?: string
+          geofence_id?: string
+          id?: string
+          latitude?: number
+          longitude?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "geofence_events_geofence_id_fkey"
+            columns: ["geofence_id"]
+            isOneToOne: false
+            referencedRelation: "geofences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      geofences: {
+        Row: {
+          center_lat: number | null
+          center_lng: number | null
+          created_at: string
+          enabled: boolean
+          id: string
+          name: string
+          polygon: Json | null
+          radius_m: number | null
+          shape: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          center_lat?: number | null
+          center_lng?: number | null
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name: string
+          polygon?: Json | null
+          radius_m?: number | null
+          shape?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          center_lat?: number | null
+          center_lng?: number | null
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name?: string
+          polygon?: Json | null
+          radius_m?: number | null
+          shape?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       location_logs: {
         Row: {
           created_at: string
@@ -104,6 +262,81 @@ export type Database = {
         }
         Relationships: []
       }
+      location_logs_duplicates: {
+        Row: {
+          archived_at: string
+          created_at: string
+          day: number
+          hour: number
+          id: string
+          label: string | null
+          latitude: number
+          longitude: number
+          timestamp: string
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string
+          created_at: string
+          day: number
+          hour: number
+          id: string
+          label?: string | null
+          latitude: number
+          longitude: number
+          timestamp: string
+          user_id: string
+        }
+        Update: {
+          archived_at?: string
+          created_at?: string
+          day?: number
+          hour?: number
+          id?: string
+          label?: string | null
+          latitude?: number
+          longitude?: number
+          timestamp?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      place_labels: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          id: string
+          latitude: number | null
+          longitude: number | null
+          name: string
+          radius_m: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          radius_m?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          radius_m?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       places: {
         Row: {
           address: string | null
@@ -154,36 +387,57 @@ export type Database = {
       }
       predictions: {
         Row: {
+          actual_label: string | null
+          actual_lat: number | null
+          actual_lng: number | null
           confidence: number
+          context_label: string | null
           created_at: string
           id: string
           label: string | null
+          method_key: string | null
+          outcome: string
           predicted_lat: number
           predicted_lng: number
           prediction_method: string | null
           prediction_timestamp: string
+          resolved_at: string | null
           user_id: string
         }
         Insert: {
+          actual_label?: string | null
+          actual_lat?: number | null
+          actual_lng?: number | null
           confidence: number
+          context_label?: string | null
           created_at?: string
           id?: string
           label?: string | null
+          method_key?: string | null
+          outcome?: string
           predicted_lat: number
           predicted_lng: number
           prediction_method?: string | null
           prediction_timestamp?: string
+          resolved_at?: string | null
           user_id: string
         }
         Update: {
+          actual_label?: string | null
+          actual_lat?: number | null
+          actual_lng?: number | null
           confidence?: number
+          context_label?: string | null
           created_at?: string
           id?: string
           label?: string | null
+          method_key?: string | null
+          outcome?: string
           predicted_lat?: number
           predicted_lng?: number
           prediction_method?: string | null
           prediction_timestamp?: string
+          resolved_at?: string | null
           user_id?: string
         }
         Relationships: []
@@ -196,6 +450,11 @@ export type Database = {
           id: string
           name: string | null
           phone: string | null
+          routine_alert_notify_contacts: boolean
+          routine_alert_threshold: number
+          routine_alerts_enabled: boolean
+          sos_escalation_minutes: number
+          timezone: string | null
           updated_at: string
           user_id: string
         }
@@ -206,6 +465,11 @@ export type Database = {
           id?: string
           name?: string | null
           phone?: string | null
+          routine_alert_notify_contacts?: boolean
+          routine_alert_threshold?: number
+          routine_alerts_enabled?: boolean
+          sos_escalation_minutes?: number
+          timezone?: string | null
           updated_at?: string
           user_id: string
         }
@@ -216,17 +480,377 @@ export type Database = {
           id?: string
           name?: string | null
           phone?: string | null
+          routine_alert_notify_contacts?: boolean
+          routine_alert_threshold?: number
+          routine_alerts_enabled?: boolean
+          sos_escalation_minutes?: number
+          timezone?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      routine_alerts: {
+        Row: {
+          acknowledged_at: string | null
+          contacts_notified: number
+          created_at: string
+          id: string
+          kind: string
+          label: string | null
+          latitude: number
+          longitude: number
+          message: string
+          score: number
+          user_id: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          contacts_notified?: number
+          created_at?: string
+          id?: string
+          kind: string
+          label?: string | null
+          latitude: number
+          longitude: number
+          message: string
+          score: number
+          user_id: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          contacts_notified?: number
+          created_at?: string
+          id?: string
+          kind?: string
+          label?: string | null
+          latitude?: number
+          longitude?: number
+          message?: string
+          score?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      segmentation_state: {
+        Row: {
+          dirty_from: string | null
+          marked_at: string
+          user_id: string
+        }
+        Insert: {
+          dirty_from?: string | null
+          marked_at?: string
+          user_id: string
+        }
+        Update: {
+          dirty_from?: string | null
+          marked_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sos_incident_contacts: {
+        Row: {
+          ack_token: string
+          acknowledged_at: string | null
+          alerted_at: string
+          contact_id: string | null
+          contact_name: string
+          created_at: string
+          id: string
+          incident_id: string
+          priority: number
+          user_id: string
+        }
+        Insert: {
+          ack_token: string
+          acknowledged_at?: string | null
+          alerted_at?: string
+          contact_id?: string | null
+          contact_name: string
+          created_at?: string
+          id?: string
+          incident_id: string
+          priority?: number
+          user_id: string
+        }
+        Update: {
+          ack_token?: string
+          acknowledged_at?: string | null
+          alerted_at?: string
+          contact_id?: string | null
+          contact_name?: string
+          created_at?: string
+          id?: string
+          incident_id?: string
+          priority?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sos_incident_events: {
+        Row: {
+          channel: string | null
+          contact_id: string | null
+          contact_name: string | null
+          created_at: string
+          detail: string | null
+          id: string
+          incident_id: string
+          kind: string
+          success: boolean | null
+          user_id: string
+        }
+        Insert: {
+          channel?: string | null
+          contact_id?: string | null
+          contact_name?: string | null
+          created_at?: string
+          detail?: string | null
+          id?: string
+          incident_id: string
+          kind: string
+          success?: boolean | null
+          user_id: string
+        }
+        Update: {
+          channel?: string | null
+          contact_id?: string | null
+          contact_name?: string | null
+          created_at?: string
+          detail?: string | null
+          id?: string
+          incident_id?: string
+          kind?: string
+          success?: boolean | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sos_incidents: {
+        Row: {
+          accuracy_m: number | null
+          acknowledged_at: string | null
+          battery_charging: boolean | null
+          battery_level: number | null
+          channels: string[]
+          contacts_notified: number
+          created_at: string
+          escalation_exhausted: boolean
+          escalation_resent: boolean
+          escalation_tier: number
+          id: string
+          latitude: number | null
+          live_accuracy_m: number | null
+          live_latitude: number | null
+          live_longitude: number | null
+          live_updated_at: string | null
+          longitude: number | null
+          next_escalation_at: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          share_expires_at: string | null
+          share_token: string | null
+          source: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          accuracy_m?: number | null
+          acknowledged_at?: string | null
+          battery_charging?: boolean | null
+          battery_level?: number | null
+          channels?: string[]
+          contacts_notified?: number
+          created_at?: string
+          escalation_exhausted?: boolean
+          escalation_resent?: boolean
+          escalation_tier?: number
+          id?: string
+          latitude?: number | null
+          live_accuracy_m?: number | null
+          live_latitude?: number | null
+          live_longitude?: number | null
+          live_updated_at?: string | null
+          longitude?: number | null
+          next_escalation_at?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          share_expires_at?: string | null
+          share_token?: string | null
+          source: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          accuracy_m?: number | null
+          acknowledged_at?: string | null
+          battery_charging?: boolean | null
+          battery_level?: number | null
+          channels?: string[]
+          contacts_notified?: number
+          created_at?: string
+          escalation_exhausted?: boolean
+          escalation_resent?: boolean
+          escalation_tier?: number
+          id?: string
+          latitude?: number | null
+          live_accuracy_m?: number | null
+          live_latitude?: number | null
+          live_longitude?: number | null
+          live_updated_at?: string | null
+          longitude?: number | null
+          next_escalation_at?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          share_expires_at?: string | null
+          share_token?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      stays: {
+        Row: {
+          created_at: string
+          duration_min: number
+          ended_at: string
+          id: string
+          label: string | null
+          latitude: number
+          longitude: number
+          point_count: number
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          duration_min: number
+          ended_at: string
+          id?: string
+          label?: string | null
+          latitude: number
+          longitude: number
+          point_count: number
+          started_at: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          duration_min?: number
+          ended_at?: string
+          id?: string
+          label?: string | null
+          latitude?: number
+          longitude?: number
+          point_count?: number
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      trips: {
+        Row: {
+          avg_speed_kmh: number
+          created_at: string
+          distance_km: number
+          duration_min: number
+          ended_at: string
+          from_label: string | null
+          id: string
+          max_speed_kmh: number
+          mode: string
+          path: Json
+          point_count: number
+          started_at: string
+          to_label: string | null
+          user_id: string
+        }
+        Insert: {
+          avg_speed_kmh: number
+          created_at?: string
+          distance_km: number
+          duration_min: number
+          ended_at: string
+          from_label?: string | null
+          id?: string
+          max_speed_kmh: number
+          mode: string
+          path?: Json
+          point_count: number
+          started_at: string
+          to_label?: string | null
+          user_id: string
+        }
+        Update: {
+          avg_speed_kmh?: number
+          created_at?: string
+          distance_km?: number
+          duration_min?: number
+          ended_at?: string
+          from_label?: string | null
+          id?: string
+          max_speed_kmh?: number
+          mode?: string
+          path?: Json
+          point_count?: number
+          started_at?: string
+          to_label?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      close_sos_incident: {
+        Args: { p_incident_id: string; p_note?: string; p_status: string }
+        Returns: undefined
+      }
+      delete_location_label: {
+        Args: { p_label: string; p_user_id: string }
+        Returns: number
+      }
+      hit_rate_limit: {
+        Args: { p_bucket: string; p_key: string; p_window_seconds: number }
+        Returns: number
+      }
+      location_label_counts: {
+        Args: { p_user_id: string }
+        Returns: {
+          label: string
+          last_seen_at: string
+          visits: number
+        }[]
+      }
+      rename_location_label: {
+        Args: {
+          p_from: string[]
+          p_keep_as_alias?: boolean
+          p_to: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      share_sos_location: {
+        Args: {
+          p_accuracy_m?: number
+          p_battery_charging?: boolean
+          p_battery_level?: number
+          p_incident_id: string
+          p_latitude: number
+          p_longitude: number
+          p_recorded_at: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,233 @@
+import type { z } from "zod";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  NOT_ENOUGH_DATA,
+  acknowledgeSosRequestSchema,
+  acknowledgeSosResponseSchema,
+  chatRequestSchema,
+  chatResponseSchema,
+  checkRoutineRequestSchema,
+  checkRoutineResponseSchema,
+  changeLabelResponseSchema,
+  deleteLabelResponseSchema,
+  describeIssues,
+  discoverPlacesRequestSchema,
+  discoverPlacesResponseSchema,
+  errorResponseSchema,
+  escalateSosRequestSchema,
+  escalateSosResponseSchema,
+  foldLabelsResponseSchema,
+  listLabelsResponseSchema,
+  manageLabelsRequestSchema,
+  nearbyPlacesRequestSchema,
+  nearbyPlacesResponseSchema,
+  predictLocationRequestSchema,
+  predictionResultSchema,
+  reconcilePredictionsRequestSchema,
+  reconcilePredictionsResponseSchema,
+  segmentTripsRequestSchema,
+  segmentTripsResponseSchema,
+  sendOtpRequestSchema,
+  sendOtpResponseSchema,
+  sendSosRequestSchema,
+  sendSosResponseSchema,
+  sosLiveRequestSchema,
+  sosLiveResponseSchema,
+  type AcknowledgeSosRequest,
+  type AcknowledgeSosResponse,
+  type ChatMessage,
+  type ChatRequest,
+  type CheckRoutineRequest,
+  type CheckRoutineResponse,
+  type DiscoverPlacesResponse,
+  type EscalateSosResponse,
+  type ManagedLabel,
+  type ManageLabelsRequest,
+  type NearbyPlacesRequest,
+  type Place,
+  type PredictLocationRequest,
+  type PredictionResult,
+  type ReconcilePredictionsResponse,
+  type SegmentationStats,
+  type SendOtpRequest,
+  type SendOtpResponse,
+  type SendSosRequest,
+  type SendSosResponse,
+  type SosLiveResponse,
+} from "../../supabase/functions/_shared/contracts.ts";
+
+export { NOT_ENOUGH_DATA };
+export type {
+  AcknowledgeSosResponse,
+  AlternativePrediction,
+  ChatMessage,
+  CheckRoutineResponse,
+  DiscoveredPlace,
+  DiscoverPlacesResponse,
+  EscalateSosResponse,
+  ManagedLabel,
+  MethodAccuracy,
+  Place,
+  PredictionMethodKey,
+  PredictionResult,
+  ReconcilePredictionsResponse,
+  RoutineAlert,
+  SegmentationStats,
+  SendSosResponse,
+  SosContact,
+  SosLiveResponse,
+  TouristSuggestion,
+  TripTiming,
+} from "../../supabase/functions/_shared/contracts.ts";
+
+// Every failure from an edge function call: bad input caught before sending,
+// an error status from the function, or a response that doesn't match the
+// contract. `code` is the function's error code when it sent one.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly fn: string,
+    readonly status: number | null = null,
+    readonly code: string | null = null,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Calls an edge function and unwraps its error envelope into an ApiError
+async function invokeFunction<T = unknown>(fn: string, body: unknown): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(fn, { body });
+
+  if (error) {
+    // Non-2xx: the function's JSON error body is on the response
+    if (error instanceof FunctionsHttpError) {
+      const response: Response = error.context;
+      const payload = errorResponseSchema.safeParse(await response.json().catch(() => null));
+      if (payload.success) {
+        throw new ApiError(payload.data.error.message, fn, response.status, payload.data.error.code);
+      }
+      throw new ApiError(`${fn} failed with status ${response.status}`, fn, response.status);
+    }
+    throw new ApiError(error.message || `Failed to reach ${fn}`, fn);
+  }
+  return data as T;
+}
+
+async function callFunction<Req extends z.ZodTypeAny, Res extends z.ZodTypeAny>(
+  fn: string,
+  requestSchema: Req,
+  responseSchema: Res,
+  body: z.input<Req>,
+): Promise<z.infer<Res>> {
+  const request = requestSchema.safeParse(body);
+  if (!request.success) throw new ApiError(`Invalid ${fn} request: ${describeIssues(request.error)}`, fn);
+
+  const data = await invokeFunction(fn, request.data);
+
+  const parsed = responseSchema.safeParse(data);
+  if (!parsed.success) {
+    console.error(`Unexpected ${fn} response:`, describeIssues(parsed.error), data);
+    throw new ApiError(`Unexpected response from ${fn}`, fn);
+  }
+  return parsed.data;
+}
+
+export async function chat(messages: ChatMessage[], userLocation: ChatRequest["userLocation"] = null): Promise<string> {
+  const { message } = await callFunction("chat", chatRequestSchema, chatResponseSchema, {
+    messages,
+    stream: false,
+    userLocation,
+  });
+  return message;
+}
+
+export async function fetchNearbyPlaces(request: NearbyPlacesRequest): Promise<Place[]> {
+  const { places } = await callFunction("nearby-places", nearbyPlacesRequestSchema, nearbyPlacesResponseSchema, request);
+  return places;
+}
+
+export async function predictLocation(request: PredictLocationRequest): Promise<PredictionResult> {
+  return callFunction("predict-location", predictLocationRequestSchema, predictionResultSchema, request);
+}
+
+export async function sendSos(request: SendSosRequest): Promise<SendSosResponse> {
+  return callFunction("send-sos", sendSosRequestSchema, sendSosResponseSchema, request);
+}
+
+// Public, for the live tracking page; works without a session
+export async function fetchSosLive(token: string): Promise<SosLiveResponse> {
+  return callFunction("sos-live", sosLiveRequestSchema, sosLiveResponseSchema, { token });
+}
+
+// Due escalation steps only; safe to call as often as the rate limit allows
+export async function escalateSos(incidentId: string): Promise<EscalateSosResponse> {
+  return callFunction("escalate-sos", escalateSosRequestSchema, escalateSosResponseSchema, { incidentId });
+}
+
+// Public, for a contact's ack link. `peek` looks without acknowledging.
+export async function acknowledgeSos(request: AcknowledgeSosRequest): Promise<AcknowledgeSosResponse> {
+  return callFunction("sos-ack", acknowledgeSosRequestSchema, acknowledgeSosResponseSchema, request);
+}
+
+export async function sendOtp(request: SendOtpRequest): Promise<SendOtpResponse> {
+  return callFunction("send-otp", sendOtpRequestSchema, sendOtpResponseSchema, request);
+}
+
+// Scores a position against the user's routine and raises whatever is unusual
+export async function scoreRoutine(request: CheckRoutineRequest): Promise<CheckRoutineResponse> {
+  return callFunction("check-routine", checkRoutineRequestSchema, checkRoutineResponseSchema, request);
+}
+
+// Resolves pending predictions first, so the hit rates are current
+export async function reconcilePredictions(): Promise<ReconcilePredictionsResponse> {
+  return callFunction("reconcile-predictions", reconcilePredictionsRequestSchema, reconcilePredictionsResponseSchema, {});
+}
+
+export async function discoverPlaces(): Promise<DiscoverPlacesResponse> {
+  return callFunction("discover-places", discoverPlacesRequestSchema, discoverPlacesResponseSchema, {});
+}
+
+// Brings the stays and trips tables up to date with the latest tracking.
+// A long backlog takes a few runs; later ones pick up where it stopped.
+export async function segmentTrips(): Promise<SegmentationStats> {
+  const { stats } = await callFunction("segment-trips", segmentTripsRequestSchema, segmentTripsResponseSchema, {});
+  return stats;
+}
+
+const manageLabels = <Res extends z.ZodTypeAny>(request: ManageLabelsRequest, responseSchema: Res) =>
+  callFunction("manage-labels", manageLabelsRequestSchema, responseSchema, request);
+
+export async function listLabels(): Promise<ManagedLabel[]> {
+  const { labels } = await manageLabels({ action: "list" }, listLabelsResponseSchema);
+  return labels;
+}
+
+export async function renameLabel(from: string, to: string) {
+  return manageLabels({ action: "rename", from, to }, foldLabelsResponseSchema);
+}
+
+export async function mergeLabels(sources: string[], into: string) {
+  return manageLabels({ action: "merge", sources, into }, foldLabelsResponseSchema);
+}
+
+export async function addAlias(label: string, alias: string) {
+  return manageLabels({ action: "alias", label, alias }, changeLabelResponseSchema);
+}
+
+export async function removeAlias(label: string, alias: string) {
+  return manageLabels({ action: "unalias", label, alias }, changeLabelResponseSchema);
+}
+
+export async function setLabelLocation(label: string, latitude: number, longitude: number, radiusM: number) {
+  return manageLabels({ action: "set_location", label, latitude, longitude, radiusM }, changeLabelResponseSchema);
+}
+
+export async function clearLabelLocation(label: string) {
+  return manageLabels({ action: "clear_location", label }, changeLabelResponseSchema);
+}
+
+export async function deleteLabel(label: string) {
+  return manageLabels({ action: "delete", label }, deleteLabelResponseSchema);
+}
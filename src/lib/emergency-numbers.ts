@@ -0,0 +1,43 @@
+// Local emergency numbers, shown when no emergency contact has responded to
+// an SOS. The country comes from the browser's locale, so it's a best guess;
+// 112 reaches emergency services from most mobile phones anywhere.
+
+export interface EmergencyNumber {
+  label: string;
+  number: string;
+}
+
+export const FALLBACK_EMERGENCY_NUMBERS: EmergencyNumber[] = [{ label: "Emergency", number: "112" }];
+
+const EU_112 = ["AT", "BE", "BG", "CH", "CY", "CZ", "DE", "DK", "EE", "ES", "FI", "FR", "GR", "HR", "HU", "IE", "IT", "LT", "LU", "LV", "MT", "NL", "NO", "PL", "PT", "RO", "SE", "SI", "SK"];
+
+export const EMERGENCY_NUMBERS: Record<string, EmergencyNumber[]> = {
+  ...Object.fromEntries(EU_112.map((country) => [country, FALLBACK_EMERGENCY_NUMBERS])),
+  US: [{ label: "Emergency", number: "911" }],
+  CA: [{ label: "Emergency", number: "911" }],
+  MX: [{ label: "Emergency", number: "911" }],
+  PH: [{ label: "Emergency", number: "911" }],
+  GB: [{ label: "Emergency", number: "999" }],
+  IN: [{ label: "Emergency", number: "112" }, { label: "Police", number: "100" }, { label: "Ambulance", number: "108" }],
+  AU: [{ label: "Emergency", number: "000" }],
+  NZ: [{ label: "Emergency", number: "111" }],
+  JP: [{ label: "Police", number: "110" }, { label: "Fire & ambulance", number: "119" }],
+  KR: [{ label: "Police", number: "112" }, { label: "Fire & ambulance", number: "119" }],
+  CN: [{ label: "Police", number: "110" }, { label: "Ambulance", number: "120" }, { label: "Fire", number: "119" }],
+  SG: [{ label: "Police", number: "999" }, { label: "Fire & ambulance", number: "995" }],
+  AE: [{ label: "Police", number: "999" }, { label: "Ambulance", number: "998" }],
+  BR: [{ label: "Police", number: "190" }, { label: "Ambulance", number: "192" }, { label: "Fire", number: "193" }],
+  ZA: [{ label: "Police", number: "10111" }, { label: "Ambulance", number: "10177" }, { label: "From a mobile", number: "112" }],
+};
+
+// "en-IN" → "IN"; null when the locale names no region
+export function countryFromLocale(locale: string): string | null {
+  const match = /[-_]([A-Za-z]{2})(?:[-_]|$)/.exec(locale);
+  return match ? match[1].toUpperCase() : null;
+}
+
+export function emergencyNumbersFor(country: string | null): EmergencyNumber[] {
+  return (country && EMERGENCY_NUMBERS[country]) || FALLBACK_EMERGENCY_NUMBERS;
+}
+
+export const localEmergencyNumbers = () => emergencyNumbersFor(countryFromLocale(navigator.language));
@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  evaluateGeofences,
+  geofenceAt,
+  geofenceCenter,
+  type Geofence,
+  type GeofenceEvent,
+  type GeofencePoint,
+} from "../../supabase/functions/_shared/geofence.ts";
+
+export { evaluateGeofences, geofenceAt, geofenceCenter };
+export type { Geofence, GeofenceEvent, GeofencePoint };
+
+const FENCE_COLUMNS = "id, name, shape, center_lat, center_lng, radius_m, polygon, enabled";
+
+export async function fetchGeofences(userId: string): Promise<Geofence[]> {
+  const { data, error } = await supabase
+    .from("geofences")
+    .select(FENCE_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as unknown as Geofence[];
+}
+
+// The fence the user was last seen entering and hasn't left, so a reload
+// doesn't replay an "enter" for where they already are.
+export async function fetchLastGeofenceId(userId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from("geofence_events")
+    .select("geofence_id, event")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data?.event === "enter" ? data.geofence_id : null;
+}
+
+export async function createCircleGeofence(userId: string, name: string, center: GeofencePoint, radiusM: number) {
+  return supabase.from("geofences").insert({
+    user_id: userId,
+    name: name.trim().toLowerCase(),
+    shape: "circle",
+    center_lat: center.lat,
+    center_lng: center.lng,
+    radius_m: radiusM,
+  });
+}
+
+export async function createPolygonGeofence(userId: string, name: string, vertices: GeofencePoint[]) {
+  return supabase.from("geofences").insert({
+    user_id: userId,
+    name: name.trim().toLowerCase(),
+    shape: "polygon",
+    polygon: vertices as unknown as Json,
+  });
+}
+
+export async function setGeofenceEnabled(id: string, enabled: boolean) {
+  return supabase.from("geofences").update({ enabled }).eq("id", id);
+}
+
+export async function deleteGeofence(id: string) {
+  return supabase.from("geofences").delete().eq("id", id);
+}
+
+export async function recordGeofenceEvents(userId: string, events: GeofenceEvent[], latitude: number, longitude: number) {
+  if (events.length === 0) return;
+  const { error } = await supabase.from("geofence_events").insert(
+    events.map((e) => ({ user_id: userId, geofence_id: e.geofence.id, event: e.event, latitude, longitude })),
+  );
+  if (error) console.error("Error saving geofence events:", error);
+}
@@ -0,0 +1,282 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Exports a user's location_logs and predictions. Rows are fetched a page at
+// a time and written straight into the file's parts, so a long history is
+// never held as one array of rows. Predictions come first in every format
+// (GPX needs its waypoints ahead of the track).
+
+export type ExportFormat = "gpx" | "geojson" | "csv" | "json";
+
+export type ExportLog = Tables<"location_logs">;
+export type ExportPrediction = Tables<"predictions">;
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; description: string; extension: string; mime: string }> = {
+  gpx: {
+    label: "GPX",
+    description: "Your track, for maps and fitness apps",
+    extension: "gpx",
+    mime: "application/gpx+xml",
+  },
+  geojson: {
+    label: "GeoJSON",
+    description: "Points with labels, for GIS tools",
+    extension: "geojson",
+    mime: "application/geo+json",
+  },
+  csv: {
+    label: "CSV",
+    description: "One row per point or prediction, for spreadsheets",
+    extension: "csv",
+    mime: "text/csv",
+  },
+  json: {
+    label: "JSON archive",
+    description: "Every field of every row",
+    extension: "json",
+    mime: "application/json",
+  },
+};
+
+// Epoch ms; `to` is exclusive. null leaves that end open.
+export interface ExportRange {
+  from: number | null;
+  to: number | null;
+}
+
+export interface ExportWriter {
+  begin(meta: { exportedAt: string; range: ExportRange }): string;
+  predictions(rows: ExportPrediction[]): string;
+  logs(rows: ExportLog[]): string;
+  end(): string;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const iso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+
+function gpxWriter(): ExportWriter {
+  let trackOpen = false;
+  return {
+    begin: ({ exportedAt }) =>
+      `<?xml version="1.0" encoding="UTF-8"?>\n<gpx version="1.1" creator="SafeTrack" xmlns="http://www.topografix.com/GPX/1/1">\n` +
+      `  <metadata><name>SafeTrack location history</name><time>${exportedAt}</time></metadata>\n`,
+    predictions: (rows) =>
+      rows.map((p) => {
+        const desc = `Predicted ${p.label ?? "place"} (${Math.round(p.confidence * 100)}%), ${p.outcome}`;
+        return `  <wpt lat="${p.predicted_lat}" lon="${p.predicted_lng}"><time>${p.prediction_timestamp}</time>` +
+          `<name>${escapeXml(p.label ?? "prediction")}</name><desc>${escapeXml(desc)}</desc><type>prediction</type></wpt>\n`;
+      }).join(""),
+    logs: (rows) => {
+      if (rows.length === 0) return "";
+      const head = trackOpen ? "" : "  <trk><name>Location history</name><trkseg>\n";
+      trackOpen = true;
+      return head + rows.map((l) =>
+        `    <trkpt lat="${l.latitude}" lon="${l.longitude}"><time>${new Date(l.created_at).toISOString()}</time>` +
+        `${l.label ? `<name>${escapeXml(l.label)}</name>` : ""}</trkpt>\n`,
+      ).join("");
+    },
+    end: () => `${trackOpen ? "  </trkseg></trk>\n" : ""}</gpx>\n`,
+  };
+}
+
+function geoJsonWriter(): ExportWriter {
+  let first = true;
+  const features = (list: object[]) => list.map((f) => {
+    const text = `${first ? "" : ",\n"}${JSON.stringify(f)}`;
+    first = false;
+    return text;
+  }).join("");
+
+  return {
+    begin: () => `{"type":"FeatureCollection","features":[\n`,
+    predictions: (rows) => features(rows.map((p) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [p.predicted_lng, p.predicted_lat] },
+      properties: {
+        kind: "prediction",
+        label: p.label,
+        time: p.prediction_timestamp,
+        confidence: p.confidence,
+        method: p.prediction_method,
+        outcome: p.outcome,
+        actual_label: p.actual_label,
+      },
+    }))),
+    logs: (rows) => features(rows.map((l) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [l.longitude, l.latitude] },
+      properties: { kind: "location", label: l.label, time: l.created_at, hour: l.hour, day: l.day },
+    }))),
+    end: () => `\n]}\n`,
+  };
+}
+
+const CSV_COLUMNS = [
+  "record", "time", "latitude", "longitude", "label", "hour", "day",
+  "confidence", "method", "outcome", "actual_label", "actual_latitude", "actual_longitude",
+] as const;
+
+const csvCell = (value: string | number | null | undefined) => {
+  if (value == null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values: Partial<Record<(typeof CSV_COLUMNS)[number], string | number | null>>) =>
+  CSV_COLUMNS.map((c) => csvCell(values[c])).join(",") + "\n";
+
+function csvWriter(): ExportWriter {
+  return {
+    begin: () => CSV_COLUMNS.join(",") + "\n",
+    predictions: (rows) => rows.map((p) => csvRow({
+      record: "prediction",
+      time: p.prediction_timestamp,
+      latitude: p.predicted_lat,
+      longitude: p.predicted_lng,
+      label: p.label,
+      confidence: p.confidence,
+      method: p.prediction_method,
+      outcome: p.outcome,
+      actual_label: p.actual_label,
+      actual_latitude: p.actual_lat,
+      actual_longitude: p.actual_lng,
+    })).join(""),
+    logs: (rows) => rows.map((l) => csvRow({
+      record: "location",
+      time: l.created_at,
+      latitude: l.latitude,
+      longitude: l.longitude,
+      label: l.label,
+      hour: l.hour,
+      day: l.day,
+    })).join(""),
+    end: () => "",
+  };
+}
+
+// Every column of every row, in two arrays
+function jsonWriter(): ExportWriter {
+  let section: "predictions" | "location_logs" | null = null;
+  let first = true;
+  const write = (name: "predictions" | "location_logs", rows: object[]) => {
+    let text = "";
+    if (section !== name) {
+      text += section ? `\n],\n"${name}":[\n` : `"${name}":[\n`;
+      section = name;
+      first = true;
+    }
+    for (const row of rows) {
+      text += `${first ? "" : ",\n"}${JSON.stringify(row)}`;
+      first = false;
+    }
+    return text;
+  };
+
+  return {
+    begin: ({ exportedAt, range }) =>
+      `{"exported_at":${JSON.stringify(exportedAt)},"from":${JSON.stringify(iso(range.from))},"to":${JSON.stringify(iso(range.to))},\n`,
+    predictions: (rows) => write("predictions", rows),
+    logs: (rows) => write("location_logs", rows),
+    // location_logs is always there, even when empty
+    end: () => `${section === "location_logs" ? "" : write("location_logs", [])}\n]}\n`,
+  };
+}
+
+export function createExportWriter(format: ExportFormat): ExportWriter {
+  switch (format) {
+    case "gpx": return gpxWriter();
+    case "geojson": return geoJsonWriter();
+    case "csv": return csvWriter();
+    case "json": return jsonWriter();
+  }
+}
+
+const PAGE_SIZE = 1000;
+
+type Page<Row> = PromiseLike<{ data: Row[] | null; error: { message: string } | null }>;
+
+// Oldest first, a page at a time. `fetchPage` gets the row range to load.
+export async function* pages<Row>(fetchPage: (from: number, to: number) => Page<Row>, pageSize = PAGE_SIZE) {
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await fetchPage(offset, offset + pageSize - 1);
+    if (error) throw new Error(error.message);
+    const rows = data || [];
+    if (rows.length > 0) yield rows;
+    if (rows.length < pageSize) return;
+  }
+}
+
+const logPages = (userId: string, range: ExportRange) =>
+  pages<ExportLog>((start, end) => {
+    let query = supabase.from("location_logs").select("*").eq("user_id", userId);
+    if (range.from !== null) query = query.gte("created_at", iso(range.from));
+    if (range.to !== null) query = query.lt("created_at", iso(range.to));
+    return query.order("created_at", { ascending: true }).order("id", { ascending: true }).range(start, end);
+  });
+
+const predictionPages = (userId: string, range: ExportRange) =>
+  pages<ExportPrediction>((start, end) => {
+    let query = supabase.from("predictions").select("*").eq("user_id", userId);
+    if (range.from !== null) query = query.gte("created_at", iso(range.from));
+    if (range.to !== null) query = query.lt("created_at", iso(range.to));
+    return query.order("created_at", { ascending: true }).order("id", { ascending: true }).range(start, end);
+  });
+
+export interface ExportOptions {
+  range: ExportRange;
+  includePredictions?: boolean;
+  onProgress?: (counts: { logs: number; predictions: number }) => void;
+}
+
+export async function exportHistory(
+  userId: string,
+  format: ExportFormat,
+  { range, includePredictions = true, onProgress }: ExportOptions,
+): Promise<{ blob: Blob; logs: number; predictions: number }> {
+  const writer = createExportWriter(format);
+  const parts: string[] = [writer.begin({ exportedAt: new Date().toISOString(), range })];
+  const counts = { logs: 0, predictions: 0 };
+
+  if (includePredictions) {
+    // Opens the section even if there's nothing in it
+    parts.push(writer.predictions([]));
+    for await (const rows of predictionPages(userId, range)) {
+      parts.push(writer.predictions(rows));
+      counts.predictions += rows.length;
+      onProgress?.({ ...counts });
+    }
+  }
+  for await (const rows of logPages(userId, range)) {
+    parts.push(writer.logs(rows));
+    counts.logs += rows.length;
+    onProgress?.({ ...counts });
+  }
+  parts.push(writer.end());
+
+  return { blob: new Blob(parts, { type: EXPORT_FORMATS[format].mime }), ...counts };
+}
+
+const day = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+export function exportFileName(format: ExportFormat, range: ExportRange, now = Date.now()): string {
+  const from = range.from !== null ? day(range.from) : "start";
+  // `to` is exclusive, so the last day included is the one before it
+  const to = day((range.to ?? now + 86_400_000) - 86_400_000);
+  return `safetrack-history-${from}-to-${to}.${EXPORT_FORMATS[format].extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,115 @@
+import { haversineKm } from "@/lib/geo";
+import type { ManagedLabel } from "@/lib/labels";
+import { initialSamplerState, sampleFix, SAMPLING_PRESETS, type SamplingPolicy } from "@/lib/sampling";
+import type { ParsedHistory, TrackVisit } from "@/lib/track-formats";
+
+// Turns an imported history file into location_logs points. Raw points are
+// thinned with the same sampling policy live tracking uses, and each visit
+// becomes a labelled point every heartbeat for as long as it lasted, so
+// imported months look like tracked ones to place discovery and prediction.
+
+export interface ImportPoint {
+  latitude: number;
+  longitude: number;
+  // Epoch ms
+  recordedAt: number;
+  label: string | null;
+}
+
+export interface ImportPlan {
+  points: ImportPoint[];
+  // Epoch ms of the first and last point, null when there are none
+  from: number | null;
+  to: number | null;
+  // Points and visits in the file
+  rawPoints: number;
+  visits: number;
+  // Points dropped because the file has no time for them
+  untimed: number;
+  // Labelled points per label, most first
+  labels: { label: string; points: number }[];
+}
+
+const SEMANTIC_LABELS: Record<string, string> = {
+  TYPE_HOME: "home",
+  INFERRED_HOME: "home",
+  HOME: "home",
+  TYPE_WORK: "work",
+  INFERRED_WORK: "work",
+  WORK: "work",
+  TYPE_SCHOOL: "school",
+  SCHOOL: "school",
+};
+
+const DEFAULT_LABEL_RADIUS_M = 100;
+
+// A visit's label: a pinned label it falls inside, then the exporter's home/
+// work type, then the place name. Aliases fold into their label.
+export function visitLabel(visit: TrackVisit, labels: ManagedLabel[]): string | null {
+  for (const label of labels) {
+    if (label.latitude == null || label.longitude == null) continue;
+    const m = haversineKm({ lat: visit.latitude, lng: visit.longitude }, { lat: label.latitude, lng: label.longitude }) * 1000;
+    if (m <= (label.radiusM ?? DEFAULT_LABEL_RADIUS_M)) return label.name;
+  }
+
+  const raw = (visit.semanticType && SEMANTIC_LABELS[visit.semanticType.toUpperCase()]) || visit.name;
+  const name = raw?.toLowerCase().trim();
+  if (!name) return null;
+  const owner = labels.find((l) => l.name === name || l.aliases.includes(name));
+  return owner?.name ?? name;
+}
+
+export function planImport(
+  history: ParsedHistory,
+  { labels = [], policy = SAMPLING_PRESETS.balanced.policy }: { labels?: ManagedLabel[]; policy?: SamplingPolicy } = {},
+): ImportPlan {
+  const visits = history.visits.filter((v) => v.end > v.start).sort((a, b) => a.start - b.start);
+  const byTime = new Map<number, ImportPoint>();
+
+  // Visits win over raw points at the same moment
+  for (const visit of visits) {
+    const label = visitLabel(visit, labels);
+    for (let t = visit.start; t <= visit.end; t += policy.heartbeatMin * 60_000) {
+      byTime.set(t, { latitude: visit.latitude, longitude: visit.longitude, recordedAt: t, label });
+    }
+  }
+
+  const timed = history.points
+    .filter((p) => p.time !== null)
+    .map((p) => ({ latitude: p.latitude, longitude: p.longitude, accuracy: p.accuracy, timestamp: Math.round(p.time!) }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  let sampler = initialSamplerState();
+  // Fixes and visits are both in time order, so one sweep finds the fixes a
+  // visit covers: every visit started by now is behind the pointer, and the
+  // fix is inside one of them when it's before the latest end among them.
+  let next = 0;
+  let coveredUntil = -Infinity;
+  for (const fix of timed) {
+    while (next < visits.length && visits[next].start <= fix.timestamp) {
+      coveredUntil = Math.max(coveredUntil, visits[next].end);
+      next++;
+    }
+    if (fix.timestamp <= coveredUntil) continue;
+    const decision = sampleFix(policy, sampler, fix);
+    sampler = decision.state;
+    if (decision.keep && !byTime.has(fix.timestamp)) {
+      byTime.set(fix.timestamp, { latitude: fix.latitude, longitude: fix.longitude, recordedAt: fix.timestamp, label: null });
+    }
+  }
+
+  const points = [...byTime.values()].sort((a, b) => a.recordedAt - b.recordedAt);
+  const counts = new Map<string, number>();
+  for (const p of points) {
+    if (p.label) counts.set(p.label, (counts.get(p.label) ?? 0) + 1);
+  }
+
+  return {
+    points,
+    from: points[0]?.recordedAt ?? null,
+    to: points[points.length - 1]?.recordedAt ?? null,
+    rawPoints: history.points.length,
+    visits: visits.length,
+    untimed: history.points.length - timed.length,
+    labels: [...counts].map(([label, n]) => ({ label, points: n })).sort((a, b) => b.points - a.points),
+  };
+}
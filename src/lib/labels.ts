@@ -0,0 +1,12 @@
+// Label management goes through the manage-labels function (see api.ts)
+export {
+  addAlias,
+  clearLabelLocation,
+  deleteLabel,
+  listLabels,
+  mergeLabels,
+  removeAlias,
+  renameLabel,
+  setLabelLocation,
+  type ManagedLabel,
+} from "@/lib/api";
@@ -0,0 +1,177 @@
+import { initialSamplerState, sampleFix, type MotionState, type SamplingPolicy } from "@/lib/sampling";
+import type { PositionFix, PositionSource } from "@/lib/position-sources";
+
+// The one place positions come in. Owns the position source, the tracking
+// watch and the sampling policy, and publishes a snapshot for the UI.
+// LocationContext is the React wrapper; it listens for kept fixes to log them.
+
+export interface TrackedLocation {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  accuracy?: number;
+}
+
+export interface LocationSnapshot {
+  currentLocation: TrackedLocation | null;
+  placeName: string | null;
+  isLoading: boolean;
+  error: string | null;
+  isTracking: boolean;
+  motion: MotionState | null;
+  source: string;
+}
+
+// `kept` is whether the sampling policy wants the fix stored
+export type FixListener = (fix: PositionFix, kept: boolean) => void;
+
+export interface LocationEngine {
+  getSnapshot(): LocationSnapshot;
+  // For useSyncExternalStore: called after every snapshot change
+  subscribe(listener: () => void): () => void;
+  // Every fix from a tracking watch
+  onFix(listener: FixListener): () => void;
+  refresh(): Promise<void>;
+  start(): Promise<void>;
+  stop(): void;
+  setSource(source: PositionSource): void;
+  setPolicy(policy: SamplingPolicy): void;
+}
+
+export interface LocationEngineOptions {
+  source: PositionSource;
+  policy: SamplingPolicy;
+  reverseGeocode?: (latitude: number, longitude: number) => Promise<string | null>;
+}
+
+const message = (err: unknown, fallback: string) => (err instanceof Error && err.message) || fallback;
+
+export function createLocationEngine({ source: initialSource, policy: initialPolicy, reverseGeocode }: LocationEngineOptions): LocationEngine {
+  let source = initialSource;
+  let policy = initialPolicy;
+  let sampler = initialSamplerState();
+  let stopWatch: (() => void) | null = null;
+  // Bumped on every start/stop so a watch that resolves late is discarded
+  let generation = 0;
+  let snapshot: LocationSnapshot = {
+    currentLocation: null,
+    placeName: null,
+    isLoading: true,
+    error: null,
+    isTracking: false,
+    motion: null,
+    source: source.name,
+  };
+  const listeners = new Set<() => void>();
+  const fixListeners = new Set<FixListener>();
+
+  const set = (patch: Partial<LocationSnapshot>) => {
+    snapshot = { ...snapshot, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const show = (fix: PositionFix) => {
+    set({
+      currentLocation: {
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        timestamp: new Date(fix.timestamp),
+        accuracy: fix.accuracy ?? undefined,
+      },
+      isLoading: false,
+      error: null,
+    });
+    reverseGeocode?.(fix.latitude, fix.longitude)
+      .then((placeName) => set({ placeName }))
+      .catch(() => {
+        // keep the previous name
+      });
+  };
+
+  const handleFix = (fix: PositionFix) => {
+    show(fix);
+    const decision = sampleFix(policy, sampler, fix);
+    sampler = decision.state;
+    if (snapshot.motion !== sampler.motion) set({ motion: sampler.motion });
+    fixListeners.forEach((listener) => listener(fix, decision.keep));
+  };
+
+  const start = async () => {
+    if (stopWatch) return;
+    const run = ++generation;
+    sampler = initialSamplerState();
+    try {
+      const stop = await source.watch(
+        { highAccuracy: policy.highAccuracy },
+        (fix) => {
+          if (run === generation) handleFix(fix);
+        },
+        (error) => set({ error }),
+      );
+      if (run !== generation) {
+        stop();
+        return;
+      }
+      stopWatch = stop;
+      set({ isTracking: true });
+    } catch (err) {
+      set({ error: message(err, "Failed to start tracking"), isLoading: false });
+    }
+  };
+
+  const stop = () => {
+    generation++;
+    stopWatch?.();
+    stopWatch = null;
+    set({ isTracking: false, motion: null });
+  };
+
+  const restartIfTracking = (change: () => void) => {
+    const wasTracking = stopWatch !== null;
+    if (wasTracking) stop();
+    change();
+    if (wasTracking) void start();
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    onFix(listener) {
+      fixListeners.add(listener);
+      return () => {
+        fixListeners.delete(listener);
+      };
+    },
+    async refresh() {
+      set({ isLoading: true, error: null });
+      try {
+        show(await source.getCurrent());
+      } catch (err) {
+        set({ error: message(err, "Failed to get location."), isLoading: false });
+      }
+    },
+    start,
+    stop,
+    setSource(next) {
+      restartIfTracking(() => {
+        source = next;
+        set({ source: next.name });
+      });
+    },
+    // A running watch only restarts when the positioning mode changes
+    setPolicy(next) {
+      if (next.highAccuracy === policy.highAccuracy) {
+        policy = next;
+        return;
+      }
+      restartIfTracking(() => {
+        policy = next;
+      });
+    },
+  };
+}
@@ -0,0 +1,230 @@
+// Durable buffer for tracked positions. Every fix is written here first and
+// sent to location_logs in batches when the network allows, so a day spent
+// without coverage is uploaded later instead of being dropped.
+
+// A position waiting to be written to location_logs
+export interface QueuedLocation {
+  // `${userId}:${recordedAt}`: the same fix delivered twice is stored once
+  id: string;
+  userId: string;
+  latitude: number;
+  longitude: number;
+  label: string | null;
+  // Epoch ms of the fix (becomes created_at)
+  recordedAt: number;
+}
+
+// Reads are per account: a shared device may still hold points another
+// account queued, which neither count towards nor upload with this one.
+export interface QueueStore {
+  getAll(userId: string): Promise<QueuedLocation[]>;
+  count(userId: string): Promise<number>;
+  put(items: QueuedLocation[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+export interface SyncStatus {
+  // Points queued for the account last refreshed or flushed
+  pending: number;
+  syncing: boolean;
+  lastSyncAt: number | null;
+  lastError: string | null;
+}
+
+export interface LocationQueue {
+  enqueue(point: Omit<QueuedLocation, "id">): Promise<void>;
+  flush(userId: string): Promise<void>;
+  refresh(userId: string): Promise<void>;
+  getStatus(): SyncStatus;
+  subscribe(listener: (status: SyncStatus) => void): () => void;
+}
+
+export interface LocationQueueOptions {
+  store: QueueStore;
+  // Writes one batch; throws to keep it queued for the next attempt
+  send: (batch: QueuedLocation[]) => Promise<void>;
+  batchSize?: number;
+  lastSyncAt?: number | null;
+  onSynced?: (at: number) => void;
+  isOnline?: () => boolean;
+}
+
+export const BATCH_SIZE = 100;
+
+export function queueId(userId: string, recordedAt: number): string {
+  return `${userId}:${recordedAt}`;
+}
+
+// The oldest `size` points belonging to `userId`. Points queued under another
+// account wait until that account signs in again (RLS would reject them).
+export function nextBatch(items: QueuedLocation[], userId: string, size: number): QueuedLocation[] {
+  return items
+    .filter((p) => p.userId === userId)
+    .sort((a, b) => a.recordedAt - b.recordedAt)
+    .slice(0, size);
+}
+
+export function createLocationQueue({
+  store,
+  send,
+  batchSize = BATCH_SIZE,
+  lastSyncAt = null,
+  onSynced,
+  isOnline = () => typeof navigator === "undefined" || navigator.onLine !== false,
+}: LocationQueueOptions): LocationQueue {
+  let status: SyncStatus = { pending: 0, syncing: false, lastSyncAt, lastError: null };
+  let inFlight: Promise<void> | null = null;
+  const listeners = new Set<(status: SyncStatus) => void>();
+
+  const update = (patch: Partial<SyncStatus>) => {
+    status = { ...status, ...patch };
+    listeners.forEach((listener) => listener(status));
+  };
+
+  const refresh = async (userId: string) => {
+    update({ pending: await store.count(userId) });
+  };
+
+  const enqueue = async (point: Omit<QueuedLocation, "id">) => {
+    if (!Number.isFinite(point.latitude) || !Number.isFinite(point.longitude) || !Number.isFinite(point.recordedAt)) return;
+    await store.put([{ ...point, id: queueId(point.userId, point.recordedAt) }]);
+    await refresh(point.userId);
+  };
+
+  const drain = async (userId: string) => {
+    update({ syncing: true });
+    try {
+      for (;;) {
+        const batch = nextBatch(await store.getAll(userId), userId, batchSize);
+        if (batch.length === 0) break;
+        try {
+          await send(batch);
+        } catch (err) {
+          update({ lastError: err instanceof Error ? err.message : String(err) });
+          break;
+        }
+        await store.remove(batch.map((p) => p.id));
+        const at = Date.now();
+        onSynced?.(at);
+        update({ lastSyncAt: at, lastError: null, pending: await store.count(userId) });
+      }
+    } finally {
+      update({ syncing: false });
+    }
+  };
+
+  // One drain at a time; overlapping calls share it
+  const flush = (userId: string) => {
+    if (!isOnline()) return Promise.resolve();
+    if (!inFlight) {
+      inFlight = drain(userId).finally(() => {
+        inFlight = null;
+      });
+    }
+    return inFlight;
+  };
+
+  return {
+    enqueue,
+    flush,
+    refresh,
+    getStatus: () => status,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export function memoryStore(): QueueStore {
+  const items = new Map<string, QueuedLocation>();
+  const owned = (userId: string) => [...items.values()].filter((item) => item.userId === userId);
+  return {
+    async getAll(userId) {
+      return owned(userId);
+    },
+    async count(userId) {
+      return owned(userId).length;
+    },
+    async put(batch) {
+      for (const item of batch) items.set(item.id, item);
+    },
+    async remove(ids) {
+      for (const id of ids) items.delete(id);
+    },
+  };
+}
+
+const DB_NAME = "safetrack";
+const STORE_NAME = "location_queue";
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Ids start with `${userId}:`, so one account's points are a single key range
+function userKeys(userId: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${userId}:`, `${userId};`, false, true);
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// IndexedDB is available both in browsers and in the Capacitor WebView, where
+// it persists with the app's data. Falls back to memory where it can't be
+// opened (e.g. some private browsing modes).
+export function indexedDbStore(): QueueStore {
+  const fallback = memoryStore();
+  const db: Promise<IDBDatabase | null> =
+    typeof indexedDB === "undefined"
+      ? Promise.resolve(null)
+      : openDatabase().catch((err) => {
+          console.error("Location queue storage unavailable, buffering in memory:", err);
+          return null;
+        });
+
+  const write = async (fn: (store: IDBObjectStore) => void) => {
+    const conn = await db;
+    if (!conn) return false;
+    const tx = conn.transaction(STORE_NAME, "readwrite");
+    fn(tx.objectStore(STORE_NAME));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    return true;
+  };
+
+  return {
+    async getAll(userId) {
+      const conn = await db;
+      if (!conn) return fallback.getAll(userId);
+      return request(conn.transaction(STORE_NAME).objectStore(STORE_NAME).getAll(userKeys(userId)) as IDBRequest<QueuedLocation[]>);
+    },
+    async count(userId) {
+      const conn = await db;
+      if (!conn) return fallback.count(userId);
+      return request(conn.transaction(STORE_NAME).objectStore(STORE_NAME).count(userKeys(userId)));
+    },
+    async put(items) {
+      if (!(await write((store) => items.forEach((item) => store.put(item))))) await fallback.put(items);
+    },
+    async remove(ids) {
+      if (!(await write((store) => ids.forEach((id) => store.delete(id))))) await fallback.remove(ids);
+    },
+  };
+}
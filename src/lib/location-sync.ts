@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import { localHourDay } from "@/lib/timezone";
+import { createLocationQueue, indexedDbStore, type QueuedLocation } from "@/lib/location-queue";
+
+export type { SyncStatus } from "@/lib/location-queue";
+
+const LAST_SYNC_KEY = "locationQueue.lastSyncAt";
+// Retry cadence while points are waiting; `online` events trigger a sync sooner
+const SYNC_INTERVAL_MS = 30_000;
+
+function storedLastSync(): number | null {
+  const value = Number(localStorage.getItem(LAST_SYNC_KEY));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+type LogPoint = Pick<QueuedLocation, "latitude" | "longitude" | "label" | "recordedAt">;
+
+// hour/day are worked out from when the fix was taken, not when it's uploaded.
+// The upsert ignores rows already stored, so a batch whose response was lost
+// can be sent again safely.
+async function upsertLogs(userId: string, points: LogPoint[]) {
+  const rows = await Promise.all(points.map(async (p) => {
+    const recordedAt = new Date(p.recordedAt);
+    const { hour, day } = await localHourDay(userId, recordedAt);
+    return {
+      user_id: userId,
+      latitude: p.latitude,
+      longitude: p.longitude,
+      label: p.label,
+      hour,
+      day,
+      created_at: recordedAt.toISOString(),
+    };
+  }));
+  const { error } = await supabase
+    .from("location_logs")
+    .upsert(rows, { onConflict: "user_id,created_at", ignoreDuplicates: true });
+  if (error) throw new Error(error.message);
+}
+
+// A batch only ever holds one user's points (see flush)
+async function sendBatch(batch: QueuedLocation[]) {
+  await upsertLogs(batch[0].userId, batch);
+}
+
+export const locationQueue = createLocationQueue({
+  store: indexedDbStore(),
+  send: sendBatch,
+  lastSyncAt: storedLastSync(),
+  onSynced: (at) => localStorage.setItem(LAST_SYNC_KEY, String(at)),
+});
+
+// Queues a tracked position and tries to upload it straight away.
+export async function logLocation(userId: string, latitude: number, longitude: number, recordedAt: number, label: string | null = null) {
+  await locationQueue.enqueue({ userId, latitude, longitude, recordedAt, label });
+  void locationQueue.flush(userId);
+}
+
+// Keeps uploading queued points for `userId`: on start, when the device comes
+// back online or to the foreground, and periodically while anything is left.
+export function startLocationSync(userId: string): () => void {
+  const sync = () => {
+    if (locationQueue.getStatus().pending > 0) void locationQueue.flush(userId);
+  };
+  const onVisible = () => {
+    if (document.visibilityState === "visible") sync();
+  };
+
+  void locationQueue.refresh(userId).then(() => locationQueue.flush(userId));
+  window.addEventListener("online", sync);
+  document.addEventListener("visibilitychange", onVisible);
+  const timer = window.setInterval(sync, SYNC_INTERVAL_MS);
+
+  return () => {
+    window.removeEventListener("online", sync);
+    document.removeEventListener("visibilitychange", onVisible);
+    window.clearInterval(timer);
+  };
+}
+
+const IMPORT_BATCH_SIZE = 500;
+
+// Writes imported history straight to location_logs, skipping the queue: the
+// file is still there to retry from. Points already stored are left alone,
+// so importing the same file twice is harmless.
+export async function importLocationHistory(
+  userId: string,
+  points: LogPoint[],
+  onProgress?: (done: number, total: number) => void,
+) {
+  for (let i = 0; i < points.length; i += IMPORT_BATCH_SIZE) {
+    await upsertLogs(userId, points.slice(i, i + IMPORT_BATCH_SIZE));
+    onProgress?.(Math.min(i + IMPORT_BATCH_SIZE, points.length), points.length);
+  }
+}
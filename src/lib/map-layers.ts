@@ -0,0 +1,191 @@
+import { fetchLogPage, type TimelineLog } from "@/lib/timeline";
+
+// History layers for the home map: today's trail, a density heatmap of
+// everything tracked, and labeled places clustered by zoom. Binning and
+// clustering are done in screen pixels at the current zoom, so the layers
+// stay readable from street level out to a whole country.
+
+export interface MapLayerSettings {
+  trail: boolean;
+  heatmap: boolean;
+  places: boolean;
+  // Colour the trail by the hour each point was logged
+  hourColors: boolean;
+}
+
+export const DEFAULT_MAP_LAYERS: MapLayerSettings = {
+  trail: true,
+  heatmap: false,
+  places: true,
+  hourColors: false,
+};
+
+export type MapPoint = Pick<TimelineLog, "latitude" | "longitude" | "hour" | "label" | "created_at">;
+
+export interface MapHistory {
+  // Since local midnight, oldest first
+  today: MapPoint[];
+  // The most recent HEATMAP_POINT_LIMIT points, newest first
+  all: MapPoint[];
+}
+
+export interface HeatCell {
+  latitude: number;
+  longitude: number;
+  count: number;
+  // count relative to the busiest cell, 0-1
+  intensity: number;
+}
+
+export interface LabeledPlace {
+  label: string;
+  latitude: number;
+  longitude: number;
+  // Separate visits, not points
+  visits: number;
+}
+
+export interface PlaceCluster {
+  latitude: number;
+  longitude: number;
+  visits: number;
+  // Most visited first
+  labels: string[];
+}
+
+export const HEATMAP_POINT_LIMIT = 10_000;
+
+const LAYERS_KEY = "mapLayers";
+
+// A per-device setting, like the sampling preset
+export function loadMapLayers(): MapLayerSettings {
+  try {
+    return { ...DEFAULT_MAP_LAYERS, ...JSON.parse(localStorage.getItem(LAYERS_KEY) || "{}") };
+  } catch {
+    return DEFAULT_MAP_LAYERS;
+  }
+}
+
+export function saveMapLayers(settings: MapLayerSettings) {
+  localStorage.setItem(LAYERS_KEY, JSON.stringify(settings));
+}
+
+export async function fetchMapHistory(userId: string): Promise<MapHistory> {
+  const all: MapPoint[] = [];
+  let before: string | null = null;
+  while (all.length < HEATMAP_POINT_LIMIT) {
+    const page = await fetchLogPage(userId, before, 1000);
+    all.push(...page);
+    if (page.length < 1000) break;
+    before = page[page.length - 1].created_at;
+  }
+  const midnight = new Date();
+  midnight.setHours(0, 0, 0, 0);
+  const today = all.filter((p) => new Date(p.created_at) >= midnight).reverse();
+  return { today, all };
+}
+
+// Adds a point logged since the history was downloaded, so the layers keep
+// up with tracking without fetching everything again
+export function appendMapPoint(history: MapHistory, point: MapPoint, now = Date.now()): MapHistory {
+  if (history.all.some((p) => p.created_at === point.created_at)) return history;
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  const today = history.today.filter((p) => new Date(p.created_at) >= midnight);
+  if (new Date(point.created_at) >= midnight) today.push(point);
+  return { today, all: [point, ...history.all].slice(0, HEATMAP_POINT_LIMIT) };
+}
+
+// Web Mercator pixel coordinates at a zoom level, as Leaflet draws them
+export function projectPoint(latitude: number, longitude: number, zoom: number): { x: number; y: number } {
+  const scale = 256 * Math.pow(2, zoom);
+  const sin = Math.sin((Math.max(-85, Math.min(85, latitude)) * Math.PI) / 180);
+  return {
+    x: scale * ((longitude + 180) / 360),
+    y: scale * (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)),
+  };
+}
+
+// Points binned into square cells `cellPx` wide on screen
+export function heatCells(points: Pick<MapPoint, "latitude" | "longitude">[], zoom: number, cellPx = 24): HeatCell[] {
+  const cells = new Map<string, { lat: number; lng: number; count: number }>();
+  for (const p of points) {
+    const { x, y } = projectPoint(p.latitude, p.longitude, zoom);
+    const key = `${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.lat += p.latitude;
+      cell.lng += p.longitude;
+      cell.count++;
+    } else {
+      cells.set(key, { lat: p.latitude, lng: p.longitude, count: 1 });
+    }
+  }
+  const max = Math.max(0, ...[...cells.values()].map((c) => c.count));
+  return [...cells.values()].map((c) => ({
+    latitude: c.lat / c.count,
+    longitude: c.lng / c.count,
+    count: c.count,
+    intensity: c.count / max,
+  }));
+}
+
+// One entry per label at the average of its points. A visit is a run of
+// consecutive points with that label, so a long stay counts once.
+export function labeledPlaces(points: MapPoint[]): LabeledPlace[] {
+  const sorted = [...points].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  const places = new Map<string, { lat: number; lng: number; points: number; visits: number }>();
+  let previous: string | null = null;
+  for (const p of sorted) {
+    const label = p.label?.toLowerCase().trim() || null;
+    if (label) {
+      const place = places.get(label) ?? { lat: 0, lng: 0, points: 0, visits: 0 };
+      place.lat += p.latitude;
+      place.lng += p.longitude;
+      place.points++;
+      if (label !== previous) place.visits++;
+      places.set(label, place);
+    }
+    previous = label;
+  }
+  return [...places].map(([label, p]) => ({
+    label,
+    latitude: p.lat / p.points,
+    longitude: p.lng / p.points,
+    visits: p.visits,
+  }));
+}
+
+// Greedy clustering: places are taken most visited first, and each joins the
+// first cluster within `radiusPx` of it on screen
+export function clusterPlaces(places: LabeledPlace[], zoom: number, radiusPx = 40): PlaceCluster[] {
+  const clusters: (PlaceCluster & { x: number; y: number })[] = [];
+  for (const place of [...places].sort((a, b) => b.visits - a.visits)) {
+    const { x, y } = projectPoint(place.latitude, place.longitude, zoom);
+    const near = clusters.find((c) => Math.hypot(c.x - x, c.y - y) <= radiusPx);
+    if (near) {
+      const total = near.visits + place.visits;
+      near.latitude = (near.latitude * near.visits + place.latitude * place.visits) / total;
+      near.longitude = (near.longitude * near.visits + place.longitude * place.visits) / total;
+      near.visits = total;
+      near.labels.push(place.label);
+    } else {
+      clusters.push({ latitude: place.latitude, longitude: place.longitude, visits: place.visits, labels: [place.label], x, y });
+    }
+  }
+  return clusters.map((c) => ({ latitude: c.latitude, longitude: c.longitude, visits: c.visits, labels: c.labels }));
+}
+
+// Round the clock: night blue, morning gold, afternoon orange-red, evening violet
+export function hourColor(hour: number): string {
+  const stops = [230, 200, 45, 20, 290, 230];
+  const at = ((((hour % 24) + 24) % 24) / 24) * (stops.length - 1);
+  const i = Math.floor(at);
+  const hue = stops[i] + (stops[i + 1] - stops[i]) * (at - i);
+  return `hsl(${Math.round(hue)}, 85%, 60%)`;
+}
+
+// Blue when sparse through to red where most time is spent
+export function heatColor(intensity: number): string {
+  return `hsl(${Math.round(220 - 220 * Math.min(1, Math.max(0, intensity)))}, 90%, 55%)`;
+}
@@ -0,0 +1,101 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ApiError, NOT_ENOUGH_DATA, predictLocation, type PredictionResult } from "@/lib/api";
+
+// The prediction drawn on the home map. Each predict-location call stores a
+// prediction row, so the map reuses a recent result (its own, or one made
+// on the Predictions page) rather than asking again on every visit.
+
+export interface MapPrediction {
+  label: string;
+  latitude: number;
+  longitude: number;
+  confidence: number;
+  primary: boolean;
+}
+
+// Older than this and the user has likely moved on
+export const MAP_PREDICTION_MAX_AGE_MIN = 30;
+
+// Alternatives beyond the primary drawn on the map
+const MAX_ALTERNATIVES = 2;
+
+// Alternatives within this distance of one already drawn are left out
+const SAME_SPOT_DEG = 0.0005;
+
+let remembered: { userId: string; at: number; markers: MapPrediction[] } | null = null;
+
+// Primary first, then the likeliest alternatives that aren't the same place
+export function predictionMarkers(result: PredictionResult): MapPrediction[] {
+  const { prediction } = result;
+  const markers: MapPrediction[] = [{
+    label: prediction.label,
+    latitude: prediction.latitude,
+    longitude: prediction.longitude,
+    confidence: prediction.confidence,
+    primary: true,
+  }];
+  const alternatives = [...prediction.alternativePredictions].sort((a, b) => b.confidence - a.confidence);
+  for (const alt of alternatives) {
+    if (markers.length > MAX_ALTERNATIVES) break;
+    const duplicate = markers.some((m) =>
+      m.label.toLowerCase() === alt.label.toLowerCase() ||
+      (Math.abs(m.latitude - alt.latitude) < SAME_SPOT_DEG && Math.abs(m.longitude - alt.longitude) < SAME_SPOT_DEG));
+    if (!duplicate) {
+      markers.push({ label: alt.label, latitude: alt.latitude, longitude: alt.longitude, confidence: alt.confidence, primary: false });
+    }
+  }
+  return markers;
+}
+
+// Called with every fresh predict-location result so the map can show it
+export function rememberPrediction(userId: string, result: PredictionResult, now = Date.now()) {
+  remembered = { userId, at: now, markers: predictionMarkers(result) };
+}
+
+export function recentPrediction(userId: string, now = Date.now()): MapPrediction[] | null {
+  if (!remembered || remembered.userId !== userId) return null;
+  return now - remembered.at <= MAP_PREDICTION_MAX_AGE_MIN * 60_000 ? remembered.markers : null;
+}
+
+// A remembered result, else a recent stored prediction (primary only, since
+// alternatives aren't stored), else a new prediction from where the user is.
+// null when there isn't enough history to predict from.
+export async function fetchMapPrediction(
+  userId: string,
+  location: { latitude: number; longitude: number } | null,
+): Promise<MapPrediction[] | null> {
+  const now = Date.now();
+  const recent = recentPrediction(userId, now);
+  if (recent) return recent;
+
+  const { data: latest, error } = await supabase
+    .from("predictions")
+    .select("label, predicted_lat, predicted_lng, confidence, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (latest && now - new Date(latest.created_at).getTime() <= MAP_PREDICTION_MAX_AGE_MIN * 60_000) {
+    return [{
+      label: latest.label ?? "Predicted place",
+      latitude: latest.predicted_lat,
+      longitude: latest.predicted_lng,
+      confidence: latest.confidence,
+      primary: true,
+    }];
+  }
+
+  try {
+    const result = await predictLocation({
+      currentLabel: null,
+      latitude: location?.latitude ?? null,
+      longitude: location?.longitude ?? null,
+    });
+    rememberPrediction(userId, result, now);
+    return remembered!.markers;
+  } catch (err) {
+    if (err instanceof ApiError && err.code === NOT_ENOUGH_DATA) return null;
+    throw err;
+  }
+}
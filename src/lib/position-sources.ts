@@ -0,0 +1,160 @@
+import { Capacitor } from "@capacitor/core";
+import { Geolocation } from "@capacitor/geolocation";
+import type { Fix } from "@/lib/sampling";
+
+// Where the location engine gets positions from. The browser and Capacitor
+// sources wrap the real geolocation APIs; the replay source plays back a
+// recorded or scripted track so tracking can be exercised from a desk.
+
+export type PositionFix = Fix;
+
+export interface PositionSource {
+  name: string;
+  // One fix, asking for permission first where the platform needs it
+  getCurrent(): Promise<PositionFix>;
+  // Calls onFix for every position until the returned stop function is called
+  watch(
+    options: { highAccuracy: boolean },
+    onFix: (fix: PositionFix) => void,
+    onError: (message: string) => void,
+  ): Promise<() => void>;
+}
+
+interface Coords {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  speed: number | null;
+}
+
+const toFix = (coords: Coords, timestamp: number): PositionFix => ({
+  latitude: coords.latitude,
+  longitude: coords.longitude,
+  accuracy: coords.accuracy,
+  speed: coords.speed,
+  timestamp,
+});
+
+export function browserSource(): PositionSource {
+  const geolocation = () => {
+    if (!("geolocation" in navigator)) throw new Error("Geolocation is not supported by your browser");
+    return navigator.geolocation;
+  };
+
+  return {
+    name: "browser",
+    getCurrent() {
+      return new Promise((resolve, reject) => {
+        geolocation().getCurrentPosition(
+          (pos) => resolve(toFix(pos.coords, pos.timestamp)),
+          (err) => reject(new Error(err.message)),
+          { enableHighAccuracy: true, timeout: 15000, maximumAge: 60000 },
+        );
+      });
+    },
+    async watch({ highAccuracy }, onFix, onError) {
+      const id = geolocation().watchPosition(
+        (pos) => onFix(toFix(pos.coords, pos.timestamp)),
+        (err) => onError(err.message),
+        { enableHighAccuracy: highAccuracy, timeout: 15000, maximumAge: 0 },
+      );
+      return () => navigator.geolocation.clearWatch(id);
+    },
+  };
+}
+
+async function ensurePermission() {
+  const perms = await Geolocation.checkPermissions();
+  if (perms.location !== "granted" && perms.coarseLocation !== "granted") {
+    await Geolocation.requestPermissions({ permissions: ["location", "coarseLocation"] });
+  }
+}
+
+export function capacitorSource(): PositionSource {
+  return {
+    name: "capacitor",
+    async getCurrent() {
+      await ensurePermission();
+      const pos = await Geolocation.getCurrentPosition({ enableHighAccuracy: true, timeout: 15000 });
+      return toFix(pos.coords, pos.timestamp);
+    },
+    async watch({ highAccuracy }, onFix, onError) {
+      await ensurePermission();
+      const id = await Geolocation.watchPosition({ enableHighAccuracy: highAccuracy }, (position, err) => {
+        if (err) {
+          onError(err.message || "Tracking failed");
+          return;
+        }
+        if (position) onFix(toFix(position.coords, position.timestamp));
+      });
+      return () => {
+        void Geolocation.clearWatch({ id });
+      };
+    },
+  };
+}
+
+export function devicePositionSource(): PositionSource {
+  return Capacitor.isNativePlatform() ? capacitorSource() : browserSource();
+}
+
+export interface ReplayOptions {
+  name?: string;
+  // Playback rate: 60 plays an hour of track in a minute
+  speed?: number;
+  // Starts over when the track ends, shifting timestamps so they keep increasing
+  loop?: boolean;
+  onProgress?: (index: number, total: number) => void;
+  onEnd?: () => void;
+}
+
+// Plays back fixes in order, spaced by the gaps between their timestamps
+// divided by `speed`. The fixes keep their own (synthetic) timestamps.
+export function replaySource(fixes: PositionFix[], options: ReplayOptions = {}): PositionSource {
+  if (fixes.length === 0) throw new Error("A replay needs at least one position");
+  const track = [...fixes].sort((a, b) => a.timestamp - b.timestamp);
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+  const span = track[track.length - 1].timestamp - track[0].timestamp;
+  let next = 0;
+  let round = 0;
+
+  const at = (index: number): PositionFix => ({
+    ...track[index],
+    timestamp: track[index].timestamp + round * (span + 60_000),
+  });
+
+  return {
+    name: options.name ?? "replay",
+    async getCurrent() {
+      return at(Math.max(0, next - 1));
+    },
+    async watch(_options, onFix) {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      let stopped = false;
+
+      const emit = () => {
+        if (stopped) return;
+        if (next >= track.length) {
+          if (!options.loop) {
+            options.onEnd?.();
+            return;
+          }
+          next = 0;
+          round++;
+        }
+        const fix = at(next);
+        next++;
+        onFix(fix);
+        options.onProgress?.(next, track.length);
+        const gap = next < track.length ? track[next].timestamp - track[next - 1].timestamp : 60_000;
+        timer = setTimeout(emit, Math.max(0, gap / speed));
+      };
+      timer = setTimeout(emit, 0);
+
+      return () => {
+        stopped = true;
+        if (timer) clearTimeout(timer);
+      };
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { reconcilePredictions, type PredictionMethodKey, type ReconcilePredictionsResponse } from "@/lib/api";
+
+export type { MethodAccuracy, PredictionMethodKey } from "@/lib/api";
+export type PredictionAccuracy = ReconcilePredictionsResponse;
+
+export const METHOD_LABELS: Record<PredictionMethodKey, string> = {
+  sequence: "Sequence",
+  transition: "Transition",
+  time: "Time pattern",
+  day: "Day pattern",
+  tourist: "Tourist",
+  most_visited: "Most visited",
+};
+
+// Checks pending predictions against recent location logs and returns hit
+// rates per prediction method.
+export async function fetchPredictionAccuracy(): Promise<PredictionAccuracy | null> {
+  try {
+    return await reconcilePredictions();
+  } catch (error) {
+    console.error("Error reconciling predictions:", error);
+    return null;
+  }
+}
@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+import { scoreRoutine, type RoutineAlert } from "@/lib/api";
+
+export type { RoutineAlert } from "@/lib/api";
+export type RoutineAlertKind = RoutineAlert["kind"];
+
+export const ALERT_KIND_LABELS: Record<RoutineAlertKind, string> = {
+  unexpected_place: "Unfamiliar place",
+  unexpected_hour: "Unusual time",
+  missed_arrival: "Missed arrival",
+};
+
+// Scoring needs the whole routine, so don't run it for every GPS fix.
+const MIN_CHECK_INTERVAL_MS = 5 * 60_000;
+let lastCheckAt = 0;
+
+// Scores the position against the user's routine. Returns the alerts that were
+// newly raised, or an empty list when skipped or nothing was unusual.
+export async function checkRoutine(latitude: number, longitude: number): Promise<RoutineAlert[]> {
+  const now = Date.now();
+  if (now - lastCheckAt < MIN_CHECK_INTERVAL_MS) return [];
+  lastCheckAt = now;
+
+  try {
+    const { alerts } = await scoreRoutine({ latitude, longitude });
+    return alerts;
+  } catch (error) {
+    console.error("Error checking routine:", error);
+    return [];
+  }
+}
+
+export async function acknowledgeAlert(id: string) {
+  return supabase.from("routine_alerts").update({ acknowledged_at: new Date().toISOString() }).eq("id", id);
+}
@@ -0,0 +1,148 @@
+import { haversineKm } from "@/lib/geo";
+
+// Decides which tracked fixes are worth storing. Sits between the geolocation
+// watch and the location queue: drops inaccurate fixes, and spaces the rest by
+// time and distance according to how fast the user is moving.
+
+export type MotionState = "still" | "walking" | "driving";
+
+export interface Fix {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  // m/s as reported by the device, when it reports one
+  speed?: number | null;
+  // Epoch ms
+  timestamp: number;
+}
+
+export interface SamplingRule {
+  minIntervalS: number;
+  minDistanceM: number;
+}
+
+export interface SamplingPolicy {
+  // Fixes less accurate than this are discarded
+  maxAccuracyM: number;
+  // GPS rather than network positioning
+  highAccuracy: boolean;
+  // A point is stored at least this often even when nothing moves, so stays
+  // stay continuous for place discovery (which splits on 60 min gaps)
+  heartbeatMin: number;
+  motion: Record<MotionState, SamplingRule>;
+}
+
+export type SamplingPresetId = "battery_saver" | "balanced" | "high_precision";
+
+export const SAMPLING_PRESETS: Record<SamplingPresetId, { label: string; description: string; policy: SamplingPolicy }> = {
+  battery_saver: {
+    label: "Battery saver",
+    description: "Network positioning, a point every few minutes on the move",
+    policy: {
+      maxAccuracyM: 200,
+      highAccuracy: false,
+      heartbeatMin: 30,
+      motion: {
+        still: { minIntervalS: 900, minDistanceM: 100 },
+        walking: { minIntervalS: 120, minDistanceM: 50 },
+        driving: { minIntervalS: 60, minDistanceM: 300 },
+      },
+    },
+  },
+  balanced: {
+    label: "Balanced",
+    description: "GPS, spaced out when you're not moving",
+    policy: {
+      maxAccuracyM: 100,
+      highAccuracy: true,
+      heartbeatMin: 15,
+      motion: {
+        still: { minIntervalS: 300, minDistanceM: 50 },
+        walking: { minIntervalS: 30, minDistanceM: 25 },
+        driving: { minIntervalS: 10, minDistanceM: 100 },
+      },
+    },
+  },
+  high_precision: {
+    label: "High precision",
+    description: "GPS only, detailed tracks at the cost of battery",
+    policy: {
+      maxAccuracyM: 30,
+      highAccuracy: true,
+      heartbeatMin: 5,
+      motion: {
+        still: { minIntervalS: 60, minDistanceM: 15 },
+        walking: { minIntervalS: 5, minDistanceM: 5 },
+        driving: { minIntervalS: 2, minDistanceM: 20 },
+      },
+    },
+  },
+};
+
+export const DEFAULT_SAMPLING_PRESET: SamplingPresetId = "balanced";
+
+// Walking tops out around 9 km/h; anything faster is treated as a vehicle
+const STILL_MAX_MPS = 0.5;
+const WALKING_MAX_MPS = 2.5;
+
+export function classifySpeed(mps: number): MotionState {
+  if (mps < STILL_MAX_MPS) return "still";
+  if (mps < WALKING_MAX_MPS) return "walking";
+  return "driving";
+}
+
+const distanceM = (a: Fix, b: Fix) =>
+  haversineKm({ lat: a.latitude, lng: a.longitude }, { lat: b.latitude, lng: b.longitude }) * 1000;
+
+export interface SamplerState {
+  // Last fix that was stored
+  lastKept: Fix | null;
+  // Last usable fix seen, stored or not (for speed when the device gives none)
+  lastSeen: Fix | null;
+  motion: MotionState;
+}
+
+export const initialSamplerState = (): SamplerState => ({ lastKept: null, lastSeen: null, motion: "still" });
+
+export type SampleDecision =
+  | { keep: true; reason: "first" | "heartbeat" | "moved"; state: SamplerState }
+  | { keep: false; reason: "inaccurate" | "too_soon" | "too_close"; state: SamplerState };
+
+export function sampleFix(policy: SamplingPolicy, state: SamplerState, fix: Fix): SampleDecision {
+  if (fix.accuracy != null && fix.accuracy > policy.maxAccuracyM) {
+    return { keep: false, reason: "inaccurate", state };
+  }
+
+  let motion = state.motion;
+  if (fix.speed != null && fix.speed >= 0) {
+    motion = classifySpeed(fix.speed);
+  } else if (state.lastSeen && fix.timestamp > state.lastSeen.timestamp) {
+    motion = classifySpeed(distanceM(state.lastSeen, fix) / ((fix.timestamp - state.lastSeen.timestamp) / 1000));
+  }
+
+  const seen = { ...state, lastSeen: fix, motion };
+  const last = state.lastKept;
+  if (!last) return { keep: true, reason: "first", state: { ...seen, lastKept: fix } };
+
+  const elapsedMs = fix.timestamp - last.timestamp;
+  if (elapsedMs >= policy.heartbeatMin * 60_000) {
+    return { keep: true, reason: "heartbeat", state: { ...seen, lastKept: fix } };
+  }
+
+  const rule = policy.motion[motion];
+  if (elapsedMs < rule.minIntervalS * 1000) return { keep: false, reason: "too_soon", state: seen };
+  if (distanceM(last, fix) < rule.minDistanceM) return { keep: false, reason: "too_close", state: seen };
+  return { keep: true, reason: "moved", state: { ...seen, lastKept: fix } };
+}
+
+const PRESET_KEY = "samplingPreset";
+
+// A per-device setting, like the theme
+export function loadSamplingPreset(): SamplingPresetId {
+  const saved = localStorage.getItem(PRESET_KEY);
+  return saved && saved in SAMPLING_PRESETS ? (saved as SamplingPresetId) : DEFAULT_SAMPLING_PRESET;
+}
+
+export function saveSamplingPreset(id: SamplingPresetId) {
+  localStorage.setItem(PRESET_KEY, id);
+}
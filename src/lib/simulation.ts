@@ -0,0 +1,197 @@
+import { haversineKm } from "@/lib/geo";
+import type { PositionFix } from "@/lib/position-sources";
+import type { TrackPoint } from "@/lib/track-formats";
+
+// Synthetic tracks for the GPS simulator: a scripted day such as
+// "home 8am → office 9am → gym 6pm", or an imported track re-timed to start
+// at a chosen moment. Both are played through replaySource like real fixes.
+
+export interface ScriptStop {
+  label: string;
+  // Minutes after local midnight when the user should be there
+  minutes: number;
+}
+
+export interface PlacedStop extends ScriptStop {
+  latitude: number;
+  longitude: number;
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// "8am", "8:30 pm", "18:00", "noon"
+export function parseTimeOfDay(text: string): number | null {
+  const value = text.trim().toLowerCase();
+  if (value === "noon") return 12 * 60;
+  if (value === "midnight") return 0;
+  const match = value.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3];
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
+  } else if (hour > 23) {
+    return null;
+  }
+  return hour * 60 + minute;
+}
+
+// Stops are separated by arrows, commas or new lines; each is "<place> <time>"
+export function parseDayScript(text: string): { stops: ScriptStop[]; error: string | null } {
+  const parts = text.split(/→|->|,|\n/).map((p) => p.trim()).filter(Boolean);
+  const stops: ScriptStop[] = [];
+  for (const part of parts) {
+    const match = part.match(/^(.+?)\s+(?:at\s+)?(noon|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm)?)$/i);
+    const minutes = match ? parseTimeOfDay(match[2]) : null;
+    if (!match || minutes === null) return { stops: [], error: `Can't read "${part}": use "place 9am"` };
+    const label = match[1].trim().toLowerCase();
+    const previous = stops[stops.length - 1];
+    if (previous && minutes <= previous.minutes) {
+      return { stops: [], error: `"${part}" must come after ${previous.label}` };
+    }
+    stops.push({ label, minutes });
+  }
+  if (stops.length < 2) return { stops: [], error: "Add at least two stops" };
+  return { stops, error: null };
+}
+
+function hash(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// Small deterministic PRNG so the same script always produces the same track
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const KM_PER_DEG_LAT = 111.195;
+
+function offset(origin: LatLng, bearingRad: number, km: number): LatLng {
+  return {
+    lat: origin.lat + (km * Math.cos(bearingRad)) / KM_PER_DEG_LAT,
+    lng: origin.lng + (km * Math.sin(bearingRad)) / (KM_PER_DEG_LAT * Math.cos((origin.lat * Math.PI) / 180)),
+  };
+}
+
+// Known places keep their coordinates; anything else gets a stable spot
+// 1.5-6 km from `origin`, picked from its name.
+export function placeStops(stops: ScriptStop[], known: Record<string, LatLng>, origin: LatLng): PlacedStop[] {
+  return stops.map((stop) => {
+    let at = known[stop.label];
+    if (!at) {
+      const h = hash(stop.label);
+      at = offset(origin, ((h % 360) * Math.PI) / 180, 1.5 + ((h >>> 9) % 450) / 100);
+    }
+    return { ...stop, latitude: at.lat, longitude: at.lng };
+  });
+}
+
+export interface ScriptedDayOptions {
+  dwellEveryMin?: number;
+  travelEveryS?: number;
+  travelKmh?: number;
+  // How long to stay at the last stop
+  lastStopMin?: number;
+}
+
+// Fixes for one day starting at `dayStart` (local midnight, epoch ms): a fix
+// every few minutes while at a stop, and a moving track between stops timed
+// to arrive when the script says.
+export function scriptedDay(stops: PlacedStop[], dayStart: number, options: ScriptedDayOptions = {}): PositionFix[] {
+  const { dwellEveryMin = 5, travelEveryS = 30, travelKmh = 30, lastStopMin = 60 } = options;
+  const random = mulberry32(hash(`${dayStart}`));
+  const jitter = () => (random() - 0.5) * 0.00015;
+  const fixes: PositionFix[] = [];
+  let arrivedAt = dayStart + stops[0].minutes * 60_000;
+
+  stops.forEach((stop, i) => {
+    const next = stops[i + 1];
+    const distanceKm = next
+      ? haversineKm({ lat: stop.latitude, lng: stop.longitude }, { lat: next.latitude, lng: next.longitude })
+      : 0;
+    const travelMs = next ? Math.max(2 * 60_000, (distanceKm / travelKmh) * 3_600_000) : 0;
+    const leaveAt = next
+      ? Math.max(arrivedAt, dayStart + next.minutes * 60_000 - travelMs)
+      : arrivedAt + lastStopMin * 60_000;
+
+    for (let t = arrivedAt; t < leaveAt || t === arrivedAt; t += dwellEveryMin * 60_000) {
+      fixes.push({
+        latitude: stop.latitude + jitter(),
+        longitude: stop.longitude + jitter(),
+        accuracy: 8 + Math.round(random() * 7),
+        speed: 0,
+        timestamp: t,
+      });
+    }
+    if (!next) return;
+
+    const speed = (distanceKm * 1000) / (travelMs / 1000);
+    for (let t = travelEveryS * 1000; t < travelMs; t += travelEveryS * 1000) {
+      const f = t / travelMs;
+      fixes.push({
+        latitude: stop.latitude + (next.latitude - stop.latitude) * f + jitter() / 3,
+        longitude: stop.longitude + (next.longitude - stop.longitude) * f + jitter() / 3,
+        accuracy: 10,
+        speed,
+        timestamp: leaveAt + t,
+      });
+    }
+    arrivedAt = leaveAt + travelMs;
+  });
+
+  return fixes;
+}
+
+// The script played for each of the last `days` days before `today`,
+// optionally skipping weekends. Oldest day first.
+export function scriptedDays(
+  stops: PlacedStop[],
+  { days, weekdaysOnly = false, today = new Date() }: { days: number; weekdaysOnly?: boolean; today?: Date },
+  options: ScriptedDayOptions = {},
+): PositionFix[] {
+  const fixes: PositionFix[] = [];
+  for (let back = days; back >= 1; back--) {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() - back);
+    if (weekdaysOnly && (day.getDay() === 0 || day.getDay() === 6)) continue;
+    fixes.push(...scriptedDay(stops, day.getTime(), options));
+  }
+  return fixes;
+}
+
+// Re-times an imported track to start at `startAt`. Recorded gaps are kept;
+// a track without times is paced at `defaultKmh`.
+export function trackToFixes(points: TrackPoint[], { startAt, defaultKmh = 5 }: { startAt: number; defaultKmh?: number }): PositionFix[] {
+  if (points.length === 0) return [];
+  const timed = points.every((p) => p.time !== null);
+  const first = points[0].time ?? 0;
+  let t = startAt;
+
+  return points.map((p, i) => {
+    if (timed) {
+      t = startAt + (p.time! - first);
+    } else if (i > 0) {
+      const prev = points[i - 1];
+      const km = haversineKm({ lat: prev.latitude, lng: prev.longitude }, { lat: p.latitude, lng: p.longitude });
+      t += Math.max(1000, (km / defaultKmh) * 3_600_000);
+    }
+    return { latitude: p.latitude, longitude: p.longitude, accuracy: 10, timestamp: Math.round(t) };
+  });
+}
@@ -0,0 +1,179 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { SendSosResponse, SosChannel } from "../../supabase/functions/_shared/contracts.ts";
+import { firstTier, preferredChannel, type NotifyVia } from "../../supabase/functions/_shared/escalation.ts";
+
+export { firstTier, preferredChannel };
+export type { NotifyVia, SosChannel };
+
+export type SosIncident = Tables<"sos_incidents">;
+export type SosIncidentEvent = Tables<"sos_incident_events">;
+
+export type SosStatus = "active" | "acknowledged" | "resolved" | "false_alarm";
+
+export const SOS_STATUS_LABELS: Record<SosStatus, string> = {
+  active: "Active",
+  acknowledged: "Acknowledged",
+  resolved: "Resolved",
+  false_alarm: "False alarm",
+};
+
+export const SOS_CHANNEL_LABELS: Record<SosChannel, string> = {
+  email: "Email",
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+};
+
+export const CONTACT_PRIORITY_LABELS: Record<number, string> = {
+  1: "First",
+  2: "Second",
+  3: "Third",
+};
+
+export const NOTIFY_VIA_LABELS: Record<NotifyVia, string> = SOS_CHANNEL_LABELS;
+
+// A contact's own link to say they've seen the alert
+export const ackUrl = (token: string, origin = window.location.origin) => `${origin}/ack/${token}`;
+
+// Who the first alert goes to. Later tiers are reached by escalation; with
+// escalation off nothing would reach them, so every tier is alerted at once.
+export function initialRecipients<T extends { priority: number }>(contacts: T[], escalationMinutes: number): T[] {
+  return escalationMinutes > 0 ? firstTier(contacts) : contacts;
+}
+
+// The email contacts the server didn't reach: all of them when the send failed
+export function missedByEmail<T extends { email: string | null }>(contacts: T[], result: Pick<SendSosResponse, "results"> | null): T[] {
+  const delivered = new Set((result?.results ?? []).filter((r) => r.success).map((r) => r.email));
+  return contacts.filter((c) => !c.email || !delivered.has(c.email));
+}
+
+// Active and acknowledged incidents still need the user to close them
+export const isOpenIncident = (incident: Pick<SosIncident, "status">) =>
+  incident.status === "active" || incident.status === "acknowledged";
+
+// Newest first
+export async function fetchIncidents(userId: string, limit = 20): Promise<SosIncident[]> {
+  const { data, error } = await supabase
+    .from("sos_incidents")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// The incident still waiting on the user, if any
+export async function fetchOpenIncident(userId: string): Promise<SosIncident | null> {
+  const { data, error } = await supabase
+    .from("sos_incidents")
+    .select("*")
+    .eq("user_id", userId)
+    .in("status", ["active", "acknowledged"])
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Who acknowledged first, for telling the user
+export async function fetchFirstResponder(incidentId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("sos_incident_events")
+    .select("contact_name")
+    .eq("incident_id", incidentId)
+    .eq("kind", "acknowledged")
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data?.contact_name ?? null;
+}
+
+export interface DeviceContact {
+  name: string;
+  phone: string;
+  channel: Exclude<NotifyVia, "email">;
+  ackToken: string;
+}
+
+// Contacts in a tier who prefer SMS or WhatsApp, with their ack tokens. The
+// server can't message them, so when it escalates on its own the user's
+// device picks them up from here.
+export async function fetchDeviceContacts(incidentId: string, tier: number): Promise<DeviceContact[]> {
+  const { data: alerted, error } = await supabase
+    .from("sos_incident_contacts")
+    .select("contact_id, contact_name, ack_token")
+    .eq("incident_id", incidentId)
+    .eq("priority", tier);
+  if (error) throw new Error(error.message);
+  const ids = (alerted || []).flatMap((a) => (a.contact_id ? [a.contact_id] : []));
+  if (ids.length === 0) return [];
+
+  const { data: contacts, error: contactsError } = await supabase
+    .from("emergency_contacts")
+    .select("id, phone, email, notify_via")
+    .in("id", ids);
+  if (contactsError) throw new Error(contactsError.message);
+  const byId = new Map((contacts || []).map((c) => [c.id, c]));
+  return (alerted || []).flatMap((a) => {
+    const contact = a.contact_id ? byId.get(a.contact_id) : undefined;
+    const channel = contact ? preferredChannel(contact) : "email";
+    return contact && channel !== "email"
+      ? [{ name: a.contact_name, phone: contact.phone, channel, ackToken: a.ack_token }]
+      : [];
+  });
+}
+
+// Oldest first, so it reads as a timeline
+export async function fetchIncidentEvents(incidentId: string): Promise<SosIncidentEvent[]> {
+  const { data, error } = await supabase
+    .from("sos_incident_events")
+    .select("*")
+    .eq("incident_id", incidentId)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// Resolved or a false alarm. Incidents can't be updated directly; the status
+// change itself is added to the timeline by a trigger.
+export async function closeSosIncident(id: string, status: Extract<SosStatus, "resolved" | "false_alarm">, note?: string) {
+  const { error } = await supabase.rpc("close_sos_incident", { p_incident_id: id, p_status: status, p_note: note });
+  if (error) throw new Error(error.message);
+}
+
+export interface DeliverySummary {
+  delivered: number;
+  failed: number;
+  // SMS and WhatsApp opened on the device, outcome unknown
+  opened: number;
+}
+
+export function summarizeDeliveries(events: Pick<SosIncidentEvent, "kind" | "success">[]): DeliverySummary {
+  const summary: DeliverySummary = { delivered: 0, failed: 0, opened: 0 };
+  for (const event of events) {
+    if (event.kind !== "delivery") continue;
+    if (event.success === true) summary.delivered++;
+    else if (event.success === false) summary.failed++;
+    else summary.opened++;
+  }
+  return summary;
+}
+
+// One line of an incident's timeline
+export function describeEvent(event: Pick<SosIncidentEvent, "kind" | "channel" | "contact_name" | "success" | "detail">): string {
+  if (event.kind === "triggered") return "SOS triggered";
+  if (event.kind === "acknowledged") return `${event.contact_name ?? "A contact"} is responding`;
+  if (event.kind === "escalated") return event.detail ?? "Escalated";
+  if (event.kind === "status") {
+    const label = SOS_STATUS_LABELS[event.detail as SosStatus] ?? event.detail;
+    return `Marked ${label.toLowerCase()}`;
+  }
+  const channel = SOS_CHANNEL_LABELS[event.channel as SosChannel] ?? "Alert";
+  const who = event.contact_name ?? "contact";
+  if (event.success === true) return `${channel} delivered to ${who}`;
+  if (event.success === false) return `${channel} to ${who} failed`;
+  return `${channel} opened for ${who}`;
+}
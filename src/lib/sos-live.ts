@@ -0,0 +1,103 @@
+import { supabase } from "@/integrations/supabase/client";
+import { haversineKm } from "@/lib/geo";
+import type { Fix } from "@/lib/sampling";
+
+// Keeps an open SOS incident's shared position current. LocationContext hands
+// every fix to shareLiveFix; it only writes while an incident is being shared,
+// and no more often than the people following it need.
+
+export const LIVE_PUSH_INTERVAL_MS = 15_000;
+// A big move is worth sending early, but not more than this often
+export const LIVE_MIN_PUSH_INTERVAL_MS = 5_000;
+export const LIVE_PUSH_DISTANCE_M = 50;
+// How often the public page asks for a new position
+export const LIVE_POLL_INTERVAL_MS = 15_000;
+
+export interface LivePush {
+  latitude: number;
+  longitude: number;
+  // Epoch ms
+  at: number;
+}
+
+export function shouldPushLive(last: LivePush | null, fix: Pick<Fix, "latitude" | "longitude">, now: number): boolean {
+  if (!last) return true;
+  const elapsed = now - last.at;
+  if (elapsed >= LIVE_PUSH_INTERVAL_MS) return true;
+  if (elapsed < LIVE_MIN_PUSH_INTERVAL_MS) return false;
+  const m = haversineKm({ lat: last.latitude, lng: last.longitude }, { lat: fix.latitude, lng: fix.longitude }) * 1000;
+  return m >= LIVE_PUSH_DISTANCE_M;
+}
+
+export const liveShareUrl = (token: string, origin = window.location.origin) => `${origin}/live/${token}`;
+
+// "just now", "4 min ago", "2 h ago"
+export function updatedAgo(iso: string, now = Date.now()): string {
+  const minutes = Math.floor((now - new Date(iso).getTime()) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+}
+
+let sharing: { incidentId: string; last: LivePush | null } | null = null;
+
+export function startLiveSharing(incidentId: string) {
+  if (sharing?.incidentId === incidentId) return;
+  sharing = { incidentId, last: null };
+}
+
+// Without an id, stops whatever is being shared
+export function stopLiveSharing(incidentId?: string) {
+  if (!incidentId || sharing?.incidentId === incidentId) sharing = null;
+}
+
+// Picks sharing back up after a reload, if an incident is still open
+export async function resumeLiveSharing(userId: string) {
+  const { data, error } = await supabase
+    .from("sos_incidents")
+    .select("id")
+    .eq("user_id", userId)
+    .in("status", ["active", "acknowledged"])
+    .gt("share_expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (data) startLiveSharing(data.id);
+}
+
+type BatteryManager = { level: number; charging: boolean };
+
+// Not every browser has the Battery Status API
+async function readBattery(): Promise<BatteryManager | null> {
+  const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+  if (!nav.getBattery) return null;
+  try {
+    const battery = await nav.getBattery();
+    return { level: battery.level, charging: battery.charging };
+  } catch {
+    return null;
+  }
+}
+
+export async function shareLiveFix(fix: Fix, now = Date.now()) {
+  const current = sharing;
+  if (!current || !navigator.onLine || !shouldPushLive(current.last, fix, now)) return;
+  current.last = { latitude: fix.latitude, longitude: fix.longitude, at: now };
+
+  const battery = await readBattery();
+  const { data: status, error } = await supabase.rpc("share_sos_location", {
+    p_incident_id: current.incidentId,
+    p_latitude: fix.latitude,
+    p_longitude: fix.longitude,
+    p_recorded_at: new Date(fix.timestamp).toISOString(),
+    p_accuracy_m: fix.accuracy,
+    ...(battery ? { p_battery_level: battery.level, p_battery_charging: battery.charging } : {}),
+  });
+  if (error) {
+    console.warn("Failed to share live location:", error.message);
+    return;
+  }
+  // Closed from somewhere else, or gone
+  if (!status || status === "resolved" || status === "false_alarm") stopLiveSharing(current.incidentId);
+}
@@ -0,0 +1,87 @@
+import { toast } from "sonner";
+import { ackUrl, type NotifyVia } from "@/lib/sos-incidents";
+import { liveShareUrl } from "@/lib/sos-live";
+
+// The SOS text sent from the user's own device over SMS and WhatsApp. Each
+// contact gets their own message, so it can carry their ack link. Email only
+// opens on the device when the server couldn't send it.
+
+export type DeviceChannel = NotifyVia;
+
+export interface SosMessage {
+  coordinates: { latitude: number; longitude: number } | null;
+  // Live tracking page token, when the incident has one
+  shareToken: string | null;
+  ackToken?: string | null;
+  // A re-send after nobody acknowledged
+  reminder?: boolean;
+}
+
+export function sosMessage({ coordinates, shareToken, ackToken, reminder = false }: SosMessage, origin = window.location.origin): string {
+  const location = shareToken
+    ? liveShareUrl(shareToken, origin)
+    : coordinates
+      ? `https://www.google.com/maps?q=${coordinates.latitude},${coordinates.longitude}`
+      : "Location unavailable";
+  const lines = [
+    reminder ? "🚨 I still need help and haven't heard back!" : "🚨 EMERGENCY SOS ALERT! I need help immediately!",
+    "",
+    `📍 ${shareToken ? "Follow my live location" : "My location"}: ${location}`,
+    ...(coordinates ? [`📐 Coordinates: ${coordinates.latitude.toFixed(6)}, ${coordinates.longitude.toFixed(6)}`] : []),
+    "",
+    "Please try to reach me or contact emergency services.",
+    ...(ackToken ? ["", `✅ Tap to let me know you've seen this: ${ackUrl(ackToken, origin)}`] : []),
+  ];
+  return lines.join("\n");
+}
+
+// wa.me wants the number as digits only. `to` is an email address for email.
+export function deviceAlertUrl(channel: DeviceChannel, to: string, text: string): string {
+  if (channel === "whatsapp") {
+    return `https://wa.me/${to.replace(/[^\d]/g, "")}?text=${encodeURIComponent(text)}`;
+  }
+  if (channel === "email") {
+    return `mailto:${to}?subject=${encodeURIComponent("🚨 EMERGENCY SOS ALERT")}&body=${encodeURIComponent(text)}`;
+  }
+  return `sms:${to}?body=${encodeURIComponent(text)}`;
+}
+
+export interface DeviceAlert {
+  name: string;
+  // Phone number, or email address for email
+  to: string;
+  channel: DeviceChannel;
+  text: string;
+  // Shown in place of the contact's preference, e.g. why this is a fallback
+  note?: string;
+}
+
+const CHANNEL_NAMES: Record<DeviceChannel, string> = { email: "email", sms: "SMS", whatsapp: "WhatsApp" };
+
+const openAlert = (alert: DeviceAlert) =>
+  window.open(deviceAlertUrl(alert.channel, alert.to, alert.text), alert.channel === "whatsapp" ? "_blank" : "_self");
+
+// For a contact the server's email didn't reach: SMS where there's a phone
+// number, else the device's mail app
+export function fallbackAlert(contact: { name: string; phone: string; email: string | null }, text: string): DeviceAlert | null {
+  const note = `Email to ${contact.name} didn't go through`;
+  if (contact.phone) return { name: contact.name, to: contact.phone, channel: "sms", text, note };
+  if (contact.email) return { name: contact.name, to: contact.email, channel: "email", text, note };
+  return null;
+}
+
+// The device can only open one message at a time. The first is opened
+// straight away when `openFirst` is set; the rest are offered as toasts, each
+// a tap away.
+export function openDeviceAlerts(alerts: DeviceAlert[], { openFirst = true } = {}) {
+  const queued = [...alerts];
+  // A blocked window (e.g. after a network round trip) is queued like the rest
+  if (openFirst && queued.length > 0 && openAlert(queued[0])) queued.shift();
+  for (const alert of queued) {
+    toast(`Alert ${alert.name}`, {
+      description: alert.note ?? `${alert.name} prefers ${CHANNEL_NAMES[alert.channel]}`,
+      duration: 60000,
+      action: { label: "Send", onClick: () => openAlert(alert) },
+    });
+  }
+}
@@ -0,0 +1,454 @@
+// Offline copies of map tiles. Every tile the map shows is kept on the device,
+// and whole regions can be fetched ahead of time, so the map still draws
+// where there's no signal. The cache has a byte budget; past it, the tiles
+// viewed least recently are dropped first.
+
+export interface TileCoord {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface CachedTile {
+  key: string;
+  blob: Blob;
+  bytes: number;
+  // Epoch ms
+  storedAt: number;
+  // Epoch ms the map last drew it, for evicting the least recently used
+  usedAt: number;
+}
+
+export interface TileStats {
+  tiles: number;
+  bytes: number;
+}
+
+// `put` evicts least recently used tiles whenever the store goes over its
+// budget
+export interface TileStore {
+  get(key: string): Promise<CachedTile | null>;
+  keys(): Promise<string[]>;
+  put(tile: CachedTile): Promise<void>;
+  touch(key: string, usedAt: number): Promise<void>;
+  stats(): Promise<TileStats>;
+  clear(): Promise<void>;
+}
+
+export interface TileStoreOptions {
+  budgetBytes?: number;
+}
+
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export const TILE_URL = "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png";
+export const TILE_SUBDOMAINS = "abcd";
+export const MAX_TILE_ZOOM = 19;
+
+// Cached tiles older than this are refreshed when there's a connection
+export const TILE_MAX_AGE_DAYS = 30;
+
+// A region download above this many tiles is refused; at street level a
+// city is a few thousand
+export const MAX_REGION_TILES = 5000;
+
+// For size estimates before downloading
+export const AVG_TILE_BYTES = 20_000;
+
+// Room for a couple of full-size regions on top of everyday browsing
+export const TILE_CACHE_BUDGET_BYTES = 250 * 1024 ** 2;
+
+// A tile drawn again within this long isn't re-marked as used, so browsing
+// the map doesn't turn every read into a write
+const TOUCH_INTERVAL_MS = 3_600_000;
+
+export const ZOOM_PRESETS = {
+  overview: { label: "Overview", description: "Roads and towns", zooms: [10, 11, 12, 13] },
+  streets: { label: "Streets", description: "Street names", zooms: [10, 11, 12, 13, 14, 15] },
+  detailed: { label: "Detailed", description: "Buildings and paths", zooms: [12, 13, 14, 15, 16, 17] },
+} as const;
+
+export type ZoomPresetId = keyof typeof ZOOM_PRESETS;
+
+// One entry per tile image: the same tile from any subdomain is one entry,
+// high-DPI versions are another
+export function tileKey({ z, x, y }: TileCoord, retina: boolean): string {
+  return `${z}/${x}/${y}${retina ? "@2x" : ""}`;
+}
+
+// Picks the subdomain the way Leaflet does, so downloaded tiles match the
+// browser's HTTP cache too
+export function tileUrl({ z, x, y }: TileCoord, retina: boolean): string {
+  const s = TILE_SUBDOMAINS[Math.abs(x + y) % TILE_SUBDOMAINS.length];
+  return TILE_URL.replace("{s}", s).replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y))
+    .replace("{r}", retina ? "@2x" : "");
+}
+
+export function lngToTileX(lng: number, z: number): number {
+  const n = 2 ** z;
+  return Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+}
+
+export function latToTileY(lat: number, z: number): number {
+  const n = 2 ** z;
+  const rad = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+  return Math.min(n - 1, Math.max(0, Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n)));
+}
+
+// The box around some points, padded by `paddingKm` on every side
+export function boundsAround(points: { latitude: number; longitude: number }[], paddingKm: number): Bounds | null {
+  if (points.length === 0) return null;
+  const lats = points.map((p) => p.latitude);
+  const lngs = points.map((p) => p.longitude);
+  const dLat = paddingKm / 111;
+  const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const dLng = paddingKm / (111 * Math.max(0.01, Math.cos((midLat * Math.PI) / 180)));
+  return {
+    south: Math.max(-85, Math.min(...lats) - dLat),
+    north: Math.min(85, Math.max(...lats) + dLat),
+    west: Math.max(-180, Math.min(...lngs) - dLng),
+    east: Math.min(180, Math.max(...lngs) + dLng),
+  };
+}
+
+export function countTiles(bounds: Bounds, zooms: readonly number[]): number {
+  return zooms.reduce((sum, z) => {
+    const cols = lngToTileX(bounds.east, z) - lngToTileX(bounds.west, z) + 1;
+    const rows = latToTileY(bounds.south, z) - latToTileY(bounds.north, z) + 1;
+    return sum + cols * rows;
+  }, 0);
+}
+
+export function tilesInBounds(bounds: Bounds, zooms: readonly number[]): TileCoord[] {
+  const tiles: TileCoord[] = [];
+  for (const z of zooms) {
+    for (let x = lngToTileX(bounds.west, z); x <= lngToTileX(bounds.east, z); x++) {
+      for (let y = latToTileY(bounds.north, z); y <= latToTileY(bounds.south, z); y++) {
+        tiles.push({ z, x, y });
+      }
+    }
+  }
+  return tiles;
+}
+
+// A place to cover: one point, a circle (its center and radius) or the
+// outline of a polygon
+export interface TileArea {
+  points: { latitude: number; longitude: number }[];
+  radiusKm?: number;
+}
+
+// Tiles covering a box around each area, widened by `paddingKm`, each tile once
+export function tilesAroundAreas(areas: TileArea[], paddingKm: number, zooms: readonly number[]): TileCoord[] {
+  const seen = new Map<string, TileCoord>();
+  for (const area of areas) {
+    const bounds = boundsAround(area.points, paddingKm + (area.radiusKm ?? 0));
+    if (!bounds) continue;
+    for (const tile of tilesInBounds(bounds, zooms)) seen.set(tileKey(tile, false), tile);
+  }
+  return [...seen.values()];
+}
+
+// Tiles covering a box around each point, each tile once
+export function tilesAround(points: { latitude: number; longitude: number }[], paddingKm: number, zooms: readonly number[]): TileCoord[] {
+  return tilesAroundAreas(points.map((point) => ({ points: [point] })), paddingKm, zooms);
+}
+
+async function fetchTileBlob(url: string): Promise<Blob> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Tile request failed with status ${res.status}`);
+  return res.blob();
+}
+
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine !== false;
+
+export interface LoadTileOptions {
+  store?: TileStore;
+  fetchTile?: (url: string) => Promise<Blob>;
+  online?: () => boolean;
+  now?: number;
+}
+
+// The cached copy when there is one, unless it's stale and the network can
+// replace it. Anything fetched is stored for next time.
+export async function loadTile(
+  key: string,
+  url: string,
+  { store = tileCache(), fetchTile = fetchTileBlob, online = isOnline, now = Date.now() }: LoadTileOptions = {},
+): Promise<Blob> {
+  const cached = await store.get(key).catch(() => null);
+  const fresh = cached && now - cached.storedAt < TILE_MAX_AGE_DAYS * 86_400_000;
+  if (cached && (fresh || !online())) {
+    if (now - cached.usedAt >= TOUCH_INTERVAL_MS) {
+      store.touch(key, now).catch((err) => console.error("Error updating cached tile:", err));
+    }
+    return cached.blob;
+  }
+
+  try {
+    const blob = await fetchTile(url);
+    store.put({ key, blob, bytes: blob.size, storedAt: now, usedAt: now }).catch((err) => console.error("Error caching tile:", err));
+    return blob;
+  } catch (err) {
+    if (cached) return cached.blob;
+    throw err;
+  }
+}
+
+export interface DownloadResult {
+  downloaded: number;
+  // Already on the device
+  skipped: number;
+  failed: number;
+}
+
+export interface DownloadOptions {
+  store?: TileStore;
+  fetchTile?: (url: string) => Promise<Blob>;
+  retina?: boolean;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export async function downloadTiles(
+  tiles: TileCoord[],
+  { store = tileCache(), fetchTile = fetchTileBlob, retina = false, concurrency = 4, signal, onProgress }: DownloadOptions = {},
+): Promise<DownloadResult> {
+  const have = new Set(await store.keys());
+  const result: DownloadResult = { downloaded: 0, skipped: 0, failed: 0 };
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < tiles.length && !signal?.aborted) {
+      const tile = tiles[next++];
+      const key = tileKey(tile, retina);
+      if (have.has(key)) {
+        result.skipped++;
+      } else {
+        try {
+          const blob = await fetchTile(tileUrl(tile, retina));
+          const now = Date.now();
+          await store.put({ key, blob, bytes: blob.size, storedAt: now, usedAt: now });
+          result.downloaded++;
+        } catch {
+          result.failed++;
+        }
+      }
+      onProgress?.(++done, tiles.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+  return result;
+}
+
+export function memoryTileStore({ budgetBytes = TILE_CACHE_BUDGET_BYTES }: TileStoreOptions = {}): TileStore {
+  const tiles = new Map<string, CachedTile>();
+  let bytes = 0;
+  return {
+    async get(key) {
+      return tiles.get(key) ?? null;
+    },
+    async keys() {
+      return [...tiles.keys()];
+    },
+    async put(tile) {
+      bytes += tile.bytes - (tiles.get(tile.key)?.bytes ?? 0);
+      tiles.set(tile.key, tile);
+      if (bytes <= budgetBytes) return;
+      for (const old of [...tiles.values()].sort((a, b) => a.usedAt - b.usedAt)) {
+        tiles.delete(old.key);
+        bytes -= old.bytes;
+        if (bytes <= budgetBytes) break;
+      }
+    },
+    async touch(key, usedAt) {
+      const tile = tiles.get(key);
+      if (tile) tiles.set(key, { ...tile, usedAt });
+    },
+    async stats() {
+      return { tiles: tiles.size, bytes };
+    },
+    async clear() {
+      tiles.clear();
+      bytes = 0;
+    },
+  };
+}
+
+// Its own database, so the location queue's schema is left alone
+const DB_NAME = "safetrack-tiles";
+const STORE_NAME = "tiles";
+const USED_AT_INDEX = "usedAt";
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 2);
+    req.onupgradeneeded = (event) => {
+      const store = event.oldVersion < 1
+        ? req.result.createObjectStore(STORE_NAME, { keyPath: "key" })
+        : req.transaction!.objectStore(STORE_NAME);
+      store.createIndex(USED_AT_INDEX, "usedAt");
+      // Tiles from before the budget count as used when they were stored
+      if (event.oldVersion < 1) return;
+      store.openCursor().onsuccess = function () {
+        const cursor = this.result;
+        if (!cursor) return;
+        const tile = cursor.value as CachedTile;
+        if (tile.usedAt === undefined) cursor.update({ ...tile, usedAt: tile.storedAt });
+        cursor.continue();
+      };
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Falls back to memory where IndexedDB can't be opened, like the location queue
+export function indexedDbTileStore({ budgetBytes = TILE_CACHE_BUDGET_BYTES }: TileStoreOptions = {}): TileStore {
+  const fallback = memoryTileStore({ budgetBytes });
+  const db: Promise<IDBDatabase | null> =
+    typeof indexedDB === "undefined"
+      ? Promise.resolve(null)
+      : openDatabase().catch((err) => {
+          console.error("Tile cache storage unavailable, caching in memory:", err);
+          return null;
+        });
+
+  const write = async (fn: (store: IDBObjectStore) => void) => {
+    const conn = await db;
+    if (!conn) return false;
+    const tx = conn.transaction(STORE_NAME, "readwrite");
+    fn(tx.objectStore(STORE_NAME));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    return true;
+  };
+
+  // Walks the records rather than loading every blob at once
+  const countUsage = (conn: IDBDatabase) =>
+    new Promise<TileStats>((resolve, reject) => {
+      const totals = { tiles: 0, bytes: 0 };
+      const req = conn.transaction(STORE_NAME).objectStore(STORE_NAME).openCursor();
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return resolve(totals);
+        totals.tiles++;
+        totals.bytes += (cursor.value as CachedTile).bytes;
+        cursor.continue();
+      };
+      req.onerror = () => reject(req.error);
+    });
+
+  // Counted once, then kept up to date by every write
+  let usage: Promise<TileStats> | null = null;
+  const currentUsage = async (conn: IDBDatabase) => {
+    if (!usage) usage = countUsage(conn).catch((err) => {
+      usage = null;
+      throw err;
+    });
+    return usage;
+  };
+
+  // One eviction pass at a time; it runs until the store is back in budget
+  let evicting: Promise<void> | null = null;
+  const evict = (totals: TileStats) => {
+    if (!evicting) {
+      evicting = write((store) => {
+        const req = store.index(USED_AT_INDEX).openCursor();
+        req.onsuccess = () => {
+          const cursor = req.result;
+          if (!cursor || totals.bytes <= budgetBytes) return;
+          totals.tiles--;
+          totals.bytes -= (cursor.value as CachedTile).bytes;
+          cursor.delete();
+          cursor.continue();
+        };
+      })
+        .then(() => undefined)
+        .finally(() => {
+          evicting = null;
+        });
+    }
+    return evicting;
+  };
+
+  return {
+    async get(key) {
+      const conn = await db;
+      if (!conn) return fallback.get(key);
+      return (await request(conn.transaction(STORE_NAME).objectStore(STORE_NAME).get(key) as IDBRequest<CachedTile | undefined>)) ?? null;
+    },
+    async keys() {
+      const conn = await db;
+      if (!conn) return fallback.keys();
+      return (await request(conn.transaction(STORE_NAME).objectStore(STORE_NAME).getAllKeys())) as string[];
+    },
+    async put(tile) {
+      const conn = await db;
+      if (!conn) return fallback.put(tile);
+      const totals = await currentUsage(conn);
+      let replaced: CachedTile | undefined;
+      await write((store) => {
+        const existing = store.get(tile.key);
+        existing.onsuccess = () => {
+          replaced = existing.result as CachedTile | undefined;
+          store.put(tile);
+        };
+      });
+      totals.tiles += replaced ? 0 : 1;
+      totals.bytes += tile.bytes - (replaced?.bytes ?? 0);
+      if (totals.bytes > budgetBytes) await evict(totals);
+    },
+    async touch(key, usedAt) {
+      const done = await write((store) => {
+        const existing = store.get(key);
+        existing.onsuccess = () => {
+          const tile = existing.result as CachedTile | undefined;
+          if (tile) store.put({ ...tile, usedAt });
+        };
+      });
+      if (!done) await fallback.touch(key, usedAt);
+    },
+    async stats() {
+      const conn = await db;
+      if (!conn) return fallback.stats();
+      return { ...(await currentUsage(conn)) };
+    },
+    async clear() {
+      if (!(await write((store) => store.clear()))) return fallback.clear();
+      usage = Promise.resolve({ tiles: 0, bytes: 0 });
+    },
+  };
+}
+
+let sharedStore: TileStore | null = null;
+
+// One store for the map and Settings, opened on first use
+export function tileCache(): TileStore {
+  if (!sharedStore) sharedStore = indexedDbTileStore();
+  return sharedStore;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+}
@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { segmentTimeline, type TimelineSegment } from "../../supabase/functions/_shared/timeline.ts";
+
+export { segmentTimeline };
+export type { TimelineSegment, TimelineTrip, TimelineVisit } from "../../supabase/functions/_shared/timeline.ts";
+
+export type TimelineLog = Tables<"location_logs">;
+
+export interface TimelineDay {
+  // Local midnight, epoch ms
+  day: number;
+  logs: TimelineLog[];
+  segments: TimelineSegment[];
+}
+
+export const TIMELINE_PAGE_SIZE = 500;
+
+const localMidnight = (ms: number) => {
+  const d = new Date(ms);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+export const nextDay = (day: number) => {
+  const d = new Date(day);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+};
+
+// Newest first. `before` is the created_at of the oldest row already loaded;
+// created_at is unique per user, so nothing is skipped or repeated.
+export async function fetchLogPage(userId: string, before: string | null, limit = TIMELINE_PAGE_SIZE): Promise<TimelineLog[]> {
+  let query = supabase.from("location_logs").select("*").eq("user_id", userId);
+  if (before) query = query.lt("created_at", before);
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(limit);
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// Every point of one local day, oldest first
+export async function fetchDayLogs(userId: string, day: number): Promise<TimelineLog[]> {
+  const { data, error } = await supabase
+    .from("location_logs")
+    .select("*")
+    .eq("user_id", userId)
+    .gte("created_at", new Date(day).toISOString())
+    .lt("created_at", new Date(nextDay(day)).toISOString())
+    .order("created_at", { ascending: true })
+    .limit(10_000);
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// Groups logs by local day, newest day first, and splits each day into
+// visits and trips
+export function groupByDay(logs: TimelineLog[]): TimelineDay[] {
+  const days = new Map<number, TimelineLog[]>();
+  for (const log of logs) {
+    const day = localMidnight(new Date(log.created_at).getTime());
+    const list = days.get(day);
+    if (list) list.push(log);
+    else days.set(day, [log]);
+  }
+  return [...days.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .map(([day, dayLogs]) => ({ day, logs: dayLogs, segments: segmentTimeline(dayLogs) }));
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m === 0 ? `${h} h` : `${h} h ${m} min`;
+}
@@ -0,0 +1,42 @@
+import { supabase } from "@/integrations/supabase/client";
+import { isValidTimeZone, zonedTime } from "../../supabase/functions/_shared/timezone.ts";
+
+export { isValidTimeZone };
+
+let cached: { userId: string; timeZone: string } | null = null;
+
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+// The user's stored IANA zone. The first time a user without one is seen, the
+// device zone is saved to their profile so the server uses the same zone.
+export async function getUserTimeZone(userId: string): Promise<string> {
+  if (cached?.userId === userId) return cached.timeZone;
+
+  const { data } = await supabase.from("profiles").select("timezone").eq("user_id", userId).maybeSingle();
+  let timeZone = data?.timezone;
+  if (!isValidTimeZone(timeZone)) {
+    timeZone = getDeviceTimeZone();
+    if (data) {
+      await supabase.from("profiles").update({ timezone: timeZone }).eq("user_id", userId);
+    }
+  }
+
+  cached = { userId, timeZone };
+  return timeZone;
+}
+
+export function setCachedTimeZone(userId: string, timeZone: string) {
+  cached = { userId, timeZone };
+}
+
+// `hour` and `day` for a location_logs row, in the user's zone.
+export async function localHourDay(userId: string, at: Date = new Date()): Promise<{ hour: number; day: number }> {
+  const { hour, day } = zonedTime(at, await getUserTimeZone(userId));
+  return { hour, day };
+}
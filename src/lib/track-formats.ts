@@ -0,0 +1,358 @@
+// Readers for location track files. Each returns points in file order; the
+// time is null where the file doesn't carry one. Formats that know where the
+// user stayed (KML timelines, Takeout semantic history) also return visits.
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  // Epoch ms
+  time: number | null;
+  accuracy?: number | null;
+}
+
+export interface TrackVisit {
+  latitude: number;
+  longitude: number;
+  // Epoch ms
+  start: number;
+  end: number;
+  name: string | null;
+  // The exporter's own category, e.g. Takeout's TYPE_HOME
+  semanticType: string | null;
+}
+
+export type TrackFormat = "gpx" | "kml" | "geojson" | "takeout_records" | "takeout_semantic" | "takeout_timeline";
+
+export interface ParsedHistory {
+  format: TrackFormat;
+  points: TrackPoint[];
+  visits: TrackVisit[];
+}
+
+export const TRACK_FORMAT_LABELS: Record<TrackFormat, string> = {
+  gpx: "GPX",
+  kml: "KML",
+  geojson: "GeoJSON",
+  takeout_records: "Google Takeout (Records)",
+  takeout_semantic: "Google Takeout (Semantic Location History)",
+  takeout_timeline: "Google Timeline export",
+};
+
+const parseTime = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) return value < 1e12 ? value * 1000 : value;
+  if (typeof value !== "string" || !value.trim()) return null;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+};
+
+const validPoint = (p: { latitude: number; longitude: number }) =>
+  Number.isFinite(p.latitude) && Number.isFinite(p.longitude) &&
+  Math.abs(p.latitude) <= 90 && Math.abs(p.longitude) <= 180;
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error("The file isn't valid XML");
+  return doc;
+}
+
+// Track points, falling back to route points and then waypoints
+export function parseGpx(text: string): TrackPoint[] {
+  const doc = parseXml(text);
+  for (const tag of ["trkpt", "rtept", "wpt"]) {
+    const nodes = Array.from(doc.getElementsByTagName(tag));
+    if (nodes.length === 0) continue;
+    return nodes
+      .map((node) => ({
+        latitude: Number(node.getAttribute("lat")),
+        longitude: Number(node.getAttribute("lon")),
+        time: parseTime(node.getElementsByTagName("time")[0]?.textContent),
+      }))
+      .filter(validPoint);
+  }
+  return [];
+}
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJsonGeometry[];
+}
+
+interface GeoJsonFeature {
+  type: "Feature";
+  geometry: GeoJsonGeometry | null;
+  properties: Record<string, unknown> | null;
+}
+
+// Points, LineStrings and their Multi- forms. Per-vertex times are read from
+// a `coordTimes` (or `times`) property, single-point times from `time` or
+// `timestamp`.
+export function parseGeoJson(text: string): TrackPoint[] {
+  return geoJsonPoints(parseJson(text));
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+}
+
+function geoJsonPoints(data: unknown): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  const fromLine = (coords: number[][], times: unknown) => {
+    const stamps = Array.isArray(times) ? times : [];
+    coords.forEach((c, i) => points.push({ latitude: c[1], longitude: c[0], time: parseTime(stamps[i]) }));
+  };
+
+  const visit = (geometry: GeoJsonGeometry | null | undefined, properties: Record<string, unknown> | null) => {
+    if (!geometry) return;
+    const times = properties?.coordTimes ?? properties?.times;
+    switch (geometry.type) {
+      case "Point": {
+        const [longitude, latitude] = geometry.coordinates as number[];
+        points.push({ latitude, longitude, time: parseTime(properties?.time ?? properties?.timestamp) });
+        break;
+      }
+      case "MultiPoint":
+      case "LineString":
+        fromLine(geometry.coordinates as number[][], times);
+        break;
+      case "MultiLineString":
+        (geometry.coordinates as number[][][]).forEach((line, i) => fromLine(line, Array.isArray(times) ? times[i] : null));
+        break;
+      case "GeometryCollection":
+        geometry.geometries?.forEach((g) => visit(g, properties));
+        break;
+    }
+  };
+
+  const root = data as { type?: string; features?: GeoJsonFeature[] } | null;
+  if (root?.type === "FeatureCollection") {
+    for (const feature of root.features ?? []) visit(feature.geometry, feature.properties);
+  } else if (root?.type === "Feature") {
+    const feature = root as GeoJsonFeature;
+    visit(feature.geometry, feature.properties);
+  } else if (typeof root?.type === "string") {
+    visit(root as GeoJsonGeometry, null);
+  }
+  return points.filter(validPoint);
+}
+
+const textOf = (parent: Element, tag: string) => parent.getElementsByTagName(tag)[0]?.textContent?.trim() || null;
+
+// "lng,lat[,alt]" tuples separated by whitespace
+const kmlCoordinates = (text: string | null) =>
+  (text ?? "").split(/\s+/).filter(Boolean).map((tuple) => {
+    const [lng, lat] = tuple.split(",").map(Number);
+    return { latitude: lat, longitude: lng };
+  });
+
+// Placemarks with a Point and a TimeSpan are visits (Google's timeline KML
+// exports stays that way); LineStrings and gx:Track are paths.
+export function parseKml(text: string): ParsedHistory {
+  const doc = parseXml(text);
+  const points: TrackPoint[] = [];
+  const visits: TrackVisit[] = [];
+
+  for (const placemark of Array.from(doc.getElementsByTagName("Placemark"))) {
+    const begin = parseTime(textOf(placemark, "begin"));
+    const end = parseTime(textOf(placemark, "end"));
+    const when = parseTime(textOf(placemark, "when"));
+
+    for (const track of Array.from(placemark.getElementsByTagName("gx:Track"))) {
+      const times = Array.from(track.getElementsByTagName("when")).map((n) => parseTime(n.textContent));
+      Array.from(track.getElementsByTagName("gx:coord")).forEach((node, i) => {
+        const [lng, lat] = (node.textContent ?? "").trim().split(/\s+/).map(Number);
+        points.push({ latitude: lat, longitude: lng, time: times[i] ?? null });
+      });
+    }
+
+    for (const line of Array.from(placemark.getElementsByTagName("LineString"))) {
+      const coords = kmlCoordinates(textOf(line, "coordinates"));
+      // A line with a time span is spread evenly across it
+      coords.forEach((c, i) => {
+        const time = begin !== null && end !== null && coords.length > 1 ? begin + ((end - begin) * i) / (coords.length - 1) : begin;
+        points.push({ ...c, time });
+      });
+    }
+
+    const point = placemark.getElementsByTagName("Point")[0];
+    if (!point) continue;
+    const [at] = kmlCoordinates(textOf(point, "coordinates"));
+    if (!at) continue;
+    if (begin !== null && end !== null && end > begin) {
+      visits.push({ ...at, start: begin, end, name: textOf(placemark, "name"), semanticType: null });
+    } else {
+      points.push({ ...at, time: when ?? begin });
+    }
+  }
+
+  return { format: "kml", points: points.filter(validPoint), visits: visits.filter(validPoint) };
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === "object" && value !== null && !Array.isArray(value);
+const list = (value: unknown): Json[] => (Array.isArray(value) ? value.filter(isObject) : []);
+
+// E7 integers. Some older exports wrote negative values as unsigned 32-bit.
+const fromE7 = (value: unknown): number => {
+  const n = Number(value);
+  return (n > 1_800_000_000 ? n - 4_294_967_296 : n) / 1e7;
+};
+
+const e7Point = (o: Json, latKey: string, lngKey: string) => ({ latitude: fromE7(o[latKey]), longitude: fromE7(o[lngKey]) });
+
+// Takeout timestamps are ISO strings, or millisecond strings in older exports
+const takeoutTime = (o: Json, key: string): number | null => {
+  const ms = o[`${key}Ms`];
+  if (ms != null) return parseTime(Number(ms));
+  return parseTime(o[key]);
+};
+
+// Records.json: the raw point log
+function parseTakeoutRecords(data: Json): ParsedHistory {
+  const points = list(data.locations).map((loc) => ({
+    ...e7Point(loc, "latitudeE7", "longitudeE7"),
+    time: takeoutTime(loc, "timestamp"),
+    accuracy: typeof loc.accuracy === "number" ? loc.accuracy : null,
+  }));
+  return { format: "takeout_records", points: points.filter(validPoint), visits: [] };
+}
+
+// Semantic Location History (one file per month): place visits plus the
+// paths travelled between them
+function parseTakeoutSemantic(data: Json): ParsedHistory {
+  const points: TrackPoint[] = [];
+  const visits: TrackVisit[] = [];
+
+  for (const entry of list(data.timelineObjects)) {
+    const visit = entry.placeVisit;
+    if (isObject(visit) && isObject(visit.location) && isObject(visit.duration)) {
+      const start = takeoutTime(visit.duration, "startTimestamp");
+      const end = takeoutTime(visit.duration, "endTimestamp");
+      if (start !== null && end !== null) {
+        visits.push({
+          ...e7Point(visit.location, "latitudeE7", "longitudeE7"),
+          start,
+          end,
+          name: typeof visit.location.name === "string" ? visit.location.name : null,
+          semanticType: typeof visit.location.semanticType === "string" ? visit.location.semanticType : null,
+        });
+      }
+    }
+
+    const segment = entry.activitySegment;
+    if (!isObject(segment)) continue;
+    const raw = isObject(segment.simplifiedRawPath) ? list(segment.simplifiedRawPath.points) : [];
+    if (raw.length > 0) {
+      for (const p of raw) {
+        points.push({
+          ...e7Point(p, "latE7", "lngE7"),
+          time: takeoutTime(p, "timestamp"),
+          accuracy: typeof p.accuracyMeters === "number" ? p.accuracyMeters : null,
+        });
+      }
+    } else if (isObject(segment.duration)) {
+      // Only the ends are timed
+      if (isObject(segment.startLocation)) {
+        points.push({ ...e7Point(segment.startLocation, "latitudeE7", "longitudeE7"), time: takeoutTime(segment.duration, "startTimestamp") });
+      }
+      if (isObject(segment.endLocation)) {
+        points.push({ ...e7Point(segment.endLocation, "latitudeE7", "longitudeE7"), time: takeoutTime(segment.duration, "endTimestamp") });
+      }
+    }
+  }
+
+  return { format: "takeout_semantic", points: points.filter(validPoint), visits: visits.filter(validPoint) };
+}
+
+// "12.3456789°, -4.5678901°" (iOS / web) or "geo:12.345678,-4.567890" (Android)
+const parseLatLng = (value: unknown): { latitude: number; longitude: number } | null => {
+  if (typeof value !== "string") return null;
+  const match = value.replace(/^geo:/, "").match(/^\s*(-?[\d.]+)°?\s*,\s*(-?[\d.]+)°?\s*$/);
+  return match ? { latitude: Number(match[1]), longitude: Number(match[2]) } : null;
+};
+
+// The on-device Timeline export that replaced Takeout in 2024: an object with
+// `semanticSegments` (and optional `rawSignals`), or on Android a bare array
+// of segments
+function parseTakeoutTimeline(segments: Json[], rawSignals: Json[]): ParsedHistory {
+  const points: TrackPoint[] = [];
+  const visits: TrackVisit[] = [];
+
+  for (const segment of segments) {
+    const start = parseTime(segment.startTime);
+    const end = parseTime(segment.endTime);
+    const visit = segment.visit;
+    if (isObject(visit) && isObject(visit.topCandidate) && start !== null && end !== null) {
+      const candidate = visit.topCandidate;
+      const location = isObject(candidate.placeLocation) ? candidate.placeLocation.latLng : candidate.placeLocation;
+      const at = parseLatLng(location);
+      if (at) {
+        visits.push({
+          ...at,
+          start,
+          end,
+          name: null,
+          semanticType: typeof candidate.semanticType === "string" ? candidate.semanticType : null,
+        });
+      }
+    }
+
+    for (const p of list(segment.timelinePath)) {
+      const at = parseLatLng(p.point);
+      if (!at) continue;
+      const offset = Number(p.durationMinutesOffsetFromStartTime);
+      const time = parseTime(p.time) ?? (start !== null && Number.isFinite(offset) ? start + offset * 60_000 : null);
+      points.push({ ...at, time });
+    }
+  }
+
+  for (const signal of rawSignals) {
+    if (!isObject(signal.position)) continue;
+    const at = parseLatLng(signal.position.LatLng);
+    if (!at) continue;
+    const accuracy = signal.position.accuracyMeters;
+    points.push({ ...at, time: parseTime(signal.position.timestamp), accuracy: typeof accuracy === "number" ? accuracy : null });
+  }
+
+  return { format: "takeout_timeline", points: points.filter(validPoint), visits: visits.filter(validPoint) };
+}
+
+function parseJsonHistory(text: string): ParsedHistory {
+  const data = parseJson(text);
+  if (Array.isArray(data)) return parseTakeoutTimeline(list(data), []);
+  if (isObject(data)) {
+    if (Array.isArray(data.locations)) return parseTakeoutRecords(data);
+    if (Array.isArray(data.timelineObjects)) return parseTakeoutSemantic(data);
+    if (Array.isArray(data.semanticSegments)) return parseTakeoutTimeline(list(data.semanticSegments), list(data.rawSignals));
+  }
+  return { format: "geojson", points: geoJsonPoints(data), visits: [] };
+}
+
+// Picks the reader from the file name, falling back to sniffing the content.
+// JSON files are told apart by their top-level keys.
+export function parseLocationHistory(fileName: string, text: string): ParsedHistory {
+  const ext = fileName.toLowerCase().split(".").pop();
+  const head = text.trimStart();
+  if (ext === "gpx" || (head.startsWith("<") && /<gpx[\s>]/.test(head))) {
+    return { format: "gpx", points: parseGpx(text), visits: [] };
+  }
+  if (ext === "kml" || (head.startsWith("<") && /<kml[\s>]/.test(head))) return parseKml(text);
+  if (ext === "json" || ext === "geojson" || head.startsWith("{") || head.startsWith("[")) return parseJsonHistory(text);
+  throw new Error("Unsupported file: use GPX, KML, GeoJSON or a Google Takeout JSON file");
+}
+
+// Points only, for playback: visits become a point where they start and end
+export function parseTrack(fileName: string, text: string): TrackPoint[] {
+  const { points, visits } = parseLocationHistory(fileName, text);
+  const visitPoints = visits.flatMap((v) => [
+    { latitude: v.latitude, longitude: v.longitude, time: v.start },
+    { latitude: v.latitude, longitude: v.longitude, time: v.end },
+  ]);
+  if (visitPoints.length === 0) return points;
+  return [...points, ...visitPoints].sort((a, b) => (a.time ?? 0) - (b.time ?? 0));
+}
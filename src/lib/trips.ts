@@ -0,0 +1,53 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { TripMode } from "../../supabase/functions/_shared/timeline.ts";
+
+export type { TripMode };
+export { segmentTrips, type SegmentationStats } from "@/lib/api";
+
+export type Trip = Tables<"trips">;
+
+export interface TripSummary {
+  trips: number;
+  distanceKm: number;
+  durationMin: number;
+  byMode: Record<TripMode, { trips: number; distanceKm: number }>;
+}
+
+export const TRIP_MODE_LABELS: Record<TripMode, string> = {
+  walk: "Walking",
+  cycle: "Cycling",
+  vehicle: "Driving",
+};
+
+// Trips that started at or after `since`, newest first
+export async function fetchTrips(userId: string, since: Date): Promise<Trip[]> {
+  const { data, error } = await supabase
+    .from("trips")
+    .select("*")
+    .eq("user_id", userId)
+    .gte("started_at", since.toISOString())
+    .order("started_at", { ascending: false })
+    .limit(500);
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export function summarizeTrips(trips: Pick<Trip, "distance_km" | "duration_min" | "mode">[]): TripSummary {
+  const summary: TripSummary = {
+    trips: trips.length,
+    distanceKm: 0,
+    durationMin: 0,
+    byMode: { walk: { trips: 0, distanceKm: 0 }, cycle: { trips: 0, distanceKm: 0 }, vehicle: { trips: 0, distanceKm: 0 } },
+  };
+  for (const trip of trips) {
+    summary.distanceKm += trip.distance_km;
+    summary.durationMin += trip.duration_min;
+    const mode = summary.byMode[trip.mode as TripMode];
+    if (mode) {
+      mode.trips++;
+      mode.distanceKm += trip.distance_km;
+    }
+  }
+  return summary;
+}
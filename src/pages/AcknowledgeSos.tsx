@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { AlertTriangle, CheckCircle2, Clock, Loader2, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ApiError, acknowledgeSos, type AcknowledgeSosResponse } from "@/lib/api";
+import { toast } from "sonner";
+
+// Where a contact's ack link lands. Opening it only shows the alert; the
+// contact has to press the button to acknowledge it.
+export default function AcknowledgeSos() {
+  const { token = "" } = useParams();
+  const [alert, setAlert] = useState<AcknowledgeSosResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [acknowledging, setAcknowledging] = useState(false);
+
+  useEffect(() => {
+    acknowledgeSos({ token, peek: true })
+      .then(setAlert)
+      .catch((err) => setError(err instanceof ApiError && err.code === "not_found" ? err.message : "Couldn't load this alert"));
+  }, [token]);
+
+  const acknowledge = async () => {
+    setAcknowledging(true);
+    try {
+      setAlert(await acknowledgeSos({ token }));
+    } catch (err) {
+      console.error("Error acknowledging SOS:", err);
+      toast.error("Couldn't send your response. Please try again.");
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="text-center max-w-xs">
+          <Clock className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
+          <h1 className="text-lg font-semibold text-foreground mb-1">Link unavailable</h1>
+          <p className="text-sm text-muted-foreground">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!alert) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-accent" />
+      </div>
+    );
+  }
+
+  const who = alert.name ?? "Your contact";
+  const closed = alert.status === "resolved" || alert.status === "false_alarm";
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="w-full max-w-sm">
+        <Card variant="glass">
+          <CardContent className="p-5 text-center space-y-4">
+            {closed ? (
+              <>
+                <CheckCircle2 className="w-12 h-12 mx-auto text-success" />
+                <div>
+                  <h1 className="text-lg font-bold text-foreground">{who} is safe</h1>
+                  <p className="text-sm text-muted-foreground">
+                    This SOS has been {alert.status === "false_alarm" ? "marked a false alarm" : "resolved"}. Thank you, {alert.contactName}.
+                  </p>
+                </div>
+              </>
+            ) : alert.acknowledgedAt ? (
+              <>
+                <CheckCircle2 className="w-12 h-12 mx-auto text-success" />
+                <div>
+                  <h1 className="text-lg font-bold text-foreground">Thanks, {alert.contactName}</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {who} has been told you're responding. Please try to reach them now, and call emergency services if you can't.
+                  </p>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="w-14 h-14 mx-auto rounded-full bg-sos/20 flex items-center justify-center">
+                  <AlertTriangle className="w-7 h-7 text-sos" />
+                </div>
+                <div>
+                  <h1 className="text-lg font-bold text-foreground">{who} sent an SOS</h1>
+                  <p className="text-sm text-muted-foreground">
+                    Sent {new Date(alert.startedAt).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}.
+                    Let them know you've seen it, so the alert isn't passed on to others.
+                  </p>
+                </div>
+                <Button variant="gradient" className="w-full" disabled={acknowledging} onClick={acknowledge}>
+                  {acknowledging ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+                  I've seen this and I'm responding
+                </Button>
+              </>
+            )}
+            {alert.shareToken && (
+              <Button variant="outline" className="w-full" asChild>
+                <Link to={`/live/${alert.shareToken}`}>
+                  <MapPin className="w-4 h-4" />
+                  {closed ? "See where they were" : "Follow their live location"}
+                </Link>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { ArrowLeft, Circle, Hexagon, Plus, Trash2, Crosshair, Undo2, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { BottomNavigation } from "@/components/navigation/BottomNavigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocationContext } from "@/contexts/LocationContext";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  createCircleGeofence,
+  createPolygonGeofence,
+  deleteGeofence,
+  setGeofenceEnabled,
+  type Geofence,
+  type GeofencePoint,
+} from "@/lib/geofences";
+
+type Shape = "circle" | "polygon";
+
+function describeFence(fence: Geofence): string {
+  if (fence.shape === "circle") return `Circle · ${Math.round(fence.radius_m ?? 0)} m radius`;
+  return `Area · ${fence.polygon?.length ?? 0} corners`;
+}
+
+export default function Geofences() {
+  const { user } = useAuth();
+  const { currentLocation, geofences, currentGeofence, reloadGeofences } = useLocationContext();
+  const navigate = useNavigate();
+  const [shape, setShape] = useState<Shape>("circle");
+  const [name, setName] = useState("");
+  const [radius, setRadius] = useState("100");
+  const [corners, setCorners] = useState<GeofencePoint[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const here = currentLocation ? { lat: currentLocation.latitude, lng: currentLocation.longitude } : null;
+
+  const handleCreate = async () => {
+    if (!user) return;
+    if (!name.trim()) { toast.error("Give the geofence a name"); return; }
+
+    setSaving(true);
+    try {
+      if (shape === "circle") {
+        if (!here) { toast.error("Enable GPS first."); return; }
+        const radiusM = Number(radius);
+        if (!Number.isFinite(radiusM) || radiusM < 10 || radiusM > 5000) {
+          toast.error("Radius must be between 10 and 5000 m");
+          return;
+        }
+        const { error } = await createCircleGeofence(user.id, name, here, radiusM);
+        if (error) throw error;
+      } else {
+        if (corners.length < 3) { toast.error("Add at least 3 corners"); return; }
+        const { error } = await createPolygonGeofence(user.id, name, corners);
+        if (error) throw error;
+      }
+      toast.success(`Saved "${name.trim()}"`);
+      setName("");
+      setCorners([]);
+      await reloadGeofences();
+    } catch (e) {
+      console.error("Error saving geofence:", e);
+      toast.error("Failed to save geofence");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addCorner = () => {
+    if (!here) { toast.error("Enable GPS first."); return; }
+    setCorners((prev) => [...prev, here]);
+    toast.success(`Corner ${corners.length + 1} added`);
+  };
+
+  const handleToggle = async (fence: Geofence, enabled: boolean) => {
+    const { error } = await setGeofenceEnabled(fence.id, enabled);
+    if (error) { toast.error("Failed to update geofence"); return; }
+    await reloadGeofences();
+  };
+
+  const handleDelete = async (fence: Geofence) => {
+    const { error } = await deleteGeofence(fence.id);
+    if (error) { toast.error("Failed to delete geofence"); return; }
+    toast.success(`Deleted "${fence.name}"`);
+    await reloadGeofences();
+  };
+
+  return (
+    <div className="h-[100dvh] flex flex-col bg-background overflow-hidden">
+      <div className="shrink-0 px-3 py-3 border-b border-border bg-card/80 backdrop-blur-sm flex items-center gap-2">
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navigate(-1)}>
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-base font-bold text-foreground">Geofences</h1>
+          <p className="text-[10px] text-muted-foreground">Places that label your tracking automatically</p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        <Card variant="glass">
+          <CardHeader className="pb-2 px-3 pt-3">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Plus className="w-3.5 h-3.5 text-accent" />
+              New Geofence
+            </CardTitle>
+            <CardDescription className="text-[10px]">
+              While tracking, logs inside a geofence are tagged with its name and arrivals and departures are recorded.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="px-3 pb-3 space-y-3">
+            <div className="flex gap-1.5">
+              {(["circle", "polygon"] as Shape[]).map((s) => (
+                <Button
+                  key={s}
+                  variant={shape === s ? "default" : "glass"}
+                  size="sm"
+                  className={cn("h-7 text-xs flex-1", shape === s && "bg-accent")}
+                  onClick={() => setShape(s)}
+                >
+                  {s === "circle" ? <Circle className="w-3 h-3 mr-1" /> : <Hexagon className="w-3 h-3 mr-1" />}
+                  {s === "circle" ? "Circle" : "Area"}
+                </Button>
+              ))}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="fence-name" className="text-xs">Name</Label>
+              <Input
+                id="fence-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. home"
+                className="h-8 text-xs bg-secondary"
+              />
+            </div>
+
+            {shape === "circle" ? (
+              <div className="space-y-1.5">
+                <Label htmlFor="fence-radius" className="text-xs">Radius around your current position (m)</Label>
+                <Input
+                  id="fence-radius"
+                  type="number"
+                  min={10}
+                  max={5000}
+                  value={radius}
+                  onChange={(e) => setRadius(e.target.value)}
+                  className="h-8 text-xs bg-secondary"
+                />
+              </div>
+            ) : (
+              <div className="space-y-1.5">
+                <p className="text-[10px] text-muted-foreground">
+                  Walk the boundary and add a corner at each turn. {corners.length} corner{corners.length === 1 ? "" : "s"} so far.
+                </p>
+                <div className="flex gap-1.5">
+                  <Button variant="outline" size="sm" className="h-7 text-xs flex-1" onClick={addCorner} disabled={!here}>
+                    <Crosshair className="w-3 h-3 mr-1" /> Add corner here
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setCorners((prev) => prev.slice(0, -1))}
+                    disabled={corners.length === 0}
+                  >
+                    <Undo2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <Button
+              className="w-full h-8 text-xs bg-gradient-primary"
+              onClick={handleCreate}
+              disabled={saving || !name.trim() || (shape === "circle" ? !here : corners.length < 3)}
+            >
+              {saving ? "Saving..." : "Save Geofence"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {geofences.length === 0 ? (
+          <div className="text-center py-6">
+            <MapPin className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+            <p className="text-sm text-muted-foreground">No geofences yet</p>
+          </div>
+        ) : (
+          geofences.map((fence, i) => (
+            <motion.div key={fence.id} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.02 }}>
+              <Card className="bg-card border-border">
+                <CardContent className="p-3 flex items-center gap-3">
+                  <div className="w-8 h-8 rounded-lg bg-accent/20 flex items-center justify-center shrink-0">
+                    {fence.shape === "circle" ? <Circle className="w-4 h-4 text-accent" /> : <Hexagon className="w-4 h-4 text-accent" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1.5">
+                      <p className="text-xs font-medium text-foreground capitalize truncate">{fence.name}</p>
+                      {currentGeofence?.id === fence.id && (
+                        <Badge className="h-4 text-[9px] px-1.5 bg-success/20 text-success border-0">You're here</Badge>
+                      )}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">{describeFence(fence)}</p>
+                  </div>
+                  <Switch checked={fence.enabled !== false} onCheckedChange={(checked) => handleToggle(fence, checked)} />
+                  <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => handleDelete(fence)}>
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))
+        )}
+      </div>
+
+      <BottomNavigation />
+    </div>
+  );
+}
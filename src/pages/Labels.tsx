@@ -0,0 +1,322 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { ArrowLeft, Tag, Clock, MapPin, Pencil, Trash2, X, Plus, Merge, Crosshair } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BottomNavigation } from "@/components/navigation/BottomNavigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocationContext } from "@/contexts/LocationContext";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import {
+  addAlias,
+  clearLabelLocation,
+  deleteLabel,
+  listLabels,
+  mergeLabels,
+  removeAlias,
+  renameLabel,
+  setLabelLocation,
+  type ManagedLabel,
+} from "@/lib/labels";
+
+export default function Labels() {
+  const [labels, setLabels] = useState<ManagedLabel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [editing, setEditing] = useState<ManagedLabel | null>(null);
+  const [deleting, setDeleting] = useState<ManagedLabel | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newAlias, setNewAlias] = useState("");
+  const [mergeSource, setMergeSource] = useState("");
+  const [radius, setRadius] = useState("100");
+  const { user } = useAuth();
+  const { currentLocation } = useLocationContext();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (user) fetchLabels();
+  }, [user]);
+
+  const fetchLabels = async () => {
+    try {
+      const data = await listLabels();
+      setLabels(data);
+      setEditing((current) => (current ? data.find((l) => l.name === current.name) ?? null : null));
+    } catch (e) {
+      console.error("Error fetching labels:", e);
+      toast.error("Failed to load labels");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (label: ManagedLabel) => {
+    setEditing(label);
+    setNewName(label.name);
+    setNewAlias("");
+    setMergeSource("");
+    setRadius(String(label.radiusM ?? 100));
+  };
+
+  // Runs a change, reports it and reloads the list so counts stay accurate.
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await fetchLabels();
+    } catch (e) {
+      console.error("Error updating label:", e);
+      toast.error(e instanceof Error ? e.message : "Failed to update label");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const to = newName.trim().toLowerCase();
+    if (!to || to === editing.name) return;
+    const target = labels.find((l) => l.name === to);
+    await run(() => renameLabel(editing.name, to), target ? `Renamed and combined with "${to}"` : `Renamed to "${to}"`);
+    setEditing(null);
+  };
+
+  const handleMerge = async () => {
+    if (!editing || !mergeSource) return;
+    await run(() => mergeLabels([mergeSource], editing.name), `Merged "${mergeSource}" into "${editing.name}"`);
+    setMergeSource("");
+  };
+
+  const handleAddAlias = async () => {
+    if (!editing || !newAlias.trim()) return;
+    await run(() => addAlias(editing.name, newAlias), "Alias added");
+    setNewAlias("");
+  };
+
+  const handlePinLocation = async () => {
+    if (!editing) return;
+    if (!currentLocation) { toast.error("Enable GPS first."); return; }
+    const radiusM = Number(radius);
+    if (!Number.isFinite(radiusM) || radiusM < 10 || radiusM > 5000) {
+      toast.error("Radius must be between 10 and 5000 m");
+      return;
+    }
+    await run(
+      () => setLabelLocation(editing.name, currentLocation.latitude, currentLocation.longitude, radiusM),
+      `"${editing.name}" pinned to your current position`,
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const name = deleting.name;
+    setDeleting(null);
+    await run(() => deleteLabel(name), `Deleted "${name}" and its history`);
+  };
+
+  return (
+    <div className="h-[100dvh] flex flex-col bg-background overflow-hidden">
+      <div className="shrink-0 px-3 py-3 border-b border-border bg-card/80 backdrop-blur-sm flex items-center gap-2">
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navigate(-1)}>
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-base font-bold text-foreground">Place Labels</h1>
+          <p className="text-[10px] text-muted-foreground">Rename, merge and pin the places you tag</p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-6 h-6 border-2 border-accent/30 border-t-accent rounded-full animate-spin" />
+          </div>
+        ) : labels.length === 0 ? (
+          <div className="text-center py-8">
+            <Tag className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+            <p className="text-sm text-muted-foreground">No labels yet</p>
+            <p className="text-xs text-muted-foreground mt-1">Tag a location on the Predictions page to get started</p>
+          </div>
+        ) : (
+          labels.map((label, i) => (
+            <motion.div key={label.name} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.02 }}>
+              <Card className="bg-card border-border">
+                <CardContent className="p-3">
+                  <div className="flex items-start gap-3">
+                    <div className="w-8 h-8 rounded-lg bg-accent/20 flex items-center justify-center shrink-0 mt-0.5">
+                      <Tag className="w-4 h-4 text-accent" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-1.5">
+                        <p className="text-xs font-medium text-foreground capitalize truncate">{label.name}</p>
+                        {label.latitude != null && <MapPin className="w-3 h-3 text-success shrink-0" />}
+                      </div>
+                      <div className="flex items-center gap-2 mt-1 text-[10px] text-muted-foreground">
+                        <span>{label.visits} logs</span>
+                        {label.lastSeenAt && (
+                          <span className="flex items-center gap-0.5">
+                            <Clock className="w-2.5 h-2.5" />
+                            {new Date(label.lastSeenAt).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      {label.aliases.length > 0 && (
+                        <p className="text-[10px] text-muted-foreground mt-0.5 truncate">
+                          Also: {label.aliases.join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openEditor(label)}>
+                      <Pencil className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => setDeleting(label)}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))
+        )}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="bg-card border-border">
+          <DialogHeader>
+            <DialogTitle className="capitalize">{editing?.name}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-5 mt-2">
+              <div className="space-y-2">
+                <Label htmlFor="label-name">Name</Label>
+                <div className="flex gap-2">
+                  <Input id="label-name" value={newName} onChange={(e) => setNewName(e.target.value)} className="bg-secondary" />
+                  <Button onClick={handleRename} disabled={busy || !newName.trim() || newName.trim().toLowerCase() === editing.name}>
+                    Rename
+                  </Button>
+                </div>
+                <p className="text-[10px] text-muted-foreground">Updates every log with this label.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Aliases</Label>
+                <div className="flex flex-wrap gap-1.5">
+                  {editing.aliases.length === 0 && <span className="text-[10px] text-muted-foreground">None</span>}
+                  {editing.aliases.map((alias) => (
+                    <Badge key={alias} variant="secondary" className="gap-1">
+                      {alias}
+                      <button
+                        onClick={() => run(() => removeAlias(editing.name, alias), "Alias removed")}
+                        disabled={busy}
+                        aria-label={`Remove ${alias}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    value={newAlias}
+                    onChange={(e) => setNewAlias(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleAddAlias()}
+                    placeholder="e.g. office"
+                    className="bg-secondary"
+                  />
+                  <Button variant="outline" size="icon" onClick={handleAddAlias} disabled={busy || !newAlias.trim()}>
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+                <p className="text-[10px] text-muted-foreground">Logs tagged with an alias count as this place in predictions.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Merge another label into this one</Label>
+                <div className="flex gap-2">
+                  <Select value={mergeSource} onValueChange={setMergeSource}>
+                    <SelectTrigger className="bg-secondary">
+                      <SelectValue placeholder="Choose a label" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {labels.filter((l) => l.name !== editing.name).map((l) => (
+                        <SelectItem key={l.name} value={l.name} className="capitalize">{l.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={handleMerge} disabled={busy || !mergeSource}>
+                    <Merge className="w-4 h-4 mr-1" /> Merge
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="label-radius">Pinned location</Label>
+                <p className="text-[10px] text-muted-foreground">
+                  {editing.latitude != null && editing.longitude != null
+                    ? `${editing.latitude.toFixed(5)}°, ${editing.longitude.toFixed(5)}° · ${editing.radiusM ?? 100} m`
+                    : "Not pinned. The place's position is averaged from its logs."}
+                </p>
+                <div className="flex gap-2 items-center">
+                  <Input
+                    id="label-radius"
+                    type="number"
+                    min={10}
+                    max={5000}
+                    value={radius}
+                    onChange={(e) => setRadius(e.target.value)}
+                    className="bg-secondary w-24"
+                  />
+                  <span className="text-xs text-muted-foreground">m</span>
+                  <Button variant="outline" className="flex-1" onClick={handlePinLocation} disabled={busy || !currentLocation}>
+                    <Crosshair className="w-4 h-4 mr-1" /> Pin here
+                  </Button>
+                  {editing.latitude != null && (
+                    <Button variant="ghost" size="icon" onClick={() => run(() => clearLabelLocation(editing.name), "Pin removed")} disabled={busy}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes {deleting?.visits ?? 0} location logs tagged with this label, along with its aliases and pinned location.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete history
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <BottomNavigation />
+    </div>
+  );
+}
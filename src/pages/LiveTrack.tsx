@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { AlertTriangle, Battery, BatteryCharging, CheckCircle2, Clock, Loader2, MapPin, Shield } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { LiveLocationMap } from "@/components/map/LiveLocationMap";
+import { ApiError, fetchSosLive, type SosLiveResponse } from "@/lib/api";
+import { LIVE_POLL_INTERVAL_MS, updatedAgo } from "@/lib/sos-live";
+import { cn } from "@/lib/utils";
+
+const STATUS_TEXT: Record<SosLiveResponse["status"], string> = {
+  active: "Needs help",
+  acknowledged: "Help is on the way",
+  resolved: "Marked safe",
+  false_alarm: "False alarm",
+};
+
+// Public page an SOS alert links to. Anyone with the link can follow the
+// position until the incident is closed or the link expires.
+export default function LiveTrack() {
+  const { token = "" } = useParams();
+  const [view, setView] = useState<SosLiveResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [, setTick] = useState(0);
+
+  const open = view ? view.status === "active" || view.status === "acknowledged" : true;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const data = await fetchSosLive(token);
+        if (!cancelled) {
+          setView(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        // Keep showing the last position through a dropped connection
+        if (err instanceof ApiError && err.code === "not_found") setError(err.message);
+        else console.error("Error loading live location:", err);
+      }
+    };
+    void load();
+    if (!open) return () => { cancelled = true; };
+    const timer = setInterval(load, LIVE_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [token, open]);
+
+  // Keeps "updated x min ago" current between polls
+  useEffect(() => {
+    const timer = setInterval(() => setTick((t) => t + 1), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="text-center max-w-xs">
+          <Clock className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
+          <h1 className="text-lg font-semibold text-foreground mb-1">Link unavailable</h1>
+          <p className="text-sm text-muted-foreground">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!view) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-accent" />
+      </div>
+    );
+  }
+
+  const who = view.name ?? "This person";
+  const BatteryIcon = view.battery?.charging ? BatteryCharging : Battery;
+
+  return (
+    <div className="h-[100dvh] flex flex-col bg-background overflow-hidden">
+      <div className={cn("shrink-0 px-3 py-3 border-b border-border", open ? "bg-sos/15" : "bg-card/80")}>
+        <div className="flex items-center gap-2">
+          <div className={cn("w-8 h-8 rounded-lg flex items-center justify-center", open ? "bg-sos/20" : "bg-success/20")}>
+            {open ? <AlertTriangle className="w-4 h-4 text-sos" /> : <CheckCircle2 className="w-4 h-4 text-success" />}
+          </div>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-base font-bold text-foreground truncate">
+              {open ? `${who} sent an SOS` : `${who} is safe`}
+            </h1>
+            <p className="text-[10px] text-muted-foreground">
+              Since {new Date(view.startedAt).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+            </p>
+          </div>
+          <Badge variant="outline" className={cn("text-[10px]", open ? "border-sos/40 text-sos" : "border-success/40 text-success")}>
+            {STATUS_TEXT[view.status]}
+          </Badge>
+        </div>
+      </div>
+
+      <div className="flex-1 relative">
+        {view.position ? (
+          <LiveLocationMap position={view.position} trail={view.trail} live={open} className="absolute inset-0" />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            No location shared yet
+          </div>
+        )}
+
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="absolute bottom-3 left-3 right-3 z-[1000]">
+          <Card variant="glass">
+            <CardContent className="p-3 space-y-1.5">
+              {view.position && (
+                <div className="flex items-center gap-2 text-xs text-foreground">
+                  <MapPin className="w-3.5 h-3.5 text-sos shrink-0" />
+                  <span className="flex-1">
+                    {open ? "Updated" : "Last seen"} {updatedAgo(view.position.updatedAt)}
+                    {view.position.accuracy != null && ` · ±${Math.round(view.position.accuracy)} m`}
+                  </span>
+                  <a
+                    href={`https://www.google.com/maps?q=${view.position.latitude},${view.position.longitude}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-accent text-[10px] shrink-0"
+                  >
+                    Open in Maps
+                  </a>
+                </div>
+              )}
+              {view.battery && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <BatteryIcon className={cn("w-3.5 h-3.5", view.battery.level < 0.2 ? "text-sos" : "text-success")} />
+                  <span>Battery {Math.round(view.battery.level * 100)}%{view.battery.charging ? ", charging" : ""}</span>
+                </div>
+              )}
+              <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+                <Shield className="w-3 h-3 shrink-0" />
+                <span>
+                  {open
+                    ? "If you can't reach them, contact local emergency services."
+                    : "Location sharing has stopped."}
+                  {" "}Link expires {new Date(view.expiresAt).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}.
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
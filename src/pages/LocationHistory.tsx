@@ -1,52 +1,209 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { motion } from "framer-motion";
-import { MapPin, ArrowLeft, Clock, Tag } from "lucide-react";
+import { MapPin, ArrowLeft, Clock, Tag, Upload, AlertTriangle, CalendarDays, X, Footprints, Bike, Car } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { BottomNavigation } from "@/components/navigation/BottomNavigation";
-import { supabase } from "@/integrations/supabase/client";
+import { DayPathMap } from "@/components/map/DayPathMap";
 import { useAuth } from "@/contexts/AuthContext";
 import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { listLabels, type ManagedLabel } from "@/lib/labels";
+import { planImport, type ImportPlan } from "@/lib/history-import";
+import { importLocationHistory } from "@/lib/location-sync";
+import { parseLocationHistory, TRACK_FORMAT_LABELS, type TrackFormat } from "@/lib/track-formats";
+import { TRIP_MODE_LABELS, type TripMode } from "@/lib/trips";
+import {
+  fetchDayLogs,
+  fetchLogPage,
+  formatDuration,
+  groupByDay,
+  segmentTimeline,
+  TIMELINE_PAGE_SIZE,
+  type TimelineLog,
+  type TimelineSegment,
+} from "@/lib/timeline";
 
-interface LocationLog {
-  id: string;
-  latitude: number;
-  longitude: number;
-  label: string | null;
-  hour: number;
-  day: number;
-  created_at: string;
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+const formatDay = (ms: number) => new Date(ms).toLocaleDateString([], { weekday: "long", day: "numeric", month: "short", year: "numeric" });
+
+// A filtered-out trip is hidden; visits only show when they carry the label
+const matchesLabel = (segment: TimelineSegment, label: string | null) =>
+  label === null || (segment.kind === "visit" && segment.label === label);
+
+const modeIcons: Record<TripMode, typeof Car> = {
+  walk: Footprints,
+  cycle: Bike,
+  vehicle: Car,
+};
+
+function SegmentRow({ segment, active, onClick }: { segment: TimelineSegment; active?: boolean; onClick?: () => void }) {
+  const visit = segment.kind === "visit";
+  const title = visit
+    ? segment.label || `${segment.latitude.toFixed(4)}°, ${segment.longitude.toFixed(4)}°`
+    : segment.toLabel ? `Trip to ${segment.toLabel}` : "Trip";
+  const TripIcon = visit ? null : modeIcons[segment.mode];
+  return (
+    <div
+      className={cn("flex items-start gap-3 p-2 rounded-lg cursor-pointer transition-colors", active ? "bg-accent/15" : "hover:bg-secondary")}
+      onClick={onClick}
+    >
+      <div className={cn("w-7 h-7 rounded-lg flex items-center justify-center shrink-0", visit ? "bg-accent/20" : "bg-prediction/20")}>
+        {visit
+          ? segment.label ? <Tag className="w-3.5 h-3.5 text-accent" /> : <MapPin className="w-3.5 h-3.5 text-muted-foreground" />
+          : <TripIcon className="w-3.5 h-3.5 text-prediction" />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-medium text-foreground capitalize truncate">{title}</p>
+        <p className="flex items-center gap-1 text-[10px] text-muted-foreground mt-0.5">
+          <Clock className="w-2.5 h-2.5" />
+          {formatTime(segment.startAt)} – {formatTime(segment.endAt)} · {formatDuration(segment.durationMin)}
+          {!visit && ` · ${segment.distanceKm} km · ${TRIP_MODE_LABELS[segment.mode]}, avg ${Math.round(segment.avgSpeedKmh)} km/h`}
+        </p>
+      </div>
+    </div>
+  );
 }
 
-const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+interface PendingImport {
+  fileName: string;
+  format: TrackFormat;
+  plan: ImportPlan;
+}
 
 export default function LocationHistory() {
-  const [logs, setLogs] = useState<LocationLog[]>([]);
+  // Timeline of all days, loaded newest first a page at a time
+  const [logs, setLogs] = useState<TimelineLog[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // created_at of the oldest row loaded, where the next page starts
+  const cursorRef = useRef<string | null>(null);
+  // One day picked from the calendar
+  const [selectedDay, setSelectedDay] = useState<number | null>(null);
+  const [dayLogs, setDayLogs] = useState<TimelineLog[]>([]);
+  const [dayLoading, setDayLoading] = useState(false);
+  const [selectedSegment, setSelectedSegment] = useState<number | null>(null);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [labelFilter, setLabelFilter] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [reading, setReading] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null);
   const { user } = useAuth();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    if (user) fetchLogs();
-  }, [user]);
-
-  const fetchLogs = async () => {
+  const loadPage = useCallback(async (reset: boolean) => {
+    if (!user) return;
+    setLoadingMore(true);
     try {
-      const { data, error } = await supabase
-        .from("location_logs")
-        .select("*")
-        .eq("user_id", user?.id)
-        .order("created_at", { ascending: false })
-        .limit(100);
-      if (error) throw error;
-      setLogs(data || []);
+      const before = reset ? null : cursorRef.current;
+      const page = await fetchLogPage(user.id, before);
+      if (page.length > 0) cursorRef.current = page[page.length - 1].created_at;
+      else if (reset) cursorRef.current = null;
+      setLogs((prev) => (reset ? page : [...prev, ...page]));
+      setHasMore(page.length === TIMELINE_PAGE_SIZE);
     } catch (e) {
       console.error(e);
+      toast.error("Failed to load location history");
     } finally {
       setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [user]);
+
+  // On sign-in; later pages come from scrolling
+  useEffect(() => {
+    void loadPage(true);
+  }, [loadPage]);
+
+  // Loads the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore || selectedDay !== null) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((e) => e.isIntersecting)) void loadPage(false);
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, selectedDay, loadPage]);
+
+  useEffect(() => {
+    if (!user || selectedDay === null) return;
+    let cancelled = false;
+    setDayLoading(true);
+    setSelectedSegment(null);
+    fetchDayLogs(user.id, selectedDay)
+      .then((rows) => { if (!cancelled) setDayLogs(rows); })
+      .catch((e) => {
+        console.error(e);
+        toast.error("Failed to load that day");
+      })
+      .finally(() => { if (!cancelled) setDayLoading(false); });
+    return () => { cancelled = true; };
+  }, [user, selectedDay]);
+
+  const days = useMemo(() => groupByDay(logs), [logs]);
+  const daySegments = useMemo(() => segmentTimeline(dayLogs), [dayLogs]);
+  const loadedDays = useMemo(() => days.map((d) => new Date(d.day)), [days]);
+  const labels = useMemo(() => {
+    const source = selectedDay !== null ? dayLogs : logs;
+    return [...new Set(source.map((l) => l.label?.toLowerCase().trim()).filter((l): l is string => !!l))].sort();
+  }, [logs, dayLogs, selectedDay]);
+
+  const openDay = (day: number) => {
+    setSelectedDay(day);
+    setCalendarOpen(false);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      const history = parseLocationHistory(file.name, await file.text());
+      let labels: ManagedLabel[] = [];
+      try {
+        labels = await listLabels();
+      } catch (err) {
+        console.error("Error loading labels:", err);
+      }
+      const plan = planImport(history, { labels });
+      if (plan.points.length === 0) {
+        toast.error(plan.untimed > 0 ? "The file's positions have no times, so they can't be placed in your history" : "No positions found in the file");
+        return;
+      }
+      setPending({ fileName: file.name, format: history.format, plan });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Couldn't read the file");
+    } finally {
+      setReading(false);
     }
   };
 
+  const handleImport = async () => {
+    if (!user || !pending) return;
+    const total = pending.plan.points.length;
+    setImportProgress({ done: 0, total });
+    try {
+      await importLocationHistory(user.id, pending.plan.points, (done) => setImportProgress({ done, total }));
+      toast.success(`Imported ${total.toLocaleString()} locations`);
+      setPending(null);
+      void loadPage(true);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  const formatImportDay = (ms: number | null) => (ms === null ? "" : new Date(ms).toLocaleDateString());
+
   return (
     <div className="h-[100dvh] flex flex-col bg-background overflow-hidden">
       <div className="shrink-0 px-3 py-3 border-b border-border bg-card/80 backdrop-blur-sm flex items-center gap-2">
@@ -55,50 +212,215 @@ export default function LocationHistory() {
         </Button>
         <div>
           <h1 className="text-base font-bold text-foreground">Location History</h1>
-          <p className="text-[10px] text-muted-foreground">{logs.length} locations logged</p>
+          <p className="text-[10px] text-muted-foreground">
+            {selectedDay !== null ? formatDay(selectedDay) : `${logs.length}${hasMore ? "+" : ""} locations logged`}
+          </p>
         </div>
+        <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="icon" className="h-7 w-7 ml-auto">
+              <CalendarDays className="w-3.5 h-3.5" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0 bg-card border-border" align="end">
+            <Calendar
+              mode="single"
+              selected={selectedDay !== null ? new Date(selectedDay) : undefined}
+              onSelect={(date) => date && openDay(date.getTime())}
+              disabled={{ after: new Date() }}
+              modifiers={{ logged: loadedDays }}
+              modifiersClassNames={{ logged: "font-bold text-accent" }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+        <Button variant="outline" size="sm" className="h-7 text-xs" asChild disabled={reading}>
+          <label className="cursor-pointer">
+            <Upload className="w-3 h-3 mr-1" /> {reading ? "Reading..." : "Import"}
+            <input
+              type="file"
+              accept=".gpx,.kml,.geojson,.json"
+              className="hidden"
+              onChange={(e) => { void handleFile(e.target.files?.[0]); e.target.value = ""; }}
+            />
+          </label>
+        </Button>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-3 space-y-2">
-        {loading ? (
-          <div className="flex items-center justify-center py-8">
-            <div className="w-6 h-6 border-2 border-accent/30 border-t-accent rounded-full animate-spin" />
+      {labels.length > 0 && (
+        <div className="shrink-0 px-3 py-2 border-b border-border flex gap-1.5 overflow-x-auto">
+          <Badge
+            variant={labelFilter === null ? "default" : "secondary"}
+            className="text-[10px] cursor-pointer shrink-0"
+            onClick={() => setLabelFilter(null)}
+          >
+            All
+          </Badge>
+          {labels.map((label) => (
+            <Badge
+              key={label}
+              variant={labelFilter === label ? "default" : "secondary"}
+              className="text-[10px] cursor-pointer capitalize shrink-0"
+              onClick={() => setLabelFilter(labelFilter === label ? null : label)}
+            >
+              {label}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {selectedDay !== null ? (
+        <div className="flex-1 overflow-y-auto">
+          <div className="h-56 relative">
+            <DayPathMap segments={daySegments} selected={selectedSegment} />
+            <Button
+              variant="glass"
+              size="sm"
+              className="absolute top-2 left-2 z-[1000] h-7 text-xs"
+              onClick={() => { setSelectedDay(null); setDayLogs([]); }}
+            >
+              <X className="w-3 h-3 mr-1" /> All days
+            </Button>
           </div>
-        ) : logs.length === 0 ? (
-          <div className="text-center py-8">
-            <MapPin className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
-            <p className="text-sm text-muted-foreground">No location history yet</p>
+          <div className="p-3 space-y-1">
+            {dayLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="w-6 h-6 border-2 border-accent/30 border-t-accent rounded-full animate-spin" />
+              </div>
+            ) : daySegments.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {dayLogs.length === 0 ? "Nothing recorded on this day" : `${dayLogs.length} locations, but no stays or trips`}
+              </p>
+            ) : (
+              daySegments.map((segment, i) => matchesLabel(segment, labelFilter) && (
+                <SegmentRow
+                  key={`${segment.kind}-${segment.startAt}`}
+                  segment={segment}
+                  active={i === selectedSegment}
+                  onClick={() => setSelectedSegment(i === selectedSegment ? null : i)}
+                />
+              ))
+            )}
           </div>
-        ) : (
-          logs.map((log, i) => (
-            <motion.div key={log.id} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.02 }}>
-              <Card className="bg-card border-border">
-                <CardContent className="p-3">
-                  <div className="flex items-start gap-3">
-                    <div className="w-8 h-8 rounded-lg bg-accent/20 flex items-center justify-center shrink-0 mt-0.5">
-                      {log.label ? <Tag className="w-4 h-4 text-accent" /> : <MapPin className="w-4 h-4 text-muted-foreground" />}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-xs font-medium text-foreground">
-                        {log.label || `${log.latitude.toFixed(4)}°, ${log.longitude.toFixed(4)}°`}
-                      </p>
-                      <div className="flex items-center gap-2 mt-1 text-[10px] text-muted-foreground">
-                        <span className="flex items-center gap-0.5">
-                          <Clock className="w-2.5 h-2.5" />
-                          {new Date(log.created_at).toLocaleString()}
-                        </span>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-6 h-6 border-2 border-accent/30 border-t-accent rounded-full animate-spin" />
+            </div>
+          ) : logs.length === 0 ? (
+            <div className="text-center py-8">
+              <MapPin className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No location history yet</p>
+              <p className="text-[10px] text-muted-foreground mt-1">
+                Import a GPX, KML or GeoJSON file, or your Google Takeout location history, to get predictions straight away
+              </p>
+            </div>
+          ) : (
+            days.map((day, i) => {
+              const segments = day.segments.filter((s) => matchesLabel(s, labelFilter));
+              if (labelFilter !== null && segments.length === 0) return null;
+              const visits = day.segments.filter((s) => s.kind === "visit").length;
+              const km = day.segments.reduce((sum, s) => sum + (s.kind === "trip" ? s.distanceKm : 0), 0);
+              return (
+                <motion.div key={day.day} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: Math.min(i, 10) * 0.02 }}>
+                  <Card className="bg-card border-border">
+                    <CardContent className="p-2">
+                      <div className="flex items-center justify-between px-1 pb-1 cursor-pointer" onClick={() => openDay(day.day)}>
+                        <p className="text-xs font-semibold text-foreground">{formatDay(day.day)}</p>
+                        <p className="text-[10px] text-muted-foreground">
+                          {visits} visit{visits === 1 ? "" : "s"}{km > 0 && ` · ${km.toFixed(1)} km`}
+                        </p>
                       </div>
-                      <p className="text-[10px] text-muted-foreground mt-0.5">
-                        {dayNames[log.day]} at {log.hour}:00 · {log.latitude.toFixed(4)}°, {log.longitude.toFixed(4)}°
-                      </p>
-                    </div>
+                      {segments.length === 0 ? (
+                        <p className="text-[10px] text-muted-foreground px-1 pb-1">{day.logs.length} locations, no stays or trips</p>
+                      ) : (
+                        segments.map((segment) => (
+                          <SegmentRow key={`${segment.kind}-${segment.startAt}`} segment={segment} onClick={() => openDay(day.day)} />
+                        ))
+                      )}
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              );
+            })
+          )}
+          <div ref={sentinelRef} />
+          {loadingMore && !loading && (
+            <div className="flex items-center justify-center py-4">
+              <div className="w-5 h-5 border-2 border-accent/30 border-t-accent rounded-full animate-spin" />
+            </div>
+          )}
+        </div>
+      )}
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && !importProgress && setPending(null)}>
+        <DialogContent className="bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>Import location history</DialogTitle>
+            <DialogDescription className="text-xs">
+              {pending?.fileName} · {pending && TRACK_FORMAT_LABELS[pending.format]}
+            </DialogDescription>
+          </DialogHeader>
+          {pending && (
+            <div className="space-y-3 text-xs">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="p-2 rounded-lg bg-secondary">
+                  <p className="text-base font-bold text-foreground">{pending.plan.points.length.toLocaleString()}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    locations from {pending.plan.rawPoints.toLocaleString()} points
+                    {pending.plan.visits > 0 && ` and ${pending.plan.visits.toLocaleString()} visits`}
+                  </p>
+                </div>
+                <div className="p-2 rounded-lg bg-secondary">
+                  <p className="text-sm font-bold text-foreground">{formatImportDay(pending.plan.from)}</p>
+                  <p className="text-[10px] text-muted-foreground">to {formatImportDay(pending.plan.to)}</p>
+                </div>
+              </div>
+              {pending.plan.labels.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-[10px] text-muted-foreground">Places labelled from visits</p>
+                  <div className="flex flex-wrap gap-1">
+                    {pending.plan.labels.slice(0, 12).map((l) => (
+                      <Badge key={l.label} variant="secondary" className="text-[10px] capitalize">
+                        {l.label} · {l.points}
+                      </Badge>
+                    ))}
                   </div>
-                </CardContent>
-              </Card>
-            </motion.div>
-          ))
-        )}
-      </div>
+                </div>
+              )}
+              {pending.plan.untimed > 0 && (
+                <div className="flex items-start gap-2 p-2 rounded-lg bg-warning/10 border border-warning/30">
+                  <AlertTriangle className="w-3 h-3 text-warning shrink-0 mt-0.5" />
+                  <p className="text-[10px] text-muted-foreground">
+                    {pending.plan.untimed.toLocaleString()} points have no time and will be skipped
+                  </p>
+                </div>
+              )}
+              <p className="text-[10px] text-muted-foreground">
+                Points are spaced like your tracking settings. Anything already in your history is kept as it is.
+              </p>
+              {importProgress && (
+                <div className="space-y-1">
+                  <Progress value={(importProgress.done / importProgress.total) * 100} className="h-1.5" />
+                  <p className="text-[10px] text-muted-foreground">
+                    {importProgress.done.toLocaleString()} / {importProgress.total.toLocaleString()}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" size="sm" onClick={() => setPending(null)} disabled={!!importProgress}>
+              Cancel
+            </Button>
+            <Button size="sm" className="bg-gradient-primary" onClick={handleImport} disabled={!!importProgress}>
+              {importProgress ? "Importing..." : "Import"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
       <BottomNavigation />
     </div>
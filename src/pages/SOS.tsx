@@ -1,15 +1,36 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { AlertTriangle, Phone, Mail, Plus, Trash2, User, Send, MapPin, Shield, MessageSquare, MessageCircle } from "lucide-react";
+import { AlertTriangle, Phone, Mail, Plus, Trash2, User, Send, MapPin, Shield, MessageSquare, MessageCircle, CheckCircle2, History, Link2, Timer } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { BottomNavigation } from "@/components/navigation/BottomNavigation";
 import { supabase } from "@/integrations/supabase/client";
+import { sendSos, type SendSosResponse } from "@/lib/api";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import { useLocationContext as useLocation } from "@/contexts/LocationContext";
 import { cn } from "@/lib/utils";
+import { SosHistory } from "@/components/sos/SosHistory";
+import { liveShareUrl, startLiveSharing, stopLiveSharing } from "@/lib/sos-live";
+import { fallbackAlert, openDeviceAlerts, sosMessage } from "@/lib/sos-messages";
+import {
+  closeSosIncident,
+  CONTACT_PRIORITY_LABELS,
+  fetchIncidents,
+  initialRecipients,
+  isOpenIncident,
+  missedByEmail,
+  NOTIFY_VIA_LABELS,
+  preferredChannel,
+  SOS_CHANNEL_LABELS,
+  type NotifyVia,
+  type SosChannel,
+  type SosIncident,
+  type SosStatus,
+} from "@/lib/sos-incidents";
 
 interface EmergencyContact {
   id: string;
@@ -17,29 +38,92 @@ interface EmergencyContact {
   phone: string;
   email: string | null;
   relationship: string | null;
+  priority: number;
+  notify_via: string;
 }
 
+const ESCALATION_OPTIONS = [0, 3, 5, 10, 15];
+
+const emptyContact = { name: "", phone: "", email: "", relationship: "", priority: 1, notify_via: "email" as NotifyVia };
+
 export default function SOS() {
   const [contacts, setContacts] = useState<EmergencyContact[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
-  const [newContact, setNewContact] = useState({ name: "", phone: "", email: "", relationship: "" });
+  const [newContact, setNewContact] = useState(emptyContact);
   const [sendingAlert, setSendingAlert] = useState(false);
   const [alertSent, setAlertSent] = useState(false);
   const [showOptions, setShowOptions] = useState(false);
+  const [incidents, setIncidents] = useState<SosIncident[]>([]);
+  const [closingIncident, setClosingIncident] = useState(false);
+  const [escalationMinutes, setEscalationMinutes] = useState(5);
+  // Alerts sent from this page join one incident. Each send waits for the
+  // previous one so they all get its id.
+  const incidentIdRef = useRef<Promise<string | null>>(Promise.resolve(null));
   const { user } = useAuth();
-  const { currentLocation } = useLocation();
+  const { currentLocation, isTracking, startTracking } = useLocation();
+
+  // The first alert goes to the highest-priority contacts; the rest are
+  // reached by escalation if nobody responds, or alerted now with it off
+  const alertTier = initialRecipients(contacts, escalationMinutes);
+  const activeIncident = incidents.find(isOpenIncident) ?? null;
+  const activeShareToken = activeIncident?.share_token && activeIncident.share_expires_at
+    && new Date(activeIncident.share_expires_at).getTime() > Date.now()
+    ? activeIncident.share_token
+    : null;
 
   useEffect(() => {
-    if (user) fetchContacts();
+    if (user) {
+      fetchContacts();
+      loadIncidents(true);
+      loadEscalationMinutes();
+    }
   }, [user]);
 
+  const loadEscalationMinutes = async () => {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("sos_escalation_minutes")
+      .eq("user_id", user?.id)
+      .maybeSingle();
+    if (error) console.error("Error fetching escalation setting:", error);
+    else if (data) setEscalationMinutes(data.sos_escalation_minutes);
+  };
+
+  const saveEscalationMinutes = async (minutes: number) => {
+    const previous = escalationMinutes;
+    setEscalationMinutes(minutes);
+    const { error } = await supabase
+      .from("profiles")
+      .update({ sos_escalation_minutes: minutes })
+      .eq("user_id", user?.id);
+    if (error) {
+      console.error("Error saving escalation setting:", error);
+      toast.error("Failed to save escalation setting");
+      setEscalationMinutes(previous);
+    }
+  };
+
+  const loadIncidents = async (resume = false) => {
+    if (!user) return;
+    try {
+      const data = await fetchIncidents(user.id);
+      setIncidents(data);
+      // New alerts add to an incident that's still open
+      const open = data.find(isOpenIncident);
+      if (resume && open) incidentIdRef.current = Promise.resolve(open.id);
+    } catch (error) {
+      console.error("Error fetching SOS history:", error);
+    }
+  };
+
   const fetchContacts = async () => {
     try {
       const { data, error } = await supabase
         .from("emergency_contacts")
         .select("*")
         .eq("user_id", user?.id)
+        .order("priority", { ascending: true })
         .order("created_at", { ascending: false });
       if (error) throw error;
       setContacts(data || []);
@@ -63,10 +147,12 @@ export default function SOS() {
         phone: newContact.phone,
         email: newContact.email || null,
         relationship: newContact.relationship || null,
+        priority: newContact.priority,
+        notify_via: newContact.notify_via,
       });
       if (error) throw error;
       toast.success("Contact added successfully");
-      setNewContact({ name: "", phone: "", email: "", relationship: "" });
+      setNewContact(emptyContact);
       setShowAddForm(false);
       fetchContacts();
     } catch (error) {
@@ -75,6 +161,19 @@ export default function SOS() {
     }
   };
 
+  // Tapping a contact's tier moves it along First → Second → Third
+  const cyclePriority = async (contact: EmergencyContact) => {
+    const priority = contact.priority >= 3 ? 1 : contact.priority + 1;
+    try {
+      const { error } = await supabase.from("emergency_contacts").update({ priority }).eq("id", contact.id);
+      if (error) throw error;
+      fetchContacts();
+    } catch (error) {
+      console.error("Error updating contact:", error);
+      toast.error("Failed to update contact");
+    }
+  };
+
   const deleteContact = async (id: string) => {
     try {
       const { error } = await supabase.from("emergency_contacts").delete().eq("id", id);
@@ -87,115 +186,122 @@ export default function SOS() {
     }
   };
 
-  const getSOSMessage = () => {
-    const locationText = currentLocation
-      ? `https://www.google.com/maps?q=${currentLocation.latitude},${currentLocation.longitude}`
-      : "Location unavailable";
-    const coordsText = currentLocation
-      ? `${currentLocation.latitude.toFixed(6)}, ${currentLocation.longitude.toFixed(6)}`
-      : "unavailable";
-    return `🚨 EMERGENCY SOS ALERT! I need help immediately!\n\n📍 My location: ${locationText}\n📐 Coordinates: ${coordsText}\n\nPlease try to reach me or contact emergency services.`;
+  // Points at the live tracking page once there's an incident to follow
+  const getSOSMessage = (shareToken: string | null = activeShareToken, ackToken?: string) => sosMessage({
+    coordinates: currentLocation ? { latitude: currentLocation.latitude, longitude: currentLocation.longitude } : null,
+    shareToken,
+    ackToken,
+  });
+
+  // Sends email (if asked) and records every channel on the incident
+  const recordSos = (channels: SosChannel[], sosContacts: EmergencyContact[]) => {
+    const previous = incidentIdRef.current;
+    const result = previous.then((incidentId) => sendSos({
+      contacts: sosContacts.map(c => ({ id: c.id, name: c.name, email: c.email, phone: c.phone })),
+      location: currentLocation
+        ? `https://www.google.com/maps?q=${currentLocation.latitude},${currentLocation.longitude}`
+        : "Location unavailable",
+      coordinates: currentLocation ? {
+        lat: currentLocation.latitude,
+        lng: currentLocation.longitude,
+      } : null,
+      accuracy: currentLocation?.accuracy ?? null,
+      channels,
+      source: "sos_page",
+      incidentId,
+    }));
+    incidentIdRef.current = result.then((r) => r.incidentId, () => previous);
+    result.then((r) => {
+      // Keep positions coming so contacts can follow along
+      startLiveSharing(r.incidentId);
+      if (!isTracking) startTracking();
+      loadIncidents();
+    }, () => undefined);
+    return result;
   };
 
-  const handleSOSPress = () => {
-    if (contacts.length === 0) {
-      toast.error("Please add at least one emergency contact first");
-      return;
+  const closeIncident = async (status: Extract<SosStatus, "resolved" | "false_alarm">) => {
+    if (!activeIncident) return;
+    setClosingIncident(true);
+    try {
+      await closeSosIncident(activeIncident.id, status);
+      stopLiveSharing(activeIncident.id);
+      incidentIdRef.current = Promise.resolve(null);
+      toast.success(status === "resolved" ? "Glad you're safe. Incident closed." : "Marked as a false alarm");
+      loadIncidents();
+    } catch (error) {
+      console.error("Error closing SOS incident:", error);
+      toast.error("Failed to update the incident");
+    } finally {
+      setClosingIncident(false);
     }
-    setShowOptions(true);
   };
 
-  const sendViaSMS = () => {
-    const phoneContacts = contacts.filter(c => c.phone);
-    if (phoneContacts.length === 0) {
-      toast.error("No contacts with phone numbers");
-      return;
+  const copyLiveLink = async () => {
+    if (!activeShareToken) return;
+    try {
+      await navigator.clipboard.writeText(liveShareUrl(activeShareToken));
+      toast.success("Live location link copied");
+    } catch {
+      toast.error("Couldn't copy the link");
     }
-    const phones = phoneContacts.map(c => c.phone).join(",");
-    const body = encodeURIComponent(getSOSMessage());
-    window.open(`sms:${phones}?body=${body}`, "_self");
-    toast.success("Opening SMS app...");
-    setShowOptions(false);
   };
 
-  const sendViaWhatsApp = () => {
-    const phoneContacts = contacts.filter(c => c.phone);
-    if (phoneContacts.length === 0) {
-      toast.error("No contacts with phone numbers");
+  const handleSOSPress = () => {
+    if (contacts.length === 0) {
+      toast.error("Please add at least one emergency contact first");
       return;
     }
-    // WhatsApp only supports one number at a time via wa.me
-    // Clean phone number - remove spaces, dashes, keep + and digits
-    const cleanPhone = phoneContacts[0].phone.replace(/[^+\d]/g, "");
-    // Remove leading + for wa.me format, or keep digits only
-    const waNumber = cleanPhone.startsWith("+") ? cleanPhone.substring(1) : cleanPhone;
-    const text = encodeURIComponent(getSOSMessage());
-    // Use https://wa.me which works on both mobile and desktop
-    window.open(`https://wa.me/${waNumber}?text=${text}`, "_blank");
-    
-    if (phoneContacts.length > 1) {
-      toast.info(`WhatsApp opened for ${phoneContacts[0].name}. Send to others manually.`);
-    } else {
-      toast.success("Opening WhatsApp...");
-    }
-    setShowOptions(false);
+    setShowOptions(true);
   };
 
-  const sendViaEmail = async () => {
-    const emailContacts = contacts.filter(c => c.email);
-    if (emailContacts.length === 0) {
-      toast.error("No contacts with email addresses");
+  // Reaches every first-tier contact whose preferred channel is one of
+  // `channels`. Email goes out from the server; SMS and WhatsApp open on the
+  // device after it, one message per contact with their own ack link.
+  const sendAlerts = async (channels: SosChannel[]) => {
+    const recipients = alertTier.filter(c => channels.includes(preferredChannel(c)));
+    if (recipients.length === 0) {
+      toast.error(`None of your first contacts prefer ${channels.map(c => SOS_CHANNEL_LABELS[c]).join(" or ")}`);
       return;
     }
+    const emailContacts = recipients.filter(c => preferredChannel(c) === "email");
+    const deviceContacts = recipients.filter(c => preferredChannel(c) !== "email");
     setSendingAlert(true);
     setShowOptions(false);
 
+    let result: SendSosResponse | null = null;
     try {
-      const locationText = currentLocation
-        ? `https://www.google.com/maps?q=${currentLocation.latitude},${currentLocation.longitude}`
-        : "Location unavailable";
-
-      const { error } = await supabase.functions.invoke("send-sos", {
-        body: {
-          contacts: emailContacts.map(c => ({ name: c.name, email: c.email, phone: c.phone })),
-          location: locationText,
-          coordinates: currentLocation ? {
-            lat: currentLocation.latitude,
-            lng: currentLocation.longitude,
-          } : null,
-        },
-      });
-
-      if (error) throw error;
-      setAlertSent(true);
-      toast.success(`Email alert sent to ${emailContacts.length} contact(s)!`);
-      setTimeout(() => setAlertSent(false), 5000);
+      result = await recordSos([...new Set(recipients.map(preferredChannel))], recipients);
     } catch (error) {
-      console.error("Email SOS error:", error);
-      // Fallback: open native email client
-      const emails = emailContacts.map(c => c.email).join(",");
-      const subject = encodeURIComponent("🚨 EMERGENCY SOS ALERT");
-      const body = encodeURIComponent(getSOSMessage());
-      window.open(`mailto:${emails}?subject=${subject}&body=${body}`, "_self");
-      toast.info("Opening email app as fallback...");
+      console.error("SOS error:", error);
     } finally {
       setSendingAlert(false);
     }
-  };
+    const shareToken = result?.shareToken ?? activeShareToken;
 
-  const sendAll = async () => {
-    setShowOptions(false);
-    // Send SMS
-    const phoneContacts = contacts.filter(c => c.phone);
-    if (phoneContacts.length > 0) {
-      const phones = phoneContacts.map(c => c.phone).join(",");
-      const body = encodeURIComponent(getSOSMessage());
-      window.open(`sms:${phones}?body=${body}`, "_self");
+    if (emailContacts.length > 0 && result && result.sent > 0) {
+      setAlertSent(true);
+      toast.success(`Email alert sent to ${result.sent} contact(s)!`);
+      setTimeout(() => setAlertSent(false), 5000);
     }
-    // Send email
-    await sendViaEmail();
+    // Anyone the email didn't reach gets a message from the device instead
+    const fallbacks = missedByEmail(emailContacts, result)
+      .flatMap(c => fallbackAlert(c, getSOSMessage(shareToken, result?.ackTokens[c.id])) ?? []);
+    if (fallbacks.length > 0) toast.info("Opening your messages app as a fallback...");
+
+    openDeviceAlerts([
+      ...fallbacks,
+      ...deviceContacts.map(c => ({
+        name: c.name,
+        to: c.phone,
+        channel: preferredChannel(c),
+        text: getSOSMessage(shareToken, result?.ackTokens[c.id]),
+      })),
+    ]);
   };
 
+  const countFor = (channel: SosChannel) => alertTier.filter(c => preferredChannel(c) === channel).length;
+
   return (
     <div className="h-[100dvh] flex flex-col bg-background overflow-hidden">
       {/* Header */}
@@ -236,23 +342,24 @@ export default function SOS() {
                   </motion.div>
                 ) : showOptions ? (
                   <motion.div key="options" initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }}>
-                    <p className="text-sm font-semibold text-foreground mb-3">Choose how to send SOS</p>
+                    <p className="text-sm font-semibold text-foreground mb-1">Choose how to send SOS</p>
+                    <p className="text-[10px] text-muted-foreground mb-3">Each contact is reached the way they prefer</p>
                     <div className="grid grid-cols-2 gap-2 mb-3">
-                      <Button variant="outline" className="flex flex-col gap-1 h-auto py-3 border-accent/30" onClick={sendViaSMS}>
+                      <Button variant="outline" className="flex flex-col gap-1 h-auto py-3 border-accent/30" onClick={() => sendAlerts(["sms"])} disabled={countFor("sms") === 0}>
                         <MessageSquare className="w-5 h-5 text-accent" />
-                        <span className="text-[10px]">SMS</span>
+                        <span className="text-[10px]">SMS · {countFor("sms")}</span>
                       </Button>
-                      <Button variant="outline" className="flex flex-col gap-1 h-auto py-3 border-green-500/30" onClick={sendViaWhatsApp}>
+                      <Button variant="outline" className="flex flex-col gap-1 h-auto py-3 border-green-500/30" onClick={() => sendAlerts(["whatsapp"])} disabled={countFor("whatsapp") === 0}>
                         <MessageCircle className="w-5 h-5 text-green-500" />
-                        <span className="text-[10px]">WhatsApp</span>
+                        <span className="text-[10px]">WhatsApp · {countFor("whatsapp")}</span>
                       </Button>
-                      <Button variant="outline" className="flex flex-col gap-1 h-auto py-3 border-blue-500/30" onClick={sendViaEmail}>
+                      <Button variant="outline" className="flex flex-col gap-1 h-auto py-3 border-blue-500/30" onClick={() => sendAlerts(["email"])} disabled={countFor("email") === 0}>
                         <Mail className="w-5 h-5 text-blue-500" />
-                        <span className="text-[10px]">Email</span>
+                        <span className="text-[10px]">Email · {countFor("email")}</span>
                       </Button>
-                      <Button variant="outline" className="flex flex-col gap-1 h-auto py-3 border-sos/30" onClick={sendAll}>
+                      <Button variant="outline" className="flex flex-col gap-1 h-auto py-3 border-sos/30" onClick={() => sendAlerts(["email", "sms", "whatsapp"])}>
                         <Send className="w-5 h-5 text-sos" />
-                        <span className="text-[10px]">Send All</span>
+                        <span className="text-[10px]">Send All · {alertTier.length}</span>
                       </Button>
                     </div>
                     <Button variant="ghost" size="sm" className="text-xs text-muted-foreground" onClick={() => setShowOptions(false)}>
@@ -295,6 +402,39 @@ export default function SOS() {
           </Card>
         </motion.div>
 
+        {/* Open incident */}
+        <AnimatePresence>
+          {activeIncident && (
+            <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: "auto" }} exit={{ opacity: 0, height: 0 }} className="px-3 pb-3">
+              <Card className="border-sos/40 bg-sos/10">
+                <CardContent className="p-3">
+                  <div className="flex items-center gap-2 mb-2">
+                    <motion.div className="w-2 h-2 rounded-full bg-sos" animate={{ scale: [1, 1.5, 1] }} transition={{ repeat: Infinity, duration: 1.2 }} />
+                    <p className="text-xs font-semibold text-foreground flex-1">
+                      SOS {activeIncident.status === "acknowledged" ? "acknowledged" : "active"} since{" "}
+                      {new Date(activeIncident.created_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                    </p>
+                    <span className="text-[10px] text-muted-foreground">{activeIncident.contacts_notified} notified</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="gradient" size="sm" className="flex-1 h-8 text-xs" disabled={closingIncident} onClick={() => closeIncident("resolved")}>
+                      <CheckCircle2 className="w-3.5 h-3.5 mr-1" />I'm safe
+                    </Button>
+                    <Button variant="outline" size="sm" className="flex-1 h-8 text-xs" disabled={closingIncident} onClick={() => closeIncident("false_alarm")}>
+                      False alarm
+                    </Button>
+                  </div>
+                  {activeShareToken && (
+                    <Button variant="ghost" size="sm" className="w-full h-7 mt-1 text-[10px] text-accent" onClick={copyLiveLink}>
+                      <Link2 className="w-3 h-3 mr-1" />Copy live location link
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Emergency Contacts */}
         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }} className="px-3">
           <Card variant="glass">
@@ -315,6 +455,24 @@ export default function SOS() {
                     <Input placeholder="Phone (with country code e.g. +91...)" value={newContact.phone} onChange={(e) => setNewContact({ ...newContact, phone: e.target.value })} className="bg-background" />
                     <Input placeholder="Email (for alerts)" type="email" value={newContact.email} onChange={(e) => setNewContact({ ...newContact, email: e.target.value })} className="bg-background" />
                     <Input placeholder="Relationship (optional)" value={newContact.relationship} onChange={(e) => setNewContact({ ...newContact, relationship: e.target.value })} className="bg-background" />
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select value={String(newContact.priority)} onValueChange={(v) => setNewContact({ ...newContact, priority: Number(v) })}>
+                        <SelectTrigger className="bg-background"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CONTACT_PRIORITY_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label} to alert</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={newContact.notify_via} onValueChange={(v) => setNewContact({ ...newContact, notify_via: v as NotifyVia })}>
+                        <SelectTrigger className="bg-background"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(NOTIFY_VIA_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>Notify by {label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <div className="flex gap-2">
                       <Button variant="ghost" onClick={() => setShowAddForm(false)} className="flex-1">Cancel</Button>
                       <Button variant="gradient" onClick={addContact} className="flex-1">Save Contact</Button>
@@ -341,7 +499,17 @@ export default function SOS() {
                         <User className="w-4 h-4 text-accent" />
                       </div>
                       <div className="flex-1 min-w-0">
-                        <p className="text-xs font-medium text-foreground truncate">{contact.name}</p>
+                        <div className="flex items-center gap-1.5">
+                          <p className="text-xs font-medium text-foreground truncate">{contact.name}</p>
+                          <button onClick={() => cyclePriority(contact)} title="Change when they're alerted">
+                            <Badge variant="outline" className={cn("text-[9px] px-1.5 py-0", contact.priority === 1 ? "border-sos/40 text-sos" : "text-muted-foreground")}>
+                              {CONTACT_PRIORITY_LABELS[contact.priority] ?? contact.priority}
+                            </Badge>
+                          </button>
+                          <Badge variant="secondary" className="text-[9px] px-1.5 py-0 text-muted-foreground">
+                            {NOTIFY_VIA_LABELS[contact.notify_via as NotifyVia] ?? contact.notify_via}
+                          </Badge>
+                        </div>
                         <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
                           <span className="flex items-center gap-0.5 truncate"><Phone className="w-2.5 h-2.5" />{contact.phone}</span>
                           {contact.email && <span className="flex items-center gap-0.5 truncate"><Mail className="w-2.5 h-2.5" />{contact.email.split('@')[0]}...</span>}
@@ -354,6 +522,36 @@ export default function SOS() {
                   ))}
                 </div>
               )}
+
+              {contacts.length > 0 && (
+                <div className="flex items-center gap-2 mt-3 pt-3 border-t border-border/50">
+                  <Timer className="w-3.5 h-3.5 text-accent shrink-0" />
+                  <p className="flex-1 text-[10px] text-muted-foreground">If no one responds, alert the next contacts after</p>
+                  <Select value={String(escalationMinutes)} onValueChange={(v) => saveEscalationMinutes(Number(v))}>
+                    <SelectTrigger className="w-20 h-7 text-xs bg-secondary"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {ESCALATION_OPTIONS.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>{minutes === 0 ? "Never" : `${minutes} min`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* SOS History */}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.3 }} className="px-3 pt-3">
+          <Card variant="glass">
+            <CardHeader className="pb-2 px-3 pt-3">
+              <CardTitle className="text-sm flex items-center gap-1.5">
+                <History className="w-3.5 h-3.5 text-accent" />SOS History
+              </CardTitle>
+              <CardDescription className="text-[10px]">Past alerts, who was reached and how they ended</CardDescription>
+            </CardHeader>
+            <CardContent className="px-3 pb-3">
+              <SosHistory incidents={incidents} />
             </CardContent>
           </Card>
         </motion.div>
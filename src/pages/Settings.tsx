@@ -1,12 +1,47 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
-import { ArrowLeft, Shield, Moon, Sun, Smartphone, HelpCircle, ExternalLink, MapPin, Battery, Wifi } from "lucide-react";
+import { ArrowLeft, Shield, Moon, Sun, Smartphone, HelpCircle, ExternalLink, MapPin, Battery, Wifi, AlertTriangle, Check, CloudUpload, Gauge, Download, Map as MapIcon, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { BottomNavigation } from "@/components/navigation/BottomNavigation";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocationContext } from "@/contexts/LocationContext";
+import { SAMPLING_PRESETS, type SamplingPresetId } from "@/lib/sampling";
+import { acknowledgeAlert, ALERT_KIND_LABELS, type RoutineAlert } from "@/lib/routine-alerts";
+import { downloadBlob, EXPORT_FORMATS, exportFileName, exportHistory, type ExportFormat } from "@/lib/history-export";
+import { listLabels } from "@/lib/labels";
+import { fetchMapPrediction } from "@/lib/map-prediction";
+import {
+  AVG_TILE_BYTES,
+  boundsAround,
+  downloadTiles,
+  formatBytes,
+  MAX_REGION_TILES,
+  TILE_CACHE_BUDGET_BYTES,
+  tileCache,
+  tilesAroundAreas,
+  tilesInBounds,
+  ZOOM_PRESETS,
+  type TileArea,
+  type TileCoord,
+  type TileStats,
+  type ZoomPresetId,
+} from "@/lib/tile-cache";
+
+type OfflineRegion = "places" | "trip";
+
+const OFFLINE_REGIONS: Record<OfflineRegion, { label: string; description: string }> = {
+  places: { label: "My places", description: "2 km around where you are, your geofences and named places" },
+  trip: { label: "Next trip", description: "From here to your predicted destination" },
+};
 
 export default function Settings() {
   const navigate = useNavigate();
@@ -22,6 +57,217 @@ export default function Settings() {
   const [shareLocation, setShareLocation] = useState(true);
   const [saveHistory, setSaveHistory] = useState(true);
 
+  // Routine alerts
+  const { user } = useAuth();
+  const [alertsEnabled, setAlertsEnabled] = useState(true);
+  const [alertThreshold, setAlertThreshold] = useState(0.7);
+  const [notifyContacts, setNotifyContacts] = useState(false);
+  const [recentAlerts, setRecentAlerts] = useState<RoutineAlert[]>([]);
+
+  // Offline queue and tracking sampling
+  const { syncStatus, syncNow, samplingPreset, setSamplingPreset, currentLocation, geofences } = useLocationContext();
+  const samplingPolicy = SAMPLING_PRESETS[samplingPreset].policy;
+
+  // Data export
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("gpx");
+  const [exportFrom, setExportFrom] = useState("");
+  const [exportTo, setExportTo] = useState("");
+  const [includePredictions, setIncludePredictions] = useState(true);
+  const [exportProgress, setExportProgress] = useState<{ logs: number; predictions: number } | null>(null);
+
+  // Offline maps
+  const [tileStats, setTileStats] = useState<TileStats | null>(null);
+  const [offlineRegion, setOfflineRegion] = useState<OfflineRegion>("places");
+  const [zoomPreset, setZoomPreset] = useState<ZoomPresetId>("streets");
+  const [plannedTiles, setPlannedTiles] = useState<TileCoord[] | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [downloadProgress, setDownloadProgress] = useState<{ done: number; total: number } | null>(null);
+  const downloadAbortRef = useRef<AbortController | null>(null);
+  // Read when planning; a new fix every few seconds shouldn't replan
+  const locationRef = useRef(currentLocation);
+  const hasLocation = currentLocation != null;
+
+  useEffect(() => {
+    if (!user || section !== "alerts") return;
+    const fetchAlertSettings = async () => {
+      const [{ data: profile }, { data: alerts }] = await Promise.all([
+        supabase
+          .from("profiles")
+          .select("routine_alerts_enabled, routine_alert_threshold, routine_alert_notify_contacts")
+          .eq("user_id", user.id)
+          .maybeSingle(),
+        supabase
+          .from("routine_alerts")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false })
+          .limit(10),
+      ]);
+      if (profile) {
+        setAlertsEnabled(profile.routine_alerts_enabled);
+        setAlertThreshold(profile.routine_alert_threshold);
+        setNotifyContacts(profile.routine_alert_notify_contacts);
+      }
+      setRecentAlerts((alerts || []) as RoutineAlert[]);
+    };
+    fetchAlertSettings();
+  }, [user, section]);
+
+  useEffect(() => {
+    if (section !== "offline") return;
+    tileCache().stats().then(setTileStats).catch((err) => console.error("Error reading tile cache:", err));
+  }, [section]);
+
+  useEffect(() => () => downloadAbortRef.current?.abort(), []);
+
+  useEffect(() => {
+    locationRef.current = currentLocation;
+  }, [currentLocation]);
+
+  // Works out which tiles the chosen region needs before anything is fetched
+  useEffect(() => {
+    if (!user || section !== "offline") return;
+    let cancelled = false;
+    const zooms = ZOOM_PRESETS[zoomPreset].zooms;
+    const location = hasLocation ? locationRef.current : null;
+    const here = location ? [{ latitude: location.latitude, longitude: location.longitude }] : [];
+    setPlannedTiles(null);
+    setPlanError(null);
+
+    const plan = async (): Promise<TileCoord[]> => {
+      if (offlineRegion === "places") {
+        // Pinned labels, named discovered places and geofences, whole
+        const [labels, { data: discovered, error }] = await Promise.all([
+          listLabels(),
+          supabase
+            .from("discovered_places")
+            .select("latitude, longitude")
+            .eq("user_id", user.id)
+            .eq("dismissed", false)
+            .not("label", "is", null),
+        ]);
+        if (error) throw new Error(error.message);
+        const points = [
+          ...here,
+          ...labels.flatMap((l) => (l.latitude != null && l.longitude != null ? [{ latitude: l.latitude, longitude: l.longitude }] : [])),
+          ...(discovered || []),
+        ];
+        const areas: TileArea[] = [
+          ...points.map((point) => ({ points: [point] })),
+          ...geofences.flatMap((fence): TileArea[] => {
+            if (fence.shape === "polygon") {
+              return fence.polygon?.length ? [{ points: fence.polygon.map((p) => ({ latitude: p.lat, longitude: p.lng })) }] : [];
+            }
+            return fence.center_lat != null && fence.center_lng != null
+              ? [{ points: [{ latitude: fence.center_lat, longitude: fence.center_lng }], radiusKm: (fence.radius_m ?? 0) / 1000 }]
+              : [];
+          }),
+        ];
+        if (areas.length === 0) throw new Error("Save a place or turn on location first");
+        return tilesAroundAreas(areas, 2, zooms);
+      }
+      if (here.length === 0) throw new Error("Turn on location to plan a trip");
+      const destination = (await fetchMapPrediction(user.id, location))?.find((p) => p.primary);
+      if (!destination) throw new Error("No predicted destination yet");
+      return tilesInBounds(boundsAround([...here, destination], 1)!, zooms);
+    };
+
+    plan()
+      .then((tiles) => !cancelled && setPlannedTiles(tiles))
+      .catch((err) => !cancelled && setPlanError(err instanceof Error ? err.message : "Couldn't plan the download"));
+    return () => {
+      cancelled = true;
+    };
+  }, [user, section, offlineRegion, zoomPreset, hasLocation, geofences]);
+
+  const handleDownloadRegion = async () => {
+    if (!plannedTiles) return;
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+    setDownloadProgress({ done: 0, total: plannedTiles.length });
+    try {
+      const result = await downloadTiles(plannedTiles, {
+        retina: window.devicePixelRatio > 1,
+        signal: controller.signal,
+        onProgress: (done, total) => setDownloadProgress({ done, total }),
+      });
+      if (controller.signal.aborted) {
+        toast.info("Download stopped");
+      } else if (result.failed > 0) {
+        toast.warning(`Saved ${result.downloaded} tiles, ${result.failed} failed. Try again with a better connection.`);
+      } else {
+        toast.success(`Map saved for offline use (${result.downloaded} new tiles)`);
+      }
+    } catch (err) {
+      console.error("Error downloading tiles:", err);
+      toast.error("Download failed");
+    } finally {
+      downloadAbortRef.current = null;
+      setDownloadProgress(null);
+      tileCache().stats().then(setTileStats).catch(() => undefined);
+    }
+  };
+
+  const handlePurgeTiles = async () => {
+    try {
+      await tileCache().clear();
+      setTileStats({ tiles: 0, bytes: 0 });
+      toast.success("Offline maps cleared");
+    } catch (err) {
+      console.error("Error clearing tile cache:", err);
+      toast.error("Failed to clear offline maps");
+    }
+  };
+
+  const saveAlertSetting = async (update: {
+    routine_alerts_enabled?: boolean;
+    routine_alert_threshold?: number;
+    routine_alert_notify_contacts?: boolean;
+  }) => {
+    if (!user) return;
+    const { error } = await supabase.from("profiles").update(update).eq("user_id", user.id);
+    if (error) {
+      console.error("Error saving alert settings:", error);
+      toast.error("Failed to save alert settings");
+    }
+  };
+
+  const handleAcknowledge = async (alert: RoutineAlert) => {
+    const { error } = await acknowledgeAlert(alert.id);
+    if (error) {
+      toast.error("Failed to update alert");
+      return;
+    }
+    setRecentAlerts((prev) => prev.map((a) => a.id === alert.id ? { ...a, acknowledged_at: new Date().toISOString() } : a));
+  };
+
+  // Dates are whole local days; the end date is included
+  const handleExport = async () => {
+    if (!user) return;
+    const from = exportFrom ? new Date(`${exportFrom}T00:00`).getTime() : null;
+    const to = exportTo ? new Date(`${exportTo}T00:00`).getTime() + 86_400_000 : null;
+    if (from !== null && to !== null && from >= to) {
+      toast.error("The start date must be before the end date");
+      return;
+    }
+    setExportProgress({ logs: 0, predictions: 0 });
+    try {
+      const range = { from, to };
+      const result = await exportHistory(user.id, exportFormat, { range, includePredictions, onProgress: setExportProgress });
+      if (result.logs === 0 && result.predictions === 0) {
+        toast.info("Nothing to export in that range");
+        return;
+      }
+      downloadBlob(result.blob, exportFileName(exportFormat, range));
+      toast.success(`Exported ${result.logs.toLocaleString()} locations${includePredictions ? ` and ${result.predictions.toLocaleString()} predictions` : ""}`);
+    } catch (err) {
+      console.error("Error exporting history:", err);
+      toast.error("Export failed");
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
   const handleDarkModeToggle = (checked: boolean) => {
     setDarkMode(checked);
     if (checked) {
@@ -52,6 +298,9 @@ export default function Settings() {
   const title = section === "privacy" ? "Privacy Settings"
     : section === "darkmode" ? "Appearance"
     : section === "device" ? "Device Settings"
+    : section === "alerts" ? "Routine Alerts"
+    : section === "export" ? "Export Data"
+    : section === "offline" ? "Offline Maps"
     : section === "help" ? "Help & Support"
     : "Settings";
 
@@ -162,6 +411,312 @@ export default function Settings() {
                 </div>
               </CardContent>
             </Card>
+            <Card className="bg-card border-border">
+              <CardHeader className="pb-2 px-3 pt-3">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Gauge className="w-4 h-4 text-accent" /> Tracking Mode
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3 space-y-3">
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(SAMPLING_PRESETS) as SamplingPresetId[]).map((id) => (
+                    <div
+                      key={id}
+                      className={`p-2 rounded-xl border-2 cursor-pointer transition-all ${samplingPreset === id ? "border-accent bg-accent/10" : "border-border bg-secondary"}`}
+                      onClick={() => { setSamplingPreset(id); toast.success(`${SAMPLING_PRESETS[id].label} mode`); }}
+                    >
+                      <p className="text-[11px] text-center font-medium text-foreground">{SAMPLING_PRESETS[id].label}</p>
+                      <p className="text-[9px] text-center text-muted-foreground mt-1">{SAMPLING_PRESETS[id].description}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="p-3 bg-secondary rounded-lg space-y-1">
+                  <p className="text-[10px] text-muted-foreground">
+                    Fixes less accurate than ±{samplingPolicy.maxAccuracyM} m are ignored. {samplingPolicy.highAccuracy ? "Uses GPS." : "Uses network positioning."}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    Still: every {Math.round(samplingPolicy.motion.still.minIntervalS / 60)} min after {samplingPolicy.motion.still.minDistanceM} m ·
+                    Walking: every {samplingPolicy.motion.walking.minIntervalS}s after {samplingPolicy.motion.walking.minDistanceM} m ·
+                    Driving: every {samplingPolicy.motion.driving.minIntervalS}s after {samplingPolicy.motion.driving.minDistanceM} m
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    A point is saved at least every {samplingPolicy.heartbeatMin} min while tracking, even without moving.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card className="bg-card border-border">
+              <CardHeader className="pb-2 px-3 pt-3">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <CloudUpload className="w-4 h-4 text-accent" /> Location Sync
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-xs font-medium text-foreground">
+                      {syncStatus.pending > 0 ? `${syncStatus.pending} point(s) waiting to upload` : "All points uploaded"}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">
+                      Last sync: {syncStatus.lastSyncAt ? new Date(syncStatus.lastSyncAt).toLocaleString() : "never"}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" className="h-7 text-xs" onClick={syncNow} disabled={syncStatus.syncing || syncStatus.pending === 0}>
+                    {syncStatus.syncing ? "Syncing..." : "Sync now"}
+                  </Button>
+                </div>
+                {syncStatus.lastError && (
+                  <p className="text-[10px] text-destructive">Last attempt failed: {syncStatus.lastError}</p>
+                )}
+                <div className="p-3 bg-secondary rounded-lg">
+                  <p className="text-[10px] text-muted-foreground">
+                    Positions recorded without signal are kept on this device and uploaded automatically once you're back online.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {section === "export" && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+            <Card className="bg-card border-border">
+              <CardHeader className="pb-2 px-3 pt-3">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Download className="w-4 h-4 text-accent" /> Export Your Data
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3 space-y-4">
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((id) => (
+                    <div
+                      key={id}
+                      className={`p-2 rounded-xl border-2 cursor-pointer transition-all ${exportFormat === id ? "border-accent bg-accent/10" : "border-border bg-secondary"}`}
+                      onClick={() => setExportFormat(id)}
+                    >
+                      <p className="text-[11px] text-center font-medium text-foreground">{EXPORT_FORMATS[id].label}</p>
+                      <p className="text-[9px] text-center text-muted-foreground mt-1">{EXPORT_FORMATS[id].description}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="export-from" className="text-xs">From</Label>
+                    <Input id="export-from" type="date" value={exportFrom} onChange={(e) => setExportFrom(e.target.value)} className="h-8 text-xs bg-secondary" />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="export-to" className="text-xs">To</Label>
+                    <Input id="export-to" type="date" value={exportTo} onChange={(e) => setExportTo(e.target.value)} className="h-8 text-xs bg-secondary" />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-xs font-medium text-foreground">Include predictions</p>
+                    <p className="text-[10px] text-muted-foreground">Where SafeTrack expected you to be, and whether it was right</p>
+                  </div>
+                  <Switch checked={includePredictions} onCheckedChange={setIncludePredictions} />
+                </div>
+                <Button className="w-full h-8 text-xs bg-gradient-primary" onClick={handleExport} disabled={!!exportProgress}>
+                  {exportProgress
+                    ? `Exporting... ${(exportProgress.logs + exportProgress.predictions).toLocaleString()} rows`
+                    : `Export ${EXPORT_FORMATS[exportFormat].label}`}
+                </Button>
+                <div className="p-3 bg-secondary rounded-lg">
+                  <p className="text-[10px] text-muted-foreground">
+                    Leave the dates empty to export everything. The file is built on this device and downloaded directly; nothing is sent anywhere else.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {section === "offline" && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-3">
+            <Card className="bg-card border-border">
+              <CardHeader className="pb-2 px-3 pt-3">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <MapIcon className="w-4 h-4 text-accent" /> Saved Map Tiles
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-xs font-medium text-foreground">
+                      {tileStats
+                        ? `${tileStats.tiles.toLocaleString()} tiles · ${formatBytes(tileStats.bytes)} of ${formatBytes(TILE_CACHE_BUDGET_BYTES)}`
+                        : "Checking..."}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">Every map area you view is kept on this device</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    onClick={handlePurgeTiles}
+                    disabled={!tileStats || tileStats.tiles === 0 || !!downloadProgress}
+                  >
+                    <Trash2 className="w-3 h-3 mr-1" /> Clear
+                  </Button>
+                </div>
+                <Progress value={tileStats ? Math.min(100, (tileStats.bytes / TILE_CACHE_BUDGET_BYTES) * 100) : 0} className="h-1.5" />
+                <p className="text-[10px] text-muted-foreground">
+                  When saved maps reach {formatBytes(TILE_CACHE_BUDGET_BYTES)}, the areas you haven't viewed for longest are removed first.
+                </p>
+              </CardContent>
+            </Card>
+            <Card className="bg-card border-border">
+              <CardHeader className="pb-2 px-3 pt-3">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Download className="w-4 h-4 text-accent" /> Download a Region
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3 space-y-4">
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(OFFLINE_REGIONS) as OfflineRegion[]).map((id) => (
+                    <div
+                      key={id}
+                      className={`p-2 rounded-xl border-2 cursor-pointer transition-all ${offlineRegion === id ? "border-accent bg-accent/10" : "border-border bg-secondary"}`}
+                      onClick={() => setOfflineRegion(id)}
+                    >
+                      <p className="text-[11px] text-center font-medium text-foreground">{OFFLINE_REGIONS[id].label}</p>
+                      <p className="text-[9px] text-center text-muted-foreground mt-1">{OFFLINE_REGIONS[id].description}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(ZOOM_PRESETS) as ZoomPresetId[]).map((id) => (
+                    <div
+                      key={id}
+                      className={`p-2 rounded-xl border-2 cursor-pointer transition-all ${zoomPreset === id ? "border-accent bg-accent/10" : "border-border bg-secondary"}`}
+                      onClick={() => setZoomPreset(id)}
+                    >
+                      <p className="text-[11px] text-center font-medium text-foreground">{ZOOM_PRESETS[id].label}</p>
+                      <p className="text-[9px] text-center text-muted-foreground mt-1">{ZOOM_PRESETS[id].description}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="p-3 bg-secondary rounded-lg">
+                  <p className="text-[10px] text-muted-foreground">
+                    {planError
+                      ? planError
+                      : plannedTiles
+                        ? plannedTiles.length > MAX_REGION_TILES
+                          ? `${plannedTiles.length.toLocaleString()} tiles is too large an area. Pick fewer zoom levels.`
+                          : `${plannedTiles.length.toLocaleString()} tiles, about ${formatBytes(plannedTiles.length * AVG_TILE_BYTES)}${
+                              tileStats && tileStats.bytes + plannedTiles.length * AVG_TILE_BYTES > TILE_CACHE_BUDGET_BYTES
+                                ? ". Older saved areas will be removed to make room."
+                                : ""
+                            }`
+                        : "Working out the area..."}
+                  </p>
+                </div>
+                {downloadProgress ? (
+                  <div className="flex items-center gap-2">
+                    <Button className="flex-1 h-8 text-xs" disabled>
+                      Downloading... {downloadProgress.done}/{downloadProgress.total}
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-8 text-xs" onClick={() => downloadAbortRef.current?.abort()}>
+                      Stop
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    className="w-full h-8 text-xs bg-gradient-primary"
+                    onClick={handleDownloadRegion}
+                    disabled={!plannedTiles || plannedTiles.length === 0 || plannedTiles.length > MAX_REGION_TILES}
+                  >
+                    Download for offline use
+                  </Button>
+                )}
+                <div className="p-3 bg-secondary rounded-lg">
+                  <p className="text-[10px] text-muted-foreground">
+                    Download on Wi-Fi before heading somewhere with poor signal. Saved tiles are refreshed when they're over a month old and you're online.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {section === "alerts" && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-3">
+            <Card className="bg-card border-border">
+              <CardHeader className="pb-2 px-3 pt-3">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 text-warning" /> Routine Alerts
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-xs font-medium text-foreground">Watch for unusual activity</p>
+                    <p className="text-[10px] text-muted-foreground">Alert me at unfamiliar places, unusual times, or when I miss a usual arrival</p>
+                  </div>
+                  <Switch checked={alertsEnabled} onCheckedChange={(v) => { setAlertsEnabled(v); saveAlertSetting({ routine_alerts_enabled: v }); }} />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs font-medium text-foreground">Sensitivity</p>
+                    <span className="text-[10px] text-muted-foreground">Alert when score ≥ {Math.round(alertThreshold * 100)}%</span>
+                  </div>
+                  <Slider
+                    min={30}
+                    max={95}
+                    step={5}
+                    value={[Math.round(alertThreshold * 100)]}
+                    onValueChange={([v]) => setAlertThreshold(v / 100)}
+                    onValueCommit={([v]) => saveAlertSetting({ routine_alert_threshold: v / 100 })}
+                    disabled={!alertsEnabled}
+                  />
+                  <div className="flex justify-between text-[9px] text-muted-foreground">
+                    <span>More alerts</span>
+                    <span>Fewer alerts</span>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-xs font-medium text-foreground">Notify emergency contacts</p>
+                    <p className="text-[10px] text-muted-foreground">Email your emergency contacts when an alert is raised</p>
+                  </div>
+                  <Switch
+                    checked={notifyContacts}
+                    disabled={!alertsEnabled}
+                    onCheckedChange={(v) => { setNotifyContacts(v); saveAlertSetting({ routine_alert_notify_contacts: v }); }}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+            <Card className="bg-card border-border">
+              <CardHeader className="pb-2 px-3 pt-3">
+                <CardTitle className="text-sm">Recent Alerts</CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3 space-y-2">
+                {recentAlerts.length === 0 ? (
+                  <p className="text-[10px] text-muted-foreground text-center py-2">No alerts yet</p>
+                ) : (
+                  recentAlerts.map((alert) => (
+                    <div key={alert.id} className="flex items-start gap-2 p-2 bg-secondary rounded-lg">
+                      <AlertTriangle className={`w-3.5 h-3.5 shrink-0 mt-0.5 ${alert.acknowledged_at ? "text-muted-foreground" : "text-warning"}`} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs text-foreground">{alert.message}</p>
+                        <p className="text-[9px] text-muted-foreground">
+                          {ALERT_KIND_LABELS[alert.kind] || alert.kind} · {new Date(alert.created_at).toLocaleString()}
+                          {alert.contacts_notified > 0 && ` · ${alert.contacts_notified} contact(s) notified`}
+                        </p>
+                      </div>
+                      {alert.acknowledged_at ? (
+                        <Check className="w-3.5 h-3.5 text-success shrink-0" />
+                      ) : (
+                        <Button variant="outline" size="sm" className="h-6 text-[10px] px-2" onClick={() => handleAcknowledge(alert)}>
+                          I'm OK
+                        </Button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
           </motion.div>
         )}
 
@@ -0,0 +1,300 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowLeft, Route, Upload, Play, Square, AlertTriangle, CalendarClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BottomNavigation } from "@/components/navigation/BottomNavigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocationContext } from "@/contexts/LocationContext";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+import { listLabels } from "@/lib/labels";
+import { geofenceCenter } from "@/lib/geofences";
+import { replaySource, type PositionFix } from "@/lib/position-sources";
+import { parseTrack, type TrackPoint } from "@/lib/track-formats";
+import {
+  parseDayScript,
+  placeStops,
+  scriptedDays,
+  trackToFixes,
+  type LatLng,
+} from "@/lib/simulation";
+
+type Mode = "script" | "track";
+
+const SIMULATOR_SOURCE = "simulator";
+const DEFAULT_SCRIPT = "home 8am → office 9am → gym 6pm → home 8pm";
+const SPEEDS = [
+  { value: "1", label: "Real time" },
+  { value: "10", label: "10×" },
+  { value: "60", label: "60× (1 h per minute)" },
+  { value: "600", label: "600×" },
+  { value: "3600", label: "3600× (1 h per second)" },
+];
+
+function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.round(s / 60)} min`;
+  return `${(s / 3600).toFixed(1)} h`;
+}
+
+export default function Simulator() {
+  const { user } = useAuth();
+  const {
+    currentLocation, geofences, isTracking, positionSource, setPositionSource, startTracking, stopTracking,
+  } = useLocationContext();
+  const navigate = useNavigate();
+  const [mode, setMode] = useState<Mode>("script");
+  const [script, setScript] = useState(DEFAULT_SCRIPT);
+  const [days, setDays] = useState("1");
+  const [weekdaysOnly, setWeekdaysOnly] = useState(false);
+  const [track, setTrack] = useState<{ name: string; points: TrackPoint[] } | null>(null);
+  const [speed, setSpeed] = useState("600");
+  const [progress, setProgress] = useState<{ index: number; total: number } | null>(null);
+  const [known, setKnown] = useState<Record<string, LatLng>>({});
+
+  const simulating = positionSource === SIMULATOR_SOURCE;
+  const parsed = useMemo(() => parseDayScript(script), [script]);
+
+  // Where scripted stops go: pinned labels first, then geofences, then
+  // discovered places. Anything else is placed near the current position.
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      const places: Record<string, LatLng> = {};
+      const { data: discovered } = await supabase
+        .from("discovered_places")
+        .select("label, latitude, longitude")
+        .eq("user_id", user.id)
+        .not("label", "is", null);
+      for (const p of discovered || []) places[p.label!.toLowerCase()] = { lat: p.latitude, lng: p.longitude };
+      for (const fence of geofences) places[fence.name.toLowerCase()] = geofenceCenter(fence);
+      try {
+        for (const label of await listLabels()) {
+          if (label.latitude != null && label.longitude != null) places[label.name] = { lat: label.latitude, lng: label.longitude };
+        }
+      } catch (err) {
+        console.error("Error loading labels:", err);
+      }
+      setKnown(places);
+    };
+    void load();
+  }, [user, geofences]);
+
+  const buildFixes = (): PositionFix[] | null => {
+    if (mode === "track") {
+      if (!track) { toast.error("Choose a track file first"); return null; }
+      const fixes = trackToFixes(track.points, { startAt: 0 });
+      // Re-timed so the track ends now
+      const shift = Date.now() - fixes[fixes.length - 1].timestamp;
+      return fixes.map((f) => ({ ...f, timestamp: f.timestamp + shift }));
+    }
+
+    if (parsed.error) { toast.error(parsed.error); return null; }
+    const dayCount = Number(days);
+    if (!Number.isInteger(dayCount) || dayCount < 1 || dayCount > 60) { toast.error("Days must be between 1 and 60"); return null; }
+    const anchor = Object.values(known)[0];
+    const origin = currentLocation ? { lat: currentLocation.latitude, lng: currentLocation.longitude } : anchor;
+    if (!origin) { toast.error("Enable GPS or pin a place first so the simulator knows where you are"); return null; }
+    const fixes = scriptedDays(placeStops(parsed.stops, known, origin), { days: dayCount, weekdaysOnly });
+    if (fixes.length === 0) { toast.error("No days to simulate"); return null; }
+    return fixes;
+  };
+
+  const handleStart = () => {
+    const fixes = buildFixes();
+    if (!fixes) return;
+    const rate = Number(speed);
+    setProgress({ index: 0, total: fixes.length });
+    setPositionSource(replaySource(fixes, {
+      name: SIMULATOR_SOURCE,
+      speed: rate,
+      onProgress: (index, total) => setProgress({ index, total }),
+      onEnd: () => {
+        stopTracking();
+        setPositionSource(null);
+        setProgress(null);
+        toast.success("Simulation finished");
+      },
+    }));
+    if (!isTracking) startTracking();
+    const span = fixes[fixes.length - 1].timestamp - fixes[0].timestamp;
+    toast.success(`Playing ${fixes.length} positions, about ${formatDuration(span / rate)}`);
+  };
+
+  const handleStop = () => {
+    stopTracking();
+    setPositionSource(null);
+    setProgress(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const points = parseTrack(file.name, await file.text());
+      if (points.length < 2) { toast.error("The file has fewer than two positions"); return; }
+      setTrack({ name: file.name, points });
+      toast.success(`Loaded ${points.length} positions from ${file.name}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Couldn't read the file");
+    }
+  };
+
+  return (
+    <div className="h-[100dvh] flex flex-col bg-background overflow-hidden">
+      <div className="shrink-0 px-3 py-3 border-b border-border bg-card/80 backdrop-blur-sm flex items-center gap-2">
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navigate(-1)}>
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-base font-bold text-foreground">GPS Simulator</h1>
+          <p className="text-[10px] text-muted-foreground">Play a route through tracking as if you were moving</p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-warning/10 border border-warning/30">
+          <AlertTriangle className="w-4 h-4 text-warning shrink-0 mt-0.5" />
+          <p className="text-[10px] text-muted-foreground">
+            Simulated positions go through the same path as real ones: they're saved to your location history with
+            their simulated times, trigger geofences and routine alerts, and show on the map.
+          </p>
+        </div>
+
+        <div className="flex gap-1.5">
+          {(["script", "track"] as Mode[]).map((m) => (
+            <Button
+              key={m}
+              variant={mode === m ? "default" : "glass"}
+              size="sm"
+              className={cn("h-7 text-xs flex-1", mode === m && "bg-accent")}
+              onClick={() => setMode(m)}
+              disabled={simulating}
+            >
+              {m === "script" ? <CalendarClock className="w-3 h-3 mr-1" /> : <Route className="w-3 h-3 mr-1" />}
+              {m === "script" ? "Scripted day" : "Track file"}
+            </Button>
+          ))}
+        </div>
+
+        {mode === "script" ? (
+          <Card variant="glass">
+            <CardHeader className="pb-2 px-3 pt-3">
+              <CardTitle className="text-sm">Scripted day</CardTitle>
+              <CardDescription className="text-[10px]">
+                Places you've pinned, geofenced or named are used where they are; other names get a spot nearby.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="px-3 pb-3 space-y-3">
+              <Textarea
+                value={script}
+                onChange={(e) => setScript(e.target.value)}
+                rows={3}
+                className="text-xs bg-secondary"
+                disabled={simulating}
+              />
+              {parsed.error ? (
+                <p className="text-[10px] text-destructive">{parsed.error}</p>
+              ) : (
+                <p className="text-[10px] text-muted-foreground">
+                  {parsed.stops.map((s) => `${s.label}${known[s.label] ? "" : " (new)"}`).join(" → ")}
+                </p>
+              )}
+              <div className="flex items-end gap-3">
+                <div className="space-y-1.5 w-24">
+                  <Label htmlFor="sim-days" className="text-xs">Days</Label>
+                  <Input
+                    id="sim-days"
+                    type="number"
+                    min={1}
+                    max={60}
+                    value={days}
+                    onChange={(e) => setDays(e.target.value)}
+                    className="h-8 text-xs bg-secondary"
+                    disabled={simulating}
+                  />
+                </div>
+                <div className="flex items-center gap-2 pb-1.5">
+                  <Switch id="sim-weekdays" checked={weekdaysOnly} onCheckedChange={setWeekdaysOnly} disabled={simulating} />
+                  <Label htmlFor="sim-weekdays" className="text-xs">Weekdays only</Label>
+                </div>
+              </div>
+              <p className="text-[10px] text-muted-foreground">Days end yesterday, so a longer run seeds past history.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card variant="glass">
+            <CardHeader className="pb-2 px-3 pt-3">
+              <CardTitle className="text-sm">Track file</CardTitle>
+              <CardDescription className="text-[10px]">
+                GPX, KML, GeoJSON or Google Takeout. The track is re-timed to end now; files without times are paced at walking speed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="px-3 pb-3 space-y-2">
+              <Button variant="outline" size="sm" className="h-8 text-xs w-full" asChild disabled={simulating}>
+                <label className="cursor-pointer">
+                  <Upload className="w-3 h-3 mr-1" /> {track ? track.name : "Choose file"}
+                  <input
+                    type="file"
+                    accept=".gpx,.kml,.geojson,.json"
+                    className="hidden"
+                    onChange={(e) => { void handleFile(e.target.files?.[0]); e.target.value = ""; }}
+                  />
+                </label>
+              </Button>
+              {track && <p className="text-[10px] text-muted-foreground">{track.points.length} positions</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-card border-border">
+          <CardContent className="p-3 space-y-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Playback speed</Label>
+              <Select value={speed} onValueChange={setSpeed} disabled={simulating}>
+                <SelectTrigger className="h-8 text-xs bg-secondary">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SPEEDS.map((s) => (
+                    <SelectItem key={s.value} value={s.value} className="text-xs">{s.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {simulating && progress && (
+              <div className="space-y-1">
+                <Progress value={(progress.index / progress.total) * 100} className="h-1.5" />
+                <p className="text-[10px] text-muted-foreground">
+                  {progress.index} / {progress.total} positions
+                  {currentLocation && ` · ${currentLocation.timestamp.toLocaleString()}`}
+                </p>
+              </div>
+            )}
+
+            {simulating ? (
+              <Button variant="destructive" className="w-full h-8 text-xs" onClick={handleStop}>
+                <Square className="w-3 h-3 mr-1" /> Stop simulation
+              </Button>
+            ) : (
+              <Button className="w-full h-8 text-xs bg-gradient-primary" onClick={handleStart}>
+                <Play className="w-3 h-3 mr-1" /> Start simulation
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <BottomNavigation />
+    </div>
+  );
+}
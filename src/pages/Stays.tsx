@@ -8,24 +8,14 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { BottomNavigation } from "@/components/navigation/BottomNavigation";
 import { SOSButton } from "@/components/sos/SOSButton";
-import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
 import { useLocationContext } from "@/contexts/LocationContext";
 import { reverseGeocode } from "@/lib/geocoding";
+import { fetchNearbyPlaces as requestNearbyPlaces, type Place } from "@/lib/api";
 import { toast } from "sonner";
 
 type PlaceType = "all" | "hotel" | "restaurant" | "attraction";
 
-interface Place {
-  name: string;
-  type: string;
-  category: string;
-  latitude: number;
-  longitude: number;
-  rating: number;
-  address: string | null;
-}
-
 const typeIcons = { hotel: Hotel, restaurant: Utensils, attraction: Landmark };
 const typeColors = {
   hotel: "bg-primary/20 text-primary",
@@ -50,14 +40,11 @@ export default function Stays() {
     if (!currentLocation) { toast.error("Enable GPS first."); return; }
     setLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke("nearby-places", {
-        body: { latitude: currentLocation.latitude, longitude: currentLocation.longitude },
-      });
-      if (error) throw error;
-      if (data?.places && Array.isArray(data.places)) {
-        setPlaces(data.places);
+      const found = await requestNearbyPlaces({ latitude: currentLocation.latitude, longitude: currentLocation.longitude });
+      if (found.length > 0) {
+        setPlaces(found);
         setFetched(true);
-        toast.success(`Found ${data.places.length} places near you`);
+        toast.success(`Found ${found.length} places near you`);
       } else {
         toast.error("No places found");
       }
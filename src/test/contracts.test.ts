@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildInsights,
+  buildRoutineModel,
+  estimateTiming,
+  type LocationLog,
+} from "../../supabase/functions/_shared/prediction-engine.ts";
+import { summarizeMethodAccuracy } from "../../supabase/functions/_shared/prediction-feedback.ts";
+import {
+  insightsSchema,
+  manageLabelsRequestSchema,
+  parseBody,
+  predictLocationRequestSchema,
+  reconcilePredictionsResponseSchema,
+  sendSosRequestSchema,
+  tripTimingSchema,
+} from "../../supabase/functions/_shared/contracts.ts";
+
+const office = { lat: 17.4435, lng: 78.3772 };
+const gym = { lat: 17.4401, lng: 78.3489 };
+
+function weekdays(): LocationLog[] {
+  const logs: LocationLog[] = [];
+  for (let d = 0; d < 10; d++) {
+    const date = Date.UTC(2026, 0, 5 + d);
+    for (const [label, place, hour] of [["office", office, 9], ["gym", gym, 18]] as const) {
+      const at = new Date(date + hour * 3_600_000);
+      logs.push({ latitude: place.lat, longitude: place.lng, hour, day: at.getUTCDay(), label, created_at: at.toISOString() });
+    }
+  }
+  return logs;
+}
+
+describe("edge function contracts", () => {
+  it("matches what the prediction engine actually produces", () => {
+    const model = buildRoutineModel(weekdays());
+    const timing = estimateTiming(model, "office", "gym", { hour: 17, day: 1, currentLabel: "office" });
+    expect(tripTimingSchema.safeParse(timing).success).toBe(true);
+    expect(insightsSchema.safeParse(buildInsights(model)).success).toBe(true);
+  });
+
+  it("accepts an empty prediction request and rejects malformed ones", () => {
+    expect(parseBody(predictLocationRequestSchema, {}).error).toBeNull();
+    expect(parseBody(predictLocationRequestSchema, { latitude: "17.4" }).error).toMatch(/^latitude:/);
+    expect(parseBody(predictLocationRequestSchema, { hour: 24 }).error).toMatch(/^hour:/);
+  });
+
+  it("requires at least one SOS contact", () => {
+    const { error } = parseBody(sendSosRequestSchema, { contacts: [], location: "x", coordinates: null });
+    expect(error).toBe("contacts: No contacts provided");
+  });
+
+  it("keeps per-method hit rates keyed by known methods only", () => {
+    const methodStats = summarizeMethodAccuracy([
+      { method_key: "sequence", outcome: "hit" },
+      { method_key: "sequence", outcome: "miss" },
+      { method_key: null, outcome: "hit" },
+    ]);
+    const response = { reconciled: 2, stillPending: 0, overall: { hits: 1, misses: 1, hitRate: 0.5 }, methodStats };
+    expect(reconcilePredictionsResponseSchema.parse(response).methodStats).toEqual({ sequence: { hits: 1, misses: 1, hitRate: 0.5 } });
+
+    const renamed = { ...response, methodStats: { markov: { hits: 1, misses: 0, hitRate: 1 } } };
+    expect(reconcilePredictionsResponseSchema.safeParse(renamed).success).toBe(false);
+  });
+
+  it("normalizes label names and checks each label action's fields", () => {
+    expect(parseBody(manageLabelsRequestSchema, { action: "rename", from: "  Office ", to: "Work" }).data).toEqual({ action: "rename", from: "office", to: "work" });
+    expect(parseBody(manageLabelsRequestSchema, { action: "set_location", label: "gym", latitude: 17.44, longitude: 78.35 }).data)
+      .toMatchObject({ radiusM: 100 });
+    expect(parseBody(manageLabelsRequestSchema, { action: "alias", label: "gym", alias: "~3f2a1b9c" }).error).toMatch(/^alias:/);
+    expect(parseBody(manageLabelsRequestSchema, { action: "merge", sources: [], into: "gym" }).error).toMatch(/^sources:/);
+    expect(parseBody(manageLabelsRequestSchema, { action: "set_location", label: "gym", latitude: 17.44, longitude: 78.35, radiusM: 5 }).error).toMatch(/^radiusM:/);
+    expect(parseBody(manageLabelsRequestSchema, { action: "recolor", label: "gym" }).error).not.toBeNull();
+  });
+});
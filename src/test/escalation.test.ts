@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { contactTiers, nextEscalationStep } from "../../supabase/functions/_shared/escalation.ts";
+import { firstTier, initialRecipients, missedByEmail, preferredChannel } from "@/lib/sos-incidents";
+import { countryFromLocale, emergencyNumbersFor, FALLBACK_EMERGENCY_NUMBERS } from "@/lib/emergency-numbers";
+
+const contacts = [
+  { name: "Asha", priority: 1, notify_via: "email", email: "asha@example.com", phone: "+911234" },
+  { name: "Ravi", priority: 1, notify_via: "sms", email: null, phone: "+915678" },
+  { name: "Meera", priority: 3, notify_via: "whatsapp", email: null, phone: "+919012" },
+];
+
+describe("sos escalation", () => {
+  it("re-sends once, then climbs the tiers, then hands over to emergency services", () => {
+    expect(nextEscalationStep({ tier: 1, resent: false }, contacts)).toEqual({ kind: "resend", tier: 1 });
+    expect(nextEscalationStep({ tier: 1, resent: true }, contacts)).toEqual({ kind: "next_tier", tier: 3 });
+    expect(nextEscalationStep({ tier: 3, resent: true }, contacts)).toEqual({ kind: "emergency_services" });
+  });
+
+  it("alerts the first tier on the channel each contact prefers", () => {
+    expect(firstTier(contacts).map((c) => c.name)).toEqual(["Asha", "Ravi"]);
+    expect(contacts.map(preferredChannel)).toEqual(["email", "sms", "whatsapp"]);
+    // Email without an address falls back to SMS
+    expect(preferredChannel({ notify_via: "email", email: null })).toBe("sms");
+  });
+
+  it("picks local emergency numbers from the locale", () => {
+    expect(countryFromLocale("en-IN")).toBe("IN");
+    expect(countryFromLocale("en")).toBeNull();
+    expect(emergencyNumbersFor("US")[0].number).toBe("911");
+    expect(emergencyNumbersFor(null)).toBe(FALLBACK_EMERGENCY_NUMBERS);
+  });
+
+  it("goes straight to emergency services with no contacts", () => {
+    expect(firstTier([])).toEqual([]);
+    expect(nextEscalationStep({ tier: 1, resent: false }, [])).toEqual({ kind: "emergency_services" });
+  });
+
+  it("orders tiers once each and skips a tier whose contacts were removed mid-incident", () => {
+    expect(contactTiers([{ priority: 3 }, { priority: 1 }, { priority: 3 }, { priority: 2 }])).toEqual([1, 2, 3]);
+    // Tier 2 is gone, so there's nobody to re-send to
+    expect(nextEscalationStep({ tier: 2, resent: false }, contacts)).toEqual({ kind: "next_tier", tier: 3 });
+  });
+
+  it("reads the region from any position in the locale and falls back for unknown ones", () => {
+    expect(countryFromLocale("zh-Hant-TW")).toBe("TW");
+    expect(countryFromLocale("en_gb")).toBe("GB");
+    expect(countryFromLocale("")).toBeNull();
+    expect(emergencyNumbersFor("ZZ")).toBe(FALLBACK_EMERGENCY_NUMBERS);
+  });
+
+  it("alerts every tier at once when escalation is off", () => {
+    expect(initialRecipients(contacts, 5).map((c) => c.name)).toEqual(["Asha", "Ravi"]);
+    expect(initialRecipients(contacts, 0).map((c) => c.name)).toEqual(["Asha", "Ravi", "Meera"]);
+  });
+
+  it("falls back for every email contact the server didn't reach", () => {
+    const emailed = [
+      { name: "Asha", email: "asha@example.com" },
+      { name: "Dev", email: "dev@example.com" },
+    ];
+    const result = { results: [{ email: "asha@example.com", success: true }, { email: "dev@example.com", success: false }] };
+    expect(missedByEmail(emailed, result).map((c) => c.name)).toEqual(["Dev"]);
+    // The send itself failed
+    expect(missedByEmail(emailed, null)).toEqual(emailed);
+  });
+});
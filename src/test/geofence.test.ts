@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyGeofenceLabels,
+  containsPoint,
+  evaluateGeofences,
+  geofenceAreaM2,
+  EXIT_BUFFER_M,
+  type Geofence,
+} from "../../supabase/functions/_shared/geofence.ts";
+
+const campus: Geofence = {
+  id: "campus",
+  name: "Campus",
+  shape: "polygon",
+  center_lat: null,
+  center_lng: null,
+  radius_m: null,
+  polygon: [
+    { lat: 17.44, lng: 78.37 },
+    { lat: 17.44, lng: 78.38 },
+    { lat: 17.45, lng: 78.38 },
+    { lat: 17.45, lng: 78.37 },
+  ],
+};
+
+const library: Geofence = {
+  id: "library",
+  name: "Library",
+  shape: "circle",
+  center_lat: 17.445,
+  center_lng: 78.375,
+  radius_m: 50,
+  polygon: null,
+};
+
+// ~0.0001° of latitude is ~11 m
+const north = (m: number) => 17.445 + m / 111_320;
+
+describe("geofences", () => {
+  it("tests circles and polygons", () => {
+    expect(containsPoint(library, north(40), 78.375)).toBe(true);
+    expect(containsPoint(library, north(60), 78.375)).toBe(false);
+    expect(containsPoint(campus, 17.441, 78.371)).toBe(true);
+    expect(containsPoint(campus, 17.439, 78.371)).toBe(false);
+    expect(containsPoint({ ...campus, enabled: false }, 17.441, 78.371)).toBe(false);
+  });
+
+  it("enters the innermost fence and only exits past the buffer", () => {
+    const fences = [campus, library];
+    let state = evaluateGeofences(fences, null, 17.441, 78.371);
+    expect(state.events.map((e) => `${e.event}:${e.geofence.id}`)).toEqual(["enter:campus"]);
+
+    state = evaluateGeofences(fences, state.current!.id, north(10), 78.375);
+    expect(state.events.map((e) => `${e.event}:${e.geofence.id}`)).toEqual(["exit:campus", "enter:library"]);
+
+    // Jitter just past the edge doesn't count as leaving
+    state = evaluateGeofences(fences, state.current!.id, north(60), 78.375);
+    expect(state.current?.id).toBe("library");
+    expect(state.events).toEqual([]);
+
+    state = evaluateGeofences(fences, state.current!.id, north(120), 78.375);
+    expect(state.events.map((e) => `${e.event}:${e.geofence.id}`)).toEqual(["exit:library", "enter:campus"]);
+  });
+
+  it("labels untagged logs inside a fence", () => {
+    const logs = applyGeofenceLabels([
+      { latitude: 17.445, longitude: 78.375, hour: 9, day: 1, label: null, created_at: "2026-02-02T09:00:00Z" },
+      { latitude: 17.441, longitude: 78.371, hour: 10, day: 1, label: "Lab", created_at: "2026-02-02T10:00:00Z" },
+      { latitude: 17.5, longitude: 78.5, hour: 11, day: 1, label: null, created_at: "2026-02-02T11:00:00Z" },
+    ], [campus, library]);
+    expect(logs.map((l) => l.label)).toEqual(["library", "Lab", null]);
+  });
+
+  it("ignores fences that can't contain anything", () => {
+    const line: Geofence = { ...campus, id: "line", polygon: campus.polygon!.slice(0, 2) };
+    const dot: Geofence = { ...library, id: "dot", radius_m: 0 };
+    const lost: Geofence = { ...library, id: "lost", center_lng: null };
+    for (const fence of [line, dot, lost]) {
+      expect(containsPoint(fence, 17.445, 78.375, 1000)).toBe(false);
+    }
+    expect(geofenceAreaM2(line)).toBe(0);
+    expect(evaluateGeofences([line, dot, lost], null, 17.445, 78.375)).toEqual({ current: null, events: [] });
+
+    const logs = [{ latitude: 17.445, longitude: 78.375, hour: 9, day: 1, label: null, created_at: "2026-02-02T09:00:00Z" }];
+    expect(applyGeofenceLabels(logs, [line, dot, lost, { ...campus, enabled: false }])).toBe(logs);
+  });
+
+  it("keeps the notch of a concave fence outside, buffer included", () => {
+    // An L: the top-right quarter of the campus square is cut out
+    const ell: Geofence = {
+      ...campus,
+      id: "ell",
+      polygon: [
+        { lat: 17.44, lng: 78.37 },
+        { lat: 17.44, lng: 78.38 },
+        { lat: 17.445, lng: 78.38 },
+        { lat: 17.445, lng: 78.375 },
+        { lat: 17.45, lng: 78.375 },
+        { lat: 17.45, lng: 78.37 },
+      ],
+    };
+    expect(containsPoint(ell, 17.448, 78.372)).toBe(true);
+    expect(containsPoint(ell, 17.442, 78.378)).toBe(true);
+    expect(containsPoint(ell, 17.448, 78.378)).toBe(false);
+    // ~20 m into the notch is within the exit buffer, its middle isn't
+    expect(containsPoint(ell, north(20), 78.378, EXIT_BUFFER_M)).toBe(true);
+    expect(containsPoint(ell, 17.4475, 78.3775, EXIT_BUFFER_M)).toBe(false);
+  });
+
+  it("exits a fence that was switched off, but not one that was deleted", () => {
+    const state = evaluateGeofences([campus], null, 17.441, 78.371);
+    expect(evaluateGeofences([{ ...campus, enabled: false }], state.current!.id, 17.441, 78.371).events
+      .map((e) => `${e.event}:${e.geofence.id}`)).toEqual(["exit:campus"]);
+    expect(evaluateGeofences([library], state.current!.id, 17.441, 78.371)).toEqual({ current: null, events: [] });
+  });
+});
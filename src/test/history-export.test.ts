@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { createExportWriter, exportFileName, pages, type ExportFormat, type ExportLog, type ExportPrediction } from "@/lib/history-export";
+
+const log = (created_at: string, label: string | null = null): ExportLog => ({
+  id: created_at, user_id: "u1", latitude: 17.44, longitude: 78.38, label, hour: 9, day: 1, created_at, timestamp: created_at,
+});
+
+const prediction: ExportPrediction = {
+  id: "p1", user_id: "u1", label: "office", confidence: 0.8, predicted_lat: 17.44, predicted_lng: 78.38,
+  prediction_timestamp: "2024-03-04T09:00:00.000Z", created_at: "2024-03-04T08:00:00.000Z", outcome: "hit",
+  actual_label: "office", actual_lat: 17.44, actual_lng: 78.38, context_label: "home", method_key: null,
+  prediction_method: "markov", resolved_at: null,
+};
+
+// Writes the pages the way exportHistory does
+const write = (format: ExportFormat, predictions: ExportPrediction[][], logs: ExportLog[][]) => {
+  const writer = createExportWriter(format);
+  let text = writer.begin({ exportedAt: "2024-03-05T00:00:00.000Z", range: { from: null, to: null } });
+  text += writer.predictions([]);
+  for (const page of predictions) text += writer.predictions(page);
+  for (const page of logs) text += writer.logs(page);
+  return text + writer.end();
+};
+
+describe("history export", () => {
+  it("writes valid JSON across pages, with empty sections kept", () => {
+    const pages = [[log("2024-03-04T08:00:00.000Z", "home")], [log("2024-03-04T08:15:00.000Z")]];
+    const archive = JSON.parse(write("json", [[prediction]], pages));
+    expect(archive.predictions).toEqual([prediction]);
+    expect(archive.location_logs.map((l: ExportLog) => l.created_at)).toEqual(["2024-03-04T08:00:00.000Z", "2024-03-04T08:15:00.000Z"]);
+    expect(JSON.parse(write("json", [], [])).location_logs).toEqual([]);
+
+    const geojson = JSON.parse(write("geojson", [[prediction]], pages));
+    expect(geojson.features.map((f: { properties: { kind: string } }) => f.properties.kind)).toEqual(["prediction", "location", "location"]);
+  });
+
+  it("puts waypoints before the track in GPX and escapes labels", () => {
+    const gpx = write("gpx", [[prediction]], [[log("2024-03-04T08:00:00.000Z", "mum & dad's")]]);
+    const doc = new DOMParser().parseFromString(gpx, "application/xml");
+    expect(doc.getElementsByTagName("parsererror")).toHaveLength(0);
+    expect(gpx.indexOf("<wpt")).toBeLessThan(gpx.indexOf("<trk>"));
+    expect(doc.getElementsByTagName("trkpt")[0].getElementsByTagName("name")[0].textContent).toBe("mum & dad's");
+  });
+
+  it("quotes CSV cells and names files by the days covered", () => {
+    const csv = write("csv", [], [[log("2024-03-04T08:00:00.000Z", 'the "big", office')]]).trim().split("\n");
+    expect(csv[0]).toBe("record,time,latitude,longitude,label,hour,day,confidence,method,outcome,actual_label,actual_latitude,actual_longitude");
+    expect(csv[1]).toBe('location,2024-03-04T08:00:00.000Z,17.44,78.38,"the ""big"", office",9,1,,,,,,');
+
+    const from = new Date(2024, 0, 1).getTime();
+    const to = new Date(2024, 1, 1).getTime();
+    expect(exportFileName("gpx", { from, to })).toBe("safetrack-history-2024-01-01-to-2024-01-31.gpx");
+  });
+
+  it("pages through rows, stopping on a short or empty page", async () => {
+    const rows = Array.from({ length: 6 }, (_, i) => i);
+    const collect = async (total: number) => {
+      const requested: string[] = [];
+      const seen: number[][] = [];
+      const source = rows.slice(0, total);
+      for await (const page of pages((from, to) => {
+        requested.push(`${from}-${to}`);
+        return Promise.resolve({ data: source.slice(from, to + 1), error: null });
+      }, 3)) seen.push(page);
+      return { requested, seen };
+    };
+
+    expect(await collect(5)).toEqual({ requested: ["0-2", "3-5"], seen: [[0, 1, 2], [3, 4]] });
+    // A full last page needs one more request to know it was the last
+    expect(await collect(6)).toEqual({ requested: ["0-2", "3-5", "6-8"], seen: [[0, 1, 2], [3, 4, 5]] });
+    expect(await collect(0)).toEqual({ requested: ["0-2"], seen: [] });
+  });
+
+  it("stops with the database's error rather than writing a partial file", async () => {
+    const failing = pages<number>((from) =>
+      Promise.resolve(from === 0 ? { data: [1, 2], error: null } : { data: null, error: { message: "timeout" } }), 2);
+    await expect((async () => {
+      for await (const page of failing) expect(page).toEqual([1, 2]);
+    })()).rejects.toThrow("timeout");
+  });
+
+  it("writes a well-formed file for an empty history in every format", () => {
+    const empty = (format: ExportFormat, predictions: ExportPrediction[][] = []) => write(format, predictions, [[], []]);
+    expect(JSON.parse(empty("json"))).toMatchObject({ predictions: [], location_logs: [] });
+    expect(JSON.parse(empty("geojson")).features).toEqual([]);
+    expect(empty("csv").trim().split("\n")).toHaveLength(1);
+
+    // No track at all rather than an empty one
+    const gpx = empty("gpx", [[prediction]]);
+    expect(gpx).not.toContain("<trk>");
+    expect(new DOMParser().parseFromString(gpx, "application/xml").getElementsByTagName("parsererror")).toHaveLength(0);
+
+    // Logs only, without the predictions section ever being opened
+    const writer = createExportWriter("json");
+    const text = writer.begin({ exportedAt: "2024-03-05T00:00:00.000Z", range: { from: 0, to: null } }) + writer.logs([log("2024-03-04T08:00:00.000Z")]) + writer.end();
+    const archive = JSON.parse(text);
+    expect(archive).not.toHaveProperty("predictions");
+    expect(archive.from).toBe("1970-01-01T00:00:00.000Z");
+    expect(archive.to).toBeNull();
+  });
+
+  it("names an open-ended export from the start up to today", () => {
+    const now = new Date(2024, 2, 5, 15).getTime();
+    expect(exportFileName("csv", { from: null, to: null }, now)).toBe("safetrack-history-start-to-2024-03-05.csv");
+    // A one-day range covers just that day
+    expect(exportFileName("json", { from: new Date(2024, 2, 4).getTime(), to: new Date(2024, 2, 5).getTime() }))
+      .toBe("safetrack-history-2024-03-04-to-2024-03-04.json");
+  });
+});
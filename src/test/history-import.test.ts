@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { planImport } from "@/lib/history-import";
+import type { ManagedLabel } from "@/lib/labels";
+import { SAMPLING_PRESETS } from "@/lib/sampling";
+import { createExportWriter, type ExportLog } from "@/lib/history-export";
+import { parseGpx, parseKml, parseLocationHistory, type ParsedHistory } from "@/lib/track-formats";
+
+const label = (name: string, extra: Partial<ManagedLabel> = {}): ManagedLabel => ({
+  name, visits: 0, lastSeenAt: null, aliases: [], latitude: null, longitude: null, radiusM: null, ...extra,
+});
+
+describe("history import", () => {
+  it("reads Takeout records and thins them like live tracking", () => {
+    const start = Date.parse("2024-03-04T08:00:00Z");
+    // A point a minute for two hours at the same spot, one of them inaccurate
+    const locations = Array.from({ length: 120 }, (_, i) => ({
+      latitudeE7: 174435000,
+      longitudeE7: 783772000,
+      accuracy: i === 5 ? 900 : 12,
+      timestamp: new Date(start + i * 60_000).toISOString(),
+    }));
+    const history = parseLocationHistory("Records.json", JSON.stringify({ locations }));
+    expect(history.format).toBe("takeout_records");
+    expect(history.points[0]).toMatchObject({ latitude: 17.4435, longitude: 78.3772, time: start });
+
+    const plan = planImport(history);
+    expect(plan.rawPoints).toBe(120);
+    // Balanced keeps a still user's point every 15 minutes
+    expect(plan.points.map((p) => (p.recordedAt - start) / 60_000)).toEqual([0, 15, 30, 45, 60, 75, 90, 105]);
+    expect(plan.from).toBe(start);
+  });
+
+  it("labels semantic visits from pinned places, home/work types and aliases", () => {
+    const duration = (from: string, to: string) => ({ startTimestamp: from, endTimestamp: to });
+    const file = {
+      timelineObjects: [
+        { placeVisit: { location: { latitudeE7: 173850000, longitudeE7: 784867000, semanticType: "TYPE_HOME" }, duration: duration("2024-03-04T00:00:00Z", "2024-03-04T03:00:00Z") } },
+        { activitySegment: { simplifiedRawPath: { points: [{ latE7: 174000000, lngE7: 784000000, timestamp: "2024-03-04T03:20:00Z" }] } } },
+        { placeVisit: { location: { latitudeE7: 174435000, longitudeE7: 783772000, name: "Acme Tower" }, duration: duration("2024-03-04T04:00:00Z", "2024-03-04T05:00:00Z") } },
+        { placeVisit: { location: { latitudeE7: 174500000, longitudeE7: 784500000, name: "Gold's Gym" }, duration: duration("2024-03-04T12:00:00Z", "2024-03-04T12:30:00Z") } },
+      ],
+    };
+    const history = parseLocationHistory("2024_MARCH.json", JSON.stringify(file));
+    expect(history.format).toBe("takeout_semantic");
+    expect(history.visits).toHaveLength(3);
+
+    const labels = [
+      label("house", { aliases: ["home"] }),
+      label("office", { latitude: 17.4435, longitude: 78.3772, radiusM: 150 }),
+    ];
+    const plan = planImport(history, { labels });
+    expect(plan.labels).toEqual([
+      { label: "house", points: 13 },
+      { label: "office", points: 5 },
+      { label: "gold's gym", points: 3 },
+    ]);
+    expect(plan.points.filter((p) => p.label === null)).toHaveLength(1);
+  });
+
+  it("treats timed KML placemarks as visits and reads gx:Track paths", () => {
+    const kml = `<?xml version="1.0"?>
+      <kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2"><Document>
+        <Placemark><name>Cafe</name><TimeSpan><begin>2024-03-04T10:00:00Z</begin><end>2024-03-04T11:00:00Z</end></TimeSpan>
+          <Point><coordinates>78.38,17.44,0</coordinates></Point></Placemark>
+        <Placemark><gx:Track>
+          <when>2024-03-04T11:05:00Z</when><when>2024-03-04T11:06:00Z</when>
+          <gx:coord>78.381 17.441 0</gx:coord><gx:coord>78.382 17.442 0</gx:coord>
+        </gx:Track></Placemark>
+      </Document></kml>`;
+    const history = parseKml(kml);
+    expect(history.visits).toEqual([
+      { latitude: 17.44, longitude: 78.38, start: Date.parse("2024-03-04T10:00:00Z"), end: Date.parse("2024-03-04T11:00:00Z"), name: "Cafe", semanticType: null },
+    ]);
+    expect(history.points).toEqual([
+      { latitude: 17.441, longitude: 78.381, time: Date.parse("2024-03-04T11:05:00Z") },
+      { latitude: 17.442, longitude: 78.382, time: Date.parse("2024-03-04T11:06:00Z") },
+    ]);
+  });
+
+  it("plans nothing from an empty file or one without usable times", () => {
+    const empty = planImport({ format: "gpx", points: [], visits: [] });
+    expect(empty).toEqual({ points: [], from: null, to: null, rawPoints: 0, visits: 0, untimed: 0, labels: [] });
+
+    const at = Date.parse("2024-03-04T08:00:00Z");
+    const history: ParsedHistory = {
+      format: "geojson",
+      points: [{ latitude: 17.44, longitude: 78.38, time: null }, { latitude: 17.45, longitude: 78.39, time: null }],
+      // Zero-length and backwards visits can't be spread over time
+      visits: [
+        { latitude: 17.44, longitude: 78.38, start: at, end: at, name: "Cafe", semanticType: null },
+        { latitude: 17.44, longitude: 78.38, start: at + 60_000, end: at, name: "Cafe", semanticType: null },
+      ],
+    };
+    expect(planImport(history)).toMatchObject({ points: [], rawPoints: 2, untimed: 2, visits: 0, labels: [] });
+  });
+
+  it("keeps one point per instant across duplicates and overlapping visits", () => {
+    const at = (min: number) => Date.parse("2024-03-04T10:00:00Z") + min * 60_000;
+    const cafe = { latitude: 17.44, longitude: 78.38, name: "Cafe", semanticType: null };
+    const fix = (min: number, lng = 78.5) => ({ latitude: 17.5, longitude: lng, time: at(min) });
+    const plan = planImport({
+      format: "takeout_semantic",
+      // Raw points inside a visit, on its closing edge, and the same fix twice after it
+      points: [fix(-20), fix(5), fix(30), fix(60, 78.6), fix(60, 78.6)],
+      // The same visit exported twice, and one overlapping its end
+      visits: [
+        { ...cafe, start: at(0), end: at(30) },
+        { ...cafe, start: at(0), end: at(30) },
+        { ...cafe, name: "Bakery", start: at(30), end: at(45) },
+      ],
+    });
+
+    expect(plan.points.map((p) => [(p.recordedAt - at(0)) / 60_000, p.label])).toEqual([
+      [-20, null], [0, "cafe"], [15, "cafe"], [30, "bakery"], [45, "bakery"], [60, null],
+    ]);
+    expect(plan.labels).toEqual([{ label: "cafe", points: 2 }, { label: "bakery", points: 2 }]);
+    expect([plan.from, plan.to]).toEqual([at(-20), at(60)]);
+  });
+
+  it("skips raw points under a long visit after a shorter one inside it has ended", () => {
+    const at = (min: number) => Date.parse("2024-03-04T10:00:00Z") + min * 60_000;
+    const place = (name: string, start: number, end: number) =>
+      ({ latitude: 17.44, longitude: 78.38, name, semanticType: null, start: at(start), end: at(end) });
+    const fix = (min: number) => ({ latitude: 17.5, longitude: 78.5, time: at(min) });
+    const plan = planImport({
+      format: "takeout_semantic",
+      points: [fix(50), fix(100)],
+      visits: [place("Mall", 10, 20), place("Campus", 0, 90)],
+    }, { policy: { ...SAMPLING_PRESETS.balanced.policy, heartbeatMin: 90 } });
+
+    expect(plan.points.map((p) => [(p.recordedAt - at(0)) / 60_000, p.label])).toEqual([
+      [0, "campus"], [10, "mall"], [90, "campus"], [100, null],
+    ]);
+  });
+
+  it("reads back its own GPX export", () => {
+    const rows = ["2024-03-04T08:00:00.000Z", "2024-03-04T08:20:00.000Z"].map((created_at, i): ExportLog => ({
+      id: String(i), user_id: "u1", latitude: 17.44 + i / 100, longitude: 78.38, label: i ? "gym" : null, hour: 8, day: 1, created_at, timestamp: created_at,
+    }));
+    const writer = createExportWriter("gpx");
+    const gpx = writer.begin({ exportedAt: "2024-03-05T00:00:00.000Z", range: { from: null, to: null } }) + writer.logs(rows) + writer.end();
+    expect(parseGpx(gpx)).toEqual(rows.map((r) => ({ latitude: r.latitude, longitude: r.longitude, time: Date.parse(r.created_at) })));
+  });
+});
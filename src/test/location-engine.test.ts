@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createLocationEngine } from "@/lib/location-engine";
+import { replaySource, type PositionFix, type PositionSource } from "@/lib/position-sources";
+import { SAMPLING_PRESETS } from "@/lib/sampling";
+
+const start = Date.UTC(2026, 2, 2, 9);
+// One fix a minute for 20 minutes, walking north at ~1.2 m/s
+const walk: PositionFix[] = Array.from({ length: 21 }, (_, i) => ({
+  latitude: 17.44 + (i * 72) / 111_195,
+  longitude: 78.38,
+  accuracy: 8,
+  timestamp: start + i * 60_000,
+}));
+
+// A source whose watch resolves when the test says so, counting opens and closes
+function manualSource() {
+  const opened: { highAccuracy: boolean }[] = [];
+  let closed = 0;
+  const pending: (() => void)[] = [];
+  const source: PositionSource = {
+    name: "manual",
+    getCurrent: async () => walk[0],
+    watch: (options) =>
+      new Promise((resolve) => {
+        opened.push(options);
+        pending.push(() => resolve(() => closed++));
+      }),
+  };
+  return {
+    source,
+    opened,
+    closed: () => closed,
+    resolveAll: async () => {
+      pending.splice(0).forEach((resolve) => resolve());
+      await Promise.resolve();
+    },
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("location engine", () => {
+  it("replays a track through sampling with its own timestamps", async () => {
+    vi.useFakeTimers();
+    const engine = createLocationEngine({ source: replaySource(walk, { speed: 60 }), policy: SAMPLING_PRESETS.battery_saver.policy });
+    const kept: PositionFix[] = [];
+    let seen = 0;
+    engine.onFix((fix, keep) => {
+      seen++;
+      if (keep) kept.push(fix);
+    });
+
+    await engine.start();
+    expect(engine.getSnapshot().isTracking).toBe(true);
+    // 20 minutes of track at 60x is 20 seconds
+    await vi.advanceTimersByTimeAsync(21_000);
+
+    expect(seen).toBe(21);
+    // Battery saver keeps a walking point every 2 minutes
+    expect(kept.map((f) => (f.timestamp - start) / 60_000)).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18, 20]);
+    expect(engine.getSnapshot()).toMatchObject({ motion: "walking", source: "replay" });
+    expect(engine.getSnapshot().currentLocation?.timestamp.getTime()).toBe(walk[20].timestamp);
+  });
+
+  it("stops delivering fixes after stop and when the source changes", async () => {
+    vi.useFakeTimers();
+    const engine = createLocationEngine({ source: replaySource(walk, { speed: 60 }), policy: SAMPLING_PRESETS.balanced.policy });
+    let seen = 0;
+    engine.onFix(() => seen++);
+
+    await engine.start();
+    await vi.advanceTimersByTimeAsync(2_500);
+    engine.stop();
+    const afterStop = seen;
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(seen).toBe(afterStop);
+    expect(engine.getSnapshot()).toMatchObject({ isTracking: false, motion: null });
+
+    const other = replaySource(walk.slice(0, 1), { name: "demo" });
+    engine.setSource(other);
+    expect(engine.getSnapshot()).toMatchObject({ source: "demo", isTracking: false });
+  });
+
+  it("refuses an empty replay and plays an unsorted track in time order, moving forward on every loop", async () => {
+    expect(() => replaySource([])).toThrow();
+
+    vi.useFakeTimers();
+    const track = [walk[2], walk[0], walk[1]];
+    const engine = createLocationEngine({ source: replaySource(track, { speed: 60, loop: true }), policy: SAMPLING_PRESETS.balanced.policy });
+    const seen: number[] = [];
+    engine.onFix((fix) => seen.push(fix.timestamp - start));
+
+    await engine.start();
+    // The next round starts a minute after the last fix, as if walked again
+    await vi.advanceTimersByTimeAsync(6_500);
+    engine.stop();
+
+    expect(seen.slice(0, 6)).toEqual([0, 60_000, 120_000, 180_000, 240_000, 300_000]);
+  });
+
+  it("opens one watch however often start is called, and closes one that resolves after stop", async () => {
+    const manual = manualSource();
+    const engine = createLocationEngine({ source: manual.source, policy: SAMPLING_PRESETS.balanced.policy });
+
+    const first = engine.start();
+    engine.stop();
+    await manual.resolveAll();
+    await first;
+    // Stopped while the watch was opening: it is closed as soon as it arrives
+    expect(manual.closed()).toBe(1);
+    expect(engine.getSnapshot().isTracking).toBe(false);
+
+    const again = engine.start();
+    await manual.resolveAll();
+    await again;
+    await engine.start();
+    expect(manual.opened).toHaveLength(2);
+    expect(engine.getSnapshot().isTracking).toBe(true);
+  });
+
+  it("restarts the watch only when the positioning mode changes", async () => {
+    const manual = manualSource();
+    const engine = createLocationEngine({ source: manual.source, policy: SAMPLING_PRESETS.balanced.policy });
+    const started = engine.start();
+    await manual.resolveAll();
+    await started;
+
+    engine.setPolicy(SAMPLING_PRESETS.high_precision.policy);
+    expect(manual.opened).toHaveLength(1);
+    expect(manual.closed()).toBe(0);
+
+    engine.setPolicy(SAMPLING_PRESETS.battery_saver.policy);
+    await manual.resolveAll();
+    expect(manual.closed()).toBe(1);
+    expect(manual.opened.map((o) => o.highAccuracy)).toEqual([true, false]);
+    expect(engine.getSnapshot().isTracking).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { createLocationQueue, memoryStore, queueId, type QueuedLocation } from "@/lib/location-queue";
+
+const point = (recordedAt: number, userId = "u1") => ({ userId, latitude: 17.44, longitude: 78.38, label: null, recordedAt });
+
+describe("location queue", () => {
+  it("stores a fix delivered twice only once", async () => {
+    const queue = createLocationQueue({ store: memoryStore(), send: async () => {}, isOnline: () => false });
+    await queue.enqueue(point(1000));
+    await queue.enqueue(point(1000));
+    await queue.enqueue(point(2000));
+    expect(queue.getStatus().pending).toBe(2);
+  });
+
+  it("uploads oldest first in batches and keeps points when a batch fails", async () => {
+    const sent: QueuedLocation[][] = [];
+    let failNext = false;
+    const queue = createLocationQueue({
+      store: memoryStore(),
+      batchSize: 2,
+      send: async (batch) => {
+        if (failNext) throw new Error("offline");
+        sent.push(batch);
+      },
+    });
+    for (const t of [3000, 1000, 2000]) await queue.enqueue(point(t));
+
+    failNext = true;
+    await queue.flush("u1");
+    expect(queue.getStatus()).toMatchObject({ pending: 3, lastSyncAt: null, lastError: "offline" });
+
+    failNext = false;
+    await queue.flush("u1");
+    expect(sent.map((b) => b.map((p) => p.recordedAt))).toEqual([[1000, 2000], [3000]]);
+    expect(queue.getStatus()).toMatchObject({ pending: 0, syncing: false, lastError: null });
+    expect(queue.getStatus().lastSyncAt).not.toBeNull();
+  });
+
+  it("counts and uploads only the signed-in account's points on a shared device", async () => {
+    const sent: string[] = [];
+    const store = memoryStore();
+    const queue = createLocationQueue({ store, send: async (batch) => { sent.push(...batch.map((p) => p.id)); } });
+    await store.put([{ ...point(500, "someone-else"), id: queueId("someone-else", 500) }]);
+    await queue.refresh("u1");
+    expect(queue.getStatus().pending).toBe(0);
+
+    await queue.enqueue(point(1000));
+    expect(queue.getStatus().pending).toBe(1);
+    await queue.flush("u1");
+    expect(sent).toEqual([queueId("u1", 1000)]);
+    expect(queue.getStatus().pending).toBe(0);
+
+    await queue.refresh("someone-else");
+    expect(queue.getStatus().pending).toBe(1);
+  });
+
+  it("does not try to upload while offline", async () => {
+    let calls = 0;
+    const queue = createLocationQueue({ store: memoryStore(), send: async () => { calls++; }, isOnline: () => false });
+    await queue.enqueue(point(1000));
+    await queue.flush("u1");
+    expect(calls).toBe(0);
+    expect(queue.getStatus().pending).toBe(1);
+  });
+
+  it("drains exact multiples of the batch size, including points queued mid-upload", async () => {
+    const sent: number[][] = [];
+    const queue = createLocationQueue({
+      store: memoryStore(),
+      batchSize: 2,
+      send: async (batch) => {
+        sent.push(batch.map((p) => p.recordedAt));
+        // Tracking keeps going while the upload is in flight
+        if (sent.length === 1) await queue.enqueue(point(5000));
+      },
+    });
+    for (const t of [1000, 2000, 3000, 4000]) await queue.enqueue(point(t));
+    await queue.flush("u1");
+    expect(sent).toEqual([[1000, 2000], [3000, 4000], [5000]]);
+    expect(queue.getStatus().pending).toBe(0);
+  });
+
+  it("shares one upload between overlapping flushes", async () => {
+    let calls = 0;
+    const queue = createLocationQueue({ store: memoryStore(), send: async () => { calls++; } });
+    await queue.enqueue(point(1000));
+    const statuses: boolean[] = [];
+    queue.subscribe((s) => statuses.push(s.syncing));
+    await Promise.all([queue.flush("u1"), queue.flush("u1"), queue.flush("u1")]);
+    expect(calls).toBe(1);
+    expect(statuses[0]).toBe(true);
+    expect(statuses.at(-1)).toBe(false);
+  });
+
+  it("ignores fixes without a usable position or time", async () => {
+    const queue = createLocationQueue({ store: memoryStore(), send: async () => {}, isOnline: () => false });
+    await queue.enqueue({ ...point(1000), latitude: Number.NaN });
+    await queue.enqueue({ ...point(2000), longitude: Number.POSITIVE_INFINITY });
+    await queue.enqueue(point(Number.NaN));
+    expect(queue.getStatus().pending).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { appendMapPoint, clusterPlaces, HEATMAP_POINT_LIMIT, heatCells, labeledPlaces, type MapPoint } from "@/lib/map-layers";
+
+const HOME = { latitude: 17.385, longitude: 78.4867 };
+const OFFICE = { latitude: 17.4435, longitude: 78.3772 };
+const START = Date.UTC(2024, 2, 4, 8, 0);
+
+function point(minute: number, where: { latitude: number; longitude: number }, label: string | null = null): MapPoint {
+  const at = new Date(START + minute * 60_000);
+  return { ...where, hour: at.getUTCHours(), label, created_at: at.toISOString() };
+}
+
+describe("map layers", () => {
+  it("bins points into heat cells relative to the busiest one", () => {
+    const points = [
+      ...Array.from({ length: 8 }, (_, i) => point(i, HOME)),
+      point(10, OFFICE),
+      point(11, OFFICE),
+    ];
+    const cells = heatCells(points, 14).sort((a, b) => b.count - a.count);
+    expect(cells.map((c) => c.count)).toEqual([8, 2]);
+    expect(cells[0].intensity).toBe(1);
+    expect(cells[1].intensity).toBe(0.25);
+    expect(cells[0].latitude).toBeCloseTo(HOME.latitude);
+    // Zoomed all the way out everything lands in one cell
+    expect(heatCells(points, 1)).toHaveLength(1);
+  });
+
+  it("counts runs of a label as visits, not points", () => {
+    const points = [
+      point(0, HOME, "Home"), point(5, HOME, "home"), point(10, HOME, "home"),
+      point(20, { latitude: 17.4, longitude: 78.45 }),
+      point(30, OFFICE, "office"), point(35, OFFICE, "office"),
+      point(40, HOME, "home"),
+    ];
+    const places = labeledPlaces(points.reverse());
+    expect(places.find((p) => p.label === "home")?.visits).toBe(2);
+    expect(places.find((p) => p.label === "office")?.visits).toBe(1);
+  });
+
+  it("merges nearby places when zoomed out and splits them when zoomed in", () => {
+    const places = [
+      { label: "home", ...HOME, visits: 10 },
+      { label: "office", ...OFFICE, visits: 5 },
+    ];
+    const far = clusterPlaces(places, 8);
+    expect(far).toHaveLength(1);
+    expect(far[0]).toMatchObject({ visits: 15, labels: ["home", "office"] });
+    // Weighted towards the more visited place
+    expect(far[0].latitude).toBeLessThan((HOME.latitude + OFFICE.latitude) / 2);
+
+    expect(clusterPlaces(places, 14)).toHaveLength(2);
+  });
+
+  it("adds newly logged points without duplicating them or keeping yesterday's trail", () => {
+    const first = point(0, HOME);
+    const history = { today: [first], all: [first] };
+    const next = point(5, OFFICE);
+    const now = START + 5 * 60_000;
+
+    const appended = appendMapPoint(history, next, now);
+    expect(appended.today).toEqual([first, next]);
+    expect(appended.all).toEqual([next, first]);
+    // The same fix logged twice is ignored
+    expect(appendMapPoint(appended, next, now)).toBe(appended);
+
+    // After midnight the trail starts over; the heatmap keeps everything
+    const tomorrow = START + 24 * 3_600_000;
+    const late = point(24 * 60, HOME);
+    const rolled = appendMapPoint(appended, late, tomorrow);
+    expect(rolled.today).toEqual([late]);
+    expect(rolled.all).toHaveLength(3);
+  });
+
+  it("keeps the heatmap at its point limit as points come in", () => {
+    const all = Array.from({ length: HEATMAP_POINT_LIMIT }, (_, i) => point(-i - 1, HOME));
+    const appended = appendMapPoint({ today: [], all }, point(0, OFFICE), START);
+    expect(appended.all).toHaveLength(HEATMAP_POINT_LIMIT);
+    expect(appended.all[0].latitude).toBe(OFFICE.latitude);
+    expect(appended.all.at(-1)).toBe(all[HEATMAP_POINT_LIMIT - 2]);
+  });
+});
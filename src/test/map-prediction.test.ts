@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { predictionMarkers, recentPrediction, rememberPrediction, MAP_PREDICTION_MAX_AGE_MIN } from "@/lib/map-prediction";
+import type { PredictionResult } from "@/lib/api";
+
+function result(alternatives: PredictionResult["prediction"]["alternativePredictions"]): PredictionResult {
+  return {
+    mode: "routine",
+    prediction: {
+      latitude: 17.4435,
+      longitude: 78.3772,
+      confidence: 0.7,
+      label: "office",
+      method: "Markov",
+      basedOnDataPoints: 40,
+      alternativePredictions: alternatives,
+    },
+    context: { currentTime: "09:00", isWeekday: true, currentLabel: "home" },
+    insights: { weekdayPattern: [], weekendPattern: [], commonSequences: [], topTransitions: [] },
+    stats: { totalDataPoints: 40, labeledDataPoints: 40, uniqueLabels: 3, sequencesLearned: 2 },
+  };
+}
+
+const alt = (label: string, latitude: number, longitude: number, confidence: number) =>
+  ({ label, latitude, longitude, confidence, reason: "" });
+
+describe("map prediction", () => {
+  it("puts the primary first and the likeliest alternatives after it", () => {
+    const markers = predictionMarkers(result([
+      alt("mall", 17.4126, 78.4071, 0.05),
+      alt("gym", 17.4401, 78.3489, 0.2),
+      alt("cafe", 17.43, 78.39, 0.1),
+    ]));
+    expect(markers.map((m) => [m.label, m.primary])).toEqual([["office", true], ["gym", false], ["cafe", false]]);
+  });
+
+  it("leaves out alternatives that repeat a place already drawn", () => {
+    const markers = predictionMarkers(result([
+      alt("Office", 17.5, 78.5, 0.2),
+      alt("parking", 17.4436, 78.3773, 0.15),
+      alt("gym", 17.4401, 78.3489, 0.1),
+    ]));
+    expect(markers.map((m) => m.label)).toEqual(["office", "gym"]);
+  });
+
+  it("reuses a remembered prediction only while it's fresh and for the same user", () => {
+    const now = Date.UTC(2026, 0, 5, 9);
+    rememberPrediction("user-1", result([]), now);
+    expect(recentPrediction("user-1", now + 10 * 60_000)?.[0].label).toBe("office");
+    expect(recentPrediction("user-2", now)).toBeNull();
+    expect(recentPrediction("user-1", now + (MAP_PREDICTION_MAX_AGE_MIN + 1) * 60_000)).toBeNull();
+  });
+
+  it("draws the primary alone when there are no alternatives, or only repeats of each other", () => {
+    expect(predictionMarkers(result([])).map((m) => m.label)).toEqual(["office"]);
+
+    const markers = predictionMarkers(result([
+      alt("gym", 17.4401, 78.3489, 0.2),
+      alt("Gym", 17.4402, 78.349, 0.2),
+      alt("gym annex", 17.4401, 78.3489, 0.1),
+    ]));
+    expect(markers.map((m) => m.label)).toEqual(["office", "gym"]);
+  });
+
+  it("keeps a prediction up to exactly its maximum age and forgets the previous user's on a new one", () => {
+    const now = Date.UTC(2026, 0, 5, 9);
+    rememberPrediction("user-1", result([]), now);
+    expect(recentPrediction("user-1", now + MAP_PREDICTION_MAX_AGE_MIN * 60_000)).not.toBeNull();
+    expect(recentPrediction("user-1", now + MAP_PREDICTION_MAX_AGE_MIN * 60_000 + 1)).toBeNull();
+
+    rememberPrediction("user-2", result([]), now);
+    expect(recentPrediction("user-1", now)).toBeNull();
+    expect(recentPrediction("user-2", now)).not.toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import type { LocationLog } from "../../supabase/functions/_shared/prediction-engine.ts";
+import {
+  applyPlaceLabels,
+  detectStayPoints,
+  discoverPlaces,
+  findPlaceAt,
+  mergePlaceHistory,
+} from "../../supabase/functions/_shared/place-discovery.ts";
+
+const HOME = { lat: 17.385, lng: 78.4867 };
+const OFFICE = { lat: 17.4435, lng: 78.3772 };
+
+function point(at: Date, where: { lat: number; lng: number }, jitter = 0): LocationLog {
+  return {
+    latitude: where.lat + jitter,
+    longitude: where.lng - jitter,
+    hour: at.getUTCHours(),
+    day: at.getUTCDay(),
+    label: null,
+    created_at: at.toISOString(),
+  };
+}
+
+// Points every 5 minutes: an hour at home, a 10 minute drive, two hours at the office.
+function day(start: number): LocationLog[] {
+  const logs: LocationLog[] = [];
+  for (let m = 0; m < 60; m += 5) logs.push(point(new Date(start + m * 60_000), HOME, (m % 3) * 0.0001));
+  logs.push(point(new Date(start + 65 * 60_000), { lat: 17.41, lng: 78.43 }));
+  for (let m = 75; m <= 195; m += 5) logs.push(point(new Date(start + m * 60_000), OFFICE, (m % 2) * 0.0001));
+  return logs;
+}
+
+describe("place discovery", () => {
+  it("detects stays and skips points in transit", () => {
+    const stays = detectStayPoints(day(Date.UTC(2026, 1, 2, 7)));
+    expect(stays).toHaveLength(2);
+    expect(stays[0].dwellMinutes).toBe(55);
+    expect(stays[1].latitude).toBeCloseTo(OFFICE.lat, 3);
+  });
+
+  it("clusters repeated stays into places and drops one-off stops", () => {
+    const logs = [0, 1, 2].flatMap((d) => day(Date.UTC(2026, 1, 2 + d, 7)));
+    const places = discoverPlaces(logs);
+    expect(places).toHaveLength(2);
+    expect(places[0].visitCount).toBe(3);
+    expect(places[0].latitude).toBeCloseTo(OFFICE.lat, 3);
+  });
+
+  it("labels untagged points inside known places and collapses repeats", () => {
+    const labeled = applyPlaceLabels(day(Date.UTC(2026, 1, 2, 7)), [
+      { id: "aaaaaaaa-1111", latitude: HOME.lat, longitude: HOME.lng, radius_m: 100, label: "Home" },
+      { id: "bbbbbbbb-2222", latitude: OFFICE.lat, longitude: OFFICE.lng, radius_m: 100, label: null },
+    ]);
+    expect(labeled.filter((l) => l.label).map((l) => l.label)).toEqual(["home", "~bbbbbbbb"]);
+  });
+
+  it("finds nothing in empty or too-short histories", () => {
+    expect(detectStayPoints([])).toEqual([]);
+    expect(discoverPlaces([])).toEqual([]);
+    // Nine minutes in one spot is just under a stay
+    const brief = [0, 3, 6, 9].map((m) => point(new Date(Date.UTC(2026, 1, 2, 7, m)), HOME));
+    expect(detectStayPoints(brief)).toEqual([]);
+    expect(applyPlaceLabels(brief, [])).toBe(brief);
+  });
+
+  it("treats dense, shuffled and re-uploaded points as one stay", () => {
+    const start = Date.UTC(2026, 1, 2, 7);
+    // Every 10 seconds for an hour
+    const dense = Array.from({ length: 361 }, (_, k) => point(new Date(start + k * 10_000), HOME, (k % 5) * 0.00005));
+    const retried = [...dense, ...dense.slice(100, 140)];
+    const shuffled = [...retried].sort((a, b) => a.latitude - b.latitude || b.created_at.localeCompare(a.created_at));
+
+    const [stay, ...rest] = detectStayPoints(shuffled);
+    expect(rest).toEqual([]);
+    expect(stay.dwellMinutes).toBe(60);
+    expect(stay.arrivedAt).toBe(new Date(start).toISOString());
+    expect(stay.pointCount).toBe(retried.length);
+  });
+
+  it("ends a stay at a gap in tracking, even without moving", () => {
+    const start = Date.UTC(2026, 1, 2, 7);
+    const before = [0, 10, 20].map((m) => point(new Date(start + m * 60_000), HOME));
+    const after = [90, 100, 110].map((m) => point(new Date(start + m * 60_000), HOME));
+    expect(detectStayPoints([...before, ...after]).map((s) => s.dwellMinutes)).toEqual([20, 20]);
+    expect(detectStayPoints([...before, ...after], { maxGapMin: 120 }).map((s) => s.dwellMinutes)).toEqual([110]);
+  });
+
+  it("matches the nearest of overlapping places, inclusive of the edge", () => {
+    const near = { id: "near", latitude: HOME.lat, longitude: HOME.lng, radius_m: 500, label: "home" };
+    const wide = { id: "wide", latitude: HOME.lat + 0.002, longitude: HOME.lng, radius_m: 1000, label: "block" };
+    expect(findPlaceAt([wide, near], HOME.lat + 0.0005, HOME.lng)?.id).toBe("near");
+    expect(findPlaceAt([wide, near], HOME.lat + 0.009, HOME.lng)?.id).toBe("wide");
+    expect(findPlaceAt([wide, near], HOME.lat + 0.02, HOME.lng)).toBeNull();
+
+    const edge = { ...near, radius_m: 111.2 };
+    expect(findPlaceAt([edge], HOME.lat + 0.001, HOME.lng)).toBe(edge);
+  });
+
+  it("starts a new visit after leaving, and lets manual labels interrupt one", () => {
+    const at = (m: number, where: { lat: number; lng: number }, label: string | null = null) => ({
+      ...point(new Date(Date.UTC(2026, 1, 2, 7, m)), where),
+      label,
+    });
+    const places = [{ id: "aaaaaaaa-1111", latitude: HOME.lat, longitude: HOME.lng, radius_m: 100, label: null }];
+    const labeled = applyPlaceLabels([
+      at(0, HOME), at(5, HOME), at(10, HOME, "Kitchen"), at(15, HOME), at(20, OFFICE), at(25, HOME), at(30, HOME),
+    ], places);
+    expect(labeled.map((l) => l.label)).toEqual(["~aaaaaaaa", "Kitchen", "~aaaaaaaa", null, "~aaaaaaaa"]);
+  });
+
+  it("adds only newer visits to a place known from before the logs a run reads", () => {
+    const days = [0, 1, 2].flatMap((d) => day(Date.UTC(2026, 1, 2 + d, 7)));
+    const office = discoverPlaces(days).find((p) => Math.abs(p.latitude - OFFICE.lat) < 0.001)!;
+    expect(office.visitCount).toBe(3);
+
+    // Known since January from logs this run no longer reads, last seen on
+    // the first day here
+    const stored = { visit_count: 40, total_dwell_minutes: 4800, first_seen_at: "2026-01-05T09:00:00.000Z", last_seen_at: office.visits[0].departedAt };
+    expect(mergePlaceHistory(stored, office)).toEqual({
+      visit_count: 42,
+      total_dwell_minutes: 4800 + 240,
+      avg_dwell_minutes: Math.round(5040 / 42),
+      first_seen_at: "2026-01-05T09:00:00.000Z",
+      last_seen_at: office.lastSeenAt,
+    });
+    // Run again with nothing new: unchanged
+    const again = mergePlaceHistory({ ...stored, visit_count: 42, total_dwell_minutes: 5040, last_seen_at: office.lastSeenAt }, office);
+    expect(again).toMatchObject({ visit_count: 42, total_dwell_minutes: 5040 });
+
+    // A visit still going on at the last run adds only the time since
+    const midVisit = new Date(Date.parse(office.visits[2].arrivedAt) + 60 * 60_000).toISOString();
+    expect(mergePlaceHistory({ ...stored, last_seen_at: midVisit }, office)).toMatchObject({ visit_count: 40, total_dwell_minutes: 4800 + 60 });
+
+    // A new place takes the cluster as it is
+    expect(mergePlaceHistory(null, office)).toMatchObject({ visit_count: 3, total_dwell_minutes: office.totalDwellMinutes, first_seen_at: office.firstSeenAt });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { buildRoutineModel, getLabelCoords, type LocationLog } from "../../supabase/functions/_shared/prediction-engine.ts";
+import { MAX_TRIP_GAP_MIN } from "../../supabase/functions/_shared/timeline.ts";
+import { anchoredPlaces, buildAliasMap, labelAnchors, labelLogs, resolveLabel, routineModelOptions, type LabelDefinition } from "../../supabase/functions/_shared/place-labels.ts";
+
+const office: LabelDefinition = {
+  id: "def-office",
+  name: "Work",
+  aliases: ["Office", " HQ "],
+  latitude: 17.4435,
+  longitude: 78.3772,
+  radius_m: 150,
+};
+
+function log(label: string | null, lat: number, lng: number, hour: number): LocationLog {
+  return { latitude: lat, longitude: lng, hour, day: 1, label, created_at: new Date(Date.UTC(2026, 1, 2, hour)).toISOString() };
+}
+
+describe("place labels", () => {
+  it("resolves aliases to the canonical label", () => {
+    const aliases = buildAliasMap([office]);
+    expect(resolveLabel("OFFICE", aliases)).toBe("work");
+    expect(resolveLabel("hq", aliases)).toBe("work");
+    expect(resolveLabel("Gym", aliases)).toBe("gym");
+  });
+
+  it("folds aliases and tags untagged points inside a pinned place", () => {
+    const logs = labelLogs([
+      log("Office", 17.4436, 78.3771, 9),
+      log(null, 17.4434, 78.3773, 10),
+      log(null, 17.5, 78.5, 11),
+    ], [], [office]);
+    expect(logs.map((l) => l.label)).toEqual(["work", "work", null]);
+  });
+
+  it("uses the pinned coordinate as the place's position", () => {
+    const logs = labelLogs([log("office", 17.45, 78.38, 9), log("work", 17.44, 78.37, 10)], [], [office]);
+    const model = buildRoutineModel(logs, { anchors: labelAnchors([office]) });
+    expect(getLabelCoords(model, "work")).toEqual({ lat: 17.4435, lng: 78.3772 });
+  });
+
+  it("builds every routine model with the pinned anchors and the trip gap", () => {
+    const now = Date.UTC(2026, 1, 3);
+    expect(routineModelOptions([office], now)).toEqual({
+      now,
+      anchors: { work: { lat: 17.4435, lng: 78.3772 } },
+      maxGapMin: MAX_TRIP_GAP_MIN,
+    });
+  });
+
+  it("never lets an alias take over another label's own name", () => {
+    const gym: LabelDefinition = { id: "def-gym", name: "Gym", aliases: ["work out", ""], latitude: null, longitude: null, radius_m: null };
+    const greedy: LabelDefinition = { ...office, aliases: ["gym", "Work Out", "   "] };
+    for (const defs of [[gym, greedy], [greedy, gym]]) {
+      const aliases = buildAliasMap(defs);
+      expect(resolveLabel("gym", aliases)).toBe("gym");
+      expect(resolveLabel(" Work Out ", aliases)).toBe(defs[0] === gym ? "gym" : "work");
+      expect(Object.keys(aliases)).not.toContain("");
+    }
+  });
+
+  it("only anchors definitions with both coordinates, at the default radius when unset", () => {
+    const unpinned: LabelDefinition = { id: "def-home", name: "Home", aliases: [], latitude: 17.385, longitude: null, radius_m: 300 };
+    const loose: LabelDefinition = { ...office, radius_m: null };
+    expect(labelAnchors([unpinned])).toEqual({});
+    expect(anchoredPlaces([unpinned, loose]).map((p) => [p.label, p.radius_m])).toEqual([["work", 100]]);
+
+    // 0.0012° is about 130 m: inside the pinned 150 m, outside the default 100 m
+    const nearby = log(null, 17.4447, 78.3772, 9);
+    expect(labelLogs([nearby], [], [office])[0].label).toBe("work");
+    expect(labelLogs([nearby], [], [loose])[0].label).toBeNull();
+  });
+
+  it("leaves logs alone when there is nothing to apply", () => {
+    const logs = [log("Office", 17.4436, 78.3771, 9), log(null, 17.4434, 78.3773, 10)];
+    expect(labelLogs(logs, [], [])).toBe(logs);
+    expect(labelLogs([], [], [office])).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildRoutineModel,
+  estimateTiming,
+  predictNextLocations,
+  rankCandidates,
+  type LocationLog,
+} from "../../supabase/functions/_shared/prediction-engine.ts";
+import { runBacktest } from "../../supabase/functions/_shared/backtest.ts";
+import { buildMarkovModel, predictNext, type MarkovVisit } from "../../supabase/functions/_shared/markov.ts";
+
+const places: Record<string, { lat: number; lng: number }> = {
+  Home: { lat: 17.385, lng: 78.4867 },
+  Office: { lat: 17.4435, lng: 78.3772 },
+  Gym: { lat: 17.4401, lng: 78.3489 },
+  Mall: { lat: 17.4126, lng: 78.4071 },
+};
+
+// Three weeks of a weekday office routine with a different weekend routine.
+function syntheticHistory(days = 21): LocationLog[] {
+  const logs: LocationLog[] = [];
+  const start = Date.UTC(2026, 0, 4); // a Sunday
+  for (let d = 0; d < days; d++) {
+    const date = new Date(start + d * 86_400_000);
+    const day = date.getUTCDay();
+    const plan: [string, number][] = day >= 1 && day <= 5
+      ? [["Home", 8], ["Office", 9], ["Gym", 18], ["Home", 20]]
+      : [["Home", 10], ["Mall", 14], ["Home", 19]];
+    for (const [label, hour] of plan) {
+      logs.push({
+        latitude: places[label].lat,
+        longitude: places[label].lng,
+        hour,
+        day,
+        label,
+        created_at: new Date(date.getTime() + hour * 3_600_000).toISOString(),
+      });
+    }
+  }
+  return logs;
+}
+
+describe("prediction engine", () => {
+  it("builds label patterns, transitions and sequences from labeled logs", () => {
+    const model = buildRoutineModel(syntheticHistory());
+    expect(Object.keys(model.labelPatterns).sort()).toEqual(["gym", "home", "mall", "office"]);
+    expect(model.transitions.office.gym.count).toBe(15);
+    expect(model.significantSequences[0].count).toBeGreaterThanOrEqual(2);
+  });
+
+  it("skips transitions across a tracking gap when asked to", () => {
+    // Office at 9 and the gym at 18 with nothing logged in between
+    const model = buildRoutineModel(syntheticHistory(), { maxGapMin: 120 });
+    expect(model.transitions.home.office.count).toBe(15);
+    expect(model.transitions.office?.gym).toBeUndefined();
+    expect(model.significantSequences.every((s) => !s.sequence.join().includes("office,gym"))).toBe(true);
+
+    // Tracking through the afternoon closes the gap
+    const tracked = syntheticHistory().flatMap((log) => {
+      if (log.label !== "Office") return [log];
+      const at = new Date(log.created_at).getTime();
+      return [log, ...[1, 2, 3, 4, 5, 6, 7, 8].map((h) => ({
+        ...log,
+        label: null,
+        hour: log.hour + h,
+        created_at: new Date(at + h * 3_600_000).toISOString(),
+      }))];
+    });
+    expect(buildRoutineModel(tracked, { maxGapMin: 120 }).transitions.office.gym.count).toBe(15);
+  });
+
+  it("predicts the usual next place from the current label", () => {
+    const ranked = predictNextLocations(syntheticHistory(), { hour: 17, day: 3, currentLabel: "Office" });
+    expect(ranked[0].label).toBe("gym");
+    expect(ranked[0].lat).toBeCloseTo(places.Gym.lat);
+  });
+
+  it("lets recent visits outweigh an old routine", () => {
+    // Three weeks of Office → Gym, then two weeks of Office → Mall after a change.
+    const logs = syntheticHistory();
+    const start = Date.UTC(2026, 0, 25);
+    for (let d = 0; d < 14; d++) {
+      const base = start + d * 86_400_000;
+      const day = new Date(base).getUTCDay();
+      for (const [label, hour] of [["Office", 9], ["Mall", 18]] as [string, number][]) {
+        logs.push({
+          latitude: places[label].lat, longitude: places[label].lng, hour, day, label,
+          created_at: new Date(base + hour * 3_600_000).toISOString(),
+        });
+      }
+    }
+    const ctx = { hour: 17, day: 3, currentLabel: "Office" };
+    expect(predictNextLocations(logs, ctx)[0].label).toBe("gym");
+    expect(predictNextLocations(logs, { ...ctx, now: Date.UTC(2026, 1, 8) })[0].label).toBe("mall");
+  });
+
+  it("keeps only the most confident candidate per label", () => {
+    const ranked = rankCandidates([
+      { label: "gym", confidence: 0.4, method: "a", methodKey: "time", lat: 0, lng: 0 },
+      { label: "gym", confidence: 0.7, method: "b", methodKey: "transition", lat: 0, lng: 0 },
+      { label: "home", confidence: 0.5, method: "c", methodKey: "day", lat: 0, lng: 0 },
+    ]);
+    expect(ranked.map((c) => [c.label, c.method])).toEqual([["gym", "b"], ["home", "c"]]);
+  });
+});
+
+describe("markov model", () => {
+  // Home → Office → Gym → Home on weekdays at the usual hours, plus one
+  // Home → Cafe → Office detour.
+  const visit = (label: string, departHour: number, departDay = 2): MarkovVisit => ({ label, departHour, departDay, weight: 1 });
+  const visits: MarkovVisit[] = [];
+  for (let i = 0; i < 5; i++) visits.push(visit("home", 8), visit("office", 17), visit("gym", 19));
+  visits.push(visit("home", 8), visit("cafe", 9), visit("office", 17), visit("home", 20));
+  const model = buildMarkovModel(visits);
+
+  it("returns a probability distribution without the current place", () => {
+    const { distribution } = predictNext(model, { history: ["home", "office"], hour: 17, day: 2 }, "office");
+    expect(distribution.map((d) => d.label)).not.toContain("office");
+    expect(distribution.reduce((s, d) => s + d.probability, 0)).toBeCloseTo(1);
+    expect(distribution[0].label).toBe("gym");
+  });
+
+  it("backs off to shorter histories it has seen", () => {
+    const prediction = predictNext(model, { history: ["mall", "office"], hour: 17, day: 2 }, "office");
+    expect(prediction.order).toBe(1);
+    expect(prediction.timeMatched).toBe(true);
+    expect(prediction.distribution[0].label).toBe("gym");
+  });
+
+  it("uses the longer history when it disagrees with the last place", () => {
+    const viaCafe = predictNext(model, { history: ["cafe", "office"], hour: 17, day: 2 }, "office");
+    expect(viaCafe.order).toBe(2);
+    expect(viaCafe.distribution.find((d) => d.label === "home")!.probability)
+      .toBeGreaterThan(predictNext(model, { history: ["home", "office"], hour: 17, day: 2 }, "office").distribution.find((d) => d.label === "home")!.probability);
+  });
+});
+
+describe("trip timing", () => {
+  it("uses the last tracking point at a place as the departure time", () => {
+    const logs: LocationLog[] = [];
+    for (let d = 0; d < 3; d++) {
+      const base = Date.UTC(2026, 0, 5 + d);
+      const at = (h: number, m: number) => new Date(base + (h * 60 + m) * 60_000).toISOString();
+      const leave = 40 + d * 5; // 17:40, 17:45, 17:50
+      logs.push({ latitude: places.Office.lat, longitude: places.Office.lng, hour: 9, day: 1, label: "Office", created_at: at(9, 0) });
+      logs.push({ latitude: places.Office.lat, longitude: places.Office.lng, hour: 17, day: 1, label: null, created_at: at(17, leave) });
+      logs.push({ latitude: places.Gym.lat, longitude: places.Gym.lng, hour: 18, day: 1, label: "Gym", created_at: at(18, leave - 20) });
+    }
+    const timing = estimateTiming(buildRoutineModel(logs), "office", "gym", { hour: 17, day: 1, currentLabel: "office" });
+    expect(timing?.departure.typical).toBe("17:45");
+    expect(timing?.travelMinutes).toEqual({ mean: 40, spread: 0 });
+    expect(timing?.arrival.typical).toBe("18:25");
+  });
+
+  it("reports clock times in the user's time zone", () => {
+    const timing = estimateTiming(buildRoutineModel(syntheticHistory()), "office", "gym", {
+      hour: 17, day: 1, currentLabel: "office", timeZone: "Asia/Kolkata",
+    });
+    expect(timing?.departure.typical).toBe("14:30");
+  });
+});
+
+describe("backtest", () => {
+  it("replays history chronologically and reports accuracy and calibration", () => {
+    const result = runBacktest(syntheticHistory());
+    expect(result.evaluated).toBeGreaterThan(30);
+    expect(result.top3Accuracy).toBeGreaterThanOrEqual(result.top1Accuracy);
+    expect(result.top1Accuracy).toBeGreaterThan(0.5);
+    expect(result.calibration.reduce((sum, b) => sum + b.count, 0)).toBe(result.evaluated);
+    expect(result.expectedCalibrationError).toBeGreaterThanOrEqual(0);
+  });
+
+  it("never lets a step see the visit it is predicting", () => {
+    const seen: number[] = [];
+    const logs = syntheticHistory(7);
+    runBacktest(logs, {
+      predict: (history, ctx) => {
+        seen.push(history.length);
+        return predictNextLocations(history, ctx);
+      },
+    });
+    expect(seen.every((n, i) => i === 0 || n > seen[i - 1])).toBe(true);
+    expect(Math.max(...seen)).toBeLessThan(logs.length);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import type { LocationLog } from "../../supabase/functions/_shared/prediction-engine.ts";
+import {
+  methodWeightsFromAccuracy,
+  reconcilePrediction,
+  summarizeMethodAccuracy,
+  type StoredPrediction,
+} from "../../supabase/functions/_shared/prediction-feedback.ts";
+
+const gym = { lat: 17.4401, lng: 78.3489 };
+const mall = { lat: 17.4126, lng: 78.4071 };
+
+const prediction: StoredPrediction = {
+  id: "p1",
+  label: "Gym",
+  predicted_lat: gym.lat,
+  predicted_lng: gym.lng,
+  prediction_timestamp: "2026-01-05T17:00:00.000Z",
+  method_key: "transition",
+  outcome: "pending",
+};
+
+const log = (at: string, place: { lat: number; lng: number }, label: string | null = null): LocationLog => ({
+  latitude: place.lat,
+  longitude: place.lng,
+  hour: new Date(at).getUTCHours(),
+  day: new Date(at).getUTCDay(),
+  label,
+  created_at: at,
+});
+
+describe("prediction feedback", () => {
+  it("counts a later visit near the predicted place as a hit", () => {
+    const result = reconcilePrediction(prediction, [log("2026-01-05T18:10:00.000Z", gym)], new Date("2026-01-05T18:30:00.000Z"));
+    expect(result.outcome).toBe("hit");
+    expect(result.resolved_at).toBe("2026-01-05T18:10:00.000Z");
+  });
+
+  it("waits for the window to close before calling a miss", () => {
+    const logs = [log("2026-01-05T18:10:00.000Z", mall, "Mall")];
+    expect(reconcilePrediction(prediction, logs, new Date("2026-01-05T19:00:00.000Z")).outcome).toBe("pending");
+    const result = reconcilePrediction(prediction, logs, new Date("2026-01-06T00:00:00.000Z"));
+    expect(result.outcome).toBe("miss");
+    expect(result.actual_label).toBe("mall");
+  });
+
+  it("only reweights methods with enough resolved predictions", () => {
+    const stats = summarizeMethodAccuracy([
+      ...Array.from({ length: 8 }, () => ({ method_key: "transition" as const, outcome: "hit" as const })),
+      ...Array.from({ length: 2 }, () => ({ method_key: "transition" as const, outcome: "miss" as const })),
+      { method_key: "time", outcome: "miss" },
+    ]);
+    expect(stats.transition?.hitRate).toBeCloseTo(0.8);
+    const weights = methodWeightsFromAccuracy(stats);
+    expect(weights.transition).toBeGreaterThan(1);
+    expect(weights.time).toBeUndefined();
+  });
+
+  it("looks only inside the window, edges as the window defines them", () => {
+    const end = new Date("2026-01-05T23:00:00.000Z");
+    // At the moment of prediction the user was already there; that doesn't count
+    const atStart = reconcilePrediction(prediction, [log(prediction.prediction_timestamp, gym)], end);
+    expect(atStart).toEqual({ outcome: "expired", actual_label: null, actual_lat: null, actual_lng: null, resolved_at: end.toISOString() });
+
+    expect(reconcilePrediction(prediction, [log("2026-01-05T23:00:00.000Z", gym)], end).outcome).toBe("hit");
+    expect(reconcilePrediction(prediction, [log("2026-01-05T23:00:01.000Z", gym)], end).outcome).toBe("expired");
+    expect(reconcilePrediction(prediction, [], new Date("2026-01-05T22:59:59.000Z")).outcome).toBe("pending");
+  });
+
+  it("matches by label anywhere, and reports a labeled visit for a miss", () => {
+    const elsewhere = { lat: 17.5, lng: 78.5 };
+    const byLabel = reconcilePrediction(prediction, [log("2026-01-05T18:00:00.000Z", elsewhere, " GYM ")], new Date("2026-01-05T18:30:00.000Z"));
+    expect(byLabel).toMatchObject({ outcome: "hit", actual_label: "gym", actual_lat: 17.5 });
+
+    const missed = reconcilePrediction(prediction, [
+      log("2026-01-05T18:00:00.000Z", elsewhere),
+      log("2026-01-05T19:00:00.000Z", mall, "Mall"),
+      log("2026-01-05T20:00:00.000Z", elsewhere),
+    ], new Date("2026-01-06T00:00:00.000Z"));
+    expect(missed).toMatchObject({ outcome: "miss", actual_label: "mall", resolved_at: "2026-01-05T19:00:00.000Z" });
+  });
+
+  it("clamps weights for long streaks and counts pending predictions nowhere", () => {
+    const streak = (method_key: "time" | "day", outcome: "hit" | "miss", n: number) =>
+      Array.from({ length: n }, () => ({ method_key, outcome }));
+    const stats = summarizeMethodAccuracy([
+      ...streak("time", "hit", 100),
+      ...streak("day", "miss", 5),
+      { method_key: "sequence", outcome: "pending" },
+      { method_key: "sequence", outcome: "expired" },
+    ]);
+    expect(Object.keys(stats).sort()).toEqual(["day", "time"]);
+    expect(methodWeightsFromAccuracy(stats)).toEqual({ time: 1.5, day: 0.5 });
+    expect(methodWeightsFromAccuracy(stats, 6)).toEqual({ time: 1.5 });
+    expect(methodWeightsFromAccuracy({})).toEqual({});
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { buildRoutineModel, type LocationLog } from "../../supabase/functions/_shared/prediction-engine.ts";
+import { detectAnomalies } from "../../supabase/functions/_shared/routine-anomaly.ts";
+
+const places: Record<string, { lat: number; lng: number }> = {
+  Home: { lat: 17.385, lng: 78.4867 },
+  Office: { lat: 17.4435, lng: 78.3772 },
+  Gym: { lat: 17.4401, lng: 78.3489 },
+};
+
+const at = (date: number, hour: number, minute = 0) => date + (hour * 60 + minute) * 60_000;
+
+function log(label: string | null, place: { lat: number; lng: number }, time: number): LocationLog {
+  const d = new Date(time);
+  return { latitude: place.lat, longitude: place.lng, hour: d.getUTCHours(), day: d.getUTCDay(), label, created_at: d.toISOString() };
+}
+
+// Three weeks of weekdays: home → office → gym → home by 20:00. Dense
+// tracking logs every half hour for as long as the user stays put.
+function history({ dense = false } = {}): LocationLog[] {
+  const logs: LocationLog[] = [];
+  const stay = (label: string, date: number, from: number, to: number) => {
+    for (let m = from * 60; m <= (dense ? to * 60 : from * 60); m += 30) {
+      logs.push(log(label, places[label], at(date, 0, m)));
+    }
+  };
+  for (let d = 0; d < 21; d++) {
+    const date = Date.UTC(2026, 0, 5 + d);
+    const day = new Date(date).getUTCDay();
+    if (day === 0 || day === 6) continue;
+    stay("Home", date, 8, 8.5);
+    stay("Office", date, 9, 17.5);
+    stay("Gym", date, 18, 19);
+    stay("Home", date, 20, 23.5);
+  }
+  return logs;
+}
+
+const today = Date.UTC(2026, 0, 26); // a Monday
+
+describe("routine anomalies", () => {
+  it("flags a usual evening arrival that hasn't happened", () => {
+    const logs = [...history(), log("Home", places.Home, at(today, 8)), log("Gym", places.Gym, at(today, 18))];
+    const now = at(today, 21, 30);
+    const anomalies = detectAnomalies(buildRoutineModel(logs, { now }), logs, { latitude: places.Gym.lat, longitude: places.Gym.lng }, now, { timeZone: "UTC" });
+    const missed = anomalies.find((a) => a.kind === "missed_arrival");
+    expect(missed?.label).toBe("home");
+    expect(missed?.score).toBeGreaterThan(0.9);
+  });
+
+  it("takes the arrival, not the last point, when a stay is densely tracked", () => {
+    const logs = [...history({ dense: true }), log("Home", places.Home, at(today, 8)), log("Gym", places.Gym, at(today, 18))];
+    for (const [hour, minute] of [[21, 30], [22, 30], [23, 30]]) {
+      const now = at(today, hour, minute);
+      const anomalies = detectAnomalies(buildRoutineModel(logs, { now }), logs, { latitude: places.Gym.lat, longitude: places.Gym.lng }, now, { timeZone: "UTC" });
+      const missed = anomalies.find((a) => a.kind === "missed_arrival");
+      expect(missed?.label).toBe("home");
+      expect(missed?.message).toContain("latest 20:00");
+    }
+  });
+
+  it("doesn't flag an arrival before the grace period has passed", () => {
+    const logs = [...history({ dense: true }), log("Gym", places.Gym, at(today, 18))];
+    const now = at(today, 20, 30);
+    const anomalies = detectAnomalies(buildRoutineModel(logs, { now }), logs, { latitude: places.Gym.lat, longitude: places.Gym.lng }, now, { timeZone: "UTC" });
+    expect(anomalies.find((a) => a.kind === "missed_arrival")).toBeUndefined();
+  });
+
+  it("stays quiet once the user is home", () => {
+    const logs = [...history(), log("Gym", places.Gym, at(today, 18)), log("Home", places.Home, at(today, 20, 5))];
+    const now = at(today, 21, 30);
+    const anomalies = detectAnomalies(buildRoutineModel(logs, { now }), logs, { latitude: places.Home.lat, longitude: places.Home.lng }, now, { timeZone: "UTC" });
+    expect(anomalies.filter((a) => a.score > 0.3)).toEqual([]);
+  });
+
+  it("flags a long stop far from every known place", () => {
+    const away = { lat: 17.6, lng: 78.7 };
+    const logs = [...history(), log(null, away, at(today, 10)), log(null, away, at(today, 10, 30))];
+    const now = at(today, 10, 30);
+    const anomalies = detectAnomalies(buildRoutineModel(logs, { now }), logs, { latitude: away.lat, longitude: away.lng }, now, { timeZone: "UTC" });
+    expect(anomalies[0].kind).toBe("unexpected_place");
+    expect(anomalies[0].score).toBeGreaterThan(0.9);
+  });
+});
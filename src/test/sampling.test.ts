@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { SAMPLING_PRESETS, classifySpeed, initialSamplerState, sampleFix, type Fix, type SamplerState } from "@/lib/sampling";
+
+const policy = SAMPLING_PRESETS.balanced.policy;
+const start = Date.UTC(2026, 2, 2, 9);
+// ~11 m per 0.0001° of latitude
+const fix = (secondsIn: number, northM = 0, extra: Partial<Fix> = {}): Fix => ({
+  latitude: 17.44 + northM / 111_195,
+  longitude: 78.38,
+  accuracy: 10,
+  timestamp: start + secondsIn * 1000,
+  ...extra,
+});
+
+function run(fixes: Fix[]) {
+  let state: SamplerState = initialSamplerState();
+  return fixes.map((f) => {
+    const decision = sampleFix(policy, state, f);
+    state = decision.state;
+    return decision;
+  });
+}
+
+describe("sampling policy", () => {
+  it("classifies speed into still, walking and driving", () => {
+    expect(classifySpeed(0.1)).toBe("still");
+    expect(classifySpeed(1.4)).toBe("walking");
+    expect(classifySpeed(13)).toBe("driving");
+    // Each band starts where the previous one ends
+    expect([0, 0.5, 2.5].map(classifySpeed)).toEqual(["still", "walking", "driving"]);
+  });
+
+  it("drops inaccurate fixes and jitter while stationary, with a heartbeat", () => {
+    const decisions = run([
+      fix(0),
+      fix(5, 0, { accuracy: 500 }),
+      fix(60, 3),
+      fix(400, 4),
+      fix(15 * 60, 2),
+    ]);
+    expect(decisions.map((d) => d.reason)).toEqual(["first", "inaccurate", "too_soon", "too_close", "heartbeat"]);
+    expect(decisions[3].state.motion).toBe("still");
+  });
+
+  it("samples more often once the user starts driving", () => {
+    // 15 m/s north, one fix a second, speed derived from successive fixes
+    const fixes = Array.from({ length: 31 }, (_, i) => fix(i, i * 15));
+    const kept = run(fixes).filter((d) => d.keep);
+    expect(kept.at(-1)!.state.motion).toBe("driving");
+    expect(kept).toHaveLength(4);
+  });
+
+  it("takes the same fix delivered twice in its stride", () => {
+    const decisions = run([fix(0), fix(0), fix(0, 0, { accuracy: policy.maxAccuracyM }), fix(15 * 60, 0, { accuracy: null })]);
+    expect(decisions.map((d) => d.reason)).toEqual(["first", "too_soon", "too_soon", "heartbeat"]);
+    // No elapsed time means no speed, rather than an infinite one
+    expect(decisions[1].state.motion).toBe("still");
+  });
+
+  it("trusts the device's speed, unless it reports none", () => {
+    // Barely moving on the map, but the device says it's driving
+    const reported = run([fix(0), fix(10, 2, { speed: 14 }), fix(20, 120, { speed: 14 })]);
+    expect(reported.map((d) => d.reason)).toEqual(["first", "too_close", "moved"]);
+    expect(reported[1].state.motion).toBe("driving");
+
+    // Some devices send -1 for unknown; the speed between fixes is used instead
+    const unknown = run([fix(0), fix(30, 45, { speed: -1 })]);
+    expect(unknown.map((d) => [d.reason, d.state.motion])).toEqual([["first", "still"], ["moved", "walking"]]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { parseDayScript, parseTimeOfDay, placeStops, scriptedDay, scriptedDays, trackToFixes } from "@/lib/simulation";
+import { parseGpx } from "@/lib/track-formats";
+
+const home = { lat: 17.385, lng: 78.4867 };
+const office = { lat: 17.4435, lng: 78.3772 };
+
+describe("GPS simulation", () => {
+  it("reads a scripted day and rejects times that go backwards", () => {
+    expect(parseDayScript("home 8am → office 9:30am -> gym 18:00").stops).toEqual([
+      { label: "home", minutes: 480 },
+      { label: "office", minutes: 570 },
+      { label: "gym", minutes: 1080 },
+    ]);
+    expect(parseDayScript("home 9am → office 8am").error).toBe('"office 8am" must come after home');
+    expect(parseDayScript("home at noon").error).toBe("Add at least two stops");
+  });
+
+  it("stays at each stop and arrives on time", () => {
+    const stops = placeStops(parseDayScript("home 8am → office 9am → gym 6pm").stops, { home, office }, home);
+    expect(stops[0]).toMatchObject({ latitude: home.lat, longitude: home.lng });
+    // Unknown places get the same spot every time
+    expect(placeStops(stops, { home, office }, home)[2]).toEqual(stops[2]);
+
+    const dayStart = new Date(2026, 2, 2).getTime();
+    const fixes = scriptedDay(stops, dayStart);
+    const atMinute = (m: number) => fixes.find((f) => f.timestamp >= dayStart + m * 60_000)!;
+    expect(fixes[0].timestamp).toBe(dayStart + 8 * 60 * 60_000);
+    expect(atMinute(9 * 60).speed).toBe(0);
+    expect(Math.abs(atMinute(9 * 60).latitude - office.lat)).toBeLessThan(0.001);
+    expect(atMinute(8 * 60 + 50).speed).toBeGreaterThan(0);
+    expect(fixes.every((f, i) => i === 0 || f.timestamp > fixes[i - 1].timestamp)).toBe(true);
+  });
+
+  it("re-times an imported GPX track", () => {
+    const gpx = `<?xml version="1.0"?><gpx version="1.1"><trk><trkseg>
+      <trkpt lat="17.4400" lon="78.3800"><time>2019-05-01T10:00:00Z</time></trkpt>
+      <trkpt lat="17.4410" lon="78.3800"><time>2019-05-01T10:01:30Z</time></trkpt>
+    </trkseg></trk></gpx>`;
+    const fixes = trackToFixes(parseGpx(gpx), { startAt: 1_000_000 });
+    expect(fixes.map((f) => f.timestamp)).toEqual([1_000_000, 1_090_000]);
+    expect(fixes[1]).toMatchObject({ latitude: 17.441, longitude: 78.38 });
+  });
+
+  it("reads the edges of the clock and nothing past them", () => {
+    expect(["12am", "midnight", "0:00", "12pm", "noon", "23:59", "11:59 PM"].map(parseTimeOfDay))
+      .toEqual([0, 0, 0, 720, 720, 1439, 1439]);
+    expect(["24:00", "13pm", "0am", "9:60", "9.30", ""].map(parseTimeOfDay)).toEqual([null, null, null, null, null, null]);
+    expect(parseDayScript("home 9am, office 9:00").error).toBe('"office 9:00" must come after home');
+    expect(parseDayScript("home 9am,, office 10am\n").stops).toHaveLength(2);
+  });
+
+  it("runs late rather than backwards when a leg can't be made in time", () => {
+    // Ten minutes for a trip that takes about half an hour
+    const stops = placeStops(parseDayScript("home 8am → office 8:10am").stops, { home, office }, home);
+    const dayStart = new Date(2026, 2, 2).getTime();
+    const fixes = scriptedDay(stops, dayStart);
+    expect(fixes.every((f, i) => i === 0 || f.timestamp > fixes[i - 1].timestamp)).toBe(true);
+    const arrival = fixes.find((f, i) => i > 0 && f.speed === 0)!;
+    expect(arrival.timestamp).toBeGreaterThan(dayStart + (8 * 60 + 10) * 60_000);
+  });
+
+  it("plays a script over the past days, skipping weekends when asked", () => {
+    const stops = placeStops(parseDayScript("home 8am → office 9am").stops, { home, office }, home);
+    // A Wednesday: the week before runs Wed..Tue
+    const today = new Date(2026, 2, 4);
+    const days = (weekdaysOnly: boolean) =>
+      new Set(scriptedDays(stops, { days: 7, weekdaysOnly, today }).map((f) => new Date(f.timestamp).getDate()));
+    expect([...days(false)]).toEqual([25, 26, 27, 28, 1, 2, 3]);
+    expect([...days(true)]).toEqual([25, 26, 27, 2, 3]);
+    expect(scriptedDays(stops, { days: 0, today })).toEqual([]);
+  });
+
+  it("paces untimed or partly timed tracks, never standing still", () => {
+    expect(trackToFixes([], { startAt: 0 })).toEqual([]);
+    const points = [
+      { latitude: 17.44, longitude: 78.38, time: Date.parse("2019-05-01T10:00:00Z") },
+      // The same point again, then one ~111 m north with no time
+      { latitude: 17.44, longitude: 78.38, time: Date.parse("2019-05-01T10:00:00Z") },
+      { latitude: 17.441, longitude: 78.38, time: null },
+    ];
+    const fixes = trackToFixes(points, { startAt: 1_000_000, defaultKmh: 4 });
+    // 111 m at 4 km/h is about 100 seconds
+    const offsets = fixes.map((f) => f.timestamp - 1_000_000);
+    expect(offsets.slice(0, 2)).toEqual([0, 1000]);
+    expect((offsets[2] - offsets[1]) / 1000).toBeCloseTo(100, 0);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { describeEvent, isOpenIncident, summarizeDeliveries, type SosIncidentEvent } from "@/lib/sos-incidents";
+
+const event = (overrides: Partial<SosIncidentEvent>) =>
+  ({ kind: "delivery", channel: "email", contact_name: "Asha", success: true, detail: null, ...overrides });
+
+describe("sos incidents", () => {
+  it("counts delivered, failed and device-opened alerts", () => {
+    const summary = summarizeDeliveries([
+      event({ kind: "triggered", success: null }),
+      event({ success: true }),
+      event({ success: false }),
+      event({ channel: "sms", success: null }),
+      event({ channel: "whatsapp", success: null }),
+      event({ kind: "status", success: null, detail: "resolved" }),
+    ]);
+    expect(summary).toEqual({ delivered: 1, failed: 1, opened: 2 });
+  });
+
+  it("describes each kind of timeline event", () => {
+    expect(describeEvent(event({ kind: "triggered", success: null }))).toBe("SOS triggered");
+    expect(describeEvent(event({ success: false }))).toBe("Email to Asha failed");
+    expect(describeEvent(event({ channel: "whatsapp", success: null }))).toBe("WhatsApp opened for Asha");
+    expect(describeEvent(event({ kind: "status", detail: "false_alarm" }))).toBe("Marked false alarm");
+  });
+
+  it("treats acknowledged incidents as still open", () => {
+    expect(isOpenIncident({ status: "active" })).toBe(true);
+    expect(isOpenIncident({ status: "acknowledged" })).toBe(true);
+    expect(isOpenIncident({ status: "resolved" })).toBe(false);
+    expect(isOpenIncident({ status: "false_alarm" })).toBe(false);
+  });
+
+  it("counts nothing for an incident with no deliveries yet", () => {
+    expect(summarizeDeliveries([])).toEqual({ delivered: 0, failed: 0, opened: 0 });
+    expect(summarizeDeliveries([event({ kind: "triggered", success: true })])).toEqual({ delivered: 0, failed: 0, opened: 0 });
+  });
+
+  it("still describes events with missing names, details or unknown values", () => {
+    expect(describeEvent(event({ kind: "acknowledged", contact_name: null }))).toBe("A contact is responding");
+    expect(describeEvent(event({ kind: "escalated", detail: null }))).toBe("Escalated");
+    expect(describeEvent(event({ kind: "status", detail: "Archived" }))).toBe("Marked archived");
+    expect(describeEvent(event({ channel: "pager", contact_name: null }))).toBe("Alert delivered to contact");
+  });
+});
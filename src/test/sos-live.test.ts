@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { liveShareUrl, shouldPushLive, updatedAgo, LIVE_MIN_PUSH_INTERVAL_MS, LIVE_PUSH_INTERVAL_MS } from "@/lib/sos-live";
+
+const last = { latitude: 17.4435, longitude: 78.3772, at: 1_000_000 };
+
+describe("sos live sharing", () => {
+  it("pushes on a timer, or early after a big move", () => {
+    expect(shouldPushLive(null, last, 0)).toBe(true);
+    expect(shouldPushLive(last, last, last.at + 10_000)).toBe(false);
+    expect(shouldPushLive(last, last, last.at + LIVE_PUSH_INTERVAL_MS)).toBe(true);
+    // ~110 m north
+    const moved = { latitude: 17.4445, longitude: 78.3772 };
+    expect(shouldPushLive(last, moved, last.at + 2_000)).toBe(false);
+    expect(shouldPushLive(last, moved, last.at + 6_000)).toBe(true);
+  });
+
+  it("says how long ago the position was updated", () => {
+    const now = new Date("2026-04-10T12:00:00Z").getTime();
+    expect(updatedAgo("2026-04-10T11:59:30Z", now)).toBe("just now");
+    expect(updatedAgo("2026-04-10T11:56:00Z", now)).toBe("4 min ago");
+    expect(updatedAgo("2026-04-10T09:30:00Z", now)).toBe("2 h ago");
+  });
+
+  it("builds the public page link from the token", () => {
+    expect(liveShareUrl("abc123", "https://safetrack.example")).toBe("https://safetrack.example/live/abc123");
+  });
+
+  it("holds back pushes until the minimum interval even after a big move, and when the clock goes back", () => {
+    const moved = { latitude: 17.4445, longitude: 78.3772 };
+    expect(shouldPushLive(last, moved, last.at + LIVE_MIN_PUSH_INTERVAL_MS - 1)).toBe(false);
+    expect(shouldPushLive(last, moved, last.at + LIVE_MIN_PUSH_INTERVAL_MS)).toBe(true);
+    expect(shouldPushLive(last, last, last.at + LIVE_PUSH_INTERVAL_MS - 1)).toBe(false);
+    expect(shouldPushLive(last, moved, last.at - 60_000)).toBe(false);
+  });
+
+  it("rounds down at the minute and hour boundaries and treats a future time as just now", () => {
+    const now = new Date("2026-04-10T12:00:00Z").getTime();
+    expect(updatedAgo("2026-04-10T11:59:00Z", now)).toBe("1 min ago");
+    expect(updatedAgo("2026-04-10T11:00:01Z", now)).toBe("59 min ago");
+    expect(updatedAgo("2026-04-10T11:00:00Z", now)).toBe("1 h ago");
+    expect(updatedAgo("2026-04-10T12:05:00Z", now)).toBe("just now");
+  });
+});
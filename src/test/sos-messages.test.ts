@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import { deviceAlertUrl, fallbackAlert, openDeviceAlerts, sosMessage } from "@/lib/sos-messages";
+
+const origin = "https://safetrack.example";
+
+describe("sos device messages", () => {
+  it("gives each contact their own ack link", () => {
+    const text = sosMessage({ coordinates: { latitude: 17.4435, longitude: 78.3772 }, shareToken: "live1", ackToken: "ack-asha" }, origin);
+    expect(text).toContain("Follow my live location: https://safetrack.example/live/live1");
+    expect(text).toContain("📐 Coordinates: 17.443500, 78.377200");
+    expect(text.endsWith("https://safetrack.example/ack/ack-asha")).toBe(true);
+  });
+
+  it("falls back to a map pin, or to nothing, without a live page", () => {
+    const pinned = sosMessage({ coordinates: { latitude: 1.5, longitude: -2.25 }, shareToken: null }, origin);
+    expect(pinned).toContain("My location: https://www.google.com/maps?q=1.5,-2.25");
+    expect(pinned).not.toContain("/ack/");
+
+    const blind = sosMessage({ coordinates: null, shareToken: null, ackToken: null, reminder: true }, origin);
+    expect(blind.startsWith("🚨 I still need help")).toBe(true);
+    expect(blind).toContain("My location: Location unavailable");
+    expect(blind).not.toContain("Coordinates");
+  });
+
+  it("builds WhatsApp links from digits only and keeps SMS numbers as entered", () => {
+    expect(deviceAlertUrl("whatsapp", "+91 98765-43210", "hi & bye")).toBe("https://wa.me/919876543210?text=hi%20%26%20bye");
+    expect(deviceAlertUrl("sms", "+91 98765 43210", "a\nb")).toBe("sms:+91 98765 43210?body=a%0Ab");
+  });
+
+  it("writes a position at 0, 0 rather than treating it as missing", () => {
+    const text = sosMessage({ coordinates: { latitude: 0, longitude: 0 }, shareToken: null }, origin);
+    expect(text).toContain("My location: https://www.google.com/maps?q=0,0");
+    expect(text).toContain("📐 Coordinates: 0.000000, 0.000000");
+  });
+
+  it("opens only the first alert, and nothing for an empty list or when asked not to", () => {
+    const open = vi.spyOn(window, "open").mockReturnValue(window);
+    const alert = (name: string, channel: "sms" | "whatsapp") => ({ name, to: "+91 98765 43210", channel, text: "help" });
+
+    openDeviceAlerts([]);
+    openDeviceAlerts([alert("Asha", "sms")], { openFirst: false });
+    expect(open).not.toHaveBeenCalled();
+
+    openDeviceAlerts([alert("Ravi", "whatsapp"), alert("Asha", "sms")]);
+    expect(open).toHaveBeenCalledTimes(1);
+    expect(open).toHaveBeenCalledWith("https://wa.me/919876543210?text=help", "_blank");
+    open.mockRestore();
+  });
+
+  it("falls back to SMS, or to the mail app without a phone number", () => {
+    expect(fallbackAlert({ name: "Asha", phone: "+911234", email: "asha@example.com" }, "help")).toMatchObject({ channel: "sms", to: "+911234" });
+    const mail = fallbackAlert({ name: "Asha", phone: "", email: "asha@example.com" }, "help");
+    expect(mail).toMatchObject({ channel: "email", to: "asha@example.com" });
+    expect(deviceAlertUrl("email", "asha@example.com", "help")).toBe("mailto:asha@example.com?subject=%F0%9F%9A%A8%20EMERGENCY%20SOS%20ALERT&body=help");
+    expect(fallbackAlert({ name: "Asha", phone: "", email: null }, "help")).toBeNull();
+  });
+});
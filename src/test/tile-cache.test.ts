@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  boundsAround,
+  countTiles,
+  downloadTiles,
+  latToTileY,
+  lngToTileX,
+  loadTile,
+  memoryTileStore,
+  tileKey,
+  tilesAround,
+  tilesAroundAreas,
+  tilesInBounds,
+  tileUrl,
+  TILE_MAX_AGE_DAYS,
+  type CachedTile,
+} from "@/lib/tile-cache";
+
+const HOME = { latitude: 17.385, longitude: 78.4867 };
+const blob = (text: string) => new Blob([text]);
+const tile = (key: string, bytes: number, usedAt: number): CachedTile => ({ key, blob: blob(key), bytes, storedAt: usedAt, usedAt });
+
+describe("tile cache", () => {
+  it("finds the tiles covering a padded region", () => {
+    expect([lngToTileX(HOME.longitude, 12), latToTileY(HOME.latitude, 12)]).toEqual([2941, 1847]);
+    expect(tileUrl({ z: 12, x: 2941, y: 1847 }, true)).toBe("https://a.basemaps.cartocdn.com/dark_all/12/2941/1847@2x.png");
+
+    const bounds = boundsAround([HOME], 2)!;
+    expect(bounds.north - bounds.south).toBeCloseTo(4 / 111);
+    const tiles = tilesInBounds(bounds, [12, 14]);
+    expect(tiles).toHaveLength(countTiles(bounds, [12, 14]));
+    expect(tiles.filter((t) => t.z === 14).length).toBeGreaterThan(tiles.filter((t) => t.z === 12).length);
+  });
+
+  it("covers the whole of a geofence, not just a point in it", () => {
+    const key = (t: { z: number; x: number; y: number }) => `${t.z}/${t.x}/${t.y}`;
+    const around = (tiles: { z: number; x: number; y: number }[]) => new Set(tiles.map(key));
+    const point = around(tilesAround([HOME], 2, [14]));
+
+    const circle = around(tilesAroundAreas([{ points: [HOME], radiusKm: 3 }], 2, [14]));
+    expect(circle.size).toBeGreaterThan(point.size);
+    expect([...point].every((k) => circle.has(k))).toBe(true);
+
+    // A campus 10 km across: its far corner is covered too
+    const far = { latitude: HOME.latitude + 0.09, longitude: HOME.longitude + 0.09 };
+    const polygon = around(tilesAroundAreas([{ points: [HOME, far, { latitude: HOME.latitude, longitude: far.longitude }] }], 2, [14]));
+    expect(polygon.has(`14/${lngToTileX(far.longitude, 14)}/${latToTileY(far.latitude, 14)}`)).toBe(true);
+    expect(tilesAroundAreas([{ points: [] }], 2, [14])).toEqual([]);
+  });
+
+  it("downloads only tiles it doesn't have and counts failures", async () => {
+    const store = memoryTileStore();
+    const tiles = [{ z: 10, x: 1, y: 1 }, { z: 10, x: 1, y: 2 }, { z: 10, x: 2, y: 1 }];
+    await store.put({ key: tileKey(tiles[0], false), blob: blob("cached"), bytes: 6, storedAt: 0, usedAt: 0 });
+
+    const fetched: string[] = [];
+    const result = await downloadTiles(tiles, {
+      store,
+      fetchTile: async (url) => {
+        fetched.push(url);
+        if (url.includes("/2/1")) throw new Error("offline");
+        return blob("tile");
+      },
+    });
+    expect(result).toEqual({ downloaded: 1, skipped: 1, failed: 1 });
+    expect(fetched).toHaveLength(2);
+    expect(await store.stats()).toEqual({ tiles: 2, bytes: 10 });
+  });
+
+  it("serves cached tiles offline and refreshes stale ones online", async () => {
+    const store = memoryTileStore();
+    const now = Date.UTC(2026, 0, 5);
+    const stale = now - (TILE_MAX_AGE_DAYS + 1) * 86_400_000;
+    const old = blob("old");
+    const fresh = blob("new!");
+    await store.put({ key: "12/1/1", blob: old, bytes: 3, storedAt: stale, usedAt: stale });
+    const fetchTile = async () => fresh;
+
+    expect(await loadTile("12/1/1", "url", { store, fetchTile, online: () => false, now })).toBe(old);
+    expect(await loadTile("12/1/1", "url", { store, fetchTile, online: () => true, now })).toBe(fresh);
+    expect((await store.get("12/1/1"))?.storedAt).toBe(now);
+
+    // A failed refresh still has the old copy to fall back on
+    await store.put({ key: "12/1/2", blob: old, bytes: 3, storedAt: stale, usedAt: stale });
+    const failing = async (): Promise<Blob> => { throw new Error("timeout"); };
+    expect(await loadTile("12/1/2", "url", { store, fetchTile: failing, online: () => true, now })).toBe(old);
+  });
+
+  it("evicts the least recently used tiles once over budget", async () => {
+    const store = memoryTileStore({ budgetBytes: 100 });
+    await store.put(tile("a", 40, 1));
+    await store.put(tile("b", 40, 2));
+    await store.touch("a", 3);
+    await store.put(tile("c", 40, 4));
+    expect((await store.keys()).sort()).toEqual(["a", "c"]);
+    expect(await store.stats()).toEqual({ tiles: 2, bytes: 80 });
+
+    // Replacing a tile counts only the difference
+    await store.put(tile("a", 60, 5));
+    expect(await store.stats()).toEqual({ tiles: 2, bytes: 100 });
+
+    // One big tile pushes out as many as it needs to
+    await store.put(tile("d", 90, 6));
+    expect(await store.keys()).toEqual(["d"]);
+    expect(await store.stats()).toEqual({ tiles: 1, bytes: 90 });
+  });
+
+  it("marks served tiles as used at most once an hour", async () => {
+    const store = memoryTileStore();
+    const now = Date.UTC(2026, 0, 5);
+    const fetchTile = async () => blob("net");
+    await store.put(tile("12/1/1", 3, now - 30 * 60_000));
+    await store.put(tile("12/1/2", 3, now - 2 * 3_600_000));
+
+    await loadTile("12/1/1", "url", { store, fetchTile, now });
+    await loadTile("12/1/2", "url", { store, fetchTile, now });
+    expect((await store.get("12/1/1"))?.usedAt).toBe(now - 30 * 60_000);
+    expect((await store.get("12/1/2"))?.usedAt).toBe(now);
+  });
+});
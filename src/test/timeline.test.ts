@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import type { LocationLog } from "../../supabase/functions/_shared/prediction-engine.ts";
+import {
+  continueTimeline,
+  inferTripMode,
+  segmentTimeline,
+  type SavedStay,
+  type TimelineTrip,
+  type TimelineVisit,
+} from "../../supabase/functions/_shared/timeline.ts";
+
+const HOME = { lat: 17.385, lng: 78.4867 };
+const OFFICE = { lat: 17.4435, lng: 78.3772 };
+const START = Date.UTC(2024, 2, 4, 8, 0);
+
+function point(minute: number, where: { lat: number; lng: number }, label: string | null = null): LocationLog {
+  const at = new Date(START + minute * 60_000);
+  return { latitude: where.lat, longitude: where.lng, hour: at.getUTCHours(), day: at.getUTCDay(), label, created_at: at.toISOString() };
+}
+
+// An hour at home, a drive through two points, two hours at the office
+function morning(): LocationLog[] {
+  const logs: LocationLog[] = [];
+  for (let m = 0; m <= 60; m += 5) logs.push(point(m, HOME, m === 0 ? null : "home"));
+  logs.push(point(70, { lat: 17.40, lng: 78.45 }), point(80, { lat: 17.42, lng: 78.41 }));
+  for (let m = 90; m <= 210; m += 5) logs.push(point(m, OFFICE, "office"));
+  return logs;
+}
+
+describe("timeline segmentation", () => {
+  it("splits a day into visit, trip, visit", () => {
+    const segments = segmentTimeline(morning().reverse());
+    expect(segments.map((s) => s.kind)).toEqual(["visit", "trip", "visit"]);
+
+    const [home, trip, office] = segments as [TimelineVisit, TimelineTrip, TimelineVisit];
+    expect(home).toMatchObject({ label: "home", durationMin: 60, pointCount: 13 });
+    expect(office).toMatchObject({ label: "office", durationMin: 120 });
+    expect(trip).toMatchObject({ fromLabel: "home", toLabel: "office", startAt: home.endAt, endAt: office.startAt, durationMin: 30, pointCount: 2 });
+    expect(trip.path).toHaveLength(4);
+    expect(trip.distanceKm).toBeGreaterThan(13);
+    // ~14 km in half an hour
+    expect(trip.avgSpeedKmh).toBeGreaterThan(25);
+    expect(trip.maxSpeedKmh).toBeGreaterThanOrEqual(trip.avgSpeedKmh);
+    expect(trip.mode).toBe("vehicle");
+  });
+
+  it("infers the slowest mode that explains a trip's speeds", () => {
+    expect(inferTripMode(4.5, 7)).toBe("walk");
+    expect(inferTripMode(5, 20)).toBe("cycle");
+    expect(inferTripMode(16, 30)).toBe("cycle");
+    expect(inferTripMode(20, 60)).toBe("vehicle");
+  });
+
+  it("cuts a trip where tracking went quiet", () => {
+    const logs = morning().filter((l) => new Date(l.created_at).getTime() < START + 75 * 60_000);
+    // Nothing between 70 min and arriving at the office at 300
+    for (let m = 300; m <= 360; m += 5) logs.push(point(m, OFFICE, "office"));
+    const segments = segmentTimeline(logs);
+    expect(segments.map((s) => s.kind)).toEqual(["visit", "trip", "visit"]);
+    const trip = segments[1] as TimelineTrip;
+    expect(trip).toMatchObject({ fromLabel: "home", toLabel: null, endAt: point(70, HOME).created_at });
+    expect(segmentTimeline(logs, { maxTripGapMin: 300 }).map((s) => s.kind)).toEqual(["visit", "trip", "visit"]);
+    expect((segmentTimeline(logs, { maxTripGapMin: 300 })[1] as TimelineTrip).toLabel).toBe("office");
+  });
+
+  it("keeps a trip out of the last visit as an open-ended trip", () => {
+    const logs = morning().slice(0, 15);
+    const segments = segmentTimeline(logs);
+    expect(segments.map((s) => s.kind)).toEqual(["visit", "trip"]);
+    expect((segments[1] as TimelineTrip).toLabel).toBeNull();
+    expect(segments[1].endAt).toBe(point(80, HOME).created_at);
+  });
+
+  it("drops drift between two stays at the same place", () => {
+    const logs: LocationLog[] = [];
+    for (let m = 0; m <= 30; m += 5) logs.push(point(m, HOME));
+    // A 100 minute gap ends the first stay; it's the same spot, so no trip
+    for (let m = 130; m <= 160; m += 5) logs.push(point(m, HOME));
+    expect(segmentTimeline(logs).map((s) => s.kind)).toEqual(["visit", "visit"]);
+  });
+
+  // What segment-trips does over repeated runs, `batch` points at a time
+  function runUntilDone(logs: LocationLog[], batch: number, maxRuns = 50) {
+    let stays: TimelineVisit[] = [];
+    let trips: TimelineTrip[] = [];
+    let runs = 0;
+    for (; runs < maxRuns; runs++) {
+      const saved: SavedStay | null = stays.at(-1) ?? null;
+      const from = saved ? logs.findIndex((l) => l.created_at === saved.endAt) : 0;
+      const page = logs.slice(from, from + batch);
+      const { extended, segments } = continueTimeline(saved, page);
+      if (saved) trips = trips.filter((t) => t.startAt < saved.endAt);
+      if (extended) stays = [...stays.slice(0, -1), extended];
+      stays.push(...segments.filter((s): s is TimelineVisit => s.kind === "visit"));
+      trips.push(...segments.filter((s): s is TimelineTrip => s.kind === "trip"));
+      if (from + batch >= logs.length) break;
+    }
+    return { stays, trips, runs: runs + 1 };
+  }
+
+  it("works through one stay longer than a run can read", () => {
+    const logs: LocationLog[] = [];
+    for (let m = 0; m <= 1000; m++) logs.push(point(m, HOME, "home"));
+    const { stays, runs } = runUntilDone(logs, 300);
+    // Each run after the first re-reads only the point it resumes from
+    expect(runs).toBe(4);
+    expect(stays).toHaveLength(1);
+    expect(stays[0]).toMatchObject({ startAt: logs[0].created_at, endAt: logs[1000].created_at, durationMin: 1000, pointCount: 1001, label: "home" });
+    expect(stays[0].latitude).toBeCloseTo(HOME.lat);
+  });
+
+  it("gives the same stays and trips whether read in one run or many", () => {
+    const logs = [...morning()];
+    for (let m = 215; m <= 400; m += 5) logs.push(point(m, OFFICE, "office"));
+    const whole = segmentTimeline(logs);
+    for (const batch of [7, 13, 40]) {
+      const { stays, trips } = runUntilDone(logs, batch);
+      expect(stays.map((s) => [s.startAt, s.endAt, s.pointCount, s.label])).toEqual(
+        whole.filter((s): s is TimelineVisit => s.kind === "visit").map((s) => [s.startAt, s.endAt, s.pointCount, s.label]),
+      );
+      expect(trips.map((t) => [t.startAt, t.endAt, t.fromLabel, t.toLabel])).toEqual(
+        whole.filter((s): s is TimelineTrip => s.kind === "trip").map((t) => [t.startAt, t.endAt, t.fromLabel, t.toLabel]),
+      );
+    }
+  });
+
+  it("starts a new stay after a gap instead of extending the saved one", () => {
+    const saved: SavedStay = { startAt: point(0, HOME).created_at, endAt: point(30, HOME).created_at, latitude: HOME.lat, longitude: HOME.lng, label: "home", pointCount: 7 };
+    const logs = [point(30, HOME, "home")];
+    for (let m = 130; m <= 160; m += 5) logs.push(point(m, HOME, "home"));
+    const { extended, segments } = continueTimeline(saved, logs);
+    expect(extended).toBeNull();
+    expect(segments.map((s) => [s.kind, s.startAt])).toEqual([["visit", point(130, HOME).created_at]]);
+    // Nothing new since the last run
+    expect(continueTimeline(saved, [point(30, HOME, "home")])).toEqual({ extended: null, segments: [] });
+  });
+
+  it("rebuilds from the stay a late upload falls in and matches a single run", () => {
+    const logs: LocationLog[] = [];
+    for (let m = -400; m <= -300; m += 5) logs.push(point(m, OFFICE, "office"));
+    logs.push(...morning());
+    // The drive was queued offline and uploaded after the office stay was built
+    const lateAt = [point(70, HOME).created_at, point(80, HOME).created_at];
+    const first = runUntilDone(logs.filter((l) => !lateAt.includes(l.created_at)), 1000);
+
+    // What segment-trips does when the earliest late point is older than the
+    // latest stay's end
+    const anchor = first.stays.filter((s) => s.startAt <= lateAt[0]).at(-1)!;
+    expect(anchor.startAt).toBe(point(0, HOME).created_at);
+    const { segments } = continueTimeline(null, logs.filter((l) => l.created_at >= anchor.startAt));
+    const stays = [...first.stays.filter((s) => s.startAt < anchor.startAt), ...segments.filter((s) => s.kind === "visit")];
+    const trips = [...first.trips.filter((t) => t.startAt < anchor.startAt), ...segments.filter((s) => s.kind === "trip")];
+
+    const whole = segmentTimeline(logs);
+    expect(stays.map((s) => [s.startAt, s.endAt, s.pointCount])).toEqual(
+      whole.filter((s) => s.kind === "visit").map((s) => [s.startAt, s.endAt, s.pointCount]),
+    );
+    expect(trips.map((t) => [t.startAt, t.endAt])).toEqual(whole.filter((s) => s.kind === "trip").map((t) => [t.startAt, t.endAt]));
+    expect(trips.some((t) => t.startAt === point(60, HOME).created_at)).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+// Replay harness for the prediction engine. Walks a user's history in
+// chronological order and, at every labeled visit, asks the engine to predict
+// it using only what came before. Used to compare scoring changes with numbers
+// instead of by eye.
+
+import {
+  normalizeLabel,
+  predictNextLocations,
+  type LocationLog,
+  type PredictionCandidate,
+  type PredictionContext,
+} from "./prediction-engine.ts";
+
+export interface BacktestOptions {
+  // Labeled visits required before the first prediction is scored.
+  minHistory?: number;
+  // Number of equal-width confidence buckets for the calibration table.
+  calibrationBins?: number;
+  // Swap in a different predictor (e.g. an experimental scoring variant).
+  predict?: (history: LocationLog[], ctx: PredictionContext) => PredictionCandidate[];
+}
+
+export interface BacktestStep {
+  at: string;
+  context: PredictionContext;
+  actual: string;
+  predicted: string[];
+  confidence: number;
+  hitTop1: boolean;
+  hitTop3: boolean;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface BacktestResult {
+  evaluated: number;
+  top1Hits: number;
+  top3Hits: number;
+  top1Accuracy: number;
+  top3Accuracy: number;
+  // Mean squared error of the top-1 confidence against the 0/1 outcome.
+  brierScore: number;
+  // Count-weighted mean |confidence - accuracy| across calibration bins.
+  expectedCalibrationError: number;
+  calibration: CalibrationBin[];
+  steps: BacktestStep[];
+}
+
+export function runBacktest(logs: LocationLog[], options: BacktestOptions = {}): BacktestResult {
+  const minHistory = options.minHistory ?? 3;
+  const binCount = options.calibrationBins ?? 10;
+  const predict = options.predict ?? predictNextLocations;
+
+  const ordered = [...logs].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  const steps: BacktestStep[] = [];
+
+  let labeledSeen = 0;
+  let previousLabeled: LocationLog | null = null;
+
+  for (let i = 0; i < ordered.length; i++) {
+    const log = ordered[i];
+    if (!log.label) continue;
+
+    const actual = normalizeLabel(log.label);
+    const previousLabel = previousLabeled ? normalizeLabel(previousLabeled.label!) : null;
+
+    // Only score real moves: re-tagging the place you're already at is not a
+    // "next location" the engine could be expected to predict.
+    if (previousLabeled && labeledSeen >= minHistory && actual !== previousLabel) {
+      const context: PredictionContext = {
+        hour: previousLabeled.hour,
+        day: previousLabeled.day,
+        currentLabel: previousLabel,
+        now: new Date(previousLabeled.created_at).getTime(),
+      };
+      const ranked = predict(ordered.slice(0, i), context);
+      if (ranked.length > 0) {
+        const predicted = ranked.map((c) => c.label);
+        steps.push({
+          at: log.created_at,
+          context,
+          actual,
+          predicted: predicted.slice(0, 3),
+          confidence: ranked[0].confidence,
+          hitTop1: predicted[0] === actual,
+          hitTop3: predicted.slice(0, 3).includes(actual),
+        });
+      }
+    }
+
+    labeledSeen++;
+    previousLabeled = log;
+  }
+
+  return summarize(steps, binCount);
+}
+
+function summarize(steps: BacktestStep[], binCount: number): BacktestResult {
+  const evaluated = steps.length;
+  const top1Hits = steps.filter((s) => s.hitTop1).length;
+  const top3Hits = steps.filter((s) => s.hitTop3).length;
+
+  const bins = Array.from({ length: binCount }, (_, b) => ({
+    lower: b / binCount,
+    upper: (b + 1) / binCount,
+    count: 0,
+    confidenceSum: 0,
+    hits: 0,
+  }));
+
+  let brierSum = 0;
+  for (const s of steps) {
+    const outcome = s.hitTop1 ? 1 : 0;
+    brierSum += (s.confidence - outcome) ** 2;
+    const idx = Math.min(binCount - 1, Math.max(0, Math.floor(s.confidence * binCount)));
+    bins[idx].count++;
+    bins[idx].confidenceSum += s.confidence;
+    bins[idx].hits += outcome;
+  }
+
+  const calibration: CalibrationBin[] = bins.map((b) => ({
+    lower: b.lower,
+    upper: b.upper,
+    count: b.count,
+    meanConfidence: b.count > 0 ? b.confidenceSum / b.count : 0,
+    accuracy: b.count > 0 ? b.hits / b.count : 0,
+  }));
+
+  const expectedCalibrationError = evaluated > 0
+    ? calibration.reduce((sum, b) => sum + (b.count / evaluated) * Math.abs(b.meanConfidence - b.accuracy), 0)
+    : 0;
+
+  return {
+    evaluated,
+    top1Hits,
+    top3Hits,
+    top1Accuracy: evaluated > 0 ? top1Hits / evaluated : 0,
+    top3Accuracy: evaluated > 0 ? top3Hits / evaluated : 0,
+    brierScore: evaluated > 0 ? brierSum / evaluated : 0,
+    expectedCalibrationError,
+    calibration,
+    steps,
+  };
+}
@@ -0,0 +1,448 @@
+// Request/response contracts for the edge functions the app calls directly.
+// The functions validate incoming bodies against these and the client
+// (src/lib/api.ts) validates both what it sends and what comes back, so a
+// change on one side that the other doesn't know about fails loudly instead of
+// rendering half a screen.
+
+import { z } from "zod";
+
+const latitude = z.number().min(-90).max(90);
+const longitude = z.number().min(-180).max(180);
+
+// Every failure, from every function (see http.ts)
+export const errorResponseSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.record(z.unknown()).optional(),
+  }),
+});
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+
+// === chat ===
+export const chatMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().min(1),
+});
+
+export const chatRequestSchema = z.object({
+  messages: z.array(chatMessageSchema).min(1).max(50),
+  stream: z.boolean().optional(),
+  userLocation: z.object({ latitude, longitude }).nullable().optional(),
+});
+
+export const chatResponseSchema = z.object({
+  message: z.string(),
+});
+
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+export type ChatResponse = z.infer<typeof chatResponseSchema>;
+
+// === nearby-places ===
+export const nearbyPlacesRequestSchema = z.object({ latitude, longitude });
+
+export const placeSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  category: z.string(),
+  latitude,
+  longitude,
+  rating: z.number(),
+  address: z.string().nullable(),
+});
+
+export const nearbyPlacesResponseSchema = z.object({
+  places: z.array(placeSchema),
+});
+
+export type NearbyPlacesRequest = z.infer<typeof nearbyPlacesRequestSchema>;
+export type Place = z.infer<typeof placeSchema>;
+export type NearbyPlacesResponse = z.infer<typeof nearbyPlacesResponseSchema>;
+
+// === predict-location ===
+export const predictLocationRequestSchema = z.object({
+  currentLabel: z.string().nullable().optional(),
+  latitude: latitude.nullable().optional(),
+  longitude: longitude.nullable().optional(),
+  hour: z.number().int().min(0).max(23).optional(),
+  day: z.number().int().min(0).max(6).optional(),
+});
+
+const timeWindowSchema = z.object({
+  earliest: z.string(),
+  typical: z.string(),
+  latest: z.string(),
+});
+
+export const tripTimingSchema = z.object({
+  departure: timeWindowSchema,
+  arrival: timeWindowSchema,
+  travelMinutes: z.object({ mean: z.number(), spread: z.number() }),
+  basedOn: z.number(),
+});
+
+export const alternativePredictionSchema = z.object({
+  label: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  confidence: z.number(),
+  reason: z.string(),
+  timing: tripTimingSchema.nullable().optional(),
+});
+
+export const touristSuggestionSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  category: z.string(),
+  latitude,
+  longitude,
+  rating: z.number(),
+  reason: z.string(),
+});
+
+export const insightsSchema = z.object({
+  weekdayPattern: z.array(z.object({ label: z.string(), count: z.number() })),
+  weekendPattern: z.array(z.object({ label: z.string(), count: z.number() })),
+  commonSequences: z.array(z.object({ sequence: z.string(), frequency: z.number() })),
+  topTransitions: z.array(z.object({ from: z.string(), to: z.string(), frequency: z.number() })),
+});
+
+export const predictionResultSchema = z.object({
+  mode: z.enum(["routine", "tourist"]),
+  prediction: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    confidence: z.number(),
+    label: z.string(),
+    method: z.string(),
+    basedOnDataPoints: z.number(),
+    timing: tripTimingSchema.nullable().optional(),
+    alternativePredictions: z.array(alternativePredictionSchema),
+  }),
+  touristSuggestions: z.array(touristSuggestionSchema).optional(),
+  context: z.object({
+    currentTime: z.string(),
+    isWeekday: z.boolean(),
+    currentLabel: z.string().nullable(),
+    timePeriod: z.string().optional(),
+    suggestionType: z.string().optional(),
+  }),
+  insights: insightsSchema,
+  stats: z.object({
+    totalDataPoints: z.number(),
+    labeledDataPoints: z.number(),
+    uniqueLabels: z.number(),
+    sequencesLearned: z.number(),
+  }),
+});
+
+// Error code when there isn't enough history to predict from
+export const NOT_ENOUGH_DATA = "not_enough_data";
+
+export type PredictLocationRequest = z.infer<typeof predictLocationRequestSchema>;
+export type TripTiming = z.infer<typeof tripTimingSchema>;
+export type AlternativePrediction = z.infer<typeof alternativePredictionSchema>;
+export type TouristSuggestion = z.infer<typeof touristSuggestionSchema>;
+export type PredictionResult = z.infer<typeof predictionResultSchema>;
+
+// === send-sos ===
+// Email format isn't enforced here: one bad address must not block the alert
+// to everyone else, and Resend rejects it per recipient anyway.
+export const sosContactSchema = z.object({
+  // emergency_contacts id, so the incident timeline can link back to it
+  id: z.string().uuid().optional(),
+  name: z.string(),
+  email: z.string().nullable().optional(),
+  phone: z.string().nullable().optional(),
+});
+
+export const sosChannelSchema = z.enum(["email", "sms", "whatsapp"]);
+
+// Email is sent by the function. SMS and WhatsApp are opened on the user's
+// device; they're sent here only to be recorded on the incident. Each contact
+// is reached on the one channel they prefer, out of those asked for.
+export const sendSosRequestSchema = z.object({
+  contacts: z.array(sosContactSchema).min(1, "No contacts provided"),
+  location: z.string(),
+  coordinates: z.object({ lat: latitude, lng: longitude }).nullable(),
+  accuracy: z.number().nonnegative().nullable().optional(),
+  channels: z.array(sosChannelSchema).min(1).default(["email"]),
+  source: z.enum(["button", "sos_page"]).default("sos_page"),
+  // Adds to an incident already under way instead of starting a new one
+  incidentId: z.string().uuid().nullable().optional(),
+});
+
+export const sendSosResponseSchema = z.object({
+  success: z.boolean(),
+  incidentId: z.string(),
+  // Token for the public live tracking page, null once it has expired
+  shareToken: z.string().nullable(),
+  // Each contact's ack link token by contact id, for the messages the
+  // device sends
+  ackTokens: z.record(z.string(), z.string()),
+  sent: z.number(),
+  total: z.number(),
+  results: z.array(z.object({
+    email: z.string(),
+    success: z.boolean(),
+    error: z.string().optional(),
+  })),
+});
+
+export type SosContact = z.infer<typeof sosContactSchema>;
+export type SosChannel = z.infer<typeof sosChannelSchema>;
+export type SendSosRequest = z.input<typeof sendSosRequestSchema>;
+export type SendSosResponse = z.infer<typeof sendSosResponseSchema>;
+
+// === sos-live ===
+// Public: whoever has the token can follow the incident, no account needed
+export const sosLiveRequestSchema = z.object({
+  token: z.string().min(16).max(128),
+});
+
+export const sosLiveResponseSchema = z.object({
+  // First name from the profile, when set
+  name: z.string().nullable(),
+  status: z.enum(["active", "acknowledged", "resolved", "false_alarm"]),
+  startedAt: z.string(),
+  resolvedAt: z.string().nullable(),
+  expiresAt: z.string(),
+  position: z.object({
+    latitude,
+    longitude,
+    accuracy: z.number().nullable(),
+    updatedAt: z.string(),
+  }).nullable(),
+  battery: z.object({
+    level: z.number(),
+    charging: z.boolean().nullable(),
+  }).nullable(),
+  // Tracked points since the SOS, oldest first
+  trail: z.array(z.object({ latitude, longitude, at: z.string() })),
+});
+
+export type SosLiveRequest = z.infer<typeof sosLiveRequestSchema>;
+export type SosLiveResponse = z.infer<typeof sosLiveResponseSchema>;
+
+// === escalate-sos ===
+export const escalateSosRequestSchema = z.object({
+  incidentId: z.string().uuid(),
+});
+
+export const escalateSosResponseSchema = z.object({
+  // "none" when nothing was due: acknowledged, closed, or not time yet
+  action: z.enum(["none", "resend", "next_tier", "emergency_services"]),
+  tier: z.number().nullable(),
+  nextEscalationAt: z.string().nullable(),
+  // Contacts who'd rather get SMS or WhatsApp; the user's device has to
+  // open those, with each contact's own ack link
+  deviceContacts: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    phone: z.string(),
+    channel: z.enum(["sms", "whatsapp"]),
+    ackToken: z.string(),
+  })),
+});
+
+export type EscalateSosRequest = z.infer<typeof escalateSosRequestSchema>;
+export type EscalateSosResponse = z.infer<typeof escalateSosResponseSchema>;
+
+// === sos-ack ===
+// Public: the token in a contact's ack link is their only credential
+export const acknowledgeSosRequestSchema = z.object({
+  token: z.string().min(16).max(128),
+  // Only looks the alert up; the contact hasn't pressed the button yet
+  peek: z.boolean().default(false),
+});
+
+export const acknowledgeSosResponseSchema = z.object({
+  // First name of whoever sent the SOS, when set
+  name: z.string().nullable(),
+  contactName: z.string(),
+  status: z.enum(["active", "acknowledged", "resolved", "false_alarm"]),
+  acknowledgedAt: z.string().nullable(),
+  startedAt: z.string(),
+  // For the live tracking page, null once it has expired
+  shareToken: z.string().nullable(),
+});
+
+export type AcknowledgeSosRequest = z.input<typeof acknowledgeSosRequestSchema>;
+export type AcknowledgeSosResponse = z.infer<typeof acknowledgeSosResponseSchema>;
+
+// === send-otp ===
+export const sendOtpRequestSchema = z.object({
+  email: z.string().email(),
+  otp: z.string().regex(/^\d{4,8}$/, "OTP must be 4-8 digits"),
+  type: z.enum(["signup", "login"]),
+});
+
+export const sendOtpResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+});
+
+export type SendOtpRequest = z.infer<typeof sendOtpRequestSchema>;
+export type SendOtpResponse = z.infer<typeof sendOtpResponseSchema>;
+
+// === check-routine ===
+export const checkRoutineRequestSchema = z.object({ latitude, longitude });
+
+const routineAlertKindSchema = z.enum(["unexpected_place", "unexpected_hour", "missed_arrival"]);
+
+export const routineAlertSchema = z.object({
+  id: z.string(),
+  kind: routineAlertKindSchema,
+  label: z.string().nullable(),
+  score: z.number(),
+  message: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  contacts_notified: z.number(),
+  acknowledged_at: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export const checkRoutineResponseSchema = z.object({
+  // Everything unusual about the position, whether or not it was raised
+  anomalies: z.array(z.object({
+    kind: routineAlertKindSchema,
+    score: z.number(),
+    label: z.string().nullable(),
+    message: z.string(),
+  })),
+  // Only the ones above the user's threshold and not raised recently
+  alerts: z.array(routineAlertSchema),
+});
+
+export type CheckRoutineRequest = z.infer<typeof checkRoutineRequestSchema>;
+export type RoutineAlert = z.infer<typeof routineAlertSchema>;
+export type CheckRoutineResponse = z.infer<typeof checkRoutineResponseSchema>;
+
+// === reconcile-predictions ===
+export const reconcilePredictionsRequestSchema = z.object({});
+
+const predictionMethodSchema = z.enum(["sequence", "transition", "time", "day", "tourist", "most_visited"]);
+
+const methodAccuracySchema = z.object({
+  hits: z.number(),
+  misses: z.number(),
+  hitRate: z.number(),
+});
+
+export const reconcilePredictionsResponseSchema = z.object({
+  reconciled: z.number(),
+  stillPending: z.number(),
+  overall: z.object({
+    hits: z.number(),
+    misses: z.number(),
+    // null until a prediction has been resolved
+    hitRate: z.number().nullable(),
+  }),
+  // Methods that never made a resolved prediction are left out
+  methodStats: z.record(predictionMethodSchema, methodAccuracySchema),
+});
+
+export type PredictionMethodKey = z.infer<typeof predictionMethodSchema>;
+export type MethodAccuracy = z.infer<typeof methodAccuracySchema>;
+export type ReconcilePredictionsResponse = z.infer<typeof reconcilePredictionsResponseSchema>;
+
+// === discover-places ===
+export const discoverPlacesRequestSchema = z.object({});
+
+export const discoveredPlaceSchema = z.object({
+  id: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  radius_m: z.number(),
+  visit_count: z.number(),
+  avg_dwell_minutes: z.number(),
+  total_dwell_minutes: z.number(),
+  label: z.string().nullable(),
+  dismissed: z.boolean(),
+});
+
+export const discoverPlacesResponseSchema = z.object({
+  places: z.array(discoveredPlaceSchema),
+  stats: z.object({
+    pointsAnalyzed: z.number(),
+    clustersFound: z.number(),
+    created: z.number(),
+    updated: z.number(),
+  }),
+});
+
+export type DiscoveredPlace = z.infer<typeof discoveredPlaceSchema>;
+export type DiscoverPlacesResponse = z.infer<typeof discoverPlacesResponseSchema>;
+
+// === manage-labels ===
+// Labels are stored lowercased and trimmed. A leading "~" marks a discovered
+// place the user hasn't named (see placeLabel), so users can't use one.
+const labelNameSchema = z.string().trim().toLowerCase()
+  .min(1, "Required")
+  .refine((label) => !label.startsWith("~"), 'Cannot start with "~"');
+
+export const manageLabelsRequestSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("list") }),
+  z.object({ action: z.literal("rename"), from: labelNameSchema, to: labelNameSchema }),
+  // The sources' old names stay on as aliases of `into`
+  z.object({ action: z.literal("merge"), sources: z.array(labelNameSchema).min(1, "Pick at least one label to merge"), into: labelNameSchema }),
+  z.object({ action: z.literal("alias"), label: labelNameSchema, alias: labelNameSchema }),
+  z.object({ action: z.literal("unalias"), label: labelNameSchema, alias: labelNameSchema }),
+  z.object({ action: z.literal("set_location"), label: labelNameSchema, latitude, longitude, radiusM: z.number().min(10).max(5000).default(100) }),
+  z.object({ action: z.literal("clear_location"), label: labelNameSchema }),
+  z.object({ action: z.literal("delete"), label: labelNameSchema }),
+]);
+
+export const managedLabelSchema = z.object({
+  name: z.string(),
+  visits: z.number(),
+  lastSeenAt: z.string().nullable(),
+  aliases: z.array(z.string()),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+  radiusM: z.number().nullable(),
+});
+
+export const listLabelsResponseSchema = z.object({ labels: z.array(managedLabelSchema) });
+// rename and merge: how many logs were moved
+export const foldLabelsResponseSchema = z.object({ success: z.literal(true), updated: z.number() });
+export const deleteLabelResponseSchema = z.object({ success: z.literal(true), deleted: z.number() });
+export const changeLabelResponseSchema = z.object({ success: z.literal(true) });
+
+export type ManageLabelsRequest = z.input<typeof manageLabelsRequestSchema>;
+export type ManagedLabel = z.infer<typeof managedLabelSchema>;
+
+// === segment-trips ===
+export const segmentTripsRequestSchema = z.object({});
+
+export const segmentTripsResponseSchema = z.object({
+  stats: z.object({
+    pointsAnalyzed: z.number(),
+    resumedFrom: z.string().nullable(),
+    stays: z.number(),
+    trips: z.number(),
+    // More points are waiting for another run
+    more: z.boolean(),
+  }),
+});
+
+export type SegmentationStats = z.infer<typeof segmentTripsResponseSchema>["stats"];
+
+// === helpers ===
+// One line per problem, e.g. "latitude: Expected number, received string"
+export function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+// For the functions: parses a request body, or explains why it doesn't fit.
+export function parseBody<T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown,
+): { data: z.infer<T>; error: null } | { data: null; error: string } {
+  const result = schema.safeParse(body);
+  return result.success ? { data: result.data, error: null } : { data: null, error: describeIssues(result.error) };
+}
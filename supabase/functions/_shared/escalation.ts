@@ -0,0 +1,43 @@
+// The SOS escalation ladder. Contacts are alerted a priority tier at a time,
+// lowest number first. While no one has acknowledged, each step either
+// re-sends to the current tier once, moves on to the next tier, or, with no
+// tiers left, hands over to the user to call emergency services.
+
+export type NotifyVia = "email" | "sms" | "whatsapp";
+
+export interface LadderContact {
+  priority: number;
+  notify_via: string;
+  email: string | null;
+  phone: string;
+}
+
+export type EscalationStep =
+  | { kind: "resend"; tier: number }
+  | { kind: "next_tier"; tier: number }
+  | { kind: "emergency_services" };
+
+// Email can only go where there's an address; everyone has a phone
+export function preferredChannel(contact: Pick<LadderContact, "notify_via" | "email">): NotifyVia {
+  if (contact.notify_via === "sms" || contact.notify_via === "whatsapp") return contact.notify_via;
+  return contact.email ? "email" : "sms";
+}
+
+export function contactTiers(contacts: Pick<LadderContact, "priority">[]): number[] {
+  return [...new Set(contacts.map((c) => c.priority))].sort((a, b) => a - b);
+}
+
+// The contacts alerted first
+export function firstTier<T extends Pick<LadderContact, "priority">>(contacts: T[]): T[] {
+  const [tier] = contactTiers(contacts);
+  return contacts.filter((c) => c.priority === tier);
+}
+
+export function nextEscalationStep(
+  state: { tier: number; resent: boolean },
+  contacts: Pick<LadderContact, "priority">[],
+): EscalationStep {
+  if (!state.resent && contacts.some((c) => c.priority === state.tier)) return { kind: "resend", tier: state.tier };
+  const next = contactTiers(contacts).find((tier) => tier > state.tier);
+  return next === undefined ? { kind: "emergency_services" } : { kind: "next_tier", tier: next };
+}
@@ -0,0 +1,161 @@
+// Geofence containment and entry/exit detection. A fence is a circle or a
+// polygon; the innermost fence containing a position is where the user is.
+// Leaving takes a small buffer past the edge so GPS jitter along the boundary
+// doesn't produce a stream of enter/exit pairs.
+
+import { haversineKm, normalizeLabel, type LocationLog } from "./prediction-engine.ts";
+
+export interface GeofencePoint {
+  lat: number;
+  lng: number;
+}
+
+export interface Geofence {
+  id: string;
+  name: string;
+  shape: "circle" | "polygon";
+  center_lat: number | null;
+  center_lng: number | null;
+  radius_m: number | null;
+  polygon: GeofencePoint[] | null;
+  enabled?: boolean;
+}
+
+export type GeofenceEventKind = "enter" | "exit";
+
+export interface GeofenceEvent {
+  geofence: Geofence;
+  event: GeofenceEventKind;
+}
+
+export const EXIT_BUFFER_M = 25;
+
+const M_PER_DEG_LAT = 111_320;
+
+// Local equirectangular projection in metres around `origin`; plenty accurate
+// at geofence scale.
+function project(p: GeofencePoint, origin: GeofencePoint): { x: number; y: number } {
+  return {
+    x: (p.lng - origin.lng) * M_PER_DEG_LAT * Math.cos((origin.lat * Math.PI) / 180),
+    y: (p.lat - origin.lat) * M_PER_DEG_LAT,
+  };
+}
+
+function insidePolygon(vertices: { x: number; y: number }[]): boolean {
+  // Ray cast from the origin (the tested point) along +x
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if ((a.y > 0) !== (b.y > 0) && 0 < ((b.x - a.x) * (0 - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+function distanceToPolygonEdge(vertices: { x: number; y: number }[]): number {
+  let best = Infinity;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[j];
+    const b = vertices[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lenSq)) : 0;
+    best = Math.min(best, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return best;
+}
+
+function isValid(fence: Geofence): boolean {
+  if (fence.enabled === false) return false;
+  if (fence.shape === "polygon") return (fence.polygon?.length ?? 0) >= 3;
+  return fence.center_lat != null && fence.center_lng != null && (fence.radius_m ?? 0) > 0;
+}
+
+// True when the point is inside the fence, or within `bufferM` of its edge.
+export function containsPoint(fence: Geofence, latitude: number, longitude: number, bufferM = 0): boolean {
+  if (!isValid(fence)) return false;
+  if (fence.shape === "circle") {
+    return haversineKm(latitude, longitude, fence.center_lat!, fence.center_lng!) * 1000 <= fence.radius_m! + bufferM;
+  }
+  const origin = { lat: latitude, lng: longitude };
+  const vertices = fence.polygon!.map((p) => project(p, origin));
+  return insidePolygon(vertices) || (bufferM > 0 && distanceToPolygonEdge(vertices) <= bufferM);
+}
+
+export function geofenceAreaM2(fence: Geofence): number {
+  if (fence.shape === "circle") return Math.PI * (fence.radius_m ?? 0) ** 2;
+  const polygon = fence.polygon || [];
+  if (polygon.length < 3) return 0;
+  const vertices = polygon.map((p) => project(p, polygon[0]));
+  let twiceArea = 0;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    twiceArea += vertices[j].x * vertices[i].y - vertices[i].x * vertices[j].y;
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+export function geofenceCenter(fence: Geofence): GeofencePoint | null {
+  if (fence.shape === "circle") {
+    return fence.center_lat != null && fence.center_lng != null ? { lat: fence.center_lat, lng: fence.center_lng } : null;
+  }
+  const polygon = fence.polygon || [];
+  if (polygon.length === 0) return null;
+  return {
+    lat: polygon.reduce((s, p) => s + p.lat, 0) / polygon.length,
+    lng: polygon.reduce((s, p) => s + p.lng, 0) / polygon.length,
+  };
+}
+
+// The innermost (smallest) fence containing the point, so a "desk" fence
+// inside an "office" fence wins.
+export function geofenceAt(fences: Geofence[], latitude: number, longitude: number): Geofence | null {
+  let best: Geofence | null = null;
+  let bestArea = Infinity;
+  for (const fence of fences) {
+    if (!containsPoint(fence, latitude, longitude)) continue;
+    const area = geofenceAreaM2(fence);
+    if (area < bestArea) {
+      best = fence;
+      bestArea = area;
+    }
+  }
+  return best;
+}
+
+// Steps the "which fence am I in" state machine with a new position. Stays in
+// the current fence until the point is more than `exitBufferM` outside it,
+// unless a smaller fence now contains the point.
+export function evaluateGeofences(
+  fences: Geofence[],
+  currentId: string | null,
+  latitude: number,
+  longitude: number,
+  exitBufferM = EXIT_BUFFER_M,
+): { current: Geofence | null; events: GeofenceEvent[] } {
+  const current = currentId ? fences.find((f) => f.id === currentId) ?? null : null;
+  const candidate = geofenceAt(fences, latitude, longitude);
+
+  if (current && containsPoint(current, latitude, longitude, exitBufferM)) {
+    const moveInward = candidate && candidate.id !== current.id && geofenceAreaM2(candidate) < geofenceAreaM2(current);
+    if (!moveInward) return { current, events: [] };
+  }
+
+  if (candidate?.id === current?.id) return { current: candidate, events: [] };
+
+  const events: GeofenceEvent[] = [];
+  if (current) events.push({ geofence: current, event: "exit" });
+  if (candidate) events.push({ geofence: candidate, event: "enter" });
+  return { current: candidate, events };
+}
+
+// Untagged logs inside a fence take the fence's name as their label.
+export function applyGeofenceLabels(logs: LocationLog[], fences: Geofence[]): LocationLog[] {
+  const active = fences.filter(isValid);
+  if (active.length === 0) return logs;
+  return logs.map((log) => {
+    if (log.label) return log;
+    const fence = geofenceAt(active, log.latitude, log.longitude);
+    return fence ? { ...log, label: normalizeLabel(fence.name) } : log;
+  });
+}
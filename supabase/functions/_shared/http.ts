@@ -0,0 +1,169 @@
+// Request handling shared by every edge function: CORS, caller
+// authentication, body validation, per-caller rate limits, and one error
+// envelope for every failure:
+//
+//   { "error": { "code": "rate_limited", "message": "...", "details": {...} } }
+//
+// A function is `serve(handler({ name, schema, rateLimit }, async (ctx) => ...))`
+// and returns plain data (sent as JSON) or a Response (e.g. a stream).
+
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { z } from "zod";
+import { parseBody } from "./contracts.ts";
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+export type ErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "payment_required"
+  | "not_found"
+  | "not_enough_data"
+  | "rate_limited"
+  | "upstream_error"
+  | "internal_error";
+
+const STATUS: Record<ErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  payment_required: 402,
+  not_found: 404,
+  not_enough_data: 422,
+  rate_limited: 429,
+  upstream_error: 502,
+  internal_error: 500,
+};
+
+export class HttpError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: Record<string, unknown>,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(message);
+  }
+
+  get status(): number {
+    return STATUS[this.code];
+  }
+}
+
+export function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+  });
+}
+
+function errorResponse(error: HttpError): Response {
+  return json(
+    { error: { code: error.code, message: error.message, ...(error.details ? { details: error.details } : {}) } },
+    error.status,
+    error.headers,
+  );
+}
+
+export interface RateLimit {
+  limit: number;
+  windowSeconds: number;
+}
+
+type Caller<A extends boolean> = A extends false ? null : User;
+
+export interface HandlerOptions<S extends z.ZodTypeAny, A extends boolean> {
+  // Used as the rate-limit bucket and in logs
+  name: string;
+  // Defaults to true. Public functions are rate limited per client IP instead.
+  auth?: A;
+  schema?: S;
+  rateLimit?: RateLimit;
+}
+
+export interface HandlerContext<T, A extends boolean> {
+  req: Request;
+  supabase: SupabaseClient;
+  user: Caller<A>;
+  body: T;
+}
+
+async function authenticate(req: Request, supabase: SupabaseClient): Promise<User> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) throw new HttpError("unauthorized", "No authorization header");
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) throw new HttpError("unauthorized", "Unauthorized");
+  return user;
+}
+
+function clientIp(req: Request): string {
+  return req.headers.get("x-forwarded-for")?.split(",")[0].trim() || req.headers.get("x-real-ip") || "unknown";
+}
+
+// Fixed-window counter in the database. Fails open: a broken limiter must not
+// take the function down with it.
+async function enforceRateLimit(supabase: SupabaseClient, bucket: string, key: string, { limit, windowSeconds }: RateLimit) {
+  const { data: hits, error } = await supabase.rpc("hit_rate_limit", {
+    p_key: key,
+    p_bucket: bucket,
+    p_window_seconds: windowSeconds,
+  });
+  if (error) {
+    console.error(`Rate limit check failed for ${bucket}:`, error);
+    return;
+  }
+  if (hits > limit) {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const retryAfter = windowSeconds - (nowSeconds % windowSeconds);
+    throw new HttpError(
+      "rate_limited",
+      "Too many requests. Please try again later.",
+      { limit, windowSeconds, retryAfter },
+      { "Retry-After": String(retryAfter) },
+    );
+  }
+}
+
+export function handler<S extends z.ZodTypeAny = z.ZodUnknown, A extends boolean = true>(
+  options: HandlerOptions<S, A>,
+  fn: (ctx: HandlerContext<z.infer<S>, A>) => Promise<unknown>,
+): (req: Request) => Promise<Response> {
+  return async (req) => {
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+
+      const user = options.auth === false ? null : await authenticate(req, supabase);
+
+      if (options.rateLimit) {
+        const key = user ? `user:${user.id}` : `ip:${clientIp(req)}`;
+        await enforceRateLimit(supabase, options.name, key, options.rateLimit);
+      }
+
+      let body: unknown = undefined;
+      if (options.schema) {
+        // A missing body is validated as {} so the error names the missing fields
+        const parsed = parseBody(options.schema, (await req.json().catch(() => null)) ?? {});
+        if (parsed.error !== null) throw new HttpError("invalid_request", parsed.error);
+        body = parsed.data;
+      }
+
+      const result = await fn({ req, supabase, user: user as Caller<A>, body });
+      return result instanceof Response ? result : json(result);
+    } catch (error) {
+      if (error instanceof HttpError) return errorResponse(error);
+      console.error(`${options.name} error:`, error);
+      return errorResponse(new HttpError("internal_error", error instanceof Error ? error.message : "Unknown error"));
+    }
+  };
+}
@@ -0,0 +1,149 @@
+// Variable-order Markov model over the sequence of visited places. The next
+// place is conditioned on the last few places plus the hour bucket and
+// weekday/weekend of departure; contexts that were rarely or never seen back
+// off to shorter ones with Witten-Bell smoothing, so the output is always a
+// proper probability distribution over known places.
+
+export interface MarkovVisit {
+  label: string;
+  // Local hour and weekday when the user was last seen at this place.
+  departHour: number;
+  departDay: number;
+  // Recency weight of arriving here (1 when decay is off).
+  weight: number;
+  // Tracking went quiet on the way here, so how the user got here is
+  // unknown: no transition leads into this visit and no history reaches
+  // back past it.
+  gapBefore?: boolean;
+}
+
+export interface MarkovQuery {
+  // Most recent place last; usually just the current place.
+  history: string[];
+  hour: number;
+  day: number;
+}
+
+export interface MarkovPrediction {
+  distribution: { label: string; probability: number }[];
+  // Longest place history that had been observed, 0 when none was.
+  order: number;
+  // Whether the hour bucket / day type was observed at the deepest level.
+  timeMatched: boolean;
+  dayTypeMatched: boolean;
+}
+
+interface ContextCounts {
+  total: number;
+  next: Record<string, number>;
+}
+
+export interface MarkovModel {
+  maxOrder: number;
+  vocabulary: string[];
+  contexts: Record<string, ContextCounts>;
+}
+
+export const HOUR_BUCKET_SIZE = 3;
+
+export function hourBucket(hour: number): number {
+  return Math.floor((((hour % 24) + 24) % 24) / HOUR_BUCKET_SIZE);
+}
+
+export function hourBucketLabel(hour: number): string {
+  const start = hourBucket(hour) * HOUR_BUCKET_SIZE;
+  return `${start}:00–${start + HOUR_BUCKET_SIZE}:00`;
+}
+
+function dayType(day: number): "weekday" | "weekend" {
+  return day >= 1 && day <= 5 ? "weekday" : "weekend";
+}
+
+function placeKey(history: string[]): string {
+  return history.join(" → ");
+}
+
+// Most specific first. Each place history is tried with the full time context,
+// then the day type alone, then with no time context.
+function contextChain(history: string[], hour: number, day: number, maxOrder: number): string[] {
+  const time = `${hourBucket(hour)}/${dayType(day)}`;
+  const chain: string[] = [];
+  for (let k = Math.min(maxOrder, history.length); k >= 0; k--) {
+    const places = placeKey(history.slice(history.length - k));
+    chain.push(`${places}|${time}`, `${places}|${dayType(day)}`, `${places}|`);
+  }
+  return chain;
+}
+
+export function buildMarkovModel(visits: MarkovVisit[], maxOrder = 3): MarkovModel {
+  const contexts: Record<string, ContextCounts> = {};
+  const vocabulary = new Set<string>();
+
+  for (const v of visits) vocabulary.add(v.label);
+
+  for (let i = 0; i < visits.length - 1; i++) {
+    const from = visits[i];
+    const next = visits[i + 1];
+    if (next.gapBefore) continue;
+    let start = Math.max(0, i - maxOrder + 1);
+    for (let j = i; j > start; j--) {
+      if (visits[j].gapBefore) {
+        start = j;
+        break;
+      }
+    }
+    const history = visits.slice(start, i + 1).map((v) => v.label);
+    for (const key of contextChain(history, from.departHour, from.departDay, maxOrder)) {
+      const c = contexts[key] ?? (contexts[key] = { total: 0, next: {} });
+      c.total += next.weight;
+      c.next[next.label] = (c.next[next.label] || 0) + next.weight;
+    }
+  }
+
+  return { maxOrder, vocabulary: [...vocabulary], contexts };
+}
+
+// Distribution over the next place. `exclude` (normally the current place) is
+// removed and the rest renormalized, since staying put is not a "next" place.
+export function predictNext(model: MarkovModel, query: MarkovQuery, exclude: string | null = null): MarkovPrediction {
+  const vocab = model.vocabulary.filter((l) => l !== exclude);
+  if (vocab.length === 0) return { distribution: [], order: 0, timeMatched: false, dayTypeMatched: false };
+
+  const history = query.history.slice(-model.maxOrder);
+  const chain = contextChain(history, query.hour, query.day, model.maxOrder);
+
+  // Start from a uniform distribution and interpolate from the coarsest
+  // context to the finest: P(w|h) = (c(h,w) + T(h)·P(w|h')) / (c(h) + T(h)),
+  // where T(h) is the number of distinct places seen after h.
+  let probs: Record<string, number> = Object.fromEntries(vocab.map((l) => [l, 1 / vocab.length]));
+  for (const key of [...chain].reverse()) {
+    const c = model.contexts[key];
+    if (!c) continue;
+    const seen = Object.entries(c.next).filter(([l]) => l !== exclude);
+    const total = seen.reduce((s, [, w]) => s + w, 0);
+    if (total <= 0) continue;
+    const types = seen.length;
+    const next: Record<string, number> = {};
+    for (const l of vocab) next[l] = ((c.next[l] || 0) + types * probs[l]) / (total + types);
+    probs = next;
+  }
+
+  let order = 0;
+  let timeMatched = false;
+  let dayTypeMatched = false;
+  for (const key of chain) {
+    if (!model.contexts[key]) continue;
+    const [places, time] = key.split("|");
+    order = places ? places.split(" → ").length : 0;
+    timeMatched = time.includes("/");
+    dayTypeMatched = time !== "";
+    break;
+  }
+
+  const sum = Object.values(probs).reduce((s, p) => s + p, 0);
+  const distribution = Object.entries(probs)
+    .map(([label, p]) => ({ label, probability: p / sum }))
+    .sort((a, b) => b.probability - a.probability);
+
+  return { distribution, order, timeMatched, dayTypeMatched };
+}
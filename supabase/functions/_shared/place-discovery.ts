@@ -0,0 +1,260 @@
+// Stay-point detection and density clustering over raw location_logs.
+// Turns the stream of unlabeled tracking points into "places" the user keeps
+// returning to, which then stand in for manual labels in the predictor.
+
+import { haversineKm, normalizeLabel, type LocationLog } from "./prediction-engine.ts";
+
+export interface StayPoint {
+  latitude: number;
+  longitude: number;
+  arrivedAt: string;
+  departedAt: string;
+  dwellMinutes: number;
+  pointCount: number;
+}
+
+export interface DiscoveredPlace {
+  latitude: number;
+  longitude: number;
+  radiusM: number;
+  visitCount: number;
+  totalDwellMinutes: number;
+  avgDwellMinutes: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  visits: StayPoint[];
+}
+
+// A stored place as the predictor sees it (a discovered_places row).
+export interface KnownPlace {
+  id: string;
+  latitude: number;
+  longitude: number;
+  radius_m: number;
+  label: string | null;
+}
+
+export interface StayPointOptions {
+  // Max distance from the stay's first point for later points to belong to it.
+  distanceThresholdM?: number;
+  // Minimum time spent within the threshold to count as a stay.
+  minDurationMin?: number;
+  // A gap longer than this between consecutive points ends the stay.
+  maxGapMin?: number;
+}
+
+export interface ClusterOptions {
+  // DBSCAN neighbourhood radius between stay points.
+  epsM?: number;
+  // Minimum stays (visits) for a cluster to count as a place.
+  minVisits?: number;
+  // Floor for the reported radius so single-spot places are still matchable.
+  minRadiusM?: number;
+}
+
+const toMs = (iso: string) => new Date(iso).getTime();
+
+const distanceM = (a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) =>
+  haversineKm(a.latitude, a.longitude, b.latitude, b.longitude) * 1000;
+
+// Classic anchor-based stay point detection: grow a window from point i while
+// points stay within distanceThresholdM of it, and emit a stay when the window
+// spans at least minDurationMin. Returns [start, end) index ranges into
+// `points`, which must already be sorted by time.
+export function stayWindows(points: LocationLog[], options: StayPointOptions = {}): [number, number][] {
+  const distanceThresholdM = options.distanceThresholdM ?? 100;
+  const minDurationMs = (options.minDurationMin ?? 10) * 60_000;
+  const maxGapMs = (options.maxGapMin ?? 60) * 60_000;
+  const windows: [number, number][] = [];
+
+  let i = 0;
+  while (i < points.length) {
+    let j = i + 1;
+    while (
+      j < points.length &&
+      distanceM(points[i], points[j]) <= distanceThresholdM &&
+      toMs(points[j].created_at) - toMs(points[j - 1].created_at) <= maxGapMs
+    ) {
+      j++;
+    }
+
+    if (toMs(points[j - 1].created_at) - toMs(points[i].created_at) >= minDurationMs) {
+      windows.push([i, j]);
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  return windows;
+}
+
+export function detectStayPoints(logs: LocationLog[], options: StayPointOptions = {}): StayPoint[] {
+  const points = [...logs].sort((a, b) => toMs(a.created_at) - toMs(b.created_at));
+  return stayWindows(points, options).map(([i, j]) => {
+    const window = points.slice(i, j);
+    const first = window[0];
+    const last = window[window.length - 1];
+    return {
+      latitude: window.reduce((s, p) => s + p.latitude, 0) / window.length,
+      longitude: window.reduce((s, p) => s + p.longitude, 0) / window.length,
+      arrivedAt: first.created_at,
+      departedAt: last.created_at,
+      dwellMinutes: Math.round((toMs(last.created_at) - toMs(first.created_at)) / 60_000),
+      pointCount: window.length,
+    };
+  });
+}
+
+// DBSCAN over stay points. Noise (stays that don't repeat) is dropped.
+export function clusterStayPoints(stays: StayPoint[], options: ClusterOptions = {}): DiscoveredPlace[] {
+  const epsM = options.epsM ?? 150;
+  const minVisits = options.minVisits ?? 2;
+  const minRadiusM = options.minRadiusM ?? 50;
+
+  const UNVISITED = -2;
+  const NOISE = -1;
+  const assignment = new Array<number>(stays.length).fill(UNVISITED);
+  const neighbours = (idx: number) =>
+    stays.reduce<number[]>((acc, s, k) => (distanceM(stays[idx], s) <= epsM ? [...acc, k] : acc), []);
+
+  let clusterId = 0;
+  for (let idx = 0; idx < stays.length; idx++) {
+    if (assignment[idx] !== UNVISITED) continue;
+    const seeds = neighbours(idx);
+    if (seeds.length < minVisits) {
+      assignment[idx] = NOISE;
+      continue;
+    }
+    assignment[idx] = clusterId;
+    const queue = seeds.filter((k) => k !== idx);
+    while (queue.length > 0) {
+      const k = queue.shift()!;
+      if (assignment[k] === NOISE) assignment[k] = clusterId;
+      if (assignment[k] !== UNVISITED) continue;
+      assignment[k] = clusterId;
+      const more = neighbours(k);
+      if (more.length >= minVisits) queue.push(...more);
+    }
+    clusterId++;
+  }
+
+  const places: DiscoveredPlace[] = [];
+  for (let c = 0; c < clusterId; c++) {
+    const visits = stays.filter((_, k) => assignment[k] === c);
+    // Weight the centroid by dwell so a long stay outweighs a brief stop nearby.
+    const weight = visits.reduce((s, v) => s + Math.max(1, v.dwellMinutes), 0);
+    const centroid = {
+      latitude: visits.reduce((s, v) => s + v.latitude * Math.max(1, v.dwellMinutes), 0) / weight,
+      longitude: visits.reduce((s, v) => s + v.longitude * Math.max(1, v.dwellMinutes), 0) / weight,
+    };
+    const totalDwellMinutes = visits.reduce((s, v) => s + v.dwellMinutes, 0);
+    const ordered = [...visits].sort((a, b) => toMs(a.arrivedAt) - toMs(b.arrivedAt));
+    places.push({
+      ...centroid,
+      radiusM: Math.max(minRadiusM, Math.round(Math.max(...visits.map((v) => distanceM(centroid, v))))),
+      visitCount: visits.length,
+      totalDwellMinutes,
+      avgDwellMinutes: Math.round(totalDwellMinutes / visits.length),
+      firstSeenAt: ordered[0].arrivedAt,
+      lastSeenAt: ordered[ordered.length - 1].departedAt,
+      visits: ordered,
+    });
+  }
+
+  return places.sort((a, b) => b.totalDwellMinutes - a.totalDwellMinutes);
+}
+
+export function discoverPlaces(
+  logs: LocationLog[],
+  options: { stay?: StayPointOptions; cluster?: ClusterOptions } = {},
+): DiscoveredPlace[] {
+  return clusterStayPoints(detectStayPoints(logs, options.stay), options.cluster);
+}
+
+// What a discovered_places row remembers about its visits
+export interface PlaceHistory {
+  visit_count: number;
+  total_dwell_minutes: number;
+  first_seen_at: string | null;
+  last_seen_at: string | null;
+}
+
+// A run only sees the latest logs, so a long-known place's history can't be
+// recomputed from its cluster. Visits after the stored last_seen_at are added
+// to it; one that was still going on at the last run adds only the time since.
+export function mergePlaceHistory(stored: PlaceHistory | null, cluster: DiscoveredPlace): PlaceHistory & { avg_dwell_minutes: number } {
+  const since = stored?.last_seen_at ? toMs(stored.last_seen_at) : -Infinity;
+  let visits = 0;
+  let dwell = 0;
+  for (const visit of cluster.visits) {
+    const departed = toMs(visit.departedAt);
+    if (departed <= since) continue;
+    if (toMs(visit.arrivedAt) > since) {
+      visits++;
+      dwell += visit.dwellMinutes;
+    } else {
+      dwell += Math.round((departed - since) / 60_000);
+    }
+  }
+
+  const visitCount = (stored?.visit_count ?? 0) + visits;
+  const totalDwellMinutes = (stored?.total_dwell_minutes ?? 0) + dwell;
+  const firstSeen = [stored?.first_seen_at, cluster.firstSeenAt].filter((t): t is string => !!t);
+  const lastSeen = [stored?.last_seen_at, cluster.lastSeenAt].filter((t): t is string => !!t);
+  return {
+    visit_count: visitCount,
+    total_dwell_minutes: totalDwellMinutes,
+    avg_dwell_minutes: visitCount > 0 ? Math.round(totalDwellMinutes / visitCount) : 0,
+    first_seen_at: firstSeen.reduce((a, b) => (toMs(b) < toMs(a) ? b : a)),
+    last_seen_at: lastSeen.reduce((a, b) => (toMs(b) > toMs(a) ? b : a)),
+  };
+}
+
+// Label used in the model for a place the user hasn't named yet. The "~" prefix
+// is what the Predictions page already treats as "no human-readable label".
+export function placeLabel(place: KnownPlace): string {
+  return place.label ? normalizeLabel(place.label) : `~${place.id.slice(0, 8)}`;
+}
+
+export function findPlaceAt<T extends KnownPlace>(places: T[], latitude: number, longitude: number): T | null {
+  let best: T | null = null;
+  let bestDist = Infinity;
+  for (const p of places) {
+    const d = distanceM({ latitude, longitude }, p);
+    if (d <= p.radius_m && d < bestDist) {
+      best = p;
+      bestDist = d;
+    }
+  }
+  return best;
+}
+
+// Fill in labels for unlabeled logs that fall inside a known place so clusters
+// act as labels for the transition and sequence models. Manual labels always
+// win. Consecutive auto-labeled points at the same place collapse into one
+// visit, otherwise every tracking tick would look like a fresh arrival.
+export function applyPlaceLabels(logs: LocationLog[], places: KnownPlace[]): LocationLog[] {
+  if (places.length === 0) return logs;
+
+  const result: LocationLog[] = [];
+  let previousLabel: string | null = null;
+  for (const log of logs) {
+    if (log.label) {
+      result.push(log);
+      previousLabel = normalizeLabel(log.label);
+      continue;
+    }
+    const place = findPlaceAt(places, log.latitude, log.longitude);
+    if (!place) {
+      result.push(log);
+      previousLabel = null;
+      continue;
+    }
+    const label = placeLabel(place);
+    if (label === previousLabel) continue;
+    result.push({ ...log, label });
+    previousLabel = label;
+  }
+  return result;
+}
@@ -0,0 +1,86 @@
+// User-managed label definitions: aliases that fold into one canonical label,
+// and an optional fixed coordinate and radius for the place. Applied to logs
+// before any model is built so "work" and "office" count as the same place.
+
+import { normalizeLabel, type LocationLog, type RoutineModelOptions } from "./prediction-engine.ts";
+import { applyPlaceLabels, type KnownPlace } from "./place-discovery.ts";
+import { applyGeofenceLabels, type Geofence } from "./geofence.ts";
+import { MAX_TRIP_GAP_MIN } from "./timeline.ts";
+
+export interface LabelDefinition {
+  id: string;
+  name: string;
+  aliases: string[];
+  latitude: number | null;
+  longitude: number | null;
+  radius_m: number | null;
+}
+
+const DEFAULT_RADIUS_M = 100;
+
+// alias → canonical name, both normalized. Canonical names map to themselves.
+export function buildAliasMap(defs: LabelDefinition[]): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const def of defs) {
+    const name = normalizeLabel(def.name);
+    map[name] = name;
+    for (const alias of def.aliases) {
+      const a = normalizeLabel(alias);
+      if (a && !(a in map)) map[a] = name;
+    }
+  }
+  return map;
+}
+
+export function resolveLabel(label: string, aliasMap: Record<string, string>): string {
+  const normalized = normalizeLabel(label);
+  return aliasMap[normalized] ?? normalized;
+}
+
+export function resolveAliases(logs: LocationLog[], defs: LabelDefinition[]): LocationLog[] {
+  if (defs.length === 0) return logs;
+  const aliasMap = buildAliasMap(defs);
+  return logs.map((log) => (log.label ? { ...log, label: resolveLabel(log.label, aliasMap) } : log));
+}
+
+// Labels with a fixed coordinate, for use as the place's position.
+export function labelAnchors(defs: LabelDefinition[]): Record<string, { lat: number; lng: number }> {
+  const anchors: Record<string, { lat: number; lng: number }> = {};
+  for (const def of defs) {
+    if (def.latitude == null || def.longitude == null) continue;
+    anchors[normalizeLabel(def.name)] = { lat: def.latitude, lng: def.longitude };
+  }
+  return anchors;
+}
+
+// Options every function building a routine model shares, so predictions and
+// anomaly checks judge the same routine.
+export function routineModelOptions(defs: LabelDefinition[], now: number): RoutineModelOptions {
+  return { now, anchors: labelAnchors(defs), maxGapMin: MAX_TRIP_GAP_MIN };
+}
+
+// Labels with a fixed coordinate also label untagged points inside their radius.
+export function anchoredPlaces(defs: LabelDefinition[]): KnownPlace[] {
+  return defs
+    .filter((d) => d.latitude != null && d.longitude != null)
+    .map((d) => ({
+      id: d.id,
+      latitude: d.latitude!,
+      longitude: d.longitude!,
+      radius_m: d.radius_m ?? DEFAULT_RADIUS_M,
+      label: normalizeLabel(d.name),
+    }));
+}
+
+// Raw logs → logs ready for modelling: untagged points inside a geofence or
+// known place get that place's label, then aliases are folded into their
+// canonical label.
+export function labelLogs(
+  logs: LocationLog[],
+  discovered: KnownPlace[],
+  defs: LabelDefinition[],
+  fences: Geofence[] = [],
+): LocationLog[] {
+  const fenced = applyGeofenceLabels(logs, fences);
+  return resolveAliases(applyPlaceLabels(fenced, [...anchoredPlaces(defs), ...discovered]), defs);
+}
@@ -0,0 +1,455 @@
+// Routine prediction engine shared by the predict-location function and the
+// backtest harness. Everything in here is pure: no I/O, no clock, no Deno APIs,
+// so it can be exercised directly from vitest.
+
+import { buildMarkovModel, hourBucketLabel, predictNext, type MarkovModel, type MarkovVisit } from "./markov.ts";
+import { zonedTime } from "./timezone.ts";
+
+export interface LocationLog {
+  latitude: number;
+  longitude: number;
+  hour: number;
+  day: number;
+  label: string | null;
+  created_at: string;
+}
+
+export type PredictionMethod = "sequence" | "transition" | "time" | "day" | "tourist" | "most_visited";
+
+export interface PredictionContext {
+  hour: number;
+  day: number;
+  currentLabel: string | null;
+  // IANA zone used to turn stored timestamps into local clock times.
+  timeZone?: string;
+  // Epoch ms the prediction is made at. Enables recency decay when set.
+  now?: number;
+  // Per-method sharpening exponents learned from how often each method came true.
+  methodWeights?: Partial<Record<PredictionMethod, number>>;
+}
+
+export interface PredictionCandidate {
+  label: string;
+  confidence: number;
+  method: string;
+  methodKey: PredictionMethod;
+  lat: number;
+  lng: number;
+}
+
+// `weight` is recency-weighted: each visit contributes 0.5^(age / half-life)
+// instead of 1. Plain `count`s are kept for display.
+export interface LabelPattern {
+  totalLat: number;
+  totalLng: number;
+  count: number;
+  weight: number;
+}
+
+export interface TransitionInfo {
+  count: number;
+  totalTimeDiff: number;
+  // Epoch ms at which the user was last seen at `from` before heading off.
+  departures: number[];
+  // Minutes from that departure until the arrival at `to` was logged.
+  travelMinutes: number[];
+}
+
+export interface SequencePattern {
+  sequence: string[];
+  count: number;
+}
+
+export interface RoutineModel {
+  labeledLogs: LocationLog[];
+  labelPatterns: Record<string, LabelPattern>;
+  transitions: Record<string, Record<string, TransitionInfo>>;
+  significantSequences: SequencePattern[];
+  markov: MarkovModel;
+  totalWeight: number;
+  anchors: Record<string, { lat: number; lng: number }>;
+}
+
+export interface RoutineModelOptions {
+  // Epoch ms that ages are measured from. Without it every visit weighs 1.
+  now?: number;
+  halfLifeDays?: number;
+  // Fixed coordinates for labels, overriding the average of their visits.
+  anchors?: Record<string, { lat: number; lng: number }>;
+  // Visits with a tracking gap longer than this between them aren't treated
+  // as one following the other. Unset links every pair of visits.
+  maxGapMin?: number;
+}
+
+export interface TimeWindow {
+  earliest: string;
+  typical: string;
+  latest: string;
+}
+
+export interface TripTiming {
+  departure: TimeWindow;
+  arrival: TimeWindow;
+  travelMinutes: { mean: number; spread: number };
+  basedOn: number;
+}
+
+export interface RoutineInsights {
+  weekdayPattern: { label: string; count: number }[];
+  weekendPattern: { label: string; count: number }[];
+  commonSequences: { sequence: string; frequency: number }[];
+  topTransitions: { from: string; to: string; frequency: number }[];
+}
+
+export const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function normalizeLabel(label: string): string {
+  return label.toLowerCase().trim();
+}
+
+export function isWeekdayIndex(day: number): boolean {
+  return day >= 1 && day <= 5;
+}
+
+// Unlabeled points this close to a labeled visit still count as being there
+const DEPARTURE_RADIUS_KM = 0.2;
+
+// A visit from a month ago counts half as much as one from today, so a new job
+// or a move takes over within weeks rather than months.
+export const DEFAULT_HALF_LIFE_DAYS = 30;
+
+export function recencyWeight(createdAt: string, now: number | undefined, halfLifeDays = DEFAULT_HALF_LIFE_DAYS): number {
+  if (now === undefined) return 1;
+  const ageDays = Math.max(0, (now - new Date(createdAt).getTime()) / 86_400_000);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+// Haversine distance in km
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Logs are expected in chronological order.
+export function buildRoutineModel(logs: LocationLog[], options: RoutineModelOptions = {}): RoutineModel {
+  const labeledLogs = logs.filter((l) => l.label);
+  const weights = labeledLogs.map((l) => recencyWeight(l.created_at, options.now, options.halfLifeDays));
+  const totalWeight = weights.reduce((s, w) => s + w, 0);
+
+  // When was the user last seen at each labeled visit? Tracking points near the
+  // visit extend it; without tracking this is just the time of the tag.
+  // gapAfter[i] marks that tracking went quiet for longer than maxGapMin
+  // somewhere between leaving visit i and reaching the next, so the two
+  // aren't known to follow one another.
+  const gapMs = options.maxGapMin !== undefined ? options.maxGapMin * 60_000 : Infinity;
+  const lastSeen: LocationLog[] = [];
+  const gapAfter: boolean[] = [];
+  let visitIdx = -1;
+  let prevAt: number | null = null;
+  for (const log of logs) {
+    const at = new Date(log.created_at).getTime();
+    const quiet = prevAt !== null && at - prevAt > gapMs;
+    prevAt = at;
+    if (log.label) {
+      if (visitIdx >= 0 && quiet) gapAfter[visitIdx] = true;
+      visitIdx++;
+      lastSeen[visitIdx] = log;
+      gapAfter[visitIdx] = false;
+    } else if (visitIdx >= 0) {
+      const visit = labeledLogs[visitIdx];
+      if (haversineKm(visit.latitude, visit.longitude, log.latitude, log.longitude) <= DEPARTURE_RADIUS_KM) {
+        lastSeen[visitIdx] = log;
+        gapAfter[visitIdx] = false;
+      } else if (quiet) {
+        gapAfter[visitIdx] = true;
+      }
+    }
+  }
+  const lastSeenAt = lastSeen.map((l) => new Date(l.created_at).getTime());
+  const arrivedAt = labeledLogs.map((l) => new Date(l.created_at).getTime());
+
+  // === Step 1: Build label patterns ===
+  const labelPatterns: Record<string, LabelPattern> = {};
+  labeledLogs.forEach((log, i) => {
+    const w = weights[i];
+    const lbl = normalizeLabel(log.label!);
+    if (!labelPatterns[lbl]) {
+      labelPatterns[lbl] = { totalLat: 0, totalLng: 0, count: 0, weight: 0 };
+    }
+    const p = labelPatterns[lbl];
+    p.totalLat += log.latitude * w;
+    p.totalLng += log.longitude * w;
+    p.count++;
+    p.weight += w;
+  });
+
+  // === Step 2: Build transitions ===
+  const transitions: Record<string, Record<string, TransitionInfo>> = {};
+  for (let i = 0; i < labeledLogs.length - 1; i++) {
+    const from = normalizeLabel(labeledLogs[i].label!);
+    const to = normalizeLabel(labeledLogs[i + 1].label!);
+    if (from === to || gapAfter[i]) continue;
+
+    if (!transitions[from]) transitions[from] = {};
+    if (!transitions[from][to]) {
+      transitions[from][to] = { count: 0, totalTimeDiff: 0, departures: [], travelMinutes: [] };
+    }
+    const t = transitions[from][to];
+    t.count++;
+    t.totalTimeDiff += arrivedAt[i + 1] - arrivedAt[i];
+    t.departures.push(lastSeenAt[i]);
+    t.travelMinutes.push(Math.max(0, (arrivedAt[i + 1] - lastSeenAt[i]) / 60_000));
+  }
+
+  // === Step 3: Build the next-place model ===
+  // Re-tags of the place you're already at extend that visit rather than
+  // starting a new one; the departure time comes from its last sighting.
+  const visits: MarkovVisit[] = [];
+  labeledLogs.forEach((log, i) => {
+    const lbl = normalizeLabel(log.label!);
+    const departure = lastSeen[i];
+    const prev = visits[visits.length - 1];
+    const gapBefore = i > 0 && gapAfter[i - 1];
+    if (prev && prev.label === lbl) {
+      prev.departHour = departure.hour;
+      prev.departDay = departure.day;
+    } else {
+      visits.push({ label: lbl, departHour: departure.hour, departDay: departure.day, weight: weights[i], gapBefore });
+    }
+  });
+  const markov = buildMarkovModel(visits);
+
+  // === Step 4: Build sequences (length 3-5) for insights ===
+  const sequenceCounts: Record<string, SequencePattern> = {};
+  for (let seqLen = 3; seqLen <= Math.min(5, labeledLogs.length); seqLen++) {
+    for (let i = 0; i <= labeledLogs.length - seqLen; i++) {
+      const seq = labeledLogs.slice(i, i + seqLen).map((l) => normalizeLabel(l.label!));
+      if (seq.some((s, idx) => idx > 0 && s === seq[idx - 1])) continue;
+      if (gapAfter.slice(i, i + seqLen - 1).some(Boolean)) continue;
+      const key = seq.join(" → ");
+      if (!sequenceCounts[key]) {
+        sequenceCounts[key] = { sequence: seq, count: 0 };
+      }
+      sequenceCounts[key].count++;
+    }
+  }
+
+  const significantSequences = Object.values(sequenceCounts).filter((s) => s.count >= 2);
+  significantSequences.sort((a, b) => b.count - a.count);
+
+  return { labeledLogs, labelPatterns, transitions, significantSequences, markov, totalWeight, anchors: options.anchors ?? {} };
+}
+
+export function getLabelCoords(model: RoutineModel, lbl: string): { lat: number; lng: number } {
+  if (model.anchors[lbl]) return model.anchors[lbl];
+  const p = model.labelPatterns[lbl];
+  return p && p.weight > 0 ? { lat: p.totalLat / p.weight, lng: p.totalLng / p.weight } : { lat: 0, lng: 0 };
+}
+
+// === Step 5: Generate predictions ===
+// One probability per known place, from the Markov model. The method key says
+// how much context backed the distribution: a multi-place sequence, just the
+// current place, only the time of day/week, or nothing but overall frequency.
+export function scoreCandidates(model: RoutineModel, ctx: PredictionContext): PredictionCandidate[] {
+  const normalizedCurrent = ctx.currentLabel ? normalizeLabel(ctx.currentLabel) || null : null;
+  const isWeekday = isWeekdayIndex(ctx.day);
+  const history = normalizedCurrent ? recentHistory(model, normalizedCurrent) : [];
+  const prediction = predictNext(model.markov, { history, hour: ctx.hour, day: ctx.day }, normalizedCurrent);
+
+  const when = `${DAY_NAMES[ctx.day]} ${hourBucketLabel(ctx.hour)}`;
+  let methodKey: PredictionMethod;
+  let method: string;
+  if (prediction.order >= 2) {
+    methodKey = "sequence";
+    method = `Sequence: ${history.slice(-prediction.order).join(" → ")} → ?`;
+  } else if (prediction.order === 1) {
+    methodKey = "transition";
+    method = `Transition from ${normalizedCurrent}`;
+  } else if (prediction.timeMatched) {
+    methodKey = "time";
+    method = `Time pattern: ${when}`;
+  } else if (prediction.dayTypeMatched) {
+    methodKey = "day";
+    method = `Day pattern: ${isWeekday ? "Weekday" : "Weekend"} routine`;
+  } else {
+    methodKey = "most_visited";
+    method = "Most visited locations";
+  }
+  if (prediction.timeMatched && prediction.order > 0) method += ` (${when})`;
+
+  const candidates = prediction.distribution.map(({ label, probability }) => {
+    const coords = getLabelCoords(model, label);
+    return { label, confidence: probability, method, methodKey, lat: coords.lat, lng: coords.lng };
+  });
+
+  // A method that has been coming true sharpens its distribution (exponent
+  // above 1), an unreliable one flattens it. It still sums to 1 either way.
+  const exponent = ctx.methodWeights?.[methodKey] ?? 1;
+  if (exponent === 1 || candidates.length === 0) return candidates;
+  const tempered = candidates.map((c) => Math.pow(c.confidence, exponent));
+  const sum = tempered.reduce((s, p) => s + p, 0);
+  return candidates.map((c, i) => ({ ...c, confidence: tempered[i] / sum }));
+}
+
+// The places visited just before (and including) the current one, so the
+// model can condition on more than the last stop. Falls back to just the
+// current place when the latest visit was somewhere else.
+function recentHistory(model: RoutineModel, current: string): string[] {
+  const labels: string[] = [];
+  for (let i = model.labeledLogs.length - 1; i >= 0 && labels.length < model.markov.maxOrder; i--) {
+    const lbl = normalizeLabel(model.labeledLogs[i].label!);
+    if (labels[0] !== lbl) labels.unshift(lbl);
+  }
+  return labels[labels.length - 1] === current ? labels : [current];
+}
+
+// === Step 6: Rank and deduplicate ===
+export function rankCandidates(candidates: PredictionCandidate[]): PredictionCandidate[] {
+  const bestByLabel: Record<string, PredictionCandidate> = {};
+  for (const c of candidates) {
+    if (!bestByLabel[c.label] || c.confidence > bestByLabel[c.label].confidence) {
+      bestByLabel[c.label] = c;
+    }
+  }
+  return Object.values(bestByLabel).sort((a, b) => b.confidence - a.confidence);
+}
+
+// Ranked predictions for a model, falling back to the most visited label when
+// no method produced a candidate. Empty only when there are no labeled logs.
+export function predictFromModel(model: RoutineModel, ctx: PredictionContext): PredictionCandidate[] {
+  const ranked = rankCandidates(scoreCandidates(model, ctx));
+
+  if (ranked.length === 0 && model.labeledLogs.length > 0) {
+    let maxLbl = "";
+    let maxWeight = 0;
+    for (const [lbl, p] of Object.entries(model.labelPatterns)) {
+      if (p.weight > maxWeight) { maxWeight = p.weight; maxLbl = lbl; }
+    }
+    const coords = getLabelCoords(model, maxLbl);
+    ranked.push({ label: maxLbl, confidence: Math.min(0.5, maxWeight / model.totalWeight), method: "Most visited location", methodKey: "most_visited", lat: coords.lat, lng: coords.lng });
+  }
+
+  return ranked;
+}
+
+export function predictNextLocations(logs: LocationLog[], ctx: PredictionContext): PredictionCandidate[] {
+  return predictFromModel(buildRoutineModel(logs, { now: ctx.now }), ctx);
+}
+
+export function buildInsights(model: RoutineModel): RoutineInsights {
+  // Raw visit counts: these are shown to the user as "N×", not used for scoring.
+  const weekdayCounts: Record<string, number> = {};
+  const weekendCounts: Record<string, number> = {};
+  for (const log of model.labeledLogs) {
+    const counts = isWeekdayIndex(log.day) ? weekdayCounts : weekendCounts;
+    const lbl = normalizeLabel(log.label!);
+    counts[lbl] = (counts[lbl] || 0) + 1;
+  }
+  const toPattern = (counts: Record<string, number>) =>
+    Object.entries(counts).map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count);
+  const weekdayPattern = toPattern(weekdayCounts);
+  const weekendPattern = toPattern(weekendCounts);
+
+  const topTransitions: { from: string; to: string; frequency: number }[] = [];
+  for (const [from, tos] of Object.entries(model.transitions)) {
+    for (const [to, info] of Object.entries(tos)) {
+      topTransitions.push({ from, to, frequency: info.count });
+    }
+  }
+  topTransitions.sort((a, b) => b.frequency - a.frequency);
+
+  const commonSequences = model.significantSequences.slice(0, 5).map((s) => ({
+    sequence: s.sequence.join(" → "),
+    frequency: s.count,
+  }));
+
+  return {
+    weekdayPattern: weekdayPattern.slice(0, 5),
+    weekendPattern: weekendPattern.slice(0, 5),
+    commonSequences,
+    topTransitions: topTransitions.slice(0, 5),
+  };
+}
+
+// === Timing: when will the user leave, and when will they get there? ===
+
+const MINUTES_PER_DAY = 1440;
+
+function localMinuteOfDay(epochMs: number, timeZone: string | undefined): number {
+  const { hour, minute } = zonedTime(epochMs, timeZone);
+  return hour * 60 + minute;
+}
+
+function formatClock(minuteOfDay: number): string {
+  const m = ((Math.round(minuteOfDay) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+// Clock times wrap at midnight, so unwrap them around their circular mean
+// before taking quantiles (23:50 and 00:10 are 20 minutes apart, not 23h40).
+export function clockWindow(minutes: number[]): { earliest: number; typical: number; latest: number } {
+  const angles = minutes.map((m) => (m / MINUTES_PER_DAY) * 2 * Math.PI);
+  const meanAngle = Math.atan2(
+    angles.reduce((s, a) => s + Math.sin(a), 0),
+    angles.reduce((s, a) => s + Math.cos(a), 0),
+  );
+  const pivot = (meanAngle / (2 * Math.PI)) * MINUTES_PER_DAY;
+  const unwrapped = minutes
+    .map((m) => {
+      let d = m - pivot;
+      while (d > MINUTES_PER_DAY / 2) d -= MINUTES_PER_DAY;
+      while (d < -MINUTES_PER_DAY / 2) d += MINUTES_PER_DAY;
+      return pivot + d;
+    })
+    .sort((a, b) => a - b);
+  return { earliest: quantile(unwrapped, 0.25), typical: quantile(unwrapped, 0.5), latest: quantile(unwrapped, 0.75) };
+}
+
+// Departure window from `from` and arrival estimate at `to`, from the observed
+// from → to trips. Falls back to all departures from `from` for the window when
+// this particular trip is rare. Null when there is no trip to learn from.
+export function estimateTiming(model: RoutineModel, from: string, to: string, ctx: PredictionContext): TripTiming | null {
+  const fromTransitions = model.transitions[normalizeLabel(from)];
+  const info = fromTransitions?.[normalizeLabel(to)];
+  if (!info || info.travelMinutes.length === 0) return null;
+
+  const departureSource = info.departures.length >= 2
+    ? info.departures
+    : Object.values(fromTransitions).flatMap((t) => t.departures);
+  const departure = clockWindow(departureSource.map((ms) => localMinuteOfDay(ms, ctx.timeZone)));
+
+  const travel = info.travelMinutes;
+  const mean = travel.reduce((s, m) => s + m, 0) / travel.length;
+  const spread = Math.sqrt(travel.reduce((s, m) => s + (m - mean) ** 2, 0) / travel.length);
+  const travelTypical = quantile([...travel].sort((a, b) => a - b), 0.5);
+
+  // Arrival uncertainty combines the departure window and the travel spread.
+  const departureHalfWidth = (departure.latest - departure.earliest) / 2;
+  const arrivalHalfWidth = Math.sqrt(departureHalfWidth ** 2 + spread ** 2);
+  const arrivalTypical = departure.typical + travelTypical;
+
+  return {
+    departure: {
+      earliest: formatClock(departure.earliest),
+      typical: formatClock(departure.typical),
+      latest: formatClock(departure.latest),
+    },
+    arrival: {
+      earliest: formatClock(arrivalTypical - arrivalHalfWidth),
+      typical: formatClock(arrivalTypical),
+      latest: formatClock(arrivalTypical + arrivalHalfWidth),
+    },
+    travelMinutes: { mean: Math.round(mean), spread: Math.round(spread) },
+    basedOn: travel.length,
+  };
+}
@@ -0,0 +1,123 @@
+// Checks stored predictions against what the user actually did next and turns
+// the outcomes into per-method hit rates and ranking weights.
+
+import { haversineKm, normalizeLabel, type LocationLog, type PredictionMethod } from "./prediction-engine.ts";
+
+export type PredictionOutcome = "pending" | "hit" | "miss" | "expired";
+
+export interface StoredPrediction {
+  id: string;
+  label: string | null;
+  predicted_lat: number;
+  predicted_lng: number;
+  prediction_timestamp: string;
+  method_key: PredictionMethod | null;
+  outcome: PredictionOutcome;
+}
+
+export interface ReconcileOptions {
+  // How long after the prediction we look for the predicted visit.
+  windowHours?: number;
+  // A point this close to the predicted coordinates counts as a hit.
+  matchRadiusM?: number;
+}
+
+export interface Reconciliation {
+  outcome: PredictionOutcome;
+  actual_label: string | null;
+  actual_lat: number | null;
+  actual_lng: number | null;
+  resolved_at: string | null;
+}
+
+export interface MethodAccuracy {
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+// `logs` must be chronological; only those inside the window are considered.
+export function reconcilePrediction(
+  prediction: StoredPrediction,
+  logs: LocationLog[],
+  now: Date,
+  options: ReconcileOptions = {},
+): Reconciliation {
+  const windowMs = (options.windowHours ?? 6) * 3_600_000;
+  const matchRadiusKm = (options.matchRadiusM ?? 300) / 1000;
+  const start = new Date(prediction.prediction_timestamp).getTime();
+  const end = start + windowMs;
+  const predictedLabel = prediction.label ? normalizeLabel(prediction.label) : null;
+
+  const inWindow = logs.filter((l) => {
+    const t = new Date(l.created_at).getTime();
+    return t > start && t <= end;
+  });
+
+  const hit = inWindow.find((l) =>
+    (predictedLabel && l.label && normalizeLabel(l.label) === predictedLabel) ||
+    haversineKm(prediction.predicted_lat, prediction.predicted_lng, l.latitude, l.longitude) <= matchRadiusKm
+  );
+
+  if (hit) {
+    return {
+      outcome: "hit",
+      actual_label: hit.label ? normalizeLabel(hit.label) : null,
+      actual_lat: hit.latitude,
+      actual_lng: hit.longitude,
+      resolved_at: hit.created_at,
+    };
+  }
+
+  // Still inside the window: the user may yet get there.
+  if (now.getTime() < end) {
+    return { outcome: "pending", actual_label: null, actual_lat: null, actual_lng: null, resolved_at: null };
+  }
+
+  // Window closed without any data: we can't say either way.
+  if (inWindow.length === 0) {
+    return { outcome: "expired", actual_label: null, actual_lat: null, actual_lng: null, resolved_at: new Date(end).toISOString() };
+  }
+
+  // Report where they went instead, preferring a labeled visit.
+  const actual = inWindow.find((l) => l.label) ?? inWindow[inWindow.length - 1];
+  return {
+    outcome: "miss",
+    actual_label: actual.label ? normalizeLabel(actual.label) : null,
+    actual_lat: actual.latitude,
+    actual_lng: actual.longitude,
+    resolved_at: actual.created_at,
+  };
+}
+
+export function summarizeMethodAccuracy(
+  predictions: Pick<StoredPrediction, "method_key" | "outcome">[],
+): Partial<Record<PredictionMethod, MethodAccuracy>> {
+  const stats: Partial<Record<PredictionMethod, MethodAccuracy>> = {};
+  for (const p of predictions) {
+    if (!p.method_key || (p.outcome !== "hit" && p.outcome !== "miss")) continue;
+    const s = stats[p.method_key] ?? (stats[p.method_key] = { hits: 0, misses: 0, hitRate: 0 });
+    if (p.outcome === "hit") s.hits++;
+    else s.misses++;
+    s.hitRate = s.hits / (s.hits + s.misses);
+  }
+  return stats;
+}
+
+// Turn hit rates into weights around 1, used as sharpening exponents on each
+// method's distribution. Rates are shrunk towards 50% with a Beta(2, 2) prior
+// so a couple of lucky guesses don't swing the ranking, and the weight is
+// clamped to [0.5, 1.5].
+export function methodWeightsFromAccuracy(
+  stats: Partial<Record<PredictionMethod, MethodAccuracy>>,
+  minSamples = 5,
+): Partial<Record<PredictionMethod, number>> {
+  const weights: Partial<Record<PredictionMethod, number>> = {};
+  for (const [method, s] of Object.entries(stats) as [PredictionMethod, MethodAccuracy][]) {
+    const total = s.hits + s.misses;
+    if (total < minSamples) continue;
+    const smoothed = (s.hits + 2) / (total + 4);
+    weights[method] = Math.min(1.5, Math.max(0.5, smoothed / 0.5));
+  }
+  return weights;
+}
@@ -0,0 +1,195 @@
+// Scores a tracked position against the learned routine: somewhere the user
+// never goes, a known place at an hour they're never there, or a regular
+// arrival (usually "home in the evening") that hasn't happened yet. Pure, like
+// the prediction engine it builds on.
+
+import {
+  clockWindow,
+  getLabelCoords,
+  haversineKm,
+  isWeekdayIndex,
+  normalizeLabel,
+  type LocationLog,
+  type RoutineModel,
+} from "./prediction-engine.ts";
+import { hourBucket, hourBucketLabel } from "./markov.ts";
+import { zonedTime } from "./timezone.ts";
+
+export type AnomalyKind = "unexpected_place" | "unexpected_hour" | "missed_arrival";
+
+export interface RoutineAnomaly {
+  kind: AnomalyKind;
+  // 0..1; compared against the user's alert threshold.
+  score: number;
+  // The place involved: where they are, or where they were expected.
+  label: string | null;
+  message: string;
+}
+
+export interface TrackedPosition {
+  latitude: number;
+  longitude: number;
+}
+
+export interface AnomalyOptions {
+  timeZone?: string;
+  // A position this close to a known place counts as being there.
+  placeRadiusKm?: number;
+  // Minutes spent at an unknown spot before it counts as a stop.
+  minDwellMinutes?: number;
+  // How late past the usual latest arrival before it is flagged.
+  graceMinutes?: number;
+}
+
+const MINUTES_PER_DAY = 1440;
+
+function formatClock(minuteOfDay: number): string {
+  const m = ((Math.round(minuteOfDay) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+// Signed minutes from `b` to `a` on the clock, in (-720, 720].
+function clockDiff(a: number, b: number): number {
+  let d = (a - b) % MINUTES_PER_DAY;
+  if (d > MINUTES_PER_DAY / 2) d -= MINUTES_PER_DAY;
+  if (d <= -MINUTES_PER_DAY / 2) d += MINUTES_PER_DAY;
+  return d;
+}
+
+function nearestPlace(model: RoutineModel, pos: TrackedPosition): { label: string; distanceKm: number } | null {
+  let best: { label: string; distanceKm: number } | null = null;
+  for (const label of Object.keys(model.labelPatterns)) {
+    const c = getLabelCoords(model, label);
+    const distanceKm = haversineKm(pos.latitude, pos.longitude, c.lat, c.lng);
+    if (!best || distanceKm < best.distanceKm) best = { label, distanceKm };
+  }
+  return best;
+}
+
+// How long the user has been within 150 m of `pos`, going back through the logs.
+function dwellMinutes(logs: LocationLog[], pos: TrackedPosition, now: number): number {
+  let since = now;
+  for (let i = logs.length - 1; i >= 0; i--) {
+    const l = logs[i];
+    if (haversineKm(pos.latitude, pos.longitude, l.latitude, l.longitude) > 0.15) break;
+    since = new Date(l.created_at).getTime();
+  }
+  return (now - since) / 60_000;
+}
+
+// Labeled visits per place for each (weekday/weekend, hour bucket) slot.
+function presenceBySlot(model: RoutineModel): Record<string, Record<string, number>> {
+  const slots: Record<string, Record<string, number>> = {};
+  for (const log of model.labeledLogs) {
+    const key = `${isWeekdayIndex(log.day)}-${hourBucket(log.hour)}`;
+    const slot = slots[key] ?? (slots[key] = {});
+    const lbl = normalizeLabel(log.label!);
+    slot[lbl] = (slot[lbl] || 0) + 1;
+  }
+  return slots;
+}
+
+export function detectAnomalies(
+  model: RoutineModel,
+  logs: LocationLog[],
+  pos: TrackedPosition,
+  now: number,
+  options: AnomalyOptions = {},
+): RoutineAnomaly[] {
+  const placeRadiusKm = options.placeRadiusKm ?? 0.3;
+  const minDwell = options.minDwellMinutes ?? 20;
+  const grace = options.graceMinutes ?? 45;
+  const local = zonedTime(now, options.timeZone);
+  const weekday = isWeekdayIndex(local.day);
+  const anomalies: RoutineAnomaly[] = [];
+
+  // Little history means little idea of what "normal" is.
+  const familiarity = Math.min(1, model.labeledLogs.length / 20);
+  if (familiarity === 0) return anomalies;
+
+  const nearest = nearestPlace(model, pos);
+  const here = nearest && nearest.distanceKm <= placeRadiusKm ? nearest.label : null;
+
+  // === Unexpected place: stopped somewhere that isn't one of their places ===
+  if (!here && dwellMinutes(logs, pos, now) >= minDwell) {
+    const distanceKm = nearest?.distanceKm ?? Infinity;
+    const remoteness = Math.min(1, distanceKm / 5);
+    anomalies.push({
+      kind: "unexpected_place",
+      score: familiarity * (0.5 + 0.5 * remoteness),
+      label: null,
+      message: nearest
+        ? `Stopped at an unfamiliar place ${distanceKm.toFixed(1)} km from ${nearest.label}`
+        : "Stopped at an unfamiliar place",
+    });
+  }
+
+  // === Unexpected hour: at a known place, but never at this time ===
+  if (here) {
+    const slot = presenceBySlot(model)[`${weekday}-${hourBucket(local.hour)}`] || {};
+    const slotTotal = Object.values(slot).reduce((s, c) => s + c, 0);
+    if (slotTotal > 0) {
+      const labels = Object.keys(model.labelPatterns).length;
+      const p = ((slot[here] || 0) + 0.5) / (slotTotal + 0.5 * labels);
+      const pTop = (Math.max(...Object.values(slot)) + 0.5) / (slotTotal + 0.5 * labels);
+      const score = familiarity * Math.min(1, slotTotal / 10) * (1 - p / pTop);
+      if (score > 0) {
+        anomalies.push({
+          kind: "unexpected_hour",
+          score,
+          label: here,
+          message: `At ${here} at an unusual time (${weekday ? "weekday" : "weekend"} ${hourBucketLabel(local.hour)})`,
+        });
+      }
+    }
+  }
+
+  // === Missed arrival: a place they reach on most days, not reached yet ===
+  // Look at the last arrival of each day, per place, on days like today. An
+  // arrival is the first log of a run at the place; the points tracked while
+  // the user stays there don't move it.
+  const nowMinute = local.hour * 60 + local.minute;
+  const arrivals: Record<string, Record<string, number>> = {};
+  const daysSeen = new Set<string>();
+  let previous: { label: string; date: string } | null = null;
+  for (const log of model.labeledLogs) {
+    const t = zonedTime(new Date(log.created_at).getTime(), options.timeZone);
+    const lbl = normalizeLabel(log.label!);
+    const arrived = !previous || previous.label !== lbl || previous.date !== t.date;
+    previous = { label: lbl, date: t.date };
+    if (isWeekdayIndex(t.day) !== weekday || t.date === local.date) continue;
+    daysSeen.add(t.date);
+    if (arrived) (arrivals[lbl] ?? (arrivals[lbl] = {}))[t.date] = t.hour * 60 + t.minute;
+  }
+
+  for (const [label, byDate] of Object.entries(arrivals)) {
+    if (label === here) continue;
+    const minutes = Object.values(byDate);
+    if (minutes.length < 4) continue;
+    const regularity = minutes.length / daysSeen.size;
+    if (regularity < 0.6) continue;
+
+    const window = clockWindow(minutes);
+    const overdue = clockDiff(nowMinute, window.latest);
+    // Give up after six hours: by then it's a different part of the day.
+    if (overdue < grace || overdue > 360) continue;
+
+    // Already there earlier in this part of today?
+    const start = window.earliest - 180;
+    const arrivedToday = logs.some((l) => {
+      if (!l.label || normalizeLabel(l.label) !== label) return false;
+      const t = zonedTime(new Date(l.created_at).getTime(), options.timeZone);
+      return t.date === local.date && clockDiff(t.hour * 60 + t.minute, start) >= 0;
+    });
+    if (arrivedToday) continue;
+
+    anomalies.push({
+      kind: "missed_arrival",
+      score: familiarity * regularity * Math.min(1, overdue / (2 * grace)),
+      label,
+      message: `Hasn't arrived at ${label} yet (usually by ${formatClock(window.typical)}, latest ${formatClock(window.latest)})`,
+    });
+  }
+
+  return anomalies.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,369 @@
+// Pieces send-sos, escalate-sos and escalate-sos-sweep share: link tokens,
+// the links contacts get, the alert email itself, and one step of the
+// escalation ladder.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { EscalateSosResponse } from "./contracts.ts";
+import { nextEscalationStep, preferredChannel } from "./escalation.ts";
+
+// How long the live tracking link keeps working
+export const SHARE_HOURS = 24;
+
+// 32 random bytes, URL-safe
+export function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Where the app is served, for links in alerts. Falls back to the caller's
+// origin; empty when neither is known.
+export function siteUrl(req: Request): string {
+  return (Deno.env.get("PUBLIC_SITE_URL") || req.headers.get("origin") || "").replace(/\/$/, "");
+}
+
+// The incident's share token, unless it has expired
+export function liveToken(incident: { share_token: string | null; share_expires_at: string | null }): string | null {
+  return incident.share_token && incident.share_expires_at && new Date(incident.share_expires_at).getTime() > Date.now()
+    ? incident.share_token
+    : null;
+}
+
+// Ack link tokens by contact id, creating them for contacts alerted for the
+// first time. Contacts alerted again keep their token.
+export async function ackTokens(
+  supabase: SupabaseClient,
+  incidentId: string,
+  userId: string,
+  contacts: { id: string; name: string; priority: number }[],
+): Promise<Map<string, string>> {
+  const tokens = new Map<string, string>();
+  if (contacts.length === 0) return tokens;
+
+  const { data: existing, error } = await supabase
+    .from("sos_incident_contacts")
+    .select("contact_id, ack_token")
+    .eq("incident_id", incidentId)
+    .in("contact_id", contacts.map((c) => c.id));
+  if (error) throw new Error(`Failed to load SOS contacts: ${error.message}`);
+  for (const row of existing || []) tokens.set(row.contact_id, row.ack_token);
+
+  const now = new Date().toISOString();
+  if (tokens.size > 0) {
+    await supabase
+      .from("sos_incident_contacts")
+      .update({ alerted_at: now })
+      .eq("incident_id", incidentId)
+      .in("contact_id", [...tokens.keys()]);
+  }
+
+  const fresh = contacts
+    .filter((c) => !tokens.has(c.id))
+    .map((c) => ({
+      incident_id: incidentId,
+      user_id: userId,
+      contact_id: c.id,
+      contact_name: c.name,
+      priority: c.priority,
+      ack_token: randomToken(),
+      alerted_at: now,
+    }));
+  if (fresh.length > 0) {
+    const { error: insertError } = await supabase.from("sos_incident_contacts").insert(fresh);
+    if (insertError) throw new Error(`Failed to record SOS contacts: ${insertError.message}`);
+    for (const row of fresh) tokens.set(row.contact_id, row.ack_token);
+  }
+  return tokens;
+}
+
+export interface SosEmail {
+  to: string;
+  name: string;
+  coordinates: { lat: number; lng: number } | null;
+  // Static map link, used when there's no live page
+  mapLink: string;
+  liveLink: string | null;
+  ackLink: string | null;
+  // A re-send after nobody acknowledged
+  reminder?: boolean;
+}
+
+export async function sendSosEmail(
+  { apiKey, from }: { apiKey: string; from: string },
+  { to, name, coordinates, mapLink, liveLink, ackLink, reminder = false }: SosEmail,
+): Promise<{ success: true } | { success: false; error: string }> {
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from,
+      to: [to],
+      subject: reminder
+        ? "🚨 REMINDER: EMERGENCY SOS STILL UNANSWERED"
+        : "🚨 EMERGENCY SOS ALERT - Immediate Attention Required",
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #0a0a0f; color: #ffffff;">
+          <div style="background: linear-gradient(135deg, #dc2626, #991b1b); padding: 30px; border-radius: 16px; text-align: center; margin-bottom: 20px;">
+            <h1 style="margin: 0; font-size: 28px; color: #ffffff;">${reminder ? "🚨 STILL NO RESPONSE" : "🚨 EMERGENCY ALERT"}</h1>
+            <p style="margin: 10px 0 0; font-size: 16px; color: rgba(255,255,255,0.9);">${reminder ? "Nobody has responded to this SOS yet" : "Someone needs your help immediately"}</p>
+          </div>
+          
+          <div style="background-color: #1a1a2e; padding: 24px; border-radius: 12px; border: 1px solid #2d2d44;">
+            <p style="margin: 0 0 16px; font-size: 16px; color: #e5e5e5;">
+              Dear ${name},
+            </p>
+            <p style="margin: 0 0 20px; font-size: 16px; color: #e5e5e5;">
+              This is an <strong style="color: #ef4444;">emergency SOS alert</strong> from SafeTrack. The user has triggered an emergency signal and may need immediate assistance.
+            </p>
+            ${ackLink ? `
+            <a href="${ackLink}" style="display: block; text-align: center; background: #16a34a; color: #ffffff; padding: 14px 24px; border-radius: 8px; text-decoration: none; font-weight: 600; margin: 0 0 20px;">
+              ✅ I've seen this and I'm responding
+            </a>
+          ` : ''}
+            
+            <div style="background-color: #0d0d15; padding: 20px; border-radius: 12px; margin: 20px 0;">
+              <h3 style="margin: 0 0 12px; font-size: 14px; color: #9ca3af; text-transform: uppercase; letter-spacing: 1px;">Location</h3>
+              ${coordinates ? `
+              <p style="margin: 0 0 8px; font-size: 16px; color: #e5e5e5;">
+                📍 ${coordinates.lat.toFixed(6)}°, ${coordinates.lng.toFixed(6)}°
+              </p>
+            ` : ''}
+              <a href="${liveLink ?? mapLink}" style="display: inline-block; background: linear-gradient(135deg, #8b5cf6, #6366f1); color: #ffffff; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 10px;">
+                ${liveLink ? "📍 Follow their live location" : "📍 View on Google Maps"}
+              </a>
+              ${liveLink ? `
+              <p style="margin: 12px 0 0; font-size: 12px; color: #9ca3af;">
+                The page updates as they move and stops once they mark themselves safe. It expires after ${SHARE_HOURS} hours.
+              </p>
+            ` : ''}
+            </div>
+            
+            <div style="background-color: #fef2f2; padding: 16px; border-radius: 8px; border-left: 4px solid #dc2626;">
+              <p style="margin: 0; font-size: 14px; color: #991b1b;">
+                <strong>Please take immediate action:</strong><br>
+                • Try to contact the person directly<br>
+                • If unreachable, consider contacting local emergency services<br>
+                • Check the location link above for their ${liveLink ? "current" : "last known"} position
+              </p>
+            </div>
+          </div>
+          
+          <p style="text-align: center; font-size: 12px; color: #6b7280; margin-top: 20px;">
+            This alert was sent via SafeTrack Emergency SOS system.
+          </p>
+        </body>
+        </html>
+      `,
+    }),
+  });
+
+  if (!response.ok) {
+    let errText = await response.text();
+    try {
+      const parsed = JSON.parse(errText);
+      errText = parsed?.message || parsed?.error || errText;
+    } catch {
+      // keep as text
+    }
+    console.error(`Failed to send email to ${to}:`, errText);
+    return { success: false, error: errText };
+  }
+
+  return { success: true };
+}
+
+export interface Delivery {
+  channel: "email" | "sms" | "whatsapp";
+  contactId: string | null;
+  contactName: string;
+  // null for SMS and WhatsApp, which are only opened on the user's device
+  success: boolean | null;
+  detail: string;
+}
+
+// Adds the attempts to the incident's timeline and brings its channel list
+// and count of contacts reached up to date
+export async function recordDeliveries(
+  supabase: SupabaseClient,
+  incident: { id: string; channels: string[] },
+  userId: string,
+  deliveries: Delivery[],
+) {
+  if (deliveries.length > 0) {
+    const { error } = await supabase.from("sos_incident_events").insert(deliveries.map((d) => ({
+      incident_id: incident.id,
+      user_id: userId,
+      kind: "delivery",
+      channel: d.channel,
+      contact_id: d.contactId,
+      contact_name: d.contactName,
+      success: d.success,
+      detail: d.detail,
+    })));
+    if (error) console.error("Failed to record SOS deliveries:", error.message);
+  }
+
+  // Contacts reached on any channel so far, counted once each
+  const { data: reached } = await supabase
+    .from("sos_incident_events")
+    .select("contact_id, contact_name")
+    .eq("incident_id", incident.id)
+    .eq("kind", "delivery")
+    .or("success.is.null,success.eq.true");
+  const notified = new Set((reached || []).map((r) => r.contact_id ?? r.contact_name)).size;
+
+  const { error } = await supabase
+    .from("sos_incidents")
+    .update({
+      channels: [...new Set([...incident.channels, ...deliveries.map((d) => d.channel)])],
+      contacts_notified: notified,
+    })
+    .eq("id", incident.id);
+  if (error) console.error("Failed to update SOS incident:", error.message);
+}
+
+export interface EscalatingIncident {
+  id: string;
+  user_id: string;
+  status: string;
+  channels: string[];
+  share_token: string | null;
+  share_expires_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  live_latitude: number | null;
+  live_longitude: number | null;
+  escalation_tier: number;
+  escalation_resent: boolean;
+  next_escalation_at: string | null;
+}
+
+// Takes an unacknowledged incident one step up the ladder if a step is due.
+// Contacts who prefer SMS or WhatsApp can't be messaged from here; they're
+// returned for the user's device to open.
+export async function escalateIncident(
+  supabase: SupabaseClient,
+  incident: EscalatingIncident,
+  site: string,
+): Promise<EscalateSosResponse> {
+  const nothing = { action: "none" as const, tier: null, nextEscalationAt: incident.next_escalation_at, deviceContacts: [] };
+  const dueAt = incident.next_escalation_at;
+  if (incident.status !== "active" || !dueAt || new Date(dueAt).getTime() > Date.now()) return nothing;
+
+  // Claims the step, so the sweep and the user's devices calling at once
+  // don't all send it
+  const { data: claimed } = await supabase
+    .from("sos_incidents")
+    .update({ next_escalation_at: null })
+    .eq("id", incident.id)
+    .eq("next_escalation_at", dueAt)
+    .select("id")
+    .maybeSingle();
+  if (!claimed) return { ...nothing, nextEscalationAt: null };
+
+  const userId = incident.user_id;
+  const [{ data: contacts, error: contactsError }, { data: profile }] = await Promise.all([
+    supabase
+      .from("emergency_contacts")
+      .select("*")
+      .eq("user_id", userId)
+      .order("priority", { ascending: true })
+      .order("created_at", { ascending: true }),
+    supabase.from("profiles").select("sos_escalation_minutes").eq("user_id", userId).maybeSingle(),
+  ]);
+  if (contactsError) throw new Error(`Failed to load emergency contacts: ${contactsError.message}`);
+
+  const step = nextEscalationStep({ tier: incident.escalation_tier, resent: incident.escalation_resent }, contacts || []);
+
+  if (step.kind === "emergency_services") {
+    await supabase.from("sos_incident_events").insert({
+      incident_id: incident.id,
+      user_id: userId,
+      kind: "escalated",
+      detail: "No contact responded; suggested calling emergency services",
+    });
+    await supabase.from("sos_incidents").update({ escalation_exhausted: true }).eq("id", incident.id);
+    return { action: step.kind, tier: null, nextEscalationAt: null, deviceContacts: [] };
+  }
+
+  const tierContacts = (contacts || []).filter((c) => c.priority === step.tier);
+  const tokens = await ackTokens(supabase, incident.id, userId, tierContacts.map((c) => ({ id: c.id, name: c.name, priority: c.priority })));
+
+  const shareToken = liveToken(incident);
+  const liveLink = shareToken && site ? `${site}/live/${shareToken}` : null;
+  const lat = incident.live_latitude ?? incident.latitude;
+  const lng = incident.live_longitude ?? incident.longitude;
+  const coordinates = lat !== null && lng !== null ? { lat, lng } : null;
+  const mapLink = coordinates ? `https://www.google.com/maps?q=${coordinates.lat},${coordinates.lng}` : "Location unavailable";
+
+  const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+  const FROM = Deno.env.get("RESEND_FROM") || "SafeTrack SOS <onboarding@resend.dev>";
+
+  const emailed = tierContacts.filter((c) => preferredChannel(c) === "email");
+  const deliveries: Delivery[] = await Promise.all(emailed.map(async (c) => {
+    const token = tokens.get(c.id);
+    const result = RESEND_API_KEY
+      ? await sendSosEmail(
+        { apiKey: RESEND_API_KEY, from: FROM },
+        {
+          to: c.email!,
+          name: c.name,
+          coordinates,
+          mapLink,
+          liveLink,
+          ackLink: token && site ? `${site}/ack/${token}` : null,
+          reminder: step.kind === "resend",
+        },
+      )
+      : { success: false as const, error: "RESEND_API_KEY is not configured" };
+    return {
+      channel: "email" as const,
+      contactId: c.id,
+      contactName: c.name,
+      success: result.success,
+      detail: "error" in result ? `${c.email}: ${result.error}` : c.email!,
+    };
+  }));
+  await recordDeliveries(supabase, incident, userId, deliveries);
+
+  const deviceContacts = tierContacts.flatMap((c) => {
+    const channel = preferredChannel(c);
+    const ackToken = tokens.get(c.id);
+    return channel !== "email" && ackToken ? [{ id: c.id, name: c.name, phone: c.phone, channel, ackToken }] : [];
+  });
+
+  await supabase.from("sos_incident_events").insert({
+    incident_id: incident.id,
+    user_id: userId,
+    kind: "escalated",
+    detail: step.kind === "resend"
+      ? `No response; alerted priority ${step.tier} contacts again`
+      : `No response; alerted priority ${step.tier} contacts`,
+  });
+
+  const minutes = profile?.sos_escalation_minutes ?? 5;
+  const nextEscalationAt = minutes > 0 ? new Date(Date.now() + minutes * 60_000).toISOString() : null;
+  const { error: updateError } = await supabase
+    .from("sos_incidents")
+    .update({
+      escalation_tier: step.tier,
+      escalation_resent: step.kind === "resend",
+      next_escalation_at: nextEscalationAt,
+    })
+    .eq("id", incident.id)
+    // An acknowledgment that came in meanwhile stops the ladder
+    .eq("status", "active");
+  if (updateError) console.error("Failed to schedule next SOS escalation:", updateError.message);
+
+  console.log(`SOS ${incident.id} escalated: ${step.kind} to tier ${step.tier}`);
+
+  return { action: step.kind, tier: step.tier, nextEscalationAt, deviceContacts };
+}
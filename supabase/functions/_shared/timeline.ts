@@ -0,0 +1,229 @@
+// Splits a run of location_logs into visits (stays at one place) and the
+// trips between them. Visits come from the same stay-point detection place
+// discovery uses; whatever lies between two visits is a trip, cut wherever
+// tracking went quiet for too long to know what happened.
+
+import { haversineKm, normalizeLabel, type LocationLog } from "./prediction-engine.ts";
+import { stayWindows, type StayPointOptions } from "./place-discovery.ts";
+
+export interface TimelineVisit {
+  kind: "visit";
+  startAt: string;
+  endAt: string;
+  durationMin: number;
+  latitude: number;
+  longitude: number;
+  // Most common label among the visit's points
+  label: string | null;
+  pointCount: number;
+}
+
+export type TripMode = "walk" | "cycle" | "vehicle";
+
+export interface PathPoint {
+  latitude: number;
+  longitude: number;
+  at: string;
+}
+
+export interface TimelineTrip {
+  kind: "trip";
+  startAt: string;
+  endAt: string;
+  durationMin: number;
+  distanceKm: number;
+  avgSpeedKmh: number;
+  maxSpeedKmh: number;
+  mode: TripMode;
+  // Labels of the visits either side, when known
+  fromLabel: string | null;
+  toLabel: string | null;
+  path: PathPoint[];
+  pointCount: number;
+}
+
+export type TimelineSegment = TimelineVisit | TimelineTrip;
+
+export interface TimelineOptions extends StayPointOptions {
+  // Trips shorter than this (start to end of path) are dropped as GPS drift
+  minTripM?: number;
+  // A trip is cut where no point arrived for this long
+  maxTripGapMin?: number;
+}
+
+// Without a point for this long we can't say how the user got from one
+// place to the next. Also used by the predictor to skip such transitions.
+export const MAX_TRIP_GAP_MIN = 120;
+
+const toMs = (iso: string) => new Date(iso).getTime();
+const minutesBetween = (a: string, b: string) => Math.round((toMs(b) - toMs(a)) / 60_000);
+
+function commonLabel(points: LocationLog[]): string | null {
+  const counts = new Map<string, number>();
+  for (const p of points) {
+    if (p.label) counts.set(normalizeLabel(p.label), (counts.get(normalizeLabel(p.label)) ?? 0) + 1);
+  }
+  let best: string | null = null;
+  for (const [label, n] of counts) {
+    if (best === null || n > counts.get(best)!) best = label;
+  }
+  return best;
+}
+
+const legKm = (a: PathPoint, b: PathPoint) => haversineKm(a.latitude, a.longitude, b.latitude, b.longitude);
+
+// Legs shorter than this are left out of the top speed; GPS jitter over a
+// few seconds reads as absurd speeds
+const MIN_SPEED_LEG_MS = 30_000;
+
+// Typical top speeds; a trip is the slowest mode that explains it
+export function inferTripMode(avgSpeedKmh: number, maxSpeedKmh: number): TripMode {
+  if (avgSpeedKmh <= 7 && maxSpeedKmh <= 12) return "walk";
+  if (avgSpeedKmh <= 25 && maxSpeedKmh <= 40) return "cycle";
+  return "vehicle";
+}
+
+export function tripStats(path: PathPoint[]): Pick<TimelineTrip, "distanceKm" | "avgSpeedKmh" | "maxSpeedKmh" | "mode"> {
+  let km = 0;
+  let maxSpeedKmh = 0;
+  for (let i = 1; i < path.length; i++) {
+    const leg = legKm(path[i - 1], path[i]);
+    const ms = toMs(path[i].at) - toMs(path[i - 1].at);
+    km += leg;
+    if (ms >= MIN_SPEED_LEG_MS) maxSpeedKmh = Math.max(maxSpeedKmh, leg / (ms / 3_600_000));
+  }
+  const hours = (toMs(path[path.length - 1].at) - toMs(path[0].at)) / 3_600_000;
+  const avgSpeedKmh = hours > 0 ? km / hours : 0;
+  maxSpeedKmh = Math.max(maxSpeedKmh, avgSpeedKmh);
+  const round = (n: number) => Math.round(n * 10) / 10;
+  return {
+    distanceKm: round(km),
+    avgSpeedKmh: round(avgSpeedKmh),
+    maxSpeedKmh: round(maxSpeedKmh),
+    mode: inferTripMode(avgSpeedKmh, maxSpeedKmh),
+  };
+}
+
+// Oldest first. A trip's path starts where the visit it left ended and ends
+// where the next one began, so consecutive segments join up on a map.
+export function segmentTimeline(logs: LocationLog[], options: TimelineOptions = {}): TimelineSegment[] {
+  const minTripM = options.minTripM ?? 150;
+  const maxGapMs = (options.maxTripGapMin ?? MAX_TRIP_GAP_MIN) * 60_000;
+  const points = [...logs].sort((a, b) => toMs(a.created_at) - toMs(b.created_at));
+  const windows = stayWindows(points, options);
+  const segments: TimelineSegment[] = [];
+
+  const visitAt = ([i, j]: [number, number]): TimelineVisit => {
+    const window = points.slice(i, j);
+    return {
+      kind: "visit",
+      startAt: window[0].created_at,
+      endAt: window[window.length - 1].created_at,
+      durationMin: minutesBetween(window[0].created_at, window[window.length - 1].created_at),
+      latitude: window.reduce((s, p) => s + p.latitude, 0) / window.length,
+      longitude: window.reduce((s, p) => s + p.longitude, 0) / window.length,
+      label: commonLabel(window),
+      pointCount: window.length,
+    };
+  };
+
+  const pushTrip = (path: PathPoint[], pointCount: number, before: TimelineVisit | null, after: TimelineVisit | null) => {
+    if (path.length < 2) return;
+    const first = path[0];
+    const last = path[path.length - 1];
+    if (legKm(first, last) * 1000 < minTripM) return;
+    segments.push({
+      kind: "trip",
+      startAt: first.at,
+      endAt: last.at,
+      durationMin: minutesBetween(first.at, last.at),
+      ...tripStats(path),
+      fromLabel: before?.label ?? null,
+      toLabel: after?.label ?? null,
+      path,
+      pointCount,
+    });
+  };
+
+  // The points between two visits, split into runs at long gaps. Only the
+  // first run leaves `before` and only the last reaches `after`.
+  const pushTrips = (from: number, to: number, before: TimelineVisit | null, after: TimelineVisit | null) => {
+    const path: PathPoint[] = before ? [{ latitude: before.latitude, longitude: before.longitude, at: before.endAt }] : [];
+    let pointCount = 0;
+    let leaving = before;
+    for (const p of points.slice(from, to)) {
+      const point = { latitude: p.latitude, longitude: p.longitude, at: p.created_at };
+      if (path.length > 0 && toMs(point.at) - toMs(path[path.length - 1].at) > maxGapMs) {
+        pushTrip(path.splice(0), pointCount, leaving, null);
+        pointCount = 0;
+        leaving = null;
+      }
+      path.push(point);
+      pointCount++;
+    }
+    if (after) {
+      const arrival = { latitude: after.latitude, longitude: after.longitude, at: after.startAt };
+      if (path.length > 0 && toMs(arrival.at) - toMs(path[path.length - 1].at) > maxGapMs) {
+        pushTrip(path.splice(0), pointCount, leaving, null);
+        return;
+      }
+      path.push(arrival);
+    }
+    pushTrip(path, pointCount, leaving, after);
+  };
+
+  let cursor = 0;
+  let previous: TimelineVisit | null = null;
+  for (const window of windows) {
+    const visit = visitAt(window);
+    pushTrips(cursor, window[0], previous, visit);
+    segments.push(visit);
+    previous = visit;
+    cursor = window[1];
+  }
+  pushTrips(cursor, points.length, previous, null);
+
+  return segments;
+}
+
+// The latest stay an earlier run saved
+export type SavedStay = Pick<TimelineVisit, "startAt" | "endAt" | "latitude" | "longitude" | "label" | "pointCount">;
+
+export interface ContinuedTimeline {
+  // `saved` grown by the new points, when the user was still there
+  extended: TimelineVisit | null;
+  // New segments to save after it
+  segments: TimelineSegment[];
+}
+
+// Segments logs that pick up from `saved`: they start with its last point,
+// so a visit starting there is the same stay carrying on and is folded into
+// it, and a trip starting there is leaving it. Each run can then resume from
+// where the last one stopped, however long a stay is.
+export function continueTimeline(saved: SavedStay | null, logs: LocationLog[], options: TimelineOptions = {}): ContinuedTimeline {
+  const segments = segmentTimeline(logs, options);
+  const [first, second] = segments;
+  if (!saved || !first || first.startAt !== saved.endAt) return { extended: null, segments };
+
+  if (first.kind === "trip") {
+    return { extended: null, segments: [{ ...first, fromLabel: first.fromLabel ?? saved.label }, ...segments.slice(1)] };
+  }
+
+  // The shared point is counted once
+  const added = first.pointCount - 1;
+  const pointCount = saved.pointCount + added;
+  const extended: TimelineVisit = {
+    ...first,
+    startAt: saved.startAt,
+    durationMin: minutesBetween(saved.startAt, first.endAt),
+    latitude: (saved.latitude * saved.pointCount + first.latitude * added) / pointCount,
+    longitude: (saved.longitude * saved.pointCount + first.longitude * added) / pointCount,
+    label: saved.label ?? first.label,
+    pointCount,
+  };
+  const rest = segments.slice(1);
+  if (second?.kind === "trip" && second.startAt === first.endAt) {
+    rest[0] = { ...second, fromLabel: extended.label };
+  }
+  return { extended, segments: rest };
+}
@@ -0,0 +1,55 @@
+// Wall-clock helpers for IANA time zones. Logs store `hour`/`day` in the
+// user's own zone, so the client that writes them and the functions that read
+// them must agree on how an instant maps to a local hour and weekday.
+
+export interface ZonedTime {
+  hour: number;
+  minute: number;
+  // 0 = Sunday, matching Date#getDay and the `day` column.
+  day: number;
+  // Local calendar date as YYYY-MM-DD.
+  date: string;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+    });
+  }
+  return formatters[timeZone];
+}
+
+// Local hour, minute, weekday and date of an instant. Unknown zones fall back to UTC.
+export function zonedTime(instant: Date | number, timeZone: string | null | undefined): ZonedTime {
+  const date = typeof instant === "number" ? new Date(instant) : instant;
+  const zone = isValidTimeZone(timeZone) ? timeZone : "UTC";
+  const parts = formatterFor(zone).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    hour: Number(get("hour")) % 24,
+    minute: Number(get("minute")),
+    day: WEEKDAYS.indexOf(get("weekday")),
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+  };
+}
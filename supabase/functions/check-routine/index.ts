@@ -0,0 +1,160 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { buildRoutineModel, type LocationLog } from "../_shared/prediction-engine.ts";
+import type { KnownPlace } from "../_shared/place-discovery.ts";
+import { labelLogs, routineModelOptions, type LabelDefinition } from "../_shared/place-labels.ts";
+import type { Geofence } from "../_shared/geofence.ts";
+import { detectAnomalies, type RoutineAnomaly } from "../_shared/routine-anomaly.ts";
+import { isValidTimeZone } from "../_shared/timezone.ts";
+import { checkRoutineRequestSchema } from "../_shared/contracts.ts";
+import { handler } from "../_shared/http.ts";
+
+// The same kind of alert about the same place is raised at most once per window
+const REPEAT_WINDOW_HOURS = 3;
+
+interface Contact {
+  name: string;
+  email: string | null;
+}
+
+async function notifyContacts(
+  contacts: Contact[],
+  userName: string,
+  anomaly: RoutineAnomaly,
+  coordinates: { lat: number; lng: number },
+): Promise<number> {
+  const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+  if (!RESEND_API_KEY) {
+    console.error("RESEND_API_KEY not configured for routine alerts");
+    return 0;
+  }
+  const FROM = Deno.env.get("RESEND_FROM") || "SafeTrack Alerts <onboarding@resend.dev>";
+  const mapLink = `https://www.google.com/maps?q=${coordinates.lat},${coordinates.lng}`;
+
+  const results = await Promise.all(contacts.filter((c) => c.email).map(async (contact) => {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${RESEND_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: FROM,
+        to: [contact.email],
+        subject: `⚠️ ${userName}'s routine looks unusual`,
+        html: `
+          <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <p>Dear ${contact.name},</p>
+            <p>SafeTrack noticed something out of the ordinary for <strong>${userName}</strong>:</p>
+            <p style="padding: 12px 16px; background-color: #fff7ed; border-left: 4px solid #f59e0b; border-radius: 6px;">${anomaly.message}</p>
+            <p>This is not an SOS. It may be nothing, but you may want to check in with them.</p>
+            <p><a href="${mapLink}">📍 Last known position on Google Maps</a></p>
+          </div>
+        `,
+      }),
+    });
+    if (!response.ok) {
+      console.error(`Failed to send routine alert to ${contact.email}:`, await response.text());
+      return false;
+    }
+    return true;
+  }));
+
+  return results.filter(Boolean).length;
+}
+
+serve(handler({ name: "check-routine", schema: checkRoutineRequestSchema, rateLimit: { limit: 30, windowSeconds: 3600 } }, async ({ supabase, user, body }) => {
+  const { latitude, longitude } = body;
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("name, timezone, routine_alerts_enabled, routine_alert_threshold, routine_alert_notify_contacts")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (profile && !profile.routine_alerts_enabled) {
+    return { anomalies: [], alerts: [] };
+  }
+
+  const timeZone = isValidTimeZone(profile?.timezone) ? profile.timezone : "UTC";
+  const threshold = profile?.routine_alert_threshold ?? 0.7;
+  const now = Date.now();
+
+  const [{ data: recentLogs, error: logsError }, { data: knownPlaces }, { data: labelDefs }, { data: fences }] = await Promise.all([
+    supabase
+      .from("location_logs")
+      .select("latitude, longitude, hour, day, label, created_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(2000),
+    supabase
+      .from("discovered_places")
+      .select("id, latitude, longitude, radius_m, label")
+      .eq("user_id", user.id)
+      .eq("dismissed", false),
+    supabase
+      .from("place_labels")
+      .select("id, name, aliases, latitude, longitude, radius_m")
+      .eq("user_id", user.id),
+    supabase
+      .from("geofences")
+      .select("id, name, shape, center_lat, center_lng, radius_m, polygon, enabled")
+      .eq("user_id", user.id)
+      .eq("enabled", true),
+  ]);
+
+  if (logsError) throw new Error(`Failed to fetch location logs: ${logsError.message}`);
+
+  const definitions = (labelDefs || []) as LabelDefinition[];
+  const logs = labelLogs(
+    (recentLogs || []).reverse() as LocationLog[],
+    (knownPlaces || []) as KnownPlace[],
+    definitions,
+    (fences || []) as Geofence[],
+  );
+  const model = buildRoutineModel(logs, routineModelOptions(definitions, now));
+  const anomalies = detectAnomalies(model, logs, { latitude, longitude }, now, { timeZone });
+
+  const { data: recentAlerts } = await supabase
+    .from("routine_alerts")
+    .select("kind, label")
+    .eq("user_id", user.id)
+    .gte("created_at", new Date(now - REPEAT_WINDOW_HOURS * 3_600_000).toISOString());
+  const alreadyRaised = new Set((recentAlerts || []).map((a) => `${a.kind}:${a.label ?? ""}`));
+
+  const toRaise = anomalies.filter((a) => a.score >= threshold && !alreadyRaised.has(`${a.kind}:${a.label ?? ""}`));
+
+  let contacts: Contact[] = [];
+  if (toRaise.length > 0 && profile?.routine_alert_notify_contacts) {
+    const { data } = await supabase
+      .from("emergency_contacts")
+      .select("name, email")
+      .eq("user_id", user.id);
+    contacts = data || [];
+  }
+
+  const alerts = [];
+  for (const anomaly of toRaise) {
+    const contactsNotified = contacts.length > 0
+      ? await notifyContacts(contacts, profile?.name || user.email || "Your contact", anomaly, { lat: latitude, lng: longitude })
+      : 0;
+
+    const { data: alert, error } = await supabase
+      .from("routine_alerts")
+      .insert({
+        user_id: user.id,
+        kind: anomaly.kind,
+        label: anomaly.label,
+        score: anomaly.score,
+        message: anomaly.message,
+        latitude,
+        longitude,
+        contacts_notified: contactsNotified,
+      })
+      .select()
+      .single();
+    if (error) throw new Error(`Failed to save alert: ${error.message}`);
+    alerts.push(alert);
+  }
+
+  return { anomalies, alerts };
+}));
@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { haversineKm, type LocationLog } from "../_shared/prediction-engine.ts";
+import { discoverPlaces, mergePlaceHistory, type PlaceHistory } from "../_shared/place-discovery.ts";
+import { discoverPlacesRequestSchema } from "../_shared/contracts.ts";
+import { handler } from "../_shared/http.ts";
+
+// Raw points considered per run; tracking writes a lot of rows.
+const MAX_LOGS = 5000;
+// Distance within which a freshly discovered cluster is the same stored place.
+const MATCH_RADIUS_M = 150;
+
+interface StoredPlace extends PlaceHistory {
+  id: string;
+  latitude: number;
+  longitude: number;
+  radius_m: number;
+  label: string | null;
+  dismissed: boolean;
+}
+
+serve(handler({ name: "discover-places", schema: discoverPlacesRequestSchema, rateLimit: { limit: 10, windowSeconds: 3600 } }, async ({ supabase, user }) => {
+  // Most recent window, replayed oldest-first for stay detection
+  const { data: recentLogs, error: logsError } = await supabase
+    .from("location_logs")
+    .select("latitude, longitude, hour, day, label, created_at")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false })
+    .limit(MAX_LOGS);
+
+  if (logsError) throw new Error(`Failed to fetch location logs: ${logsError.message}`);
+
+  const logs = ((recentLogs || []) as LocationLog[]).reverse();
+  const clusters = discoverPlaces(logs);
+
+  const { data: existing, error: placesError } = await supabase
+    .from("discovered_places")
+    .select("id, latitude, longitude, radius_m, label, dismissed, visit_count, total_dwell_minutes, first_seen_at, last_seen_at")
+    .eq("user_id", user.id);
+
+  if (placesError) throw new Error(`Failed to fetch discovered places: ${placesError.message}`);
+
+  const stored = (existing || []) as StoredPlace[];
+  let created = 0;
+  let updated = 0;
+
+  for (const cluster of clusters) {
+    // Keep the id (and any label or dismissal) of a place we already know
+    // about, and add to its history rather than replacing it
+    const match = stored.find((p) =>
+      haversineKm(p.latitude, p.longitude, cluster.latitude, cluster.longitude) * 1000 <= Math.max(MATCH_RADIUS_M, p.radius_m)
+    );
+    const stats = {
+      latitude: cluster.latitude,
+      longitude: cluster.longitude,
+      radius_m: cluster.radiusM,
+      ...mergePlaceHistory(match ?? null, cluster),
+    };
+
+    if (match) {
+      const { error } = await supabase.from("discovered_places").update(stats).eq("id", match.id);
+      if (error) throw new Error(`Failed to update place: ${error.message}`);
+      // A second cluster matching the same place adds to this one
+      Object.assign(match, stats);
+      updated++;
+    } else {
+      const { error } = await supabase.from("discovered_places").insert({ user_id: user.id, ...stats });
+      if (error) throw new Error(`Failed to save place: ${error.message}`);
+      created++;
+    }
+  }
+
+  const { data: places } = await supabase
+    .from("discovered_places")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("total_dwell_minutes", { ascending: false });
+
+  return {
+    places: places || [],
+    stats: {
+      pointsAnalyzed: logs.length,
+      clustersFound: clusters.length,
+      created,
+      updated,
+    },
+  };
+}));
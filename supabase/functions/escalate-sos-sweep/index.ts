@@ -0,0 +1,40 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { handler, HttpError } from "../_shared/http.ts";
+import { escalateIncident } from "../_shared/sos-alerts.ts";
+
+// Incidents taken up the ladder per run; the rest wait for the next one
+const BATCH = 50;
+
+// Run every minute by pg_cron (see the migration that schedules it), so an
+// SOS keeps escalating when the user's phone is off or the app is closed.
+// Only the scheduler knows the secret.
+serve(handler({ name: "escalate-sos-sweep", auth: false }, async ({ req, supabase }) => {
+  const secret = Deno.env.get("SOS_SWEEP_SECRET");
+  if (!secret || req.headers.get("x-sweep-secret") !== secret) {
+    throw new HttpError("unauthorized", "Unauthorized");
+  }
+
+  const { data: due, error } = await supabase
+    .from("sos_incidents")
+    .select("*")
+    .eq("status", "active")
+    .lte("next_escalation_at", new Date().toISOString())
+    .order("next_escalation_at", { ascending: true })
+    .limit(BATCH);
+  if (error) throw new Error(`Failed to load due SOS incidents: ${error.message}`);
+
+  // PUBLIC_SITE_URL is the only way to know where links point from here
+  const site = (Deno.env.get("PUBLIC_SITE_URL") || "").replace(/\/$/, "");
+  let escalated = 0;
+  for (const incident of due || []) {
+    try {
+      const result = await escalateIncident(supabase, incident, site);
+      if (result.action !== "none") escalated++;
+    } catch (err) {
+      console.error(`Failed to escalate SOS ${incident.id}:`, err);
+    }
+  }
+
+  console.log(`SOS sweep: ${escalated}/${(due || []).length} escalated`);
+  return { due: (due || []).length, escalated };
+}));
@@ -0,0 +1,21 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { escalateSosRequestSchema } from "../_shared/contracts.ts";
+import { handler, HttpError } from "../_shared/http.ts";
+import { escalateIncident, siteUrl } from "../_shared/sos-alerts.ts";
+
+// Takes an unacknowledged SOS one step up the ladder once its escalation time
+// has passed. escalate-sos-sweep does this on a schedule; the user's app also
+// calls it while an incident is open, so a step the device has to send (SMS,
+// WhatsApp) comes back to it straight away. Does nothing until a step is due.
+serve(handler({ name: "escalate-sos", schema: escalateSosRequestSchema, rateLimit: { limit: 60, windowSeconds: 600 } }, async ({ req, supabase, user, body }) => {
+  const { data: incident, error } = await supabase
+    .from("sos_incidents")
+    .select("*")
+    .eq("id", body.incidentId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load SOS incident: ${error.message}`);
+  if (!incident) throw new HttpError("not_found", "SOS incident not found");
+
+  return escalateIncident(supabase, incident, siteUrl(req));
+}));
@@ -0,0 +1,131 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { manageLabelsRequestSchema } from "../_shared/contracts.ts";
+import { handler, HttpError } from "../_shared/http.ts";
+
+interface PlaceLabelRow {
+  id: string;
+  name: string;
+  aliases: string[];
+  latitude: number | null;
+  longitude: number | null;
+  radius_m: number | null;
+}
+
+async function getDefinition(supabase: SupabaseClient, userId: string, name: string): Promise<PlaceLabelRow | null> {
+  const { data, error } = await supabase
+    .from("place_labels")
+    .select("id, name, aliases, latitude, longitude, radius_m")
+    .eq("user_id", userId)
+    .eq("name", name)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to fetch label: ${error.message}`);
+  return data;
+}
+
+async function upsertDefinition(supabase: SupabaseClient, userId: string, name: string, fields: Partial<PlaceLabelRow>) {
+  const { error } = await supabase
+    .from("place_labels")
+    .upsert({ user_id: userId, name, ...fields }, { onConflict: "user_id,name" });
+  if (error) throw new Error(`Failed to save label: ${error.message}`);
+}
+
+// Moves each of `from` (its logs, aliases and pinned location) onto `to`, all
+// in one transaction. With `keepAsAlias`, the old names keep resolving to the
+// new one.
+async function fold(supabase: SupabaseClient, userId: string, from: string[], to: string, keepAsAlias: boolean): Promise<number> {
+  const { data, error } = await supabase.rpc("rename_location_label", {
+    p_user_id: userId,
+    p_from: from,
+    p_to: to,
+    p_keep_as_alias: keepAsAlias,
+  });
+  if (error) throw new Error(`Failed to rename label: ${error.message}`);
+  return data ?? 0;
+}
+
+// Label names arrive normalized (see manageLabelsRequestSchema)
+serve(handler({ name: "manage-labels", schema: manageLabelsRequestSchema, rateLimit: { limit: 120, windowSeconds: 3600 } }, async ({ supabase, user, body }) => {
+  switch (body.action) {
+    case "list": {
+      const [{ data: counts, error }, { data: definitions, error: definitionsError }] = await Promise.all([
+        supabase.rpc("location_label_counts", { p_user_id: user.id }),
+        supabase
+          .from("place_labels")
+          .select("id, name, aliases, latitude, longitude, radius_m")
+          .eq("user_id", user.id),
+      ]);
+      if (error) throw new Error(`Failed to count labels: ${error.message}`);
+      if (definitionsError) throw new Error(`Failed to fetch labels: ${definitionsError.message}`);
+
+      const byName = new Map((definitions || []).map((d: PlaceLabelRow) => [d.name, d]));
+      const names = new Set([...(counts || []).map((c) => c.label), ...byName.keys()]);
+      const labels = [...names].map((name) => {
+        const count = (counts || []).find((c) => c.label === name);
+        const def = byName.get(name);
+        return {
+          name,
+          visits: count?.visits ?? 0,
+          lastSeenAt: count?.last_seen_at ?? null,
+          aliases: def?.aliases ?? [],
+          latitude: def?.latitude ?? null,
+          longitude: def?.longitude ?? null,
+          radiusM: def?.radius_m ?? null,
+        };
+      }).sort((a, b) => b.visits - a.visits);
+
+      return { labels };
+    }
+
+    case "rename": {
+      const { from, to } = body;
+      if (from === to) throw new HttpError("invalid_request", "New name is the same as the old one");
+      const updated = await fold(supabase, user.id, [from], to, false);
+      return { success: true, updated };
+    }
+
+    case "merge": {
+      const { into } = body;
+      const sources = [...new Set(body.sources)].filter((s) => s !== into);
+      if (sources.length === 0) throw new HttpError("invalid_request", "Pick at least one label to merge");
+      const updated = await fold(supabase, user.id, sources, into, true);
+      return { success: true, updated };
+    }
+
+    case "alias": {
+      const { label, alias } = body;
+      if (alias === label) throw new HttpError("invalid_request", "A label can't be an alias of itself");
+      const existing = await getDefinition(supabase, user.id, label);
+      const aliases = new Set(existing?.aliases || []);
+      aliases.add(alias);
+      await upsertDefinition(supabase, user.id, label, { aliases: [...aliases] });
+      return { success: true };
+    }
+
+    case "unalias": {
+      const { label, alias } = body;
+      const existing = await getDefinition(supabase, user.id, label);
+      if (existing) {
+        await upsertDefinition(supabase, user.id, label, { aliases: existing.aliases.filter((a) => a !== alias) });
+      }
+      return { success: true };
+    }
+
+    case "set_location": {
+      const { label, latitude, longitude, radiusM } = body;
+      await upsertDefinition(supabase, user.id, label, { latitude, longitude, radius_m: radiusM });
+      return { success: true };
+    }
+
+    case "clear_location": {
+      await upsertDefinition(supabase, user.id, body.label, { latitude: null, longitude: null, radius_m: null });
+      return { success: true };
+    }
+
+    case "delete": {
+      const { data: deleted, error } = await supabase.rpc("delete_location_label", { p_user_id: user.id, p_label: body.label });
+      if (error) throw new Error(`Failed to delete label: ${error.message}`);
+      return { success: true, deleted: deleted ?? 0 };
+    }
+  }
+}));
@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { LocationLog } from "../_shared/prediction-engine.ts";
+import type { KnownPlace } from "../_shared/place-discovery.ts";
+import { labelLogs, type LabelDefinition } from "../_shared/place-labels.ts";
+import type { Geofence } from "../_shared/geofence.ts";
+import {
+  reconcilePrediction,
+  summarizeMethodAccuracy,
+  type StoredPrediction,
+} from "../_shared/prediction-feedback.ts";
+import { reconcilePredictionsRequestSchema } from "../_shared/contracts.ts";
+import { handler } from "../_shared/http.ts";
+
+const WINDOW_HOURS = 6;
+const MAX_PENDING = 200;
+
+serve(handler({ name: "reconcile-predictions", schema: reconcilePredictionsRequestSchema, rateLimit: { limit: 60, windowSeconds: 3600 } }, async ({ supabase, user }) => {
+  const { data: pending, error: pendingError } = await supabase
+    .from("predictions")
+    .select("id, label, predicted_lat, predicted_lng, prediction_timestamp, method_key, outcome")
+    .eq("user_id", user.id)
+    .eq("outcome", "pending")
+    .order("prediction_timestamp", { ascending: true })
+    .limit(MAX_PENDING);
+
+  if (pendingError) throw new Error(`Failed to fetch predictions: ${pendingError.message}`);
+
+  const now = new Date();
+  let reconciled = 0;
+
+  if (pending && pending.length > 0) {
+    const since = pending[0].prediction_timestamp;
+
+    const [{ data: rawLogs, error: logsError }, { data: knownPlaces }, { data: labelDefs }, { data: fences }] = await Promise.all([
+      supabase
+        .from("location_logs")
+        .select("latitude, longitude, hour, day, label, created_at")
+        .eq("user_id", user.id)
+        .gt("created_at", since)
+        .order("created_at", { ascending: true })
+        .limit(5000),
+      supabase
+        .from("discovered_places")
+        .select("id, latitude, longitude, radius_m, label")
+        .eq("user_id", user.id)
+        .eq("dismissed", false),
+      supabase
+        .from("place_labels")
+        .select("id, name, aliases, latitude, longitude, radius_m")
+        .eq("user_id", user.id),
+      supabase
+        .from("geofences")
+        .select("id, name, shape, center_lat, center_lng, radius_m, polygon, enabled")
+        .eq("user_id", user.id)
+        .eq("enabled", true),
+    ]);
+
+    if (logsError) throw new Error(`Failed to fetch location logs: ${logsError.message}`);
+
+    const logs = labelLogs(
+      (rawLogs || []) as LocationLog[],
+      (knownPlaces || []) as KnownPlace[],
+      (labelDefs || []) as LabelDefinition[],
+      (fences || []) as Geofence[],
+    );
+
+    for (const prediction of pending as StoredPrediction[]) {
+      const result = reconcilePrediction(prediction, logs, now, { windowHours: WINDOW_HOURS });
+      if (result.outcome === "pending") continue;
+      const { error } = await supabase.from("predictions").update(result).eq("id", prediction.id);
+      if (error) throw new Error(`Failed to update prediction: ${error.message}`);
+      reconciled++;
+    }
+  }
+
+  const { data: resolved } = await supabase
+    .from("predictions")
+    .select("method_key, outcome")
+    .eq("user_id", user.id)
+    .in("outcome", ["hit", "miss"])
+    .order("prediction_timestamp", { ascending: false })
+    .limit(500);
+
+  const methodStats = summarizeMethodAccuracy((resolved || []) as StoredPrediction[]);
+  const hits = (resolved || []).filter((p) => p.outcome === "hit").length;
+
+  return {
+    reconciled,
+    stillPending: (pending?.length || 0) - reconciled,
+    overall: {
+      hits,
+      misses: (resolved?.length || 0) - hits,
+      hitRate: resolved && resolved.length > 0 ? hits / resolved.length : null,
+    },
+    methodStats,
+  };
+}));
@@ -0,0 +1,201 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { LocationLog } from "../_shared/prediction-engine.ts";
+import type { KnownPlace } from "../_shared/place-discovery.ts";
+import { labelLogs, type LabelDefinition } from "../_shared/place-labels.ts";
+import type { Geofence } from "../_shared/geofence.ts";
+import { continueTimeline, type TimelineTrip, type TimelineVisit } from "../_shared/timeline.ts";
+import { segmentTripsRequestSchema } from "../_shared/contracts.ts";
+import { handler } from "../_shared/http.ts";
+
+// Raw points segmented per run, read a page at a time: PostgREST returns at
+// most 1000 rows per request. A longer backlog is worked through over several
+// runs, each resuming where the last one stopped.
+const PAGE_SIZE = 1000;
+const MAX_LOGS = 10000;
+
+const STAY_COLUMNS = "id, started_at, ended_at, latitude, longitude, label, point_count";
+
+// Carries stays and trips on from the end of the latest stored stay. The
+// logs read start with that stay's last point, so a stay still going on is
+// extended in place (see continueTimeline); trips after it were provisional
+// and are rebuilt. Everything before it is final and left alone, unless
+// points older than its end were uploaded since (segmentation_state): then
+// the stay they fall in and everything after it are replaced.
+serve(handler({ name: "segment-trips", schema: segmentTripsRequestSchema, rateLimit: { limit: 30, windowSeconds: 3600 } }, async ({ supabase, user }) => {
+  const [{ data: latest, error: latestError }, { data: state, error: stateError }] = await Promise.all([
+    supabase
+      .from("stays")
+      .select(STAY_COLUMNS)
+      .eq("user_id", user.id)
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("segmentation_state")
+      .select("dirty_from, marked_at")
+      .eq("user_id", user.id)
+      .maybeSingle(),
+  ]);
+
+  if (latestError) throw new Error(`Failed to fetch stays: ${latestError.message}`);
+  if (stateError) throw new Error(`Failed to fetch segmentation state: ${stateError.message}`);
+
+  const dirtyFrom = state?.dirty_from ?? null;
+  const late = latest !== null && dirtyFrom !== null && Date.parse(dirtyFrom) < Date.parse(latest.ended_at);
+  // The stay the earliest late point falls in, or the last one before it;
+  // null rebuilds from the first point
+  let rebuildFrom: string | null = null;
+  if (late && dirtyFrom) {
+    const { data: containing, error } = await supabase
+      .from("stays")
+      .select(STAY_COLUMNS)
+      .eq("user_id", user.id)
+      .lte("started_at", dirtyFrom)
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to fetch stays: ${error.message}`);
+    rebuildFrom = containing?.started_at ?? null;
+  }
+  const base = late ? null : latest;
+  const resumeFrom: string | null = late ? rebuildFrom : latest?.ended_at ?? null;
+
+  const rawLogs: LocationLog[] = [];
+  let after: string | null = null;
+  while (rawLogs.length < MAX_LOGS) {
+    let query = supabase
+      .from("location_logs")
+      .select("latitude, longitude, hour, day, label, created_at")
+      .eq("user_id", user.id);
+    // created_at is unique per user, so it's a safe cursor
+    if (after) query = query.gt("created_at", after);
+    else if (resumeFrom) query = query.gte("created_at", resumeFrom);
+    const { data: page, error: logsError } = await query.order("created_at", { ascending: true }).limit(PAGE_SIZE);
+    if (logsError) throw new Error(`Failed to fetch location logs: ${logsError.message}`);
+    rawLogs.push(...((page || []) as LocationLog[]));
+    if (!page || page.length < PAGE_SIZE) break;
+    after = page[page.length - 1].created_at;
+  }
+
+  const [{ data: knownPlaces }, { data: labelDefs }, { data: fences }] = await Promise.all([
+    supabase
+      .from("discovered_places")
+      .select("id, latitude, longitude, radius_m, label")
+      .eq("user_id", user.id)
+      .eq("dismissed", false),
+    supabase
+      .from("place_labels")
+      .select("id, name, aliases, latitude, longitude, radius_m")
+      .eq("user_id", user.id),
+    supabase
+      .from("geofences")
+      .select("id, name, shape, center_lat, center_lng, radius_m, polygon, enabled")
+      .eq("user_id", user.id)
+      .eq("enabled", true),
+  ]);
+
+  // Stays carry the same labels the predictor sees
+  const logs = labelLogs(
+    rawLogs,
+    (knownPlaces || []) as KnownPlace[],
+    (labelDefs || []) as LabelDefinition[],
+    (fences || []) as Geofence[],
+  );
+  const saved = base
+    ? {
+      startAt: base.started_at,
+      endAt: base.ended_at,
+      latitude: base.latitude,
+      longitude: base.longitude,
+      label: base.label,
+      pointCount: base.point_count,
+    }
+    : null;
+  const { extended, segments } = continueTimeline(saved, logs);
+  const stays = segments.filter((s): s is TimelineVisit => s.kind === "visit");
+  const trips = segments.filter((s): s is TimelineTrip => s.kind === "trip");
+
+  if (late) {
+    for (const table of ["stays", "trips"] as const) {
+      let query = supabase.from(table).delete().eq("user_id", user.id);
+      if (rebuildFrom) query = query.gte("started_at", rebuildFrom);
+      const { error } = await query;
+      if (error) throw new Error(`Failed to clear ${table}: ${error.message}`);
+    }
+  } else if (resumeFrom) {
+    const { error } = await supabase.from("trips").delete().eq("user_id", user.id).gte("started_at", resumeFrom);
+    if (error) throw new Error(`Failed to clear trips: ${error.message}`);
+  }
+
+  if (base && extended) {
+    const { error } = await supabase
+      .from("stays")
+      .update({
+        ended_at: extended.endAt,
+        latitude: extended.latitude,
+        longitude: extended.longitude,
+        label: extended.label,
+        duration_min: extended.durationMin,
+        point_count: extended.pointCount,
+      })
+      .eq("id", base.id);
+    if (error) throw new Error(`Failed to extend stay: ${error.message}`);
+  }
+
+  if (stays.length > 0) {
+    const { error } = await supabase.from("stays").insert(stays.map((s) => ({
+      user_id: user.id,
+      started_at: s.startAt,
+      ended_at: s.endAt,
+      latitude: s.latitude,
+      longitude: s.longitude,
+      label: s.label,
+      duration_min: s.durationMin,
+      point_count: s.pointCount,
+    })));
+    if (error) throw new Error(`Failed to save stays: ${error.message}`);
+  }
+
+  if (trips.length > 0) {
+    const { error } = await supabase.from("trips").insert(trips.map((t) => ({
+      user_id: user.id,
+      started_at: t.startAt,
+      ended_at: t.endAt,
+      from_label: t.fromLabel,
+      to_label: t.toLabel,
+      distance_km: t.distanceKm,
+      duration_min: t.durationMin,
+      avg_speed_kmh: t.avgSpeedKmh,
+      max_speed_kmh: t.maxSpeedKmh,
+      mode: t.mode,
+      path: t.path,
+      point_count: t.pointCount,
+    })));
+    if (error) throw new Error(`Failed to save trips: ${error.message}`);
+  }
+
+  // Everything marked is now covered: rebuilt above, or after the latest
+  // stay and so reached by this run or the next. A mark moved by an upload
+  // during this run stays for the next one.
+  if (state && dirtyFrom) {
+    const { error } = await supabase
+      .from("segmentation_state")
+      .update({ dirty_from: null })
+      .eq("user_id", user.id)
+      .eq("marked_at", state.marked_at);
+    if (error) throw new Error(`Failed to update segmentation state: ${error.message}`);
+  }
+
+  return {
+    stats: {
+      pointsAnalyzed: logs.length,
+      resumedFrom: resumeFrom,
+      stays: stays.length,
+      trips: trips.length,
+      // More points are waiting for another run. A full batch that ended no
+      // stay (one trip longer than the batch) gives the next run nowhere new
+      // to start from, so it isn't worth asking for straight away.
+      more: rawLogs.length >= MAX_LOGS && (stays.length > 0 || extended !== null),
+    },
+  };
+}));
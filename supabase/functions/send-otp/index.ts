@@ -1,60 +1,38 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { sendOtpRequestSchema } from "../_shared/contracts.ts";
+import { handler, HttpError } from "../_shared/http.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-interface OTPRequest {
-  email: string;
-  otp: string;
-  type: "signup" | "login";
-}
-
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+serve(handler({ name: "send-otp", auth: false, schema: sendOtpRequestSchema, rateLimit: { limit: 5, windowSeconds: 600 } }, async ({ body }) => {
+  const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+  if (!RESEND_API_KEY) {
+    throw new Error("RESEND_API_KEY is not configured");
   }
 
-  try {
-    const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
-    if (!RESEND_API_KEY) {
-      throw new Error("RESEND_API_KEY is not configured");
-    }
-
-    const { email, otp, type }: OTPRequest = await req.json();
+  const { email, otp, type } = body;
 
-    if (!email || !otp) {
-      return new Response(
-        JSON.stringify({ error: "Email and OTP are required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  const subject = type === "signup" 
+    ? "Welcome to SafeTrack - Verify Your Email" 
+    : "SafeTrack Login Verification Code";
 
-    const subject = type === "signup" 
-      ? "Welcome to SafeTrack - Verify Your Email" 
-      : "SafeTrack Login Verification Code";
+  const heading = type === "signup"
+    ? "Welcome to SafeTrack! 🎉"
+    : "Login Verification";
 
-    const heading = type === "signup"
-      ? "Welcome to SafeTrack! 🎉"
-      : "Login Verification";
+  const message = type === "signup"
+    ? "Thank you for signing up! Please use the verification code below to complete your registration."
+    : "Use the verification code below to complete your login.";
 
-    const message = type === "signup"
-      ? "Thank you for signing up! Please use the verification code below to complete your registration."
-      : "Use the verification code below to complete your login.";
-
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${RESEND_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        from: "SafeTrack <onboarding@resend.dev>",
-        to: [email],
-        subject,
-        html: `
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${RESEND_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: "SafeTrack <onboarding@resend.dev>",
+      to: [email],
+      subject,
+      html: `
           <!DOCTYPE html>
           <html>
           <head>
@@ -92,27 +70,17 @@ serve(async (req) => {
           </body>
           </html>
         `,
-      }),
-    });
+    }),
+  });
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error("Failed to send OTP email:", error);
-      throw new Error(`Failed to send email: ${error}`);
-    }
+  if (!response.ok) {
+    const error = await response.text();
+    console.error("Failed to send OTP email:", error);
+    throw new HttpError("upstream_error", "Failed to send verification email");
+  }
 
-    const data = await response.json();
-    console.log("OTP email sent successfully:", data);
+  const data = await response.json();
+  console.log("OTP email sent successfully:", data);
 
-    return new Response(
-      JSON.stringify({ success: true, message: "OTP sent successfully" }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  } catch (error) {
-    console.error("OTP function error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
-});
+  return { success: true, message: "OTP sent successfully" };
+}));
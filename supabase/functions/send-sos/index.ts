@@ -1,157 +1,161 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
-};
-
-interface Contact {
-  name: string;
-  email: string;
-  phone: string;
-}
-
-interface SOSRequest {
-  contacts: Contact[];
-  location: string;
-  coordinates: { lat: number; lng: number } | null;
-}
-
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+import { sendSosRequestSchema, type SosChannel, type SosContact } from "../_shared/contracts.ts";
+import { preferredChannel } from "../_shared/escalation.ts";
+import { handler, HttpError } from "../_shared/http.ts";
+import {
+  ackTokens,
+  liveToken,
+  randomToken,
+  recordDeliveries,
+  sendSosEmail,
+  siteUrl,
+  SHARE_HOURS,
+  type Delivery,
+} from "../_shared/sos-alerts.ts";
+
+// Records the alert as an sos_incidents row and every attempt to reach a
+// contact as an sos_incident_events row, so the user can see later who was
+// told and close the incident once they're safe. A new incident is also put
+// on the escalation ladder (see escalate-sos).
+serve(handler({ name: "send-sos", schema: sendSosRequestSchema, rateLimit: { limit: 10, windowSeconds: 600 } }, async ({ req, supabase, user, body }) => {
+  const { contacts, location, coordinates, accuracy, channels, source, incidentId } = body;
+  const sendsEmail = channels.includes("email");
+
+  const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+  if (sendsEmail && channels.length === 1 && !RESEND_API_KEY) {
+    throw new Error("RESEND_API_KEY is not configured");
   }
 
-  try {
-    const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
-    if (!RESEND_API_KEY) {
-      throw new Error("RESEND_API_KEY is not configured");
-    }
-
-    // IMPORTANT: for production you must use a verified domain in the From address.
-    // Set RESEND_FROM like: "SafeTrack SOS <noreply@your-verified-domain.com>"
-    const FROM = Deno.env.get("RESEND_FROM") || "SafeTrack SOS <onboarding@resend.dev>";
-
-    const { contacts, location, coordinates }: SOSRequest = await req.json();
-
-    if (!contacts || contacts.length === 0) {
-      return new Response(
-        JSON.stringify({ error: "No contacts provided" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const emailContacts = contacts.filter((c) => c.email);
-    if (emailContacts.length === 0) {
-      return new Response(
-        JSON.stringify({ error: "No contacts with email addresses" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const mapLink = coordinates 
-      ? `https://www.google.com/maps?q=${coordinates.lat},${coordinates.lng}`
-      : location;
-
-    const emailPromises = emailContacts.map(async (contact) => {
-      const response = await fetch("https://api.resend.com/emails", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${RESEND_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          from: FROM,
-          to: [contact.email],
-          subject: "🚨 EMERGENCY SOS ALERT - Immediate Attention Required",
-          html: `
-            <!DOCTYPE html>
-            <html>
-            <head>
-              <meta charset="utf-8">
-              <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            </head>
-            <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #0a0a0f; color: #ffffff;">
-              <div style="background: linear-gradient(135deg, #dc2626, #991b1b); padding: 30px; border-radius: 16px; text-align: center; margin-bottom: 20px;">
-                <h1 style="margin: 0; font-size: 28px; color: #ffffff;">🚨 EMERGENCY ALERT</h1>
-                <p style="margin: 10px 0 0; font-size: 16px; color: rgba(255,255,255,0.9);">Someone needs your help immediately</p>
-              </div>
-              
-              <div style="background-color: #1a1a2e; padding: 24px; border-radius: 12px; border: 1px solid #2d2d44;">
-                <p style="margin: 0 0 16px; font-size: 16px; color: #e5e5e5;">
-                  Dear ${contact.name},
-                </p>
-                <p style="margin: 0 0 20px; font-size: 16px; color: #e5e5e5;">
-                  This is an <strong style="color: #ef4444;">emergency SOS alert</strong> from SafeTrack. The user has triggered an emergency signal and may need immediate assistance.
-                </p>
-                
-                <div style="background-color: #0d0d15; padding: 20px; border-radius: 12px; margin: 20px 0;">
-                  <h3 style="margin: 0 0 12px; font-size: 14px; color: #9ca3af; text-transform: uppercase; letter-spacing: 1px;">Location</h3>
-                  ${coordinates ? `
-                    <p style="margin: 0 0 8px; font-size: 16px; color: #e5e5e5;">
-                      📍 ${coordinates.lat.toFixed(6)}°, ${coordinates.lng.toFixed(6)}°
-                    </p>
-                  ` : ''}
-                  <a href="${mapLink}" style="display: inline-block; background: linear-gradient(135deg, #8b5cf6, #6366f1); color: #ffffff; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 10px;">
-                    📍 View on Google Maps
-                  </a>
-                </div>
-                
-                <div style="background-color: #fef2f2; padding: 16px; border-radius: 8px; border-left: 4px solid #dc2626;">
-                  <p style="margin: 0; font-size: 14px; color: #991b1b;">
-                    <strong>Please take immediate action:</strong><br>
-                    • Try to contact the person directly<br>
-                    • If unreachable, consider contacting local emergency services<br>
-                    • Check the location link above for their last known position
-                  </p>
-                </div>
-              </div>
-              
-              <p style="text-align: center; font-size: 12px; color: #6b7280; margin-top: 20px;">
-                This alert was sent via SafeTrack Emergency SOS system.
-              </p>
-            </body>
-            </html>
-          `,
-        }),
-      });
-
-      if (!response.ok) {
-        let errText = await response.text();
-        try {
-          const parsed = JSON.parse(errText);
-          errText = parsed?.message || parsed?.error || errText;
-        } catch {
-          // keep as text
-        }
-        console.error(`Failed to send email to ${contact.email}:`, errText);
-        return { email: contact.email, success: false, error: errText };
-      }
+  // IMPORTANT: for production you must use a verified domain in the From address.
+  // Set RESEND_FROM like: "SafeTrack SOS <noreply@your-verified-domain.com>"
+  const FROM = Deno.env.get("RESEND_FROM") || "SafeTrack SOS <onboarding@resend.dev>";
+
+  // Priorities and channel preferences come from the stored contacts, not
+  // the request
+  const ids = contacts.flatMap((c) => (c.id ? [c.id] : []));
+  const { data: stored, error: storedError } = ids.length > 0
+    ? await supabase.from("emergency_contacts").select("id, priority, notify_via").eq("user_id", user.id).in("id", ids)
+    : { data: [], error: null };
+  if (storedError) throw new Error(`Failed to load emergency contacts: ${storedError.message}`);
+  const priorities = new Map((stored || []).map((c) => [c.id, c.priority]));
+  const preferences = new Map((stored || []).map((c) => [c.id, c.notify_via]));
+  const channelFor = (c: SosContact) =>
+    preferredChannel({ notify_via: (c.id && preferences.get(c.id)) || "email", email: c.email ?? null });
+
+  const emailContacts = sendsEmail
+    ? contacts.filter((c): c is SosContact & { email: string } => !!c.email && channelFor(c) === "email")
+    : [];
+  if (sendsEmail && channels.length === 1 && emailContacts.length === 0) {
+    throw new HttpError("invalid_request", "No contacts with email addresses");
+  }
 
-      return { email: contact.email, success: true };
+  type Incident = { id: string; channels: string[]; share_token: string | null; share_expires_at: string | null };
+  let incident: Incident;
+  if (incidentId) {
+    const { data, error } = await supabase
+      .from("sos_incidents")
+      .select("id, channels, share_token, share_expires_at")
+      .eq("id", incidentId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load SOS incident: ${error.message}`);
+    if (!data) throw new HttpError("not_found", "SOS incident not found");
+    incident = data;
+  } else {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("sos_escalation_minutes")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    const escalationMinutes = profile?.sos_escalation_minutes ?? 5;
+
+    const { data, error } = await supabase
+      .from("sos_incidents")
+      .insert({
+        user_id: user.id,
+        source,
+        latitude: coordinates?.lat ?? null,
+        longitude: coordinates?.lng ?? null,
+        accuracy_m: accuracy ?? null,
+        channels: [],
+        share_token: randomToken(),
+        share_expires_at: new Date(Date.now() + SHARE_HOURS * 3_600_000).toISOString(),
+        escalation_tier: priorities.size > 0 ? Math.min(...priorities.values()) : 1,
+        next_escalation_at: escalationMinutes > 0 ? new Date(Date.now() + escalationMinutes * 60_000).toISOString() : null,
+      })
+      .select("id, channels, share_token, share_expires_at")
+      .single();
+    if (error) throw new Error(`Failed to record SOS incident: ${error.message}`);
+    incident = data;
+
+    await supabase.from("sos_incident_events").insert({
+      incident_id: incident.id,
+      user_id: user.id,
+      kind: "triggered",
+      detail: location,
     });
-
-    const results = await Promise.all(emailPromises);
-    const successCount = results.filter((r) => r.success).length;
-
-    console.log(`SOS alerts sent: ${successCount}/${emailContacts.length}`);
-
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        sent: successCount, 
-        total: emailContacts.length,
-        results 
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  } catch (error) {
-    console.error("SOS function error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
   }
-});
+
+  const mapLink = coordinates 
+    ? `https://www.google.com/maps?q=${coordinates.lat},${coordinates.lng}`
+    : location;
+
+  // Contacts follow the live page rather than a one-off pin, and get their
+  // own link to say they've seen the alert, where there's somewhere to send them
+  const site = siteUrl(req);
+  const shareToken = liveToken(incident);
+  const liveLink = shareToken && site ? `${site}/live/${shareToken}` : null;
+  const tokens = await ackTokens(
+    supabase,
+    incident.id,
+    user.id,
+    contacts.flatMap((c) => (c.id && priorities.has(c.id) ? [{ id: c.id, name: c.name, priority: priorities.get(c.id)! }] : [])),
+  );
+  const ackLink = (contact: SosContact) => {
+    const token = contact.id ? tokens.get(contact.id) : undefined;
+    return token && site ? `${site}/ack/${token}` : null;
+  };
+
+  const sent = await Promise.all(emailContacts.map(async (contact) => ({
+    contact,
+    email: contact.email,
+    ...(RESEND_API_KEY
+      ? await sendSosEmail(
+        { apiKey: RESEND_API_KEY, from: FROM },
+        { to: contact.email, name: contact.name, coordinates, mapLink, liveLink, ackLink: ackLink(contact) },
+      )
+      : { success: false as const, error: "RESEND_API_KEY is not configured" }),
+  })));
+  const successCount = sent.filter((r) => r.success).length;
+
+  console.log(`SOS alerts sent: ${successCount}/${emailContacts.length}`);
+
+  // SMS and WhatsApp went out from the user's device; all we know is that the
+  // message was opened for these contacts, so success stays unknown
+  const deviceChannels = channels.filter((c): c is Exclude<SosChannel, "email"> => c !== "email");
+  const deliveries: Delivery[] = [
+    ...sent.map((r) => ({
+      channel: "email" as const,
+      contactId: r.contact.id ?? null,
+      contactName: r.contact.name,
+      success: r.success,
+      detail: "error" in r ? `${r.email}: ${r.error}` : r.email,
+    })),
+    ...deviceChannels.flatMap((channel) =>
+      contacts
+        .filter((c) => !!c.phone && channelFor(c) === channel)
+        .map((c) => ({ channel, contactId: c.id ?? null, contactName: c.name, success: null, detail: `Opened on device for ${c.phone}` })),
+    ),
+  ];
+  await recordDeliveries(supabase, incident, user.id, deliveries);
+
+  return {
+    success: true,
+    incidentId: incident.id,
+    shareToken,
+    ackTokens: Object.fromEntries(tokens),
+    sent: successCount,
+    total: emailContacts.length,
+    results: sent.map((r) => ({ email: r.email, success: r.success, ...("error" in r ? { error: r.error } : {}) })),
+  };
+}));
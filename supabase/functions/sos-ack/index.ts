@@ -0,0 +1,63 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { acknowledgeSosRequestSchema } from "../_shared/contracts.ts";
+import { handler, HttpError } from "../_shared/http.ts";
+import { liveToken } from "../_shared/sos-alerts.ts";
+
+// Behind the ack link each alerted contact gets. The first acknowledgment
+// moves an active incident to acknowledged, which stops the escalation ladder.
+// Opening the page only peeks, so link scanners in mail clients can't
+// acknowledge on the contact's behalf.
+serve(handler({ name: "sos-ack", auth: false, schema: acknowledgeSosRequestSchema, rateLimit: { limit: 60, windowSeconds: 600 } }, async ({ supabase, body }) => {
+  const { data: contact, error } = await supabase
+    .from("sos_incident_contacts")
+    .select("*")
+    .eq("ack_token", body.token)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load SOS contact: ${error.message}`);
+  if (!contact) throw new HttpError("not_found", "This link is no longer valid");
+
+  const { data: incident, error: incidentError } = await supabase
+    .from("sos_incidents")
+    .select("*")
+    .eq("id", contact.incident_id)
+    .single();
+  if (incidentError) throw new Error(`Failed to load SOS incident: ${incidentError.message}`);
+
+  let acknowledgedAt: string | null = contact.acknowledged_at;
+  let status = incident.status;
+  if (!body.peek && !acknowledgedAt) {
+    acknowledgedAt = new Date().toISOString();
+    await supabase.from("sos_incident_contacts").update({ acknowledged_at: acknowledgedAt }).eq("id", contact.id);
+    await supabase.from("sos_incident_events").insert({
+      incident_id: incident.id,
+      user_id: incident.user_id,
+      kind: "acknowledged",
+      contact_id: contact.contact_id,
+      contact_name: contact.contact_name,
+    });
+    if (status === "active") {
+      const { error: updateError } = await supabase
+        .from("sos_incidents")
+        .update({ status: "acknowledged", acknowledged_at: acknowledgedAt, next_escalation_at: null })
+        .eq("id", incident.id)
+        .eq("status", "active");
+      if (updateError) console.error("Failed to mark SOS acknowledged:", updateError.message);
+      else status = "acknowledged";
+    }
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("name")
+    .eq("user_id", incident.user_id)
+    .maybeSingle();
+
+  return {
+    name: profile?.name?.trim().split(/\s+/)[0] || null,
+    contactName: contact.contact_name,
+    status,
+    acknowledgedAt,
+    startedAt: incident.created_at,
+    shareToken: liveToken(incident),
+  };
+}));
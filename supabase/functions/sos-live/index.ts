@@ -0,0 +1,62 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { sosLiveRequestSchema } from "../_shared/contracts.ts";
+import { handler, HttpError } from "../_shared/http.ts";
+
+// Most recent tracked points shown on the public page
+const TRAIL_LIMIT = 500;
+
+// Backs the public tracking page an SOS alert links to. The token is the only
+// credential, so an unknown or expired one gets the same answer.
+serve(handler({ name: "sos-live", auth: false, schema: sosLiveRequestSchema, rateLimit: { limit: 240, windowSeconds: 600 } }, async ({ supabase, body }) => {
+  const { data: incident, error } = await supabase
+    .from("sos_incidents")
+    .select("*")
+    .eq("share_token", body.token)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load SOS incident: ${error.message}`);
+  if (!incident || !incident.share_expires_at || new Date(incident.share_expires_at).getTime() <= Date.now()) {
+    throw new HttpError("not_found", "This tracking link has expired");
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("name")
+    .eq("user_id", incident.user_id)
+    .maybeSingle();
+
+  let trailQuery = supabase
+    .from("location_logs")
+    .select("latitude, longitude, created_at")
+    .eq("user_id", incident.user_id)
+    .gte("created_at", incident.created_at);
+  if (incident.resolved_at) trailQuery = trailQuery.lte("created_at", incident.resolved_at);
+  const { data: logs, error: logsError } = await trailQuery
+    .order("created_at", { ascending: false })
+    .limit(TRAIL_LIMIT);
+  if (logsError) throw new Error(`Failed to load location trail: ${logsError.message}`);
+
+  // Until the tracking loop reports in, the position the SOS was sent from
+  const live = incident.live_updated_at !== null;
+  const latitude = live ? incident.live_latitude : incident.latitude;
+  const longitude = live ? incident.live_longitude : incident.longitude;
+
+  return {
+    name: profile?.name?.trim().split(/\s+/)[0] || null,
+    status: incident.status,
+    startedAt: incident.created_at,
+    resolvedAt: incident.resolved_at,
+    expiresAt: incident.share_expires_at,
+    position: latitude !== null && longitude !== null
+      ? {
+        latitude,
+        longitude,
+        accuracy: live ? incident.live_accuracy_m : incident.accuracy_m,
+        updatedAt: live ? incident.live_updated_at : incident.created_at,
+      }
+      : null,
+    battery: incident.battery_level !== null
+      ? { level: incident.battery_level, charging: incident.battery_charging }
+      : null,
+    trail: (logs || []).reverse().map((l) => ({ latitude: l.latitude, longitude: l.longitude, at: l.created_at })),
+  };
+}));
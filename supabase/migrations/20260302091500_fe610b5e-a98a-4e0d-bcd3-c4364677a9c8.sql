@@ -0,0 +1,44 @@
+-- Places discovered automatically by clustering raw location_logs into stay points
+CREATE TABLE public.discovered_places (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  radius_m DOUBLE PRECISION NOT NULL DEFAULT 100,
+  visit_count INTEGER NOT NULL DEFAULT 0,
+  total_dwell_minutes INTEGER NOT NULL DEFAULT 0,
+  avg_dwell_minutes INTEGER NOT NULL DEFAULT 0,
+  first_seen_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  label TEXT,
+  dismissed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_discovered_places_user ON public.discovered_places (user_id);
+
+-- Enable RLS on discovered_places
+ALTER TABLE public.discovered_places ENABLE ROW LEVEL SECURITY;
+
+-- Discovered places RLS policies
+CREATE POLICY "Users can view their own discovered places"
+  ON public.discovered_places FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own discovered places"
+  ON public.discovered_places FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own discovered places"
+  ON public.discovered_places FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own discovered places"
+  ON public.discovered_places FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_discovered_places_updated_at
+  BEFORE UPDATE ON public.discovered_places
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,16 @@
+-- Track whether each stored prediction came true
+ALTER TABLE public.predictions ADD COLUMN IF NOT EXISTS prediction_method text;
+ALTER TABLE public.predictions ADD COLUMN IF NOT EXISTS method_key text;
+ALTER TABLE public.predictions ADD COLUMN IF NOT EXISTS context_label text;
+ALTER TABLE public.predictions ADD COLUMN IF NOT EXISTS outcome text NOT NULL DEFAULT 'pending'
+  CHECK (outcome IN ('pending', 'hit', 'miss', 'expired'));
+ALTER TABLE public.predictions ADD COLUMN IF NOT EXISTS actual_label text;
+ALTER TABLE public.predictions ADD COLUMN IF NOT EXISTS actual_lat double precision;
+ALTER TABLE public.predictions ADD COLUMN IF NOT EXISTS actual_lng double precision;
+ALTER TABLE public.predictions ADD COLUMN IF NOT EXISTS resolved_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_predictions_user_outcome ON public.predictions (user_id, outcome);
+
+CREATE POLICY "Users can update their own predictions"
+  ON public.predictions FOR UPDATE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- IANA time zone used for location_logs.hour/day and for "now" in predictions
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS timezone text;
+
+-- Predictions read the most recent window of history
+CREATE INDEX IF NOT EXISTS idx_location_logs_user_created_at ON public.location_logs (user_id, created_at DESC);
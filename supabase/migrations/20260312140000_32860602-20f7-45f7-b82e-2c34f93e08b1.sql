@@ -0,0 +1,37 @@
+-- Routine deviation alerts raised by check-routine
+CREATE TABLE public.routine_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('unexpected_place', 'unexpected_hour', 'missed_arrival')),
+  label TEXT,
+  score DOUBLE PRECISION NOT NULL,
+  message TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  contacts_notified INTEGER NOT NULL DEFAULT 0,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_routine_alerts_user_created ON public.routine_alerts (user_id, created_at DESC);
+
+-- Enable RLS on routine_alerts
+ALTER TABLE public.routine_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Routine alerts RLS policies
+CREATE POLICY "Users can view their own routine alerts"
+  ON public.routine_alerts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own routine alerts"
+  ON public.routine_alerts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own routine alerts"
+  ON public.routine_alerts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Per-user alert preferences
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS routine_alerts_enabled boolean NOT NULL DEFAULT true;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS routine_alert_threshold double precision NOT NULL DEFAULT 0.7;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS routine_alert_notify_contacts boolean NOT NULL DEFAULT false;
@@ -0,0 +1,80 @@
+-- Canonical place labels: aliases plus an optional fixed coordinate and radius
+CREATE TABLE public.place_labels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  radius_m DOUBLE PRECISION,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, name)
+);
+
+-- Enable RLS on place_labels
+ALTER TABLE public.place_labels ENABLE ROW LEVEL SECURITY;
+
+-- Place labels RLS policies
+CREATE POLICY "Users can view their own place labels"
+  ON public.place_labels FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own place labels"
+  ON public.place_labels FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own place labels"
+  ON public.place_labels FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own place labels"
+  ON public.place_labels FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_place_labels_updated_at
+  BEFORE UPDATE ON public.place_labels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Labels are compared case- and whitespace-insensitively everywhere
+CREATE OR REPLACE FUNCTION public.location_label_counts(p_user_id uuid)
+RETURNS TABLE (label text, visits bigint, last_seen_at timestamp with time zone) AS $$
+  SELECT lower(trim(l.label)), count(*), max(l.created_at)
+  FROM public.location_logs l
+  WHERE l.user_id = p_user_id AND l.label IS NOT NULL AND trim(l.label) <> ''
+  GROUP BY lower(trim(l.label));
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.rename_location_label(p_user_id uuid, p_from text, p_to text)
+RETURNS integer AS $$
+DECLARE
+  affected integer;
+BEGIN
+  UPDATE public.location_logs SET label = p_to
+  WHERE user_id = p_user_id AND lower(trim(label)) = p_from;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+
+  UPDATE public.discovered_places SET label = p_to
+  WHERE user_id = p_user_id AND lower(trim(label)) = p_from;
+
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.delete_location_label(p_user_id uuid, p_label text)
+RETURNS integer AS $$
+DECLARE
+  affected integer;
+BEGIN
+  DELETE FROM public.location_logs
+  WHERE user_id = p_user_id AND lower(trim(label)) = p_label;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+
+  -- Keep the cluster but forget its name; it will be offered for naming again
+  UPDATE public.discovered_places SET label = NULL
+  WHERE user_id = p_user_id AND lower(trim(label)) = p_label;
+
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,90 @@
+-- User-defined geofences: a circle (center + radius) or a polygon of {lat, lng} vertices
+CREATE TABLE public.geofences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  shape TEXT NOT NULL DEFAULT 'circle' CHECK (shape IN ('circle', 'polygon')),
+  center_lat DOUBLE PRECISION,
+  center_lng DOUBLE PRECISION,
+  radius_m DOUBLE PRECISION,
+  polygon JSONB,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CHECK (
+    (shape = 'circle' AND center_lat IS NOT NULL AND center_lng IS NOT NULL AND radius_m > 0)
+    OR (shape = 'polygon' AND jsonb_typeof(polygon) = 'array' AND jsonb_array_length(polygon) >= 3)
+  )
+);
+
+-- Entry/exit transitions, one row per crossing
+CREATE TABLE public.geofence_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  geofence_id UUID REFERENCES public.geofences(id) ON DELETE CASCADE NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('enter', 'exit')),
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_geofence_events_user_created_at ON public.geofence_events (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.geofences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.geofence_events ENABLE ROW LEVEL SECURITY;
+
+-- Geofences RLS policies
+CREATE POLICY "Users can view their own geofences"
+  ON public.geofences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own geofences"
+  ON public.geofences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own geofences"
+  ON public.geofences FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own geofences"
+  ON public.geofences FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Geofence events RLS policies
+CREATE POLICY "Users can view their own geofence events"
+  ON public.geofence_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own geofence events"
+  ON public.geofence_events FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own geofence events"
+  ON public.geofence_events FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_geofences_updated_at
+  BEFORE UPDATE ON public.geofences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A geofence labels logs with its name, so renaming a label renames its fences too
+CREATE OR REPLACE FUNCTION public.rename_location_label(p_user_id uuid, p_from text, p_to text)
+RETURNS integer AS $$
+DECLARE
+  affected integer;
+BEGIN
+  UPDATE public.location_logs SET label = p_to
+  WHERE user_id = p_user_id AND lower(trim(label)) = p_from;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+
+  UPDATE public.discovered_places SET label = p_to
+  WHERE user_id = p_user_id AND lower(trim(label)) = p_from;
+
+  UPDATE public.geofences SET name = p_to
+  WHERE user_id = p_user_id AND lower(trim(name)) = p_from;
+
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,36 @@
+-- Fixed-window request counters for edge-function rate limits. Only the
+-- functions (service role) touch this table, so RLS is on with no policies.
+CREATE TABLE public.function_rate_limits (
+  key TEXT NOT NULL,
+  bucket TEXT NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, bucket, window_start)
+);
+
+ALTER TABLE public.function_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Counts one request against key/bucket and returns the hits in the current
+-- window, clearing out earlier windows for the same key as it goes.
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(p_key text, p_bucket text, p_window_seconds integer)
+RETURNS integer AS $$
+DECLARE
+  current_window timestamptz;
+  hits_now integer;
+BEGIN
+  current_window := to_timestamp(floor(extract(epoch FROM now()) / p_window_seconds) * p_window_seconds);
+
+  INSERT INTO public.function_rate_limits (key, bucket, window_start, hits)
+  VALUES (p_key, p_bucket, current_window, 1)
+  ON CONFLICT (key, bucket, window_start)
+  DO UPDATE SET hits = function_rate_limits.hits + 1
+  RETURNING hits INTO hits_now;
+
+  DELETE FROM public.function_rate_limits
+  WHERE key = p_key AND bucket = p_bucket AND window_start < current_window;
+
+  RETURN hits_now;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.hit_rate_limit(text, text, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,33 @@
+-- Queued points are uploaded with the time they were recorded and may be sent
+-- more than once (a retry after a lost response). One row per user per
+-- instant lets the client upsert with ON CONFLICT DO NOTHING.
+
+-- Rows dropped as duplicates below are kept here, untouched, in case one of
+-- them turns out to have mattered. Only the service role can read them.
+CREATE TABLE public.location_logs_duplicates (
+  LIKE public.location_logs,
+  archived_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.location_logs_duplicates ENABLE ROW LEVEL SECURITY;
+
+-- Of each set, the labeled row is kept if there is one, then the first
+-- uploaded
+WITH ranked AS (
+  SELECT id, row_number() OVER (
+    PARTITION BY user_id, created_at
+    ORDER BY (label IS NOT NULL AND trim(label) <> '') DESC, timestamp, id
+  ) AS rank
+  FROM public.location_logs
+),
+removed AS (
+  DELETE FROM public.location_logs l
+  USING ranked r
+  WHERE l.id = r.id AND r.rank > 1
+  RETURNING l.*
+)
+INSERT INTO public.location_logs_duplicates
+SELECT removed.*, now() FROM removed;
+
+DROP INDEX IF EXISTS public.idx_location_logs_user_created_at;
+CREATE UNIQUE INDEX idx_location_logs_user_created_at ON public.location_logs (user_id, created_at);
@@ -0,0 +1,46 @@
+-- Stays and the trips between them, derived from location_logs by the
+-- segment-trips function. Rows are rebuilt from raw points, so users can only
+-- read them; the function writes with the service role.
+CREATE TABLE public.stays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  label TEXT,
+  duration_min INTEGER NOT NULL,
+  point_count INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, started_at)
+);
+
+CREATE TABLE public.trips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  from_label TEXT,
+  to_label TEXT,
+  distance_km DOUBLE PRECISION NOT NULL,
+  duration_min INTEGER NOT NULL,
+  avg_speed_kmh DOUBLE PRECISION NOT NULL,
+  max_speed_kmh DOUBLE PRECISION NOT NULL,
+  mode TEXT NOT NULL CHECK (mode IN ('walk', 'cycle', 'vehicle')),
+  -- [{latitude, longitude, at}] from leaving one stay to reaching the next
+  path JSONB NOT NULL DEFAULT '[]'::jsonb,
+  point_count INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, started_at)
+);
+
+ALTER TABLE public.stays ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.trips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stays"
+  ON public.stays FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own trips"
+  ON public.trips FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,79 @@
+-- SOS incidents: one row per emergency, from the moment SOS is sent until the
+-- user marks it resolved or a false alarm. send-sos creates the incident and
+-- records every delivery attempt as an event; status changes are added to the
+-- events by trigger, so sos_incident_events is the incident's timeline.
+CREATE TABLE public.sos_incidents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('button', 'sos_page')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'acknowledged', 'resolved', 'false_alarm')),
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m DOUBLE PRECISION,
+  -- Every channel attempted so far: email, sms, whatsapp
+  channels TEXT[] NOT NULL DEFAULT '{}',
+  contacts_notified INTEGER NOT NULL DEFAULT 0,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_sos_incidents_user_created ON public.sos_incidents (user_id, created_at DESC);
+
+CREATE TABLE public.sos_incident_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID REFERENCES public.sos_incidents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('triggered', 'delivery', 'status')),
+  channel TEXT CHECK (channel IN ('email', 'sms', 'whatsapp')),
+  contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  -- Kept so the timeline still reads right after a contact is deleted
+  contact_name TEXT,
+  success BOOLEAN,
+  -- Error text for a failed delivery, the new status for a status change
+  detail TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_sos_incident_events_incident ON public.sos_incident_events (incident_id, created_at);
+
+-- Enable RLS on SOS tables
+ALTER TABLE public.sos_incidents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sos_incident_events ENABLE ROW LEVEL SECURITY;
+
+-- Incidents are created by send-sos; users read them and change their status
+CREATE POLICY "Users can view their own SOS incidents"
+  ON public.sos_incidents FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own SOS incidents"
+  ON public.sos_incidents FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Events are only ever written by send-sos and the trigger below
+CREATE POLICY "Users can view their own SOS incident events"
+  ON public.sos_incident_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_sos_incidents_updated_at
+  BEFORE UPDATE ON public.sos_incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.log_sos_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.sos_incident_events (incident_id, user_id, kind, detail)
+    VALUES (NEW.id, NEW.user_id, 'status', NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_sos_incidents_status
+  AFTER UPDATE OF status ON public.sos_incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_sos_status_change();
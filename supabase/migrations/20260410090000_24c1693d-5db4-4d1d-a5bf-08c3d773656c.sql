@@ -0,0 +1,36 @@
+-- Live location sharing for SOS incidents. send-sos gives each new incident
+-- a random share token; anyone holding it can follow the incident through
+-- the public sos-live function until the link expires. The user's tracking
+-- loop keeps the live_* columns current while the incident is open.
+ALTER TABLE public.sos_incidents
+  ADD COLUMN share_token TEXT UNIQUE,
+  ADD COLUMN share_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN live_latitude DOUBLE PRECISION,
+  ADD COLUMN live_longitude DOUBLE PRECISION,
+  ADD COLUMN live_accuracy_m DOUBLE PRECISION,
+  ADD COLUMN live_updated_at TIMESTAMP WITH TIME ZONE,
+  -- 0 to 1, where the browser reports it
+  ADD COLUMN battery_level DOUBLE PRECISION CHECK (battery_level >= 0 AND battery_level <= 1),
+  ADD COLUMN battery_charging BOOLEAN;
+
+-- Once an incident is resolved or a false alarm, its shared position stays
+-- where it was, whatever the client sends
+CREATE OR REPLACE FUNCTION public.freeze_closed_sos_location()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IN ('resolved', 'false_alarm') THEN
+    NEW.live_latitude := OLD.live_latitude;
+    NEW.live_longitude := OLD.live_longitude;
+    NEW.live_accuracy_m := OLD.live_accuracy_m;
+    NEW.live_updated_at := OLD.live_updated_at;
+    NEW.battery_level := OLD.battery_level;
+    NEW.battery_charging := OLD.battery_charging;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER freeze_closed_sos_incidents_location
+  BEFORE UPDATE ON public.sos_incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.freeze_closed_sos_location();
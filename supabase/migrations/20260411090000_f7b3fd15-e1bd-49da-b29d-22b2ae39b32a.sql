@@ -0,0 +1,47 @@
+-- SOS acknowledgment and escalation. Contacts are alerted a priority tier at
+-- a time; each alerted contact gets a link to say they've seen it. If no one
+-- acknowledges within the user's escalation window, escalate-sos re-sends to
+-- the tier, then moves to the next one, and finally tells the user to call
+-- emergency services.
+ALTER TABLE public.emergency_contacts
+  -- 1 is alerted first
+  ADD COLUMN priority INTEGER NOT NULL DEFAULT 1 CHECK (priority BETWEEN 1 AND 3),
+  ADD COLUMN notify_via TEXT NOT NULL DEFAULT 'email' CHECK (notify_via IN ('email', 'sms', 'whatsapp'));
+
+-- Minutes to wait for an acknowledgment before escalating; 0 turns it off
+ALTER TABLE public.profiles
+  ADD COLUMN sos_escalation_minutes INTEGER NOT NULL DEFAULT 5 CHECK (sos_escalation_minutes BETWEEN 0 AND 60);
+
+ALTER TABLE public.sos_incidents
+  -- Priority tier alerted most recently, and whether it has had its re-send
+  ADD COLUMN escalation_tier INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN escalation_resent BOOLEAN NOT NULL DEFAULT false,
+  -- null once acknowledged, closed, or out of steps
+  ADD COLUMN next_escalation_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.sos_incident_events
+  DROP CONSTRAINT sos_incident_events_kind_check,
+  ADD CONSTRAINT sos_incident_events_kind_check
+    CHECK (kind IN ('triggered', 'delivery', 'status', 'acknowledged', 'escalated'));
+
+-- One row per contact alerted for an incident, holding their ack link token
+CREATE TABLE public.sos_incident_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID REFERENCES public.sos_incidents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  contact_name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 1,
+  ack_token TEXT NOT NULL UNIQUE,
+  alerted_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (incident_id, contact_id)
+);
+
+ALTER TABLE public.sos_incident_contacts ENABLE ROW LEVEL SECURITY;
+
+-- Written by send-sos, escalate-sos and sos-ack only
+CREATE POLICY "Users can view their own SOS incident contacts"
+  ON public.sos_incident_contacts FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,37 @@
+-- Escalates SOS incidents on the server, so the ladder keeps going when the
+-- user's app isn't open. pg_cron calls escalate-sos-sweep every minute; the
+-- function URL and the shared secret come from Vault and are set once per
+-- project:
+--
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<same value as SOS_SWEEP_SECRET>', 'sos_sweep_secret');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Set once every tier has been tried and the user was told to call
+-- emergency services
+ALTER TABLE public.sos_incidents
+  ADD COLUMN escalation_exhausted BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_sos_incidents_next_escalation
+  ON public.sos_incidents (next_escalation_at)
+  WHERE status = 'active' AND next_escalation_at IS NOT NULL;
+
+SELECT cron.schedule(
+  'escalate-sos-sweep',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/escalate-sos-sweep',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-sweep-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'sos_sweep_secret')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.sos_incidents
+    WHERE status = 'active' AND next_escalation_at <= now()
+  );
+  $$
+);
@@ -0,0 +1,68 @@
+-- Users could update any column of their own SOS incidents, including the
+-- share token, escalation state and delivery counts the functions rely on.
+-- The two things the app actually changes go through functions instead:
+-- closing the incident, and keeping its live position current.
+DROP POLICY "Users can update their own SOS incidents" ON public.sos_incidents;
+
+-- Resolved or a false alarm; an incident that is already closed stays as it was
+CREATE OR REPLACE FUNCTION public.close_sos_incident(p_incident_id uuid, p_status text, p_note text DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  IF p_status NOT IN ('resolved', 'false_alarm') THEN
+    RAISE EXCEPTION 'Invalid status: %', p_status;
+  END IF;
+
+  UPDATE public.sos_incidents
+  SET status = p_status,
+      resolved_at = now(),
+      next_escalation_at = NULL,
+      resolution_note = COALESCE(p_note, resolution_note)
+  WHERE id = p_incident_id
+    AND user_id = auth.uid()
+    AND status IN ('active', 'acknowledged');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No open SOS incident %', p_incident_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the live_* and battery columns, and only while the incident is open.
+-- Returns the incident's status so the caller knows when to stop, or null
+-- when there's no such incident.
+CREATE OR REPLACE FUNCTION public.share_sos_location(
+  p_incident_id uuid,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_recorded_at timestamp with time zone,
+  p_accuracy_m double precision DEFAULT NULL,
+  p_battery_level double precision DEFAULT NULL,
+  p_battery_charging boolean DEFAULT NULL
+)
+RETURNS text AS $$
+DECLARE
+  current_status text;
+BEGIN
+  SELECT status INTO current_status
+  FROM public.sos_incidents
+  WHERE id = p_incident_id AND user_id = auth.uid();
+
+  IF current_status IN ('active', 'acknowledged') THEN
+    UPDATE public.sos_incidents
+    SET live_latitude = p_latitude,
+        live_longitude = p_longitude,
+        live_accuracy_m = p_accuracy_m,
+        live_updated_at = p_recorded_at,
+        battery_level = COALESCE(p_battery_level, battery_level),
+        battery_charging = COALESCE(p_battery_charging, battery_charging)
+    WHERE id = p_incident_id;
+  END IF;
+
+  RETURN current_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.close_sos_incident(uuid, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.share_sos_location(uuid, double precision, double precision, timestamp with time zone, double precision, double precision, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.close_sos_incident(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.share_sos_location(uuid, double precision, double precision, timestamp with time zone, double precision, double precision, boolean) TO authenticated;
@@ -0,0 +1,83 @@
+-- Renaming and merging labels touched the logs, then the label definitions,
+-- in separate statements; a failure in between left the logs renamed and the
+-- old definition behind. The whole fold now runs in one function, and so one
+-- transaction. Merges pass every source at once.
+DROP FUNCTION public.rename_location_label(uuid, text, text);
+
+-- Moves the `p_from` labels (their logs, places, fences, aliases and pinned
+-- location) onto `p_to`. With `p_keep_as_alias`, the old names keep resolving
+-- to the new one.
+CREATE OR REPLACE FUNCTION public.rename_location_label(
+  p_user_id uuid,
+  p_from text[],
+  p_to text,
+  p_keep_as_alias boolean DEFAULT false
+)
+RETURNS integer AS $$
+DECLARE
+  affected integer;
+  merged_aliases text[];
+  pinned public.place_labels%ROWTYPE;
+BEGIN
+  UPDATE public.location_logs SET label = p_to
+  WHERE user_id = p_user_id AND lower(trim(label)) = ANY (p_from);
+  GET DIAGNOSTICS affected = ROW_COUNT;
+
+  UPDATE public.discovered_places SET label = p_to
+  WHERE user_id = p_user_id AND lower(trim(label)) = ANY (p_from);
+
+  UPDATE public.geofences SET name = p_to
+  WHERE user_id = p_user_id AND lower(trim(name)) = ANY (p_from);
+
+  SELECT coalesce(array_agg(DISTINCT alias), '{}') INTO merged_aliases
+  FROM (
+    SELECT unnest(aliases) AS alias
+    FROM public.place_labels
+    WHERE user_id = p_user_id AND (name = p_to OR name = ANY (p_from))
+    UNION
+    SELECT unnest(p_from) WHERE p_keep_as_alias
+  ) AS all_aliases
+  WHERE alias <> p_to;
+
+  -- The target's pinned location wins, then the first source that has one
+  SELECT * INTO pinned
+  FROM public.place_labels
+  WHERE user_id = p_user_id AND (name = p_to OR name = ANY (p_from)) AND latitude IS NOT NULL
+  ORDER BY name = p_to DESC, array_position(p_from, name)
+  LIMIT 1;
+
+  DELETE FROM public.place_labels
+  WHERE user_id = p_user_id AND name = ANY (p_from) AND name <> p_to;
+
+  INSERT INTO public.place_labels (user_id, name, aliases, latitude, longitude, radius_m)
+  VALUES (p_user_id, p_to, merged_aliases, pinned.latitude, pinned.longitude, pinned.radius_m)
+  ON CONFLICT (user_id, name) DO UPDATE
+  SET aliases = EXCLUDED.aliases,
+      latitude = EXCLUDED.latitude,
+      longitude = EXCLUDED.longitude,
+      radius_m = EXCLUDED.radius_m;
+
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- The label's definition goes with its history
+CREATE OR REPLACE FUNCTION public.delete_location_label(p_user_id uuid, p_label text)
+RETURNS integer AS $$
+DECLARE
+  affected integer;
+BEGIN
+  DELETE FROM public.location_logs
+  WHERE user_id = p_user_id AND lower(trim(label)) = p_label;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+
+  -- Keep the cluster but forget its name; it will be offered for naming again
+  UPDATE public.discovered_places SET label = NULL
+  WHERE user_id = p_user_id AND lower(trim(label)) = p_label;
+
+  DELETE FROM public.place_labels
+  WHERE user_id = p_user_id AND name = p_label;
+
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
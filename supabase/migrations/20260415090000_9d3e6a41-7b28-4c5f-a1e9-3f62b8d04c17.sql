@@ -0,0 +1,34 @@
+-- segment-trips resumes from the end of the latest stay, so points recorded
+-- before it but uploaded later (an import, an offline queue flushed after a
+-- day without signal) would never be segmented. Every insert marks the
+-- earliest point it added here; segment-trips rebuilds from the stay that
+-- point falls in, then clears the mark. Only the service role reads it.
+CREATE TABLE public.segmentation_state (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  dirty_from TIMESTAMP WITH TIME ZONE,
+  -- Changes on every insert, so a run only clears a mark nothing has moved since
+  marked_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.segmentation_state ENABLE ROW LEVEL SECURITY;
+
+-- Once per statement, so a batch upload or an import is one upsert per user
+CREATE OR REPLACE FUNCTION public.mark_logs_for_segmentation()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.segmentation_state AS s (user_id, dirty_from, marked_at)
+  SELECT user_id, min(created_at), clock_timestamp()
+  FROM new_logs
+  GROUP BY user_id
+  ON CONFLICT (user_id) DO UPDATE
+  SET dirty_from = LEAST(s.dirty_from, EXCLUDED.dirty_from),
+      marked_at = EXCLUDED.marked_at;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER mark_location_logs_for_segmentation
+  AFTER INSERT ON public.location_logs
+  REFERENCING NEW TABLE AS new_logs
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.mark_logs_for_segmentation();